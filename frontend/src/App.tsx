@@ -1,34 +1,75 @@
 import { useState, useCallback, useRef, useEffect } from 'react'
-import { FileUpload, PreviewTable, ImportProgressBar, DataTable, RecentJobs } from './components'
-import { importApi, jobsApi, type FilePreview, type ImportProgress, type ImportJob } from './api'
+import { FileUpload, StagingList, ImportProgressBar, DataTable, DataProfilePanel, FailuresTable, RecentJobs, JobHistory, JobComparisonView, JobControls, JobLoadPanel, ProfileList, RuleViolationSummary, getSchemaKey } from './components'
+import type { StagedFile, StagedFileOptions } from './components'
+import { importApi, jobsApi, uploadApi, profilesApi, toImportProgress, type ImportProgress, type ImportJob, type ImportOptions, type ImportProfile, type ColumnDefinition, type FilePreview } from './api'
+import { canPreviewLocally, previewLocally, toSampleFile, extrapolateRows } from './localPreview'
+import { applyProfileColumns, fromProfileOptions, toProfileOptions } from './profiles'
+import { navigate, matchPath, useLocation } from './router'
 
-type AppState = 'upload' | 'preview' | 'viewing'
+type AppState = 'upload' | 'preview' | 'viewing' | 'history' | 'profiles' | 'compare'
+type ViewTab = 'data' | 'failures' | 'profile'
+
+const VIEW_TAB_LABELS: Record<ViewTab, string> = { data: 'Records', profile: 'Profile', failures: 'Failures' }
+
+// Staged file options that change how the file is read, so the preview must be reloaded
+const LAYOUT_OPTIONS = ['delimiter', 'quote', 'hasHeader', 'encoding', 'headerRowOffset', 'skipRows', 'explodeArrays', 'recordPath', 'fixedWidth'] as const
 
 interface ActiveImport {
   id: string
+  jobId?: string
   fileName: string
   progress: ImportProgress
+  upload: { uploadedBytes: number; totalBytes: number }
   startTime: number
   elapsedTime: number
 }
 
 export default function App() {
-  const [state, setState] = useState<AppState>('upload')
-  const [selectedFile, setSelectedFile] = useState<File | null>(null)
-  const [preview, setPreview] = useState<FilePreview | null>(null)
-  const [selectedJobId, setSelectedJobId] = useState<string | null>(null)
-  const [isLoading, setIsLoading] = useState(false)
+  const [stagedFiles, setStagedFiles] = useState<StagedFile[]>([])
+  const [activeFileId, setActiveFileId] = useState<string | null>(null)
+  const [shareOptions, setShareOptions] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [refreshTrigger, setRefreshTrigger] = useState(0)
+  // Bumped when a file finishes loading into the job being viewed, so its tabs reload
+  const [jobLoadCount, setJobLoadCount] = useState(0)
+  // Upload size limit set on the server; files are not checked against it until it is known
+  const [maxFileSizeMB, setMaxFileSizeMB] = useState<number>()
   
   // Multiple active imports
   const [activeImports, setActiveImports] = useState<ActiveImport[]>([])
-  const pollingRefs = useRef<Map<string, NodeJS.Timeout>>(new Map())
-  const timerRef = useRef<NodeJS.Timeout | null>(null)
+  const subscriptionsRef = useRef<Map<string, () => void>>(new Map())
+  const previewRequestsRef = useRef<Map<string, number>>(new Map())
+  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null)
+
+  // Navigation state comes from the URL so pages survive reloads and can be shared
+  const { pathname } = useLocation()
+  const failuresRoute = matchPath('/jobs/:id/failures', pathname)
+  const profileRoute = matchPath('/jobs/:id/profile', pathname)
+  const selectedJobId = (failuresRoute ?? profileRoute ?? matchPath('/jobs/:id', pathname))?.id ?? null
+  const viewTab: ViewTab = failuresRoute ? 'failures' : profileRoute ? 'profile' : 'data'
+  const state: AppState = selectedJobId
+    ? 'viewing'
+    : pathname === '/history'
+    ? 'history'
+    : pathname === '/profiles'
+    ? 'profiles'
+    : pathname === '/compare'
+    ? 'compare'
+    : pathname === '/preview' && stagedFiles.length > 0
+    ? 'preview'
+    : 'upload'
 
-  // Import options
-  const [delimiter, setDelimiter] = useState<string>(',')
-  const [hasHeader, setHasHeader] = useState<boolean>(true)
+  useEffect(() => {
+    importApi
+      .formats()
+      .then((formats) => setMaxFileSizeMB(formats.maxFileSizeMB))
+      .catch(() => {})
+  }, [])
+
+  // Staged files only live in memory, so a reloaded or emptied preview falls back to upload
+  useEffect(() => {
+    if (pathname === '/preview' && stagedFiles.length === 0) navigate('/', { replace: true })
+  }, [pathname, stagedFiles.length])
 
   // Timer effect for elapsed time of all active imports
   useEffect(() => {
@@ -50,146 +91,316 @@ export default function App() {
     }
   }, [activeImports.length])
 
-  // Cleanup polling on unmount
+  // Close progress subscriptions on unmount
   useEffect(() => {
+    const subscriptions = subscriptionsRef.current
     return () => {
-      pollingRefs.current.forEach(timeout => clearTimeout(timeout))
+      subscriptions.forEach(unsubscribe => unsubscribe())
       if (timerRef.current) clearInterval(timerRef.current)
     }
   }, [])
 
-  const handleFileSelect = useCallback(async (file: File) => {
-    setSelectedFile(file)
-    setError(null)
-    setIsLoading(true)
+  const updateStagedFile = useCallback((id: string, changes: Partial<StagedFile>) => {
+    setStagedFiles(prev => prev.map(f => (f.id === id ? { ...f, ...changes } : f)))
+  }, [])
 
-    try {
-      const previewData = await importApi.preview(file, { delimiter, hasHeader })
-      setPreview(previewData)
-      setState('preview')
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to preview file')
-    } finally {
-      setIsLoading(false)
+  const loadPreview = useCallback(async (staged: StagedFile) => {
+    // Options can change while a preview is loading, so only the latest request may update the file
+    const request = (previewRequestsRef.current.get(staged.id) ?? 0) + 1
+    previewRequestsRef.current.set(staged.id, request)
+    const isLatest = () => previewRequestsRef.current.get(staged.id) === request
+
+    updateStagedFile(staged.id, { status: 'loading', error: undefined })
+
+    const options: ImportOptions = {
+      delimiter: staged.delimiter,
+      quote: staged.quote,
+      hasHeader: staged.hasHeader,
+      encoding: staged.encoding,
+      headerRowOffset: staged.headerRowOffset,
+      skipRows: staged.skipRows,
+      explodeArrays: staged.explodeArrays,
+      recordPath: staged.recordPath,
+      fixedWidth: staged.fixedWidth,
+      // Sheets imported separately share one mapping, so the first one stands in for all
+      sheets: staged.splitSheets ? staged.sheets.slice(0, 1) : staged.sheets,
+      // Archive entries are always imported separately, likewise previewed by the first
+      entries: staged.entries.slice(0, 1)
     }
-  }, [delimiter, hasHeader])
 
-  const handleImport = useCallback(async () => {
-    if (!selectedFile) return
+    try {
+      // Text files are shown from a local parse of their first chunk right away,
+      // then only that sample is sent for the server's schema detection; the local parse only reads delimited text
+      let previewFile = staged.file
+      if (canPreviewLocally(staged.file) && !staged.fixedWidth) {
+        try {
+          const local = await previewLocally(staged.file, options)
+          if (!isLatest()) return
+          updateStagedFile(staged.id, { preview: local.preview, columns: withProfileColumns(staged, local.preview.detectedColumns) })
+          previewFile = toSampleFile(staged.file, local.sampleBytes)
+        } catch {
+          // Fall back to a server preview of the whole file
+        }
+      }
 
-    const fileToImport = selectedFile
-    const currentDelimiter = delimiter
-    const currentHasHeader = hasHeader
+      const previewData = await importApi.preview(previewFile, options)
+      if (!isLatest()) return
+
+      const isSample = previewFile.size < staged.file.size
+      updateStagedFile(staged.id, {
+        status: 'ready',
+        preview: {
+          ...previewData,
+          fileSize: staged.file.size,
+          estimatedTotalRows: extrapolateRows(previewData.estimatedTotalRows, previewFile.size, staged.file.size),
+          isSample
+        },
+        columns: withProfileColumns(staged, previewData.detectedColumns),
+        sheets: staged.sheets.length > 0 ? staged.sheets : getDefaultSheets(staged, previewData),
+        entries: staged.entries.length > 0 ? staged.entries : getDefaultEntries(previewData)
+      })
+    } catch (err) {
+      if (!isLatest()) return
+      updateStagedFile(staged.id, {
+        status: 'error',
+        error: err instanceof Error ? err.message : 'Failed to preview file'
+      })
+    }
+  }, [updateStagedFile])
+
+  const handleFilesSelect = useCallback(async (files: File[]) => {
+    const newFiles: StagedFile[] = files.map(file => ({
+      id: crypto.randomUUID(),
+      file,
+      headerRowOffset: 0,
+      skipRows: 0,
+      sheets: [],
+      splitSheets: false,
+      explodeArrays: false,
+      entries: [],
+      columns: [],
+      status: 'loading'
+    }))
 
-    setIsLoading(true)
     setError(null)
+    setStagedFiles(prev => [...prev, ...newFiles])
+    navigate('/preview')
+
+    // Offer the best matching saved profile for each file; matching is optional, so failures are ignored
+    newFiles.forEach(staged => {
+      profilesApi
+        .match(staged.file.name)
+        .then(([profile]) => profile && updateStagedFile(staged.id, { suggestedProfile: profile }))
+        .catch(() => {})
+    })
+
+    // Preview one file at a time; workbooks still upload in full to be previewed
+    for (const staged of newFiles) {
+      await loadPreview(staged)
+    }
+  }, [loadPreview, updateStagedFile])
+
+  const handleStagedFileChange = useCallback((id: string, options: StagedFileOptions) => {
+    const source = stagedFiles.find(f => f.id === id)
+    if (!source) return
+
+    // Apply to every file with the same layout when sharing is enabled;
+    // sheet and archive entry selection is specific to one file and never shared
+    const key = getSchemaKey(source)
+    // Layout settings can be reset to undefined ("Auto"), so check for the key rather than the value
+    const sheetChange = 'sheets' in options || 'splitSheets' in options || 'entries' in options
+    const targets = shareOptions && key && !sheetChange
+      ? stagedFiles.filter(f => getSchemaKey(f) === key)
+      : [source]
+
+    const needsPreview = sheetChange || LAYOUT_OPTIONS.some(option => option in options)
+
+    for (const target of targets) {
+      const updated = { ...target, ...options }
+      updateStagedFile(target.id, options)
+      if (needsPreview) loadPreview(updated)
+    }
+  }, [stagedFiles, shareOptions, updateStagedFile, loadPreview])
+
+  const handleApplyProfile = useCallback((id: string, profile: ImportProfile) => {
+    const staged = stagedFiles.find(f => f.id === id)
+    if (!staged) return
+
+    const updated: StagedFile = { ...staged, ...fromProfileOptions(profile.options, staged), profile, suggestedProfile: undefined }
+    setStagedFiles(prev => prev.map(f => (f.id === id ? updated : f)))
+    loadPreview(updated)
+  }, [stagedFiles, loadPreview])
+
+  const handleDismissProfile = useCallback((id: string) => {
+    updateStagedFile(id, { suggestedProfile: undefined })
+  }, [updateStagedFile])
+
+  const handleSaveProfile = useCallback(async (id: string, name: string, fileNamePattern: string) => {
+    const staged = stagedFiles.find(f => f.id === id)
+    if (!staged) return
+
+    const profile = await profilesApi.create({
+      name,
+      fileNamePattern,
+      options: toProfileOptions(staged),
+      columns: staged.columns
+    })
+    updateStagedFile(id, { profile, suggestedProfile: undefined })
+  }, [stagedFiles, updateStagedFile])
+
+  const handleRemoveStagedFile = useCallback((id: string) => {
+    setStagedFiles(prev => prev.filter(f => f.id !== id))
+  }, [])
 
-    try {
-      // Use async API - returns immediately with job ID
-      const job: ImportJob = await importApi.importAsync(fileToImport, { 
-        delimiter: currentDelimiter, 
-        hasHeader: currentHasHeader 
-      })
-      
-      // Add to active imports
-      const newImport: ActiveImport = {
-        id: job.id,
-        fileName: fileToImport.name,
-        startTime: Date.now(),
-        elapsedTime: 0,
-        progress: {
-          importJobId: job.id,
-          totalRecords: job.totalRecords,
-          processedRecords: job.processedRecords,
-          progress: 0,
-          status: job.status || 'Pending'
-        }
-      }
-      
-      setActiveImports(prev => [...prev, newImport])
-      
-      // Reset form for new import
-      setSelectedFile(null)
-      setPreview(null)
-      setState('upload')
-      setIsLoading(false)
-
-      // Poll for progress updates for this specific job
-      const pollProgress = async () => {
-        try {
-          const updatedJob = await jobsApi.get(job.id)
-          const progressPercent = updatedJob.totalRecords > 0 
-            ? Math.round((updatedJob.processedRecords / updatedJob.totalRecords) * 100) 
-            : 0
-
-          setActiveImports(prev => prev.map(imp => 
-            imp.id === job.id 
-              ? {
-                  ...imp,
-                  progress: {
-                    importJobId: updatedJob.id,
-                    totalRecords: updatedJob.totalRecords,
-                    processedRecords: updatedJob.processedRecords,
-                    progress: progressPercent,
-                    status: updatedJob.status,
-                    errorMessage: updatedJob.errorMessage,
-                    startedAt: updatedJob.startedAt,
-                    completedAt: updatedJob.completedAt,
-                    durationMs: updatedJob.durationMs
-                  }
-                }
-              : imp
-          ))
-
-          if (updatedJob.status === 'Completed' || updatedJob.status === 'CompletedWithErrors' || updatedJob.status === 'Failed') {
-            // Remove from active imports after a delay to show final state
-            setTimeout(() => {
-              setActiveImports(prev => prev.filter(imp => imp.id !== job.id))
-              pollingRefs.current.delete(job.id)
-            }, 3000)
-            setRefreshTrigger((t) => t + 1)
-            return
-          }
+  const removeActiveImportLater = useCallback((id: string) => {
+    // Remove from active imports after a delay to show final state
+    setTimeout(() => {
+      setActiveImports(prev => prev.filter(imp => imp.id !== id))
+    }, 3000)
+  }, [])
 
-          // Continue polling
-          const timeout = setTimeout(pollProgress, 500)
-          pollingRefs.current.set(job.id, timeout)
-        } catch (err) {
-          console.error('Error polling progress:', err)
-          const timeout = setTimeout(pollProgress, 1000)
-          pollingRefs.current.set(job.id, timeout)
-        }
+  const trackImport = useCallback((id: string, job: ImportJob) => {
+    setActiveImports(prev => prev.map(imp =>
+      imp.id === id
+        ? {
+            ...imp,
+            jobId: job.id,
+            progress: toImportProgress(job)
+          }
+        : imp
+    ))
+
+    // Progress is pushed over Server-Sent Events (with polling fallback) until the job finishes
+    const unsubscribe = jobsApi.subscribe(job.id, updatedJob => {
+      setActiveImports(prev => prev.map(imp =>
+        imp.id === id ? { ...imp, progress: toImportProgress(updatedJob) } : imp
+      ))
+
+      if (updatedJob.isFinished) {
+        subscriptionsRef.current.delete(job.id)
+        // Imports with rule violations stay until dismissed so the summary can be read
+        if (!updatedJob.ruleViolations?.length) removeActiveImportLater(id)
+        setRefreshTrigger((t) => t + 1)
+      }
+    })
+    if (!job.isFinished) subscriptionsRef.current.set(job.id, unsubscribe)
+  }, [removeActiveImportLater])
+
+  const startUpload = useCallback(async (staged: StagedFile) => {
+    const newImport: ActiveImport = {
+      id: staged.id,
+      fileName: staged.file.name,
+      startTime: Date.now(),
+      elapsedTime: 0,
+      upload: { uploadedBytes: 0, totalBytes: staged.file.size },
+      progress: {
+        importJobId: '',
+        totalRecords: 0,
+        processedRecords: 0,
+        progress: 0,
+        status: 'Uploading'
       }
+    }
+
+    setActiveImports(prev => [...prev, newImport])
 
-      // Start polling immediately for async jobs
-      const timeout = setTimeout(pollProgress, 200)
-      pollingRefs.current.set(job.id, timeout)
+    try {
+      // Chunked upload resumes after network failures; parse progress starts once it is finalized
+      const [job, ...sheetJobs] = await uploadApi.uploadFile(
+        staged.file,
+        {
+          delimiter: staged.delimiter,
+          quote: staged.quote,
+          hasHeader: staged.hasHeader,
+          encoding: staged.encoding,
+          headerRowOffset: staged.headerRowOffset,
+          skipRows: staged.skipRows,
+          sheets: staged.sheets,
+          splitSheets: staged.splitSheets,
+          explodeArrays: staged.explodeArrays,
+          recordPath: staged.recordPath,
+          fixedWidth: staged.fixedWidth,
+          entries: staged.entries,
+          columns: staged.columns
+        },
+        (uploadedBytes, totalBytes) => setActiveImports(prev => prev.map(imp =>
+          imp.id === staged.id ? { ...imp, upload: { uploadedBytes, totalBytes } } : imp
+        ))
+      )
+
+      // Sheets and archive entries imported separately each get their own progress entry
+      setActiveImports(prev => [
+        ...prev.map(imp => (imp.id === staged.id ? { ...imp, fileName: job.fileName } : imp)),
+        ...sheetJobs.map(sheetJob => ({ ...newImport, id: `${staged.id}:${sheetJob.id}`, fileName: sheetJob.fileName }))
+      ])
+      trackImport(staged.id, job)
+      sheetJobs.forEach(sheetJob => trackImport(`${staged.id}:${sheetJob.id}`, sheetJob))
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to start import')
-      setIsLoading(false)
+      setActiveImports(prev => prev.map(imp =>
+        imp.id === staged.id
+          ? {
+              ...imp,
+              progress: {
+                ...imp.progress,
+                status: 'Failed',
+                errorMessage: err instanceof Error ? err.message : 'Upload failed'
+              }
+            }
+          : imp
+      ))
+      removeActiveImportLater(staged.id)
     }
-  }, [selectedFile, delimiter, hasHeader])
+  }, [trackImport, removeActiveImportLater])
+
+  const handleImportAll = useCallback(() => {
+    const filesToImport = stagedFiles.filter(f => f.status === 'ready')
+    if (filesToImport.length === 0) return
+
+    setError(null)
+
+    // Fan out one upload per staged file; each shows up in Active Imports right away
+    filesToImport.forEach(staged => startUpload(staged))
+
+    const queuedIds = new Set(filesToImport.map(f => f.id))
+    const remaining = stagedFiles.filter(f => !queuedIds.has(f.id))
+    setStagedFiles(remaining)
+    setActiveFileId(null)
+  }, [stagedFiles, startUpload])
 
   const handleViewJob = useCallback((jobId: string) => {
-    setSelectedJobId(jobId)
-    setState('viewing')
+    navigate(`/jobs/${jobId}`)
+  }, [])
+
+  const handleJobLoaded = useCallback(() => {
+    setJobLoadCount((count) => count + 1)
+    setRefreshTrigger((t) => t + 1)
+  }, [])
+
+  const handleViewHistory = useCallback(() => {
+    navigate('/history')
+  }, [])
+
+  const handleViewProfiles = useCallback(() => {
+    navigate('/profiles')
   }, [])
 
   const handleBackToUpload = useCallback(() => {
-    setState('upload')
-    setSelectedFile(null)
-    setPreview(null)
-    setSelectedJobId(null)
+    navigate('/')
+    setStagedFiles([])
+    setActiveFileId(null)
     setError(null)
   }, [])
 
   const handleCancelPreview = useCallback(() => {
-    setState('upload')
-    setSelectedFile(null)
-    setPreview(null)
+    navigate('/')
+    setStagedFiles([])
+    setActiveFileId(null)
     setError(null)
   }, [])
 
+  const readyCount = stagedFiles.filter(f => f.status === 'ready').length
+  const isLoading = stagedFiles.some(f => f.status === 'loading')
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
       {/* Header */}
@@ -208,17 +419,35 @@ export default function App() {
               </div>
             </div>
 
-            {state === 'viewing' && (
-              <button
-                onClick={handleBackToUpload}
-                className="px-4 py-2 text-sm font-medium text-primary-600 bg-primary-50 rounded-lg hover:bg-primary-100 transition-colors flex items-center gap-2"
-              >
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 4v16m8-8H4" />
-                </svg>
-                New Import
-              </button>
-            )}
+            <div className="flex items-center gap-3">
+              {state !== 'profiles' && (
+                <button
+                  onClick={handleViewProfiles}
+                  className="px-4 py-2 text-sm font-medium text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  Profiles
+                </button>
+              )}
+              {state !== 'history' && (
+                <button
+                  onClick={handleViewHistory}
+                  className="px-4 py-2 text-sm font-medium text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  History
+                </button>
+              )}
+              {(state === 'viewing' || state === 'history' || state === 'profiles' || state === 'compare') && (
+                <button
+                  onClick={handleBackToUpload}
+                  className="px-4 py-2 text-sm font-medium text-primary-600 bg-primary-50 rounded-lg hover:bg-primary-100 transition-colors flex items-center gap-2"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 4v16m8-8H4" />
+                  </svg>
+                  New Import
+                </button>
+              )}
+            </div>
           </div>
         </div>
       </header>
@@ -267,21 +496,68 @@ export default function App() {
                           </svg>
                           <span className="text-sm font-medium text-gray-700 truncate max-w-xs">{imp.fileName}</span>
                         </div>
-                        <span className={`text-xs px-2 py-1 rounded-full ${
-                          imp.progress.status === 'Completed' || imp.progress.status === 'CompletedWithErrors'
-                            ? 'bg-green-100 text-green-700'
-                            : imp.progress.status === 'Failed'
-                            ? 'bg-red-100 text-red-700'
-                            : 'bg-blue-100 text-blue-700'
-                        }`}>
-                          {imp.progress.status}
-                        </span>
+                        <div className="flex items-center gap-3">
+                          {imp.jobId && <JobControls jobId={imp.jobId} status={imp.progress.status} />}
+                          <span className={`text-xs px-2 py-1 rounded-full ${
+                            imp.progress.status === 'Completed' || imp.progress.status === 'CompletedWithErrors'
+                              ? 'bg-green-100 text-green-700'
+                              : imp.progress.status === 'Failed'
+                              ? 'bg-red-100 text-red-700'
+                              : imp.progress.status === 'Paused'
+                              ? 'bg-amber-100 text-amber-700'
+                              : imp.progress.status === 'Cancelled'
+                              ? 'bg-gray-100 text-gray-700'
+                              : 'bg-blue-100 text-blue-700'
+                          }`}>
+                            {imp.progress.status}
+                          </span>
+                        </div>
                       </div>
-                      <ImportProgressBar progress={imp.progress} />
+                      {imp.progress.status === 'Uploading' ? (
+                        <div className="h-3 bg-gray-100 rounded-full overflow-hidden">
+                          <div
+                            className="h-full rounded-full bg-primary-400 transition-all duration-300 ease-out"
+                            style={{ width: `${imp.upload.totalBytes > 0 ? (imp.upload.uploadedBytes / imp.upload.totalBytes) * 100 : 0}%` }}
+                          />
+                        </div>
+                      ) : (
+                        <ImportProgressBar progress={imp.progress} />
+                      )}
+                      {imp.progress.status === 'Failed' && imp.progress.errorMessage && (
+                        <p className="mt-2 text-xs text-red-600">{imp.progress.errorMessage}</p>
+                      )}
+                      {imp.progress.status === 'Cancelled' && imp.progress.errorMessage && (
+                        <p className="mt-2 text-xs text-gray-500">{imp.progress.errorMessage}</p>
+                      )}
+                      {!!imp.progress.ruleViolations?.length && imp.jobId && (
+                        <div className="mt-3 space-y-2">
+                          <RuleViolationSummary violations={imp.progress.ruleViolations} />
+                          <div className="flex items-center gap-4 text-xs">
+                            <button
+                              onClick={() => navigate(`/jobs/${imp.jobId}/failures`)}
+                              className="font-medium text-primary-600 hover:text-primary-700"
+                            >
+                              View rejected rows
+                            </button>
+                            <button
+                              onClick={() => setActiveImports(prev => prev.filter(i => i.id !== imp.id))}
+                              className="text-gray-500 hover:text-gray-700"
+                            >
+                              Dismiss
+                            </button>
+                          </div>
+                        </div>
+                      )}
                       <div className="mt-2 flex items-center justify-between text-xs text-gray-500">
-                        <span>
-                          {(imp.progress.processedRecords || 0).toLocaleString()} / {(imp.progress.totalRecords || 0).toLocaleString() || '?'} records
-                        </span>
+                        {imp.progress.status === 'Uploading' ? (
+                          <span>
+                            {formatBytes(imp.upload.uploadedBytes)} / {formatBytes(imp.upload.totalBytes)} uploaded
+                          </span>
+                        ) : (
+                          <span>
+                            {(imp.progress.processedRecords || 0).toLocaleString()} / {(imp.progress.totalRecords || 0).toLocaleString() || '?'} records
+                          </span>
+                        )}
                         <span className="font-mono">
                           {(imp.elapsedTime / 1000).toFixed(1)}s
                         </span>
@@ -295,52 +571,25 @@ export default function App() {
             {/* Upload State */}
             {state === 'upload' && (
               <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
-                <h2 className="text-lg font-semibold text-gray-800 mb-6">Upload File</h2>
-                
-                {/* Options */}
-                <div className="mb-6 grid grid-cols-2 gap-4">
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">
-                      CSV Delimiter
-                    </label>
-                    <select
-                      value={delimiter}
-                      onChange={(e) => setDelimiter(e.target.value)}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
-                    >
-                      <option value=",">Comma (,)</option>
-                      <option value=";">Semicolon (;)</option>
-                      <option value="\t">Tab</option>
-                      <option value="|">Pipe (|)</option>
-                    </select>
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">
-                      First Row
-                    </label>
-                    <select
-                      value={hasHeader ? 'header' : 'data'}
-                      onChange={(e) => setHasHeader(e.target.value === 'header')}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
-                    >
-                      <option value="header">Column Headers</option>
-                      <option value="data">Data Row</option>
-                    </select>
-                  </div>
-                </div>
+                <h2 className="text-lg font-semibold text-gray-800 mb-2">Upload File</h2>
+                <p className="text-sm text-gray-500 mb-6">
+                  Delimiter, header row and encoding are detected automatically and can be adjusted in the preview
+                </p>
 
-                <FileUpload onFileSelect={handleFileSelect} isLoading={isLoading} />
+                <FileUpload onFilesSelect={handleFilesSelect} maxSizeMB={maxFileSizeMB} isLoading={isLoading} />
               </div>
             )}
 
             {/* Preview State */}
-            {state === 'preview' && preview && (
+            {state === 'preview' && stagedFiles.length > 0 && (
               <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6 space-y-6">
                 <div className="flex items-center justify-between">
                   <div>
-                    <h2 className="text-lg font-semibold text-gray-800">Preview</h2>
+                    <h2 className="text-lg font-semibold text-gray-800">
+                      Staged Files ({stagedFiles.length})
+                    </h2>
                     <p className="text-sm text-gray-500 mt-1">
-                      Review the detected schema before importing
+                      Expand a file to rename, exclude or retype its columns before importing
                     </p>
                   </div>
                   <div className="flex items-center gap-3">
@@ -351,8 +600,8 @@ export default function App() {
                       Cancel
                     </button>
                     <button
-                      onClick={handleImport}
-                      disabled={isLoading}
+                      onClick={handleImportAll}
+                      disabled={isLoading || readyCount === 0}
                       className="px-6 py-2 text-sm font-medium text-white bg-primary-500 rounded-lg hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
                     >
                       {isLoading ? (
@@ -361,35 +610,102 @@ export default function App() {
                             <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
                             <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
                           </svg>
-                          Starting...
+                          Analyzing...
                         </>
                       ) : (
                         <>
                           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
                           </svg>
-                          Start Import
+                          Import All ({readyCount})
                         </>
                       )}
                     </button>
                   </div>
                 </div>
-                <PreviewTable preview={preview} />
+                <StagingList
+                  files={stagedFiles}
+                  activeFileId={activeFileId}
+                  shareOptions={shareOptions}
+                  onSelect={setActiveFileId}
+                  onChange={handleStagedFileChange}
+                  onRemove={handleRemoveStagedFile}
+                  onShareOptionsChange={setShareOptions}
+                  onApplyProfile={handleApplyProfile}
+                  onDismissProfile={handleDismissProfile}
+                  onSaveProfile={handleSaveProfile}
+                />
+              </div>
+            )}
+
+            {/* History State */}
+            {state === 'history' && (
+              <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+                <h2 className="text-lg font-semibold text-gray-800 mb-6">Import History</h2>
+                <JobHistory onSelectJob={handleViewJob} refreshTrigger={refreshTrigger} />
+              </div>
+            )}
+
+            {/* Profiles State */}
+            {state === 'profiles' && (
+              <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+                <h2 className="text-lg font-semibold text-gray-800 mb-2">Import Profiles</h2>
+                <p className="text-sm text-gray-500 mb-6">
+                  Saved layouts and column mappings, offered when a dropped file matches their file name pattern
+                </p>
+                <ProfileList />
+              </div>
+            )}
+
+            {/* Compare State */}
+            {state === 'compare' && (
+              <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+                <h2 className="text-lg font-semibold text-gray-800 mb-2">Compare Jobs</h2>
+                <p className="text-sm text-gray-500 mb-6">
+                  Rows added, removed and modified between two imports, matched by key columns
+                </p>
+                <JobComparisonView />
               </div>
             )}
 
             {/* Viewing State */}
             {state === 'viewing' && selectedJobId && (
               <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
-                <h2 className="text-lg font-semibold text-gray-800 mb-6">Imported Data</h2>
-                <DataTable importJobId={selectedJobId} />
+                <div className="flex items-center justify-between mb-6">
+                  <div className="flex items-center gap-4">
+                    <h2 className="text-lg font-semibold text-gray-800">Imported Data</h2>
+                    <button
+                      onClick={() => navigate(`/compare?base=${selectedJobId}`)}
+                      className="text-sm font-medium text-primary-600 hover:text-primary-700"
+                    >
+                      Compare with...
+                    </button>
+                  </div>
+                  <div className="flex bg-gray-100 rounded-lg p-1">
+                    {(['data', 'profile', 'failures'] as ViewTab[]).map((tab) => (
+                      <button
+                        key={tab}
+                        onClick={() => navigate(tab === 'data' ? `/jobs/${selectedJobId}` : `/jobs/${selectedJobId}/${tab}`)}
+                        className={`px-4 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                          viewTab === tab ? 'bg-white text-gray-800 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                        }`}
+                      >
+                        {VIEW_TAB_LABELS[tab]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <JobLoadPanel key={selectedJobId} importJobId={selectedJobId} onLoaded={handleJobLoaded} />
+                {viewTab === 'data' && <DataTable key={jobLoadCount} importJobId={selectedJobId} />}
+                {viewTab === 'profile' && <DataProfilePanel key={jobLoadCount} importJobId={selectedJobId} />}
+                {viewTab === 'failures' && <FailuresTable key={jobLoadCount} importJobId={selectedJobId} />}
               </div>
             )}
           </div>
 
           {/* Sidebar */}
           <div className="space-y-6">
-            <RecentJobs onSelectJob={handleViewJob} refreshTrigger={refreshTrigger} />
+            <RecentJobs onSelectJob={handleViewJob} onViewAll={handleViewHistory} refreshTrigger={refreshTrigger} />
 
             {/* Info Card */}
             <div className="bg-gradient-to-br from-primary-500 to-primary-600 rounded-2xl p-6 text-white">
@@ -402,7 +718,7 @@ export default function App() {
                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 13l4 4L19 7" />
                   </svg>
-                  <span>CSV & Excel support</span>
+                  <span>CSV, Excel, JSON & XML support</span>
                 </div>
                 <div className="flex items-center gap-2">
                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -440,3 +756,23 @@ export default function App() {
   )
 }
 
+// Workbooks start with the applied profile's sheets, or else the sheet the server previewed by default
+function getDefaultSheets(staged: StagedFile, preview: FilePreview) {
+  const profileSheets = staged.profile ? fromProfileOptions(staged.profile.options, { ...staged, preview }).sheets ?? [] : []
+  return profileSheets.length > 0 ? profileSheets : preview.sheets.slice(0, 1).map(s => s.name)
+}
+
+// The entry the server previewed, when an archive holds several to choose from
+function getDefaultEntries(preview: FilePreview) {
+  return preview.archiveEntries.length > 1 && preview.archiveEntry ? [preview.archiveEntry] : []
+}
+
+// Detected columns with the applied profile's renames, ignores and type overrides
+function withProfileColumns(staged: StagedFile, detected: ColumnDefinition[]) {
+  return staged.profile ? applyProfileColumns(detected, staged.profile.columns) : detected
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
@@ -16,6 +16,41 @@ export interface FilePreview {
   detectedColumns: ColumnDefinition[]
   previewRows: Record<string, unknown>[]
   estimatedTotalRows: number
+  // Sheets of a workbook; empty for other formats
+  sheets: SheetInfo[]
+  // Element paths of an XML file with their element counts, to pick the record element from
+  recordPaths: RecordPathInfo[]
+  // Importable files of a .zip or .gz upload; the rest of the preview describes archiveEntry
+  archiveEntries: ArchiveEntryInfo[]
+  archiveEntry?: string | null
+  // Layout the preview was read with, including the server's guesses
+  format?: DetectedFormat
+  // Set client-side when only the start of the file was analyzed; the row count is extrapolated
+  isSample?: boolean
+}
+
+export interface DetectedFormat {
+  hasHeader: boolean
+  delimiter?: string
+  quote?: string
+  encoding?: string
+  recordPath?: string
+}
+
+export interface SheetInfo {
+  name: string
+  rowCount: number
+}
+
+export interface RecordPathInfo {
+  path: string
+  count: number
+}
+
+// Uncompressed size is unknown for .gz files
+export interface ArchiveEntryInfo {
+  name: string
+  size?: number | null
 }
 
 export interface FileSchema {
@@ -25,12 +60,142 @@ export interface FileSchema {
   columns: ColumnDefinition[]
 }
 
+// Data-quality summary of an import job's records, one entry per imported column
+export interface DataProfile {
+  importJobId: string
+  recordCount: number
+  columns: ColumnProfile[]
+}
+
+export interface ColumnProfile {
+  name: string
+  displayName?: string
+  dataType: string
+  nullCount: number
+  emptyCount: number
+  distinctCount: number
+  // Distinct values stop being tracked past a limit on the server
+  isDistinctCountCapped: boolean
+  topValues: ValueCount[]
+  // Set for numeric and date columns; mean only for numeric ones
+  min?: string
+  max?: string
+  mean?: number
+  histogram: HistogramBucket[]
+  typeMismatchCount: number
+  typeMismatchSamples: string[]
+}
+
+export interface ValueCount {
+  value: string
+  count: number
+}
+
+export interface HistogramBucket {
+  start: string
+  end: string
+  count: number
+}
+
 export interface ColumnDefinition {
   name: string
   index: number
   detectedType: string
   displayName?: string
   isIgnored: boolean
+  // Checked on every row during import; rows that break a rule are rejected
+  rules?: ColumnRules
+}
+
+// Min and max are numbers or dates; allowed values are matched case-insensitively
+export interface ColumnRules {
+  required?: boolean
+  pattern?: string
+  min?: string
+  max?: string
+  allowedValues?: string[]
+  maxLength?: number
+  unique?: boolean
+}
+
+export interface RuleViolation {
+  column: string
+  rule: string
+  count: number
+}
+
+// Delimiter, quote, header and encoding are detected from the file when not set
+export interface ImportOptions {
+  delimiter?: string
+  quote?: string
+  hasHeader?: boolean
+  encoding?: string
+  // Rows above the header (titles, notes) and rows to skip between the header and the data
+  headerRowOffset?: number
+  skipRows?: number
+  // Workbook sheets to import; several sheets are combined into one job unless splitSheets is set
+  sheets?: string[]
+  splitSheets?: boolean
+  // JSON files: arrays become one row per element instead of JSON text
+  explodeArrays?: boolean
+  // XML files: path of the repeating record element, such as /Orders/Order
+  recordPath?: string
+  // Fixed-width text files: where each column is cut from the line; .txt files without it are delimited
+  fixedWidth?: FixedWidthColumn[]
+  // Archives: files inside to import, one job each; the first is the one previewed
+  entries?: string[]
+  // Column mapping (renames, ignores, type overrides) edited in the preview step
+  columns?: ColumnDefinition[]
+  // Load the file into an existing job instead of creating one; upserts match records by the key columns
+  targetJobId?: string
+  mode?: LoadMode
+  keyColumns?: string[]
+}
+
+// How a file is loaded into an existing job with the same columns
+export type LoadMode = 'append' | 'upsert' | 'replace'
+
+// Parser settings saved in a profile; layout settings left out are detected from the file
+export interface ImportProfileOptions {
+  delimiter?: string
+  quote?: string
+  hasHeader?: boolean
+  encoding?: string
+  headerRowOffset: number
+  skipRows: number
+  sheetNames: string[]
+  splitSheets: boolean
+  explodeArrays: boolean
+  recordPath?: string
+  fixedWidthColumns: FixedWidthColumn[]
+}
+
+// A column of a fixed-width file: its 0-based character position and width
+export interface FixedWidthColumn {
+  name: string
+  start: number
+  length: number
+}
+
+export interface ImportProfile {
+  id: string
+  name: string
+  // '*' matches any run of characters and '?' a single one, case-insensitive
+  fileNamePattern: string
+  options: ImportProfileOptions
+  columns: ColumnDefinition[]
+  createdAt: string
+  updatedAt?: string
+}
+
+export type SaveImportProfile = Pick<ImportProfile, 'name' | 'fileNamePattern' | 'options' | 'columns'>
+
+export interface UploadSession {
+  uploadId: string
+  fileName: string
+  fileSize: number
+  receivedBytes: number
+  chunkSize: number
 }
 
 export interface ImportJob {
@@ -47,6 +212,82 @@ export interface ImportJob {
   completedAt?: string
   createdAt: string
   durationMs?: number
+  isFinished: boolean
+  // Rows rejected by each column validation rule, most frequent first
+  ruleViolations: RuleViolation[]
+  // How the latest file was loaded: New, Append, Upsert or Replace
+  mode: string
+  // Files loaded into the job, oldest first, with what each did to the records
+  loads: ImportLoad[]
+}
+
+export interface ImportLoad {
+  fileName: string
+  mode: string
+  keyColumns: string[]
+  insertedRecords: number
+  updatedRecords: number
+  unchangedRecords: number
+  failedRecords: number
+  // Rows inserted by this load are numbered after this
+  rowOffset: number
+  completedAt: string
+  // Failed and rolled back loads left the records as they were
+  status: string
+  errorMessage?: string
+}
+
+// Differences between two jobs, rows matched by the key columns; columns are the ones both jobs share
+export interface JobComparison {
+  baseJobId: string
+  compareJobId: string
+  keyColumns: string[]
+  columns: ColumnDefinition[]
+  schema: SchemaDiff
+  summary: ComparisonSummary
+  rows: PagedResult<RowDiff>
+}
+
+export interface SchemaDiff {
+  addedColumns: string[]
+  removedColumns: string[]
+  typeChanges: { column: string; baseType: string; compareType: string }[]
+}
+
+export interface ComparisonSummary {
+  baseRecords: number
+  compareRecords: number
+  added: number
+  removed: number
+  modified: number
+  unchanged: number
+  // Rows with an empty or repeated key, which cannot be matched
+  skippedRows: number
+}
+
+export type RowChange = 'added' | 'removed' | 'modified'
+
+export interface RowDiff {
+  change: RowChange
+  // Value of the key column, or a JSON array of the values for composite keys
+  key: string
+  baseRowNumber?: number | null
+  compareRowNumber?: number | null
+  baseData?: Record<string, unknown> | null
+  compareData?: Record<string, unknown> | null
+  changedColumns: string[]
+}
+
+export type JobSortField = 'createdAt' | 'fileName' | 'fileSize' | 'totalRecords' | 'duration'
+
+export interface JobHistoryFilters {
+  statuses?: string[]
+  fileType?: string
+  from?: string
+  to?: string
+  search?: string
+  sortBy?: JobSortField
+  descending?: boolean
 }
 
 export interface ImportProgress {
@@ -59,6 +300,7 @@ export interface ImportProgress {
   startedAt?: string
   completedAt?: string
   durationMs?: number
+  ruleViolations?: RuleViolation[]
 }
 
 export interface ImportResult {
@@ -73,6 +315,69 @@ export interface ImportedRecord {
   data: Record<string, unknown>
   rowNumber: number
   createdAt: string
+  // Set once the record has been edited after import
+  updatedAt?: string
+}
+
+// A change to an imported record after import, from the job's edit history
+export interface RecordEdit {
+  id: string
+  recordId: string
+  rowNumber: number
+  action: 'update' | 'delete'
+  editedBy: string
+  editedAt: string
+  changes: FieldChange[]
+}
+
+// Values as text; deletions list every value with newValue null
+export interface FieldChange {
+  column: string
+  oldValue?: string | null
+  newValue?: string | null
+}
+
+export interface ImportFailure {
+  id: string
+  importJobId: string
+  rowNumber: number
+  errorMessage: string
+  rawData: Record<string, string | null>
+}
+
+export type FilterOperator = 'contains' | 'equal' | 'isEmpty' | 'between'
+
+export interface ColumnFilter {
+  column: string
+  operator: FilterOperator
+  value?: string
+  valueTo?: string
+}
+
+export interface RecordSort {
+  column: string
+  descending: boolean
+}
+
+export interface RecordQuery {
+  filters?: ColumnFilter[]
+  sort?: RecordSort | null
+}
+
+export interface SupportedFormats {
+  formats: string[]
+  // Largest file the server accepts
+  maxFileSizeMB: number
+  description: Record<string, string>
+}
+
+export type ExportFormat = 'csv' | 'json' | 'ndjson' | 'xlsx'
+
+export interface ExportOptions {
+  format: ExportFormat
+  delimiter?: string
+  searchTerm?: string
+  query?: RecordQuery
 }
 
 export interface PagedResult<T> {
@@ -83,29 +388,48 @@ export interface PagedResult<T> {
   totalPages: number
 }
 
+// Import options go in the query string; anything left out is detected by the server
+const toImportParams = (options?: ImportOptions): URLSearchParams => {
+  const params = new URLSearchParams()
+  if (options?.delimiter) params.append('delimiter', options.delimiter)
+  if (options?.quote) params.append('quote', options.quote)
+  if (options?.hasHeader !== undefined) params.append('hasHeader', String(options.hasHeader))
+  if (options?.encoding) params.append('encoding', options.encoding)
+  if (options?.headerRowOffset) params.append('headerRowOffset', String(options.headerRowOffset))
+  if (options?.skipRows) params.append('skipRows', String(options.skipRows))
+  options?.sheets?.forEach((sheet) => params.append('sheetName', sheet))
+  if (options?.explodeArrays) params.append('explodeArrays', 'true')
+  if (options?.recordPath) params.append('recordPath', options.recordPath)
+  options?.fixedWidth?.forEach((c) => params.append('fixedWidth', `${c.start}:${c.length}:${c.name}`))
+  options?.entries?.forEach((entry) => params.append('entry', entry))
+  if (options?.targetJobId) params.append('targetJobId', options.targetJobId)
+  if (options?.mode) params.append('mode', options.mode)
+  options?.keyColumns?.forEach((column) => params.append('keyColumn', column))
+  return params
+}
+
 // API Functions
 export const importApi = {
-  // Get file preview
-  preview: async (file: File, options?: { delimiter?: string; hasHeader?: boolean }): Promise<FilePreview> => {
+  // Get file preview, including the sheets of a workbook
+  preview: async (file: File, options?: ImportOptions): Promise<FilePreview> => {
     const formData = new FormData()
     formData.append('file', file)
-    if (options?.delimiter) formData.append('delimiter', options.delimiter)
-    if (options?.hasHeader !== undefined) formData.append('hasHeader', String(options.hasHeader))
 
-    const response = await api.post<FilePreview>('/import/preview', formData, {
+    const params = toImportParams(options)
+    const response = await api.post<FilePreview>(`/import/preview?${params.toString()}`, formData, {
       headers: { 'Content-Type': 'multipart/form-data' },
     })
     return response.data
   },
 
   // Start import (synchronous - waits for completion)
-  import: async (file: File, options?: { delimiter?: string; hasHeader?: boolean }): Promise<ImportProgress> => {
+  import: async (file: File, options?: ImportOptions): Promise<ImportProgress> => {
     const formData = new FormData()
     formData.append('file', file)
-    if (options?.delimiter) formData.append('delimiter', options.delimiter)
-    if (options?.hasHeader !== undefined) formData.append('hasHeader', String(options.hasHeader))
+    if (options?.columns) formData.append('columns', JSON.stringify(options.columns))
 
-    const response = await api.post<ImportProgress>('/import', formData, {
+    const params = toImportParams(options)
+    const response = await api.post<ImportProgress>(`/import?${params.toString()}`, formData, {
       headers: { 'Content-Type': 'multipart/form-data' },
     })
     return response.data
@@ -113,13 +437,12 @@ export const importApi = {
 
   // Start import (asynchronous - returns immediately, processes in background)
   // Allows parallel imports of multiple files
-  importAsync: async (file: File, options?: { delimiter?: string; hasHeader?: boolean }): Promise<ImportJob> => {
+  importAsync: async (file: File, options?: ImportOptions): Promise<ImportJob> => {
     const formData = new FormData()
     formData.append('file', file)
-    
-    const params = new URLSearchParams()
-    if (options?.delimiter) params.append('delimiter', options.delimiter)
-    if (options?.hasHeader !== undefined) params.append('hasHeader', String(options.hasHeader))
+    if (options?.columns) formData.append('columns', JSON.stringify(options.columns))
+
+    const params = toImportParams(options)
 
     const response = await api.post<ImportJob>(`/import/async?${params.toString()}`, formData, {
       headers: { 'Content-Type': 'multipart/form-data' },
@@ -127,11 +450,177 @@ export const importApi = {
     return response.data
   },
 
-  // Get supported formats
-  formats: async (): Promise<string[]> => {
-    const response = await api.get<string[]>('/import/formats')
+  // Get supported formats and the upload size limit
+  formats: async (): Promise<SupportedFormats> => {
+    const response = await api.get<SupportedFormats>('/import/formats')
+    return response.data
+  },
+}
+
+// Name recorded with record edits; there is no sign-in, so it is remembered per browser
+const EDITOR_NAME_KEY = 'editor-name'
+
+export const getEditorName = () => localStorage.getItem(EDITOR_NAME_KEY) ?? ''
+
+export const setEditorName = (name: string) => {
+  if (name.trim()) localStorage.setItem(EDITOR_NAME_KEY, name.trim())
+  else localStorage.removeItem(EDITOR_NAME_KEY)
+}
+
+// Resumable chunked uploads
+const MAX_CHUNK_RETRIES = 5
+
+// Upload IDs are remembered per file so an interrupted upload can resume after a page reload
+const uploadStorageKey = (file: File) => `upload:${file.name}:${file.size}:${file.lastModified}`
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Only lost connections and server errors are worth retrying; any other response is final
+const isRetryable = (err: unknown) => axios.isAxiosError(err) && (!err.response || err.response.status >= 500)
+
+// The server no longer knows the upload: it expired or was lost in a restart
+const isUploadGone = (err: unknown) => axios.isAxiosError(err) && err.response?.status === 404
+
+export const uploadApi = {
+  // Start a resumable upload
+  start: async (fileName: string, fileSize: number): Promise<UploadSession> => {
+    const response = await api.post<UploadSession>('/uploads', { fileName, fileSize })
+    return response.data
+  },
+
+  // Get bytes received so far
+  status: async (uploadId: string): Promise<UploadSession> => {
+    const response = await api.get<UploadSession>(`/uploads/${uploadId}`)
+    return response.data
+  },
+
+  // Upload one chunk at the given offset
+  uploadChunk: async (uploadId: string, offset: number, chunk: Blob): Promise<UploadSession> => {
+    const response = await api.put<UploadSession>(`/uploads/${uploadId}/chunks?offset=${offset}`, chunk, {
+      headers: { 'Content-Type': 'application/octet-stream' },
+    })
+    return response.data
+  },
+
+  // Finalize the upload into a queued import job
+  complete: async (uploadId: string, options?: ImportOptions): Promise<ImportJob> => {
+    const params = toImportParams(options)
+
+    const response = await api.post<ImportJob>(`/uploads/${uploadId}/complete?${params.toString()}`, {
+      columns: options?.columns,
+    })
+    return response.data
+  },
+
+  // Finalize a workbook upload into one queued import job per selected sheet
+  completeSheets: async (uploadId: string, options: ImportOptions): Promise<ImportJob[]> => {
+    const params = toImportParams(options)
+
+    const response = await api.post<ImportJob[]>(`/uploads/${uploadId}/complete/sheets?${params.toString()}`, {
+      columns: options.columns,
+    })
     return response.data
   },
+
+  // Finalize an archive upload into one queued import job per selected entry
+  completeEntries: async (uploadId: string, options: ImportOptions): Promise<ImportJob[]> => {
+    const params = toImportParams(options)
+
+    const response = await api.post<ImportJob[]>(`/uploads/${uploadId}/complete/entries?${params.toString()}`, {
+      columns: options.columns,
+    })
+    return response.data
+  },
+
+  // Abort an upload and discard received data
+  abort: async (uploadId: string): Promise<void> => {
+    await api.delete(`/uploads/${uploadId}`)
+  },
+
+  // Upload a file in chunks, resuming from the server's offset after failures,
+  // then finalize it into queued import jobs (one per sheet when splitting a workbook, one per archive entry)
+  uploadFile: async (
+    file: File,
+    options?: ImportOptions,
+    onProgress?: (uploadedBytes: number, totalBytes: number) => void
+  ): Promise<ImportJob[]> => {
+    const storageKey = uploadStorageKey(file)
+    let session: UploadSession | null = null
+
+    const savedId = localStorage.getItem(storageKey)
+    if (savedId) {
+      try {
+        session = await uploadApi.status(savedId)
+      } catch {
+        localStorage.removeItem(storageKey)
+      }
+    }
+
+    const startSession = async () => {
+      const started = await uploadApi.start(file.name, file.size)
+      localStorage.setItem(storageKey, started.uploadId)
+      return started
+    }
+
+    if (!session) session = await startSession()
+
+    let { uploadId, chunkSize } = session
+    let offset = session.receivedBytes
+    let failures = 0
+    onProgress?.(offset, file.size)
+
+    while (offset < file.size) {
+      try {
+        const updated = await uploadApi.uploadChunk(uploadId, offset, file.slice(offset, offset + chunkSize))
+        offset = updated.receivedBytes
+        failures = 0
+        onProgress?.(offset, file.size)
+      } catch (err) {
+        if ((!isRetryable(err) && !isUploadGone(err)) || ++failures > MAX_CHUNK_RETRIES) throw err
+
+        if (isUploadGone(err)) {
+          // Nothing received so far is left on the server, so start over in a new upload
+          const restarted = await startSession()
+          uploadId = restarted.uploadId
+          chunkSize = restarted.chunkSize
+          offset = 0
+          onProgress?.(offset, file.size)
+          continue
+        }
+
+        await delay(500 * 2 ** failures)
+
+        // Ask the server where to resume from; a partial chunk is discarded there
+        try {
+          offset = (await uploadApi.status(uploadId)).receivedBytes
+        } catch {
+          // Keep the current offset and retry
+        }
+      }
+    }
+
+    const jobs = options?.entries && options.entries.length > 1
+      ? await uploadApi.completeEntries(uploadId, options)
+      : options?.splitSheets && options.sheets && options.sheets.length > 1
+        ? await uploadApi.completeSheets(uploadId, options)
+        : [await uploadApi.complete(uploadId, options)]
+    localStorage.removeItem(storageKey)
+    return jobs
+  },
+}
+
+const appendQueryParams = (params: URLSearchParams, query: RecordQuery) => {
+  if (query.filters?.length) params.set('filters', JSON.stringify(query.filters))
+  if (query.sort) {
+    params.set('sort', query.sort.column)
+    params.set('desc', String(query.sort.descending))
+  }
+}
+
+const toRecordParams = (page: number, pageSize: number, query: RecordQuery): URLSearchParams => {
+  const params = new URLSearchParams({ page: String(page), pageSize: String(pageSize) })
+  appendQueryParams(params, query)
+  return params
 }
 
 export const dataApi = {
@@ -141,40 +630,132 @@ export const dataApi = {
     return response.data
   },
 
-  // Get records for import job (paged)
+  // Get records for import job (paged), optionally filtered and sorted server-side
   getRecords: async (
     importJobId: string,
     page: number = 1,
-    pageSize: number = 50
+    pageSize: number = 50,
+    query: RecordQuery = {}
   ): Promise<PagedResult<ImportedRecord>> => {
-    const response = await api.get<PagedResult<ImportedRecord>>(
-      `/data/${importJobId}/records?page=${page}&pageSize=${pageSize}`
-    )
+    const params = toRecordParams(page, pageSize, query)
+    const response = await api.get<PagedResult<ImportedRecord>>(`/data/${importJobId}/records?${params}`)
     return response.data
   },
 
-  // Search records
+  // Search records (paged, case-insensitive; "column:value" searches one column)
   search: async (
     importJobId: string,
     searchTerm: string,
     page: number = 1,
-    pageSize: number = 50
+    pageSize: number = 50,
+    query: RecordQuery = {}
   ): Promise<PagedResult<ImportedRecord>> => {
-    const response = await api.get<PagedResult<ImportedRecord>>(
-      `/data/${importJobId}/search?searchTerm=${encodeURIComponent(searchTerm)}&page=${page}&pageSize=${pageSize}`
-    )
+    const params = toRecordParams(page, pageSize, query)
+    params.set('searchTerm', searchTerm)
+    const response = await api.get<PagedResult<ImportedRecord>>(`/data/${importJobId}/search?${params}`)
     return response.data
   },
 
-  // Export records
-  export: async (importJobId: string, format: 'csv' | 'json' = 'csv'): Promise<Blob> => {
-    const response = await api.get(`/data/${importJobId}/export?format=${format}`, {
-      responseType: 'blob',
+  // Get the per-column profile of an import job's records
+  getProfile: async (importJobId: string): Promise<DataProfile> => {
+    const response = await api.get<DataProfile>(`/data/${importJobId}/profile`)
+    return response.data
+  },
+
+  // Change values of a record; values are text and converted to the column types on the server
+  updateRecord: async (
+    importJobId: string,
+    recordId: string,
+    values: Record<string, string | null>
+  ): Promise<ImportedRecord> => {
+    const response = await api.patch<ImportedRecord>(`/data/${importJobId}/records/${recordId}`, {
+      values,
+      editedBy: getEditorName() || undefined,
     })
     return response.data
   },
+
+  // Delete records; their values are kept in the edit history
+  deleteRecords: async (importJobId: string, recordIds: string[]): Promise<number> => {
+    const response = await api.post<{ deleted: number }>(`/data/${importJobId}/records/delete`, {
+      recordIds,
+      editedBy: getEditorName() || undefined,
+    })
+    return response.data.deleted
+  },
+
+  // Get the edit history of a job (paged, newest first), optionally of one record
+  getEdits: async (
+    importJobId: string,
+    page: number = 1,
+    pageSize: number = 20,
+    recordId?: string
+  ): Promise<PagedResult<RecordEdit>> => {
+    const params = new URLSearchParams({ page: String(page), pageSize: String(pageSize) })
+    if (recordId) params.set('recordId', recordId)
+    const response = await api.get<PagedResult<RecordEdit>>(`/data/${importJobId}/edits?${params}`)
+    return response.data
+  },
+
+  // Get rows rejected during import (paged)
+  getFailures: async (
+    importJobId: string,
+    page: number = 1,
+    pageSize: number = 50
+  ): Promise<PagedResult<ImportFailure>> => {
+    const response = await api.get<PagedResult<ImportFailure>>(
+      `/data/${importJobId}/failures?page=${page}&pageSize=${pageSize}`
+    )
+    return response.data
+  },
+
+  // Download URL for the rejected rows as CSV (server sets the file name)
+  getFailuresDownloadUrl: (importJobId: string): string =>
+    `${API_URL}/api/data/${importJobId}/failures/download`,
+
+  // Download URL for a streamed export; the browser saves it under the source file's name
+  getExportUrl: (importJobId: string, options: ExportOptions): string => {
+    const params = new URLSearchParams({ format: options.format })
+    if (options.format === 'csv' && options.delimiter) params.set('delimiter', options.delimiter)
+    if (options.searchTerm) params.set('searchTerm', options.searchTerm)
+    if (options.query) appendQueryParams(params, options.query)
+    return `${API_URL}/api/data/${importJobId}/export?${params}`
+  },
 }
 
+export const profilesApi = {
+  // Get all saved profiles, ordered by name
+  list: async (): Promise<ImportProfile[]> => {
+    const response = await api.get<ImportProfile[]>('/profiles')
+    return response.data
+  },
+
+  // Get profiles whose file name pattern matches, most specific first
+  match: async (fileName: string): Promise<ImportProfile[]> => {
+    const response = await api.get<ImportProfile[]>(`/profiles/match?fileName=${encodeURIComponent(fileName)}`)
+    return response.data
+  },
+
+  // Save settings as a new profile
+  create: async (profile: SaveImportProfile): Promise<ImportProfile> => {
+    const response = await api.post<ImportProfile>('/profiles', profile)
+    return response.data
+  },
+
+  // Replace the settings of a profile
+  update: async (id: string, profile: SaveImportProfile): Promise<ImportProfile> => {
+    const response = await api.put<ImportProfile>(`/profiles/${id}`, profile)
+    return response.data
+  },
+
+  // Delete profile
+  delete: async (id: string): Promise<void> => {
+    await api.delete(`/profiles/${id}`)
+  },
+}
+
+const JOB_POLL_INTERVAL_MS = 1000
+
 export const jobsApi = {
   // Get recent jobs
   getRecent: async (count: number = 10): Promise<ImportJob[]> => {
@@ -182,6 +763,24 @@ export const jobsApi = {
     return response.data
   },
 
+  // Get job history (paged), filtered and sorted server-side
+  list: async (
+    page: number = 1,
+    pageSize: number = 20,
+    filters: JobHistoryFilters = {}
+  ): Promise<PagedResult<ImportJob>> => {
+    const params = new URLSearchParams({ page: String(page), pageSize: String(pageSize) })
+    if (filters.statuses?.length) params.set('status', filters.statuses.join(','))
+    if (filters.fileType) params.set('fileType', filters.fileType)
+    if (filters.from) params.set('from', filters.from)
+    if (filters.to) params.set('to', filters.to)
+    if (filters.search) params.set('search', filters.search)
+    if (filters.sortBy) params.set('sortBy', filters.sortBy)
+    if (filters.descending !== undefined) params.set('desc', String(filters.descending))
+    const response = await api.get<PagedResult<ImportJob>>(`/jobs?${params}`)
+    return response.data
+  },
+
   // Get job by ID
   get: async (id: string): Promise<ImportJob> => {
     const response = await api.get<ImportJob>(`/jobs/${id}`)
@@ -192,6 +791,116 @@ export const jobsApi = {
   delete: async (id: string): Promise<void> => {
     await api.delete(`/jobs/${id}`)
   },
+
+  // Compare a job with another by key columns; one page of changed rows, optionally of one kind
+  compare: async (
+    id: string,
+    otherId: string,
+    keyColumns: string[],
+    page: number = 1,
+    pageSize: number = 50,
+    change?: RowChange
+  ): Promise<JobComparison> => {
+    const params = new URLSearchParams({ page: String(page), pageSize: String(pageSize) })
+    keyColumns.forEach((column) => params.append('keyColumn', column))
+    if (change) params.set('change', change)
+    const response = await api.get<JobComparison>(`/jobs/${id}/compare/${otherId}?${params}`)
+    return response.data
+  },
+
+  // Download URL for the changed rows of a comparison
+  getComparisonExportUrl: (id: string, otherId: string, keyColumns: string[], options: ExportOptions): string => {
+    const params = new URLSearchParams({ format: options.format })
+    if (options.format === 'csv' && options.delimiter) params.set('delimiter', options.delimiter)
+    keyColumns.forEach((column) => params.append('keyColumn', column))
+    return `${API_URL}/api/jobs/${id}/compare/${otherId}/export?${params}`
+  },
+
+  // Cancel a pending, running or paused job; keepRows=false rolls back inserted rows
+  cancel: async (id: string, keepRows: boolean = true): Promise<ImportJob> => {
+    const response = await api.post<ImportJob>(`/jobs/${id}/cancel?keepRows=${keepRows}`)
+    return response.data
+  },
+
+  // Pause a running job after its current batch
+  pause: async (id: string): Promise<ImportJob> => {
+    const response = await api.post<ImportJob>(`/jobs/${id}/pause`)
+    return response.data
+  },
+
+  // Resume a paused job
+  resume: async (id: string): Promise<ImportJob> => {
+    const response = await api.post<ImportJob>(`/jobs/${id}/resume`)
+    return response.data
+  },
+
+  // Subscribe to progress updates for a job over Server-Sent Events.
+  // Falls back to polling when the stream is unavailable or drops.
+  // Stops automatically once the job finishes; returns an unsubscribe function.
+  subscribe: (id: string, onUpdate: (job: ImportJob) => void): (() => void) => {
+    let closed = false
+    let source: EventSource | null = null
+    let pollTimer: ReturnType<typeof setTimeout> | null = null
+
+    const close = () => {
+      closed = true
+      source?.close()
+      if (pollTimer) clearTimeout(pollTimer)
+    }
+
+    const handleUpdate = (job: ImportJob) => {
+      if (closed) return
+      onUpdate(job)
+      if (job.isFinished) close()
+    }
+
+    const poll = async () => {
+      try {
+        handleUpdate(await jobsApi.get(id))
+      } catch (err) {
+        console.error('Error polling progress:', err)
+      }
+      if (!closed) pollTimer = setTimeout(poll, JOB_POLL_INTERVAL_MS)
+    }
+
+    if (typeof EventSource === 'undefined') {
+      poll()
+      return close
+    }
+
+    source = new EventSource(`${API_URL}/api/jobs/${id}/events`)
+    source.addEventListener('progress', (event) => {
+      handleUpdate(JSON.parse((event as MessageEvent<string>).data) as ImportJob)
+    })
+    source.onerror = () => {
+      source?.close()
+      source = null
+      if (!closed && !pollTimer) poll()
+    }
+
+    return close
+  },
+}
+
+// Message for a failed request, preferring the server's ProblemDetails over the generic HTTP error
+export const getErrorMessage = (err: unknown, fallback: string): string => {
+  if (axios.isAxiosError(err) && typeof err.response?.data?.detail === 'string') return err.response.data.detail
+  return err instanceof Error ? err.message : fallback
+}
+
+export function toImportProgress(job: ImportJob): ImportProgress {
+  return {
+    importJobId: job.id,
+    totalRecords: job.totalRecords,
+    processedRecords: job.processedRecords,
+    progress: job.totalRecords > 0 ? Math.round((job.processedRecords / job.totalRecords) * 100) : 0,
+    status: job.status,
+    errorMessage: job.errorMessage,
+    startedAt: job.startedAt,
+    completedAt: job.completedAt,
+    durationMs: job.durationMs,
+    ruleViolations: job.ruleViolations,
+  }
 }
 
 export default api
@@ -0,0 +1,89 @@
+import type { ColumnRules } from '../api'
+
+interface ColumnRulesEditorProps {
+  rules?: ColumnRules
+  onChange: (rules: ColumnRules | undefined) => void
+}
+
+const INPUT_CLASS =
+  'w-full px-2 py-1 text-xs border border-gray-300 rounded-md focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none'
+
+// Number of rules set on a column
+export const countRules = (rules?: ColumnRules) =>
+  rules
+    ? [rules.required, rules.pattern, rules.min, rules.max, rules.allowedValues?.length, rules.maxLength !== undefined, rules.unique]
+        .filter(Boolean).length
+    : 0
+
+// Validation rules of one column, edited in the preview; rules left empty are not sent
+export function ColumnRulesEditor({ rules = {}, onChange }: ColumnRulesEditorProps) {
+  const update = (changes: Partial<ColumnRules>) => {
+    const next = { ...rules, ...changes }
+    onChange(countRules(next) > 0 ? next : undefined)
+  }
+
+  return (
+    <div className="flex flex-col gap-1.5 p-2 bg-gray-50 border border-gray-200 rounded-md text-xs font-normal normal-case text-gray-600">
+      <div className="flex items-center gap-3">
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={!!rules.required}
+            onChange={(e) => update({ required: e.target.checked || undefined })}
+            className="rounded border-gray-300 text-primary-500 focus:ring-primary-500"
+          />
+          Required
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={!!rules.unique}
+            onChange={(e) => update({ unique: e.target.checked || undefined })}
+            className="rounded border-gray-300 text-primary-500 focus:ring-primary-500"
+          />
+          Unique
+        </label>
+      </div>
+      <input
+        type="text"
+        value={rules.pattern ?? ''}
+        placeholder="Pattern (regex)"
+        onChange={(e) => update({ pattern: e.target.value || undefined })}
+        className={`${INPUT_CLASS} font-mono`}
+      />
+      <div className="flex gap-1">
+        <input
+          type="text"
+          value={rules.min ?? ''}
+          placeholder="Min"
+          title="Number or date"
+          onChange={(e) => update({ min: e.target.value || undefined })}
+          className={INPUT_CLASS}
+        />
+        <input
+          type="text"
+          value={rules.max ?? ''}
+          placeholder="Max"
+          title="Number or date"
+          onChange={(e) => update({ max: e.target.value || undefined })}
+          className={INPUT_CLASS}
+        />
+      </div>
+      <input
+        type="number"
+        min={0}
+        value={rules.maxLength ?? ''}
+        placeholder="Max length"
+        onChange={(e) => update({ maxLength: e.target.value === '' ? undefined : Math.max(0, Math.floor(Number(e.target.value)) || 0) })}
+        className={INPUT_CLASS}
+      />
+      <input
+        type="text"
+        value={rules.allowedValues?.join(',') ?? ''}
+        placeholder="Allowed values (comma-separated)"
+        onChange={(e) => update({ allowedValues: e.target.value ? e.target.value.split(',') : undefined })}
+        className={INPUT_CLASS}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,177 @@
+import { useState, useEffect, useCallback } from 'react'
+import type { ColumnProfile, DataProfile } from '../api'
+import { dataApi } from '../api'
+
+interface DataProfilePanelProps {
+  importJobId: string
+}
+
+const formatNumber = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 4 })
+
+// Share of all records, for null and empty counts
+const formatShare = (count: number, total: number) =>
+  total === 0 ? '' : ` (${((count / total) * 100).toFixed(count === total || count === 0 ? 0 : 1)}%)`
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <p className="text-xs text-gray-500">{label}</p>
+      <p className="text-sm font-medium text-gray-800 truncate" title={value}>{value}</p>
+    </div>
+  )
+}
+
+function Histogram({ column }: { column: ColumnProfile }) {
+  const highest = Math.max(...column.histogram.map((b) => b.count), 1)
+
+  return (
+    <div>
+      <div className="flex items-end gap-0.5 h-16">
+        {column.histogram.map((bucket, i) => (
+          <div
+            key={i}
+            className="flex-1 bg-primary-400 rounded-t"
+            style={{ height: `${Math.max((bucket.count / highest) * 100, bucket.count > 0 ? 4 : 0)}%` }}
+            title={`${bucket.start} – ${bucket.end}: ${bucket.count.toLocaleString()}`}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between mt-1 text-xs text-gray-400">
+        <span>{column.histogram[0].start}</span>
+        <span>{column.histogram[column.histogram.length - 1].end}</span>
+      </div>
+    </div>
+  )
+}
+
+function ColumnCard({ column, recordCount }: { column: ColumnProfile; recordCount: number }) {
+  const topCount = column.topValues[0]?.count ?? 1
+
+  return (
+    <div className="p-4 border border-gray-200 rounded-xl space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-sm font-semibold text-gray-800 truncate" title={column.name}>
+          {column.displayName || column.name}
+        </h3>
+        <span className="px-2 py-0.5 text-xs font-medium text-gray-600 bg-gray-100 rounded">{column.dataType}</span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        <Stat label="Nulls" value={`${column.nullCount.toLocaleString()}${formatShare(column.nullCount, recordCount)}`} />
+        <Stat label="Empty" value={`${column.emptyCount.toLocaleString()}${formatShare(column.emptyCount, recordCount)}`} />
+        <Stat
+          label="Distinct"
+          value={`${column.distinctCount.toLocaleString()}${column.isDistinctCountCapped ? '+' : ''}`}
+        />
+        {column.min != null && <Stat label="Min" value={column.min} />}
+        {column.max != null && <Stat label="Max" value={column.max} />}
+        {column.mean != null && <Stat label="Mean" value={formatNumber(column.mean)} />}
+      </div>
+
+      {column.histogram.length > 0 && <Histogram column={column} />}
+
+      {column.topValues.length > 0 && (
+        <div>
+          <p className="text-xs text-gray-500 mb-1">Top values</p>
+          <ul className="space-y-1">
+            {column.topValues.map((v) => (
+              <li key={v.value} className="relative flex items-center justify-between gap-2 px-2 py-0.5 text-xs">
+                <div
+                  className="absolute inset-y-0 left-0 bg-primary-50 rounded"
+                  style={{ width: `${(v.count / topCount) * 100}%` }}
+                />
+                <span className="relative text-gray-700 truncate" title={v.value}>{v.value}</span>
+                <span className="relative font-mono text-gray-500">{v.count.toLocaleString()}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {column.typeMismatchCount > 0 && (
+        <div className="p-2 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-700">
+          <p className="font-medium">
+            {column.typeMismatchCount.toLocaleString()} values are not {column.dataType}
+          </p>
+          <p className="mt-1 truncate" title={column.typeMismatchSamples.join(', ')}>
+            e.g. {column.typeMismatchSamples.map((s) => `"${s}"`).join(', ')}
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Per-column data-quality summary of an import job
+export function DataProfilePanel({ importJobId }: DataProfilePanelProps) {
+  const [profile, setProfile] = useState<DataProfile | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadProfile = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      setProfile(await dataApi.getProfile(importJobId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load profile')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [importJobId])
+
+  useEffect(() => {
+    loadProfile()
+  }, [loadProfile])
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="flex items-center gap-3">
+          <svg className="w-6 h-6 text-primary-500 animate-spin" fill="none" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+          </svg>
+          <span className="text-gray-600">Profiling columns...</span>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !profile) {
+    return (
+      <div className="p-6 bg-red-50 border border-red-200 rounded-xl">
+        <p className="text-red-600">{error ?? 'Failed to load profile'}</p>
+        <button
+          onClick={loadProfile}
+          className="mt-4 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+        >
+          Retry
+        </button>
+      </div>
+    )
+  }
+
+  const mismatchedColumns = profile.columns.filter((c) => c.typeMismatchCount > 0).length
+
+  return (
+    <div className="w-full">
+      <div className="flex items-center justify-between mb-4">
+        <p className="text-sm text-gray-500">
+          {profile.recordCount.toLocaleString()} records · {profile.columns.length} columns
+          {mismatchedColumns > 0 && (
+            <span className="text-amber-600"> · {mismatchedColumns} with values not matching their type</span>
+          )}
+        </p>
+        <button onClick={loadProfile} className="text-sm font-medium text-primary-600 hover:text-primary-700">
+          Refresh
+        </button>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {profile.columns.map((column) => (
+          <ColumnCard key={column.name} column={column} recordCount={profile.recordCount} />
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,8 @@
-import { useState, useEffect, useCallback } from 'react'
-import type { ImportedRecord, PagedResult, FileSchema } from '../api'
-import { dataApi } from '../api'
+import { useState, useEffect, useCallback, useMemo, useRef, type KeyboardEvent } from 'react'
+import type { ImportedRecord, PagedResult, FileSchema, ExportFormat, ColumnDefinition, ColumnFilter, RecordSort } from '../api'
+import { dataApi, getEditorName, setEditorName, getErrorMessage } from '../api'
+import { useSearchParams, getPageParam } from '../router'
+import { RecordEditHistory } from './RecordEditHistory'
 
 interface DataTableProps {
   importJobId: string
@@ -11,17 +13,80 @@ export function DataTable({ importJobId }: DataTableProps) {
   const [records, setRecords] = useState<PagedResult<ImportedRecord> | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [currentPage, setCurrentPage] = useState(1)
-  const [searchTerm, setSearchTerm] = useState('')
-  const [debouncedSearch, setDebouncedSearch] = useState('')
+
+  // The URL holds the applied page, search, filters and sort so the view can be restored and shared
+  const [searchParams, setSearchParams] = useSearchParams()
+  const currentPage = getPageParam(searchParams)
+  const appliedSearch = searchParams.get('q') ?? ''
+  const filtersParam = searchParams.get('filters') ?? ''
+  const sortColumn = searchParams.get('sort')
+  const sortDescending = searchParams.get('desc') === 'true'
+  const appliedFilters = useMemo(() => parseFilters(filtersParam), [filtersParam])
+  const sort = useMemo<RecordSort | null>(
+    () => (sortColumn ? { column: sortColumn, descending: sortDescending } : null),
+    [sortColumn, sortDescending]
+  )
+
+  // Inputs are edited locally and written to the URL once the user pauses typing
+  const [searchTerm, setSearchTerm] = useState(appliedSearch)
+  const [filters, setFilters] = useState<Record<string, ColumnFilter>>(() => toFilterMap(appliedFilters))
+  const syncedSearchRef = useRef(appliedSearch)
+  const syncedFiltersRef = useRef(filtersParam)
+  const activeFiltersParam = serializeFilters(Object.values(filters))
+
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv')
+  const [exportDelimiter, setExportDelimiter] = useState(',')
+  const [exportMatchesOnly, setExportMatchesOnly] = useState(false)
+
+  // Inline editing and row selection on the current page
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [editingCell, setEditingCell] = useState<{ recordId: string; column: string } | null>(null)
+  const [editError, setEditError] = useState<string | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+  const [historyVersion, setHistoryVersion] = useState(0)
+  const [editorName, setEditorNameInput] = useState(getEditorName)
 
   const pageSize = 25
 
   // Debounce search
   useEffect(() => {
-    const timer = setTimeout(() => setDebouncedSearch(searchTerm), 300)
+    if (searchTerm === appliedSearch) return
+    const timer = setTimeout(() => {
+      syncedSearchRef.current = searchTerm
+      setSearchParams((params) => {
+        setOrDelete(params, 'q', searchTerm)
+        params.delete('page')
+      }, { replace: true })
+    }, 300)
     return () => clearTimeout(timer)
-  }, [searchTerm])
+  }, [searchTerm, appliedSearch, setSearchParams])
+
+  // Debounce column filters; only complete filters are applied
+  useEffect(() => {
+    if (activeFiltersParam === filtersParam) return
+    const timer = setTimeout(() => {
+      syncedFiltersRef.current = activeFiltersParam
+      setSearchParams((params) => {
+        setOrDelete(params, 'filters', activeFiltersParam)
+        params.delete('page')
+      }, { replace: true })
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [activeFiltersParam, filtersParam, setSearchParams])
+
+  // Follow URL changes we didn't make ourselves (back/forward, another job)
+  useEffect(() => {
+    if (appliedSearch === syncedSearchRef.current) return
+    syncedSearchRef.current = appliedSearch
+    setSearchTerm(appliedSearch)
+  }, [appliedSearch])
+
+  useEffect(() => {
+    if (filtersParam === syncedFiltersRef.current) return
+    syncedFiltersRef.current = filtersParam
+    setFilters(toFilterMap(parseFilters(filtersParam)))
+  }, [filtersParam])
 
   const loadData = useCallback(async () => {
     setIsLoading(true)
@@ -29,39 +94,128 @@ export function DataTable({ importJobId }: DataTableProps) {
     try {
       const [schemaData, recordsData] = await Promise.all([
         dataApi.getSchema(importJobId),
-        debouncedSearch
-          ? dataApi.search(importJobId, debouncedSearch, currentPage, pageSize)
-          : dataApi.getRecords(importJobId, currentPage, pageSize),
+        appliedSearch
+          ? dataApi.search(importJobId, appliedSearch, currentPage, pageSize, { filters: appliedFilters, sort })
+          : dataApi.getRecords(importJobId, currentPage, pageSize, { filters: appliedFilters, sort }),
       ])
       setSchema(schemaData)
       setRecords(recordsData)
+      setSelectedIds(new Set())
+      setEditingCell(null)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load data')
     } finally {
       setIsLoading(false)
     }
-  }, [importJobId, currentPage, debouncedSearch])
+  }, [importJobId, currentPage, appliedSearch, appliedFilters, sort])
 
   useEffect(() => {
     loadData()
   }, [loadData])
 
-  const handleExport = async (format: 'csv' | 'json') => {
+  const setCurrentPage = (page: number) => {
+    setSearchParams((params) => {
+      if (page > 1) params.set('page', String(page))
+      else params.delete('page')
+    })
+  }
+
+  const handleFilterChange = (column: string, filter: ColumnFilter) => {
+    setFilters((prev) => ({ ...prev, [column]: filter }))
+  }
+
+  // Cycle ascending -> descending -> row order
+  const handleSort = (column: string) => {
+    setSearchParams((params) => {
+      if (sort?.column !== column) {
+        params.set('sort', column)
+        params.delete('desc')
+      } else if (!sort.descending) {
+        params.set('desc', 'true')
+      } else {
+        params.delete('sort')
+        params.delete('desc')
+      }
+      params.delete('page')
+    })
+  }
+
+  const handleEditorNameChange = (name: string) => {
+    setEditorNameInput(name)
+    setEditorName(name)
+  }
+
+  const handleSaveCell = async (record: ImportedRecord, column: ColumnDefinition, text: string) => {
+    const invalid = validateCellValue(text, column.detectedType)
+    if (invalid) {
+      setEditError(invalid)
+      return
+    }
+
     try {
-      const blob = await dataApi.export(importJobId, format)
-      const url = URL.createObjectURL(blob)
-      const a = document.createElement('a')
-      a.href = url
-      a.download = `export.${format}`
-      document.body.appendChild(a)
-      a.click()
-      document.body.removeChild(a)
-      URL.revokeObjectURL(url)
+      const updated = await dataApi.updateRecord(importJobId, record.id, { [column.name]: text.trim() ? text : null })
+      setRecords((prev) => prev && { ...prev, items: prev.items.map((r) => (r.id === updated.id ? updated : r)) })
+      setEditingCell(null)
+      setEditError(null)
+      setHistoryVersion((v) => v + 1)
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to export data')
+      setEditError(getErrorMessage(err, 'Failed to save value'))
     }
   }
 
+  const handleCancelEdit = () => {
+    setEditingCell(null)
+    setEditError(null)
+  }
+
+  const toggleSelected = (recordId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(recordId)) next.delete(recordId)
+      else next.add(recordId)
+      return next
+    })
+  }
+
+  const toggleAllSelected = () => {
+    if (!records) return
+    setSelectedIds((prev) =>
+      prev.size === records.items.length ? new Set() : new Set(records.items.map((r) => r.id))
+    )
+  }
+
+  const handleDeleteSelected = async () => {
+    const count = selectedIds.size
+    if (!confirm(`Delete ${count} selected record${count === 1 ? '' : 's'}? Their values stay in the edit history.`)) return
+
+    setIsDeleting(true)
+    try {
+      await dataApi.deleteRecords(importJobId, [...selectedIds])
+      setEditError(null)
+      setHistoryVersion((v) => v + 1)
+      await loadData()
+    } catch (err) {
+      setEditError(getErrorMessage(err, 'Failed to delete records'))
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  // Navigate to the export URL so the browser streams the download instead of buffering it
+  const handleExport = () => {
+    const a = document.createElement('a')
+    a.href = dataApi.getExportUrl(importJobId, {
+      format: exportFormat,
+      delimiter: exportDelimiter,
+      searchTerm: exportMatchesOnly ? appliedSearch : undefined,
+      query: exportMatchesOnly ? { filters: appliedFilters, sort } : { sort },
+    })
+    a.download = ''
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+  }
+
   if (isLoading && !records) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -93,6 +247,7 @@ export function DataTable({ importJobId }: DataTableProps) {
   if (!schema || !records) return null
 
   const columns = schema.columns.filter((c) => !c.isIgnored)
+  const highlight = parseSearch(appliedSearch, columns)
 
   return (
     <div className="w-full">
@@ -102,12 +257,9 @@ export function DataTable({ importJobId }: DataTableProps) {
         <div className="relative w-full sm:w-96">
           <input
             type="text"
-            placeholder="Search records..."
+            placeholder="Search records, or column:value..."
             value={searchTerm}
-            onChange={(e) => {
-              setSearchTerm(e.target.value)
-              setCurrentPage(1)
-            }}
+            onChange={(e) => setSearchTerm(e.target.value)}
             className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none transition-all"
           />
           <svg
@@ -120,36 +272,102 @@ export function DataTable({ importJobId }: DataTableProps) {
           </svg>
         </div>
 
-        {/* Export Buttons */}
+        {/* Export */}
         <div className="flex items-center gap-2">
+          {(appliedSearch || appliedFilters.length > 0) && (
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={exportMatchesOnly}
+                onChange={(e) => setExportMatchesOnly(e.target.checked)}
+                className="rounded border-gray-300 text-primary-500 focus:ring-primary-500"
+              />
+              Only matches
+            </label>
+          )}
+          <select
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+          >
+            <option value="csv">CSV</option>
+            <option value="json">JSON</option>
+            <option value="ndjson">NDJSON</option>
+            <option value="xlsx">Excel (XLSX)</option>
+          </select>
+          {exportFormat === 'csv' && (
+            <select
+              value={exportDelimiter}
+              onChange={(e) => setExportDelimiter(e.target.value)}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+              title="Delimiter"
+            >
+              <option value=",">Comma (,)</option>
+              <option value=";">Semicolon (;)</option>
+              <option value={'\t'}>Tab</option>
+              <option value="|">Pipe (|)</option>
+            </select>
+          )}
           <button
-            onClick={() => handleExport('csv')}
+            onClick={handleExport}
             className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2"
           >
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
             </svg>
-            Export CSV
+            Export
           </button>
+        </div>
+      </div>
+
+      {/* Results info and editing */}
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2 mb-4 text-sm text-gray-500">
+        <div className="flex items-center gap-4">
+          <span>
+            Showing {((currentPage - 1) * pageSize + 1).toLocaleString()} -{' '}
+            {Math.min(currentPage * pageSize, records.totalCount).toLocaleString()} of{' '}
+            {records.totalCount.toLocaleString()} records
+            {appliedSearch && ` matching "${appliedSearch}"`}
+          </span>
+          {selectedIds.size > 0 && (
+            <button
+              onClick={handleDeleteSelected}
+              disabled={isDeleting}
+              className="px-3 py-1 text-xs font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors"
+            >
+              {isDeleting ? 'Deleting...' : `Delete ${selectedIds.size} selected`}
+            </button>
+          )}
+        </div>
+        <div className="flex items-center gap-3 text-xs">
+          <label className="flex items-center gap-2" title="Recorded with every edit and deletion">
+            Editing as
+            <input
+              type="text"
+              placeholder="anonymous"
+              value={editorName}
+              onChange={(e) => handleEditorNameChange(e.target.value)}
+              className="w-32 px-2 py-1 border border-gray-300 rounded focus:ring-1 focus:ring-primary-500 focus:border-primary-500 outline-none"
+            />
+          </label>
           <button
-            onClick={() => handleExport('json')}
-            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2"
+            onClick={() => setShowHistory((v) => !v)}
+            className="font-medium text-primary-600 hover:text-primary-700"
           >
-            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
-            </svg>
-            Export JSON
+            {showHistory ? 'Hide edit history' : 'Edit history'}
           </button>
         </div>
       </div>
 
-      {/* Results info */}
-      <div className="mb-4 text-sm text-gray-500">
-        Showing {((currentPage - 1) * pageSize + 1).toLocaleString()} -{' '}
-        {Math.min(currentPage * pageSize, records.totalCount).toLocaleString()} of{' '}
-        {records.totalCount.toLocaleString()} records
-        {debouncedSearch && ` matching "${debouncedSearch}"`}
-      </div>
+      {editError && (
+        <div className="mb-4 p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-lg">{editError}</div>
+      )}
+
+      {showHistory && (
+        <div className="mb-4">
+          <RecordEditHistory importJobId={importJobId} refreshTrigger={historyVersion} />
+        </div>
+      )}
 
       {/* Table */}
       <div className="border border-gray-200 rounded-xl overflow-hidden">
@@ -157,6 +375,15 @@ export function DataTable({ importJobId }: DataTableProps) {
           <table className="w-full">
             <thead className="bg-gray-50">
               <tr>
+                <th className="pl-4 py-3 border-b border-gray-200 w-8">
+                  <input
+                    type="checkbox"
+                    checked={records.items.length > 0 && selectedIds.size === records.items.length}
+                    onChange={toggleAllSelected}
+                    className="rounded border-gray-300 text-primary-500 focus:ring-primary-500"
+                    title="Select all on this page"
+                  />
+                </th>
                 <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-gray-200 w-16">
                   Row
                 </th>
@@ -165,26 +392,94 @@ export function DataTable({ importJobId }: DataTableProps) {
                     key={column.index}
                     className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-gray-200"
                   >
-                    {column.displayName || column.name}
+                    <button
+                      onClick={() => handleSort(column.name)}
+                      className="flex items-center gap-1 uppercase tracking-wider hover:text-gray-700"
+                      title="Sort"
+                    >
+                      {column.displayName || column.name}
+                      <span className="text-gray-400">
+                        {sort?.column === column.name ? (sort.descending ? '▼' : '▲') : '↕'}
+                      </span>
+                    </button>
+                  </th>
+                ))}
+              </tr>
+              <tr>
+                <th className="border-b border-gray-200" />
+                <th className="px-4 py-2 border-b border-gray-200">
+                  {Object.keys(filters).length > 0 && (
+                    <button
+                      onClick={() => setFilters({})}
+                      className="text-xs font-normal text-primary-600 hover:text-primary-700"
+                    >
+                      Clear
+                    </button>
+                  )}
+                </th>
+                {columns.map((column) => (
+                  <th key={column.index} className="px-4 py-2 border-b border-gray-200 font-normal">
+                    <ColumnFilterInput
+                      column={column}
+                      filter={filters[column.name]}
+                      onChange={(filter) => handleFilterChange(column.name, filter)}
+                    />
                   </th>
                 ))}
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-100">
               {records.items.map((record) => (
-                <tr key={record.id} className="hover:bg-gray-50 transition-colors">
+                <tr
+                  key={record.id}
+                  className={`transition-colors ${selectedIds.has(record.id) ? 'bg-primary-50' : 'hover:bg-gray-50'}`}
+                >
+                  <td className="pl-4 py-3">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(record.id)}
+                      onChange={() => toggleSelected(record.id)}
+                      className="rounded border-gray-300 text-primary-500 focus:ring-primary-500"
+                    />
+                  </td>
                   <td className="px-4 py-3 text-sm text-gray-400 font-mono">
                     {record.rowNumber}
+                    {record.updatedAt && (
+                      <span
+                        className="ml-1 text-amber-500"
+                        title={`Edited ${new Date(record.updatedAt).toLocaleString()}`}
+                      >
+                        •
+                      </span>
+                    )}
                   </td>
-                  {columns.map((column) => (
-                    <td
-                      key={column.index}
-                      className="px-4 py-3 text-sm text-gray-600 truncate max-w-[300px]"
-                      title={String(record.data[column.name] ?? '')}
-                    >
-                      {formatValue(record.data[column.name])}
-                    </td>
-                  ))}
+                  {columns.map((column) =>
+                    editingCell?.recordId === record.id && editingCell.column === column.name ? (
+                      <td key={column.index} className="px-2 py-1.5">
+                        <CellEditor
+                          column={column}
+                          value={record.data[column.name]}
+                          onSave={(text) => handleSaveCell(record, column, text)}
+                          onCancel={handleCancelEdit}
+                        />
+                      </td>
+                    ) : (
+                      <td
+                        key={column.index}
+                        className="px-4 py-3 text-sm text-gray-600 truncate max-w-[300px] cursor-text"
+                        title={`${String(record.data[column.name] ?? '')}\nDouble-click to edit`}
+                        onDoubleClick={() => {
+                          setEditingCell({ recordId: record.id, column: column.name })
+                          setEditError(null)
+                        }}
+                      >
+                        <HighlightedText
+                          value={record.data[column.name]}
+                          term={highlight && (!highlight.column || highlight.column === column.name) ? highlight.term : undefined}
+                        />
+                      </td>
+                    )
+                  )}
                 </tr>
               ))}
             </tbody>
@@ -196,7 +491,7 @@ export function DataTable({ importJobId }: DataTableProps) {
       {records.totalPages > 1 && (
         <div className="flex items-center justify-between mt-4">
           <button
-            onClick={() => setCurrentPage((p) => Math.max(1, p - 1))}
+            onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
             disabled={currentPage === 1}
             className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
           >
@@ -226,7 +521,7 @@ export function DataTable({ importJobId }: DataTableProps) {
           </div>
 
           <button
-            onClick={() => setCurrentPage((p) => Math.min(records.totalPages, p + 1))}
+            onClick={() => setCurrentPage(Math.min(records.totalPages, currentPage + 1))}
             disabled={currentPage === records.totalPages}
             className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
           >
@@ -238,6 +533,255 @@ export function DataTable({ importJobId }: DataTableProps) {
   )
 }
 
+interface ColumnFilterInputProps {
+  column: ColumnDefinition
+  filter?: ColumnFilter
+  onChange: (filter: ColumnFilter) => void
+}
+
+const FILTER_INPUT_CLASS =
+  'w-full min-w-[5rem] px-2 py-1 text-xs border border-gray-300 rounded focus:ring-1 focus:ring-primary-500 focus:border-primary-500 outline-none'
+
+// Filter control matching the column's detected type
+function ColumnFilterInput({ column, filter, onChange }: ColumnFilterInputProps) {
+  const update = (changes: Partial<ColumnFilter>) => {
+    const next = { column: column.name, operator: filter?.operator ?? 'contains', ...filter, ...changes }
+    onChange(next)
+  }
+
+  switch (column.detectedType) {
+    case 'integer':
+    case 'decimal':
+    case 'date':
+    case 'datetime': {
+      const inputType = column.detectedType === 'integer' || column.detectedType === 'decimal' ? 'number' : 'date'
+      return (
+        <div className="flex items-center gap-1">
+          <input
+            type={inputType}
+            placeholder="Min"
+            value={filter?.value ?? ''}
+            onChange={(e) => update({ operator: 'between', value: e.target.value })}
+            className={FILTER_INPUT_CLASS}
+          />
+          <input
+            type={inputType}
+            placeholder="Max"
+            value={filter?.valueTo ?? ''}
+            onChange={(e) => update({ operator: 'between', valueTo: e.target.value })}
+            className={FILTER_INPUT_CLASS}
+          />
+        </div>
+      )
+    }
+    case 'boolean':
+      return (
+        <select
+          value={filter?.value ?? ''}
+          onChange={(e) => update({ operator: 'equal', value: e.target.value })}
+          className={FILTER_INPUT_CLASS}
+        >
+          <option value="">Any</option>
+          <option value="true">Yes</option>
+          <option value="false">No</option>
+        </select>
+      )
+    default:
+      return (
+        <div className="flex items-center gap-1">
+          <select
+            value={filter?.operator ?? 'contains'}
+            onChange={(e) => update({ operator: e.target.value as ColumnFilter['operator'] })}
+            className={`${FILTER_INPUT_CLASS} w-auto min-w-0`}
+          >
+            <option value="contains">Contains</option>
+            <option value="equal">Equals</option>
+            <option value="isEmpty">Is empty</option>
+          </select>
+          {filter?.operator !== 'isEmpty' && (
+            <input
+              type="text"
+              placeholder="Filter..."
+              value={filter?.value ?? ''}
+              onChange={(e) => update({ value: e.target.value })}
+              className={FILTER_INPUT_CLASS}
+            />
+          )}
+        </div>
+      )
+  }
+}
+
+interface CellEditorProps {
+  column: ColumnDefinition
+  value: unknown
+  onSave: (text: string) => Promise<void>
+  onCancel: () => void
+}
+
+const CELL_INPUT_CLASS =
+  'w-full min-w-[6rem] px-2 py-1 text-sm border border-primary-400 rounded focus:ring-1 focus:ring-primary-500 outline-none'
+
+// Input matching the column's detected type; Enter or leaving the field saves, Escape cancels
+function CellEditor({ column, value, onSave, onCancel }: CellEditorProps) {
+  const initial = toInputValue(value, column.detectedType)
+  const [text, setText] = useState(initial)
+  // Enter followed by the blur it causes must not save twice
+  const savingRef = useRef(false)
+
+  const commit = async (next: string) => {
+    if (next === initial) {
+      onCancel()
+      return
+    }
+    if (savingRef.current) return
+    savingRef.current = true
+    await onSave(next)
+    savingRef.current = false
+  }
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Enter') commit(text)
+    if (e.key === 'Escape') onCancel()
+  }
+
+  if (column.detectedType === 'boolean') {
+    return (
+      <select
+        autoFocus
+        value={text}
+        onChange={(e) => commit(e.target.value)}
+        onBlur={onCancel}
+        onKeyDown={handleKeyDown}
+        className={CELL_INPUT_CLASS}
+      >
+        <option value="">—</option>
+        <option value="true">Yes</option>
+        <option value="false">No</option>
+      </select>
+    )
+  }
+
+  const inputType =
+    column.detectedType === 'date' ? 'date' : column.detectedType === 'datetime' ? 'datetime-local' : 'text'
+
+  return (
+    <input
+      autoFocus
+      type={inputType}
+      inputMode={column.detectedType === 'integer' || column.detectedType === 'decimal' ? 'decimal' : undefined}
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={() => commit(text)}
+      onKeyDown={handleKeyDown}
+      className={CELL_INPUT_CLASS}
+    />
+  )
+}
+
+// Stored value as text for an input of the column's type
+function toInputValue(value: unknown, dataType: string): string {
+  if (value === null || value === undefined) return ''
+  const text = String(value)
+  if (dataType === 'date') return text.slice(0, 10)
+  if (dataType === 'datetime') return text.slice(0, 16)
+  return text
+}
+
+// Same checks the server makes when converting an edited value; empty clears the value
+function validateCellValue(text: string, dataType: string): string | null {
+  const value = text.trim()
+  if (!value) return null
+
+  const valid =
+    dataType === 'integer' ? /^[-+]?\d+$/.test(value)
+    : dataType === 'decimal' ? /^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/.test(value)
+    : dataType === 'boolean' ? /^(true|false)$/i.test(value)
+    : dataType === 'date' || dataType === 'datetime' ? !Number.isNaN(Date.parse(value))
+    : true
+
+  return valid ? null : `"${value}" is not a valid ${dataType}`
+}
+
+interface SearchHighlight {
+  term: string
+  column?: string
+}
+
+// Mirrors the server's "column:value" scoping so only matching cells are highlighted
+function parseSearch(searchTerm: string, columns: ColumnDefinition[]): SearchHighlight | null {
+  const term = searchTerm.trim()
+  if (!term) return null
+
+  const separator = term.indexOf(':')
+  if (separator > 0) {
+    const prefix = term.slice(0, separator).trim().toLowerCase()
+    const value = term.slice(separator + 1).trim()
+    const column = columns.find(
+      (c) => c.name.toLowerCase() === prefix || c.displayName?.toLowerCase() === prefix
+    )
+    if (column && value) return { term: value, column: column.name }
+  }
+
+  return { term }
+}
+
+interface HighlightedTextProps {
+  value: unknown
+  term?: string
+}
+
+// The server searches values as stored, so a searched cell shows its value that way rather than locale-formatted
+function HighlightedText({ value, term }: HighlightedTextProps) {
+  if (!term || value === null || value === undefined) return <>{formatValue(value)}</>
+
+  const text = String(value)
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  const parts = text.split(new RegExp(`(${escaped})`, 'gi'))
+
+  return (
+    <>
+      {parts.map((part, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} className="bg-yellow-200 text-gray-900 rounded-sm">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  )
+}
+
+function isActiveFilter(filter: ColumnFilter): boolean {
+  return filter.operator === 'isEmpty' || !!filter.value || !!filter.valueTo
+}
+
+function serializeFilters(filters: ColumnFilter[]): string {
+  const active = filters.filter(isActiveFilter)
+  return active.length > 0 ? JSON.stringify(active) : ''
+}
+
+function parseFilters(param: string): ColumnFilter[] {
+  if (!param) return []
+  try {
+    const parsed = JSON.parse(param)
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+function toFilterMap(filters: ColumnFilter[]): Record<string, ColumnFilter> {
+  return Object.fromEntries(filters.map((f) => [f.column, f]))
+}
+
+function setOrDelete(params: URLSearchParams, key: string, value: string) {
+  if (value) params.set(key, value)
+  else params.delete(key)
+}
+
 function formatValue(value: unknown): string {
   if (value === null || value === undefined) return '—'
   if (typeof value === 'boolean') return value ? 'Yes' : 'No'
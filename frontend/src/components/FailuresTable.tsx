@@ -0,0 +1,194 @@
+import { useState, useEffect, useCallback } from 'react'
+import type { ImportFailure, PagedResult, RuleViolation } from '../api'
+import { dataApi, jobsApi } from '../api'
+import { useSearchParams, getPageParam } from '../router'
+import { RuleViolationSummary } from './RuleViolationSummary'
+
+interface FailuresTableProps {
+  importJobId: string
+}
+
+export function FailuresTable({ importJobId }: FailuresTableProps) {
+  const [failures, setFailures] = useState<PagedResult<ImportFailure> | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [violations, setViolations] = useState<RuleViolation[]>([])
+  const [searchParams, setSearchParams] = useSearchParams()
+  const currentPage = getPageParam(searchParams)
+
+  const pageSize = 25
+
+  const loadFailures = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      setFailures(await dataApi.getFailures(importJobId, currentPage, pageSize))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load failures')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [importJobId, currentPage])
+
+  useEffect(() => {
+    loadFailures()
+  }, [loadFailures])
+
+  // The job holds the per-rule counts, so the summary covers every page
+  useEffect(() => {
+    jobsApi
+      .get(importJobId)
+      .then((job) => setViolations(job.ruleViolations ?? []))
+      .catch(() => setViolations([]))
+  }, [importJobId])
+
+  const setCurrentPage = (page: number) => {
+    setSearchParams((params) => {
+      if (page > 1) params.set('page', String(page))
+      else params.delete('page')
+    })
+  }
+
+  if (isLoading && !failures) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="flex items-center gap-3">
+          <svg className="w-6 h-6 text-primary-500 animate-spin" fill="none" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+          </svg>
+          <span className="text-gray-600">Loading failures...</span>
+        </div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="p-6 bg-red-50 border border-red-200 rounded-xl">
+        <p className="text-red-600">{error}</p>
+        <button
+          onClick={loadFailures}
+          className="mt-4 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+        >
+          Retry
+        </button>
+      </div>
+    )
+  }
+
+  if (!failures) return null
+
+  if (failures.totalCount === 0) {
+    return (
+      <div className="py-12 text-center">
+        <svg className="w-12 h-12 mx-auto text-accent-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+        <p className="mt-4 text-sm text-gray-500">No rows were rejected in this import</p>
+      </div>
+    )
+  }
+
+  // Column set of the rejected rows, in the order they first appear
+  const columns = Array.from(
+    new Set(failures.items.flatMap((failure) => Object.keys(failure.rawData)))
+  )
+
+  return (
+    <div className="w-full">
+      {/* Toolbar */}
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 mb-4">
+        <p className="text-sm text-gray-500">
+          {failures.totalCount.toLocaleString()} rejected rows. Download them, fix the values and upload the file again.
+        </p>
+        <a
+          href={dataApi.getFailuresDownloadUrl(importJobId)}
+          download
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+          </svg>
+          Download error CSV
+        </a>
+      </div>
+
+      {violations.length > 0 && (
+        <div className="mb-4">
+          <RuleViolationSummary violations={violations} />
+        </div>
+      )}
+
+      {/* Table */}
+      <div className="border border-gray-200 rounded-xl overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-gray-200 w-16">
+                  Row
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-gray-200">
+                  Error
+                </th>
+                {columns.map((column) => (
+                  <th
+                    key={column}
+                    className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-gray-200"
+                  >
+                    {column}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-100">
+              {failures.items.map((failure) => (
+                <tr key={failure.id} className="hover:bg-gray-50 transition-colors">
+                  <td className="px-4 py-3 text-sm text-gray-400 font-mono">
+                    {failure.rowNumber}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-red-600 max-w-[400px]">
+                    {failure.errorMessage}
+                  </td>
+                  {columns.map((column) => (
+                    <td
+                      key={column}
+                      className="px-4 py-3 text-sm text-gray-600 truncate max-w-[300px]"
+                      title={failure.rawData[column] ?? ''}
+                    >
+                      {failure.rawData[column] || '—'}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Pagination */}
+      {failures.totalPages > 1 && (
+        <div className="flex items-center justify-between mt-4">
+          <button
+            onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
+            disabled={currentPage === 1}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Previous
+          </button>
+          <span className="text-sm text-gray-500">
+            Page {currentPage} of {failures.totalPages}
+          </span>
+          <button
+            onClick={() => setCurrentPage(Math.min(failures.totalPages, currentPage + 1))}
+            disabled={currentPage === failures.totalPages}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -2,16 +2,22 @@ import { useCallback, useState } from 'react'
 import { useDropzone } from 'react-dropzone'
 
 interface FileUploadProps {
-  onFileSelect: (file: File) => void
+  onFilesSelect: (files: File[]) => void
   acceptedFormats?: string[]
+  // Server upload limit; files are only checked once it is known
   maxSizeMB?: number
+  maxFiles?: number
   isLoading?: boolean
 }
 
+const formatLimit = (megabytes: number) =>
+  megabytes >= 1024 && megabytes % 1024 === 0 ? `${megabytes / 1024}GB` : `${megabytes}MB`
+
 export function FileUpload({
-  onFileSelect,
-  acceptedFormats = ['.csv', '.xlsx', '.xls'],
-  maxSizeMB = 100,
+  onFilesSelect,
+  acceptedFormats = ['.csv', '.txt', '.dat', '.xlsx', '.xls', '.json', '.ndjson', '.jsonl', '.xml', '.gz', '.zip'],
+  maxSizeMB,
+  maxFiles = 50,
   isLoading = false,
 }: FileUploadProps) {
   const [error, setError] = useState<string | null>(null)
@@ -20,31 +26,42 @@ export function FileUpload({
     (acceptedFiles: File[], rejectedFiles: unknown[]) => {
       setError(null)
 
-      if (rejectedFiles.length > 0) {
-        setError('Invalid file. Please upload a CSV or Excel file.')
+      if (rejectedFiles.length > 0 && acceptedFiles.length === 0) {
+        setError(`Invalid files. Please upload up to ${maxFiles} CSV, Excel, JSON or XML files.`)
         return
       }
 
-      if (acceptedFiles.length > 0) {
-        const file = acceptedFiles[0]
-        if (file.size > maxSizeMB * 1024 * 1024) {
-          setError(`File size exceeds ${maxSizeMB}MB limit.`)
-          return
-        }
-        onFileSelect(file)
+      const isOversized = (file: File) => maxSizeMB !== undefined && file.size > maxSizeMB * 1024 * 1024
+      const oversized = acceptedFiles.filter(isOversized)
+      const validFiles = acceptedFiles.filter((file) => !isOversized(file))
+
+      if (oversized.length > 0 && maxSizeMB !== undefined) {
+        setError(`Skipped ${oversized.map((f) => f.name).join(', ')}: file size exceeds ${formatLimit(maxSizeMB)} limit.`)
+      } else if (rejectedFiles.length > 0) {
+        setError(`Skipped ${rejectedFiles.length} unsupported file(s).`)
+      }
+
+      if (validFiles.length > 0) {
+        onFilesSelect(validFiles)
       }
     },
-    [onFileSelect, maxSizeMB]
+    [onFilesSelect, maxSizeMB, maxFiles]
   )
 
   const { getRootProps, getInputProps, isDragActive, isDragReject } = useDropzone({
     onDrop,
     accept: {
       'text/csv': ['.csv'],
+      'text/plain': ['.txt', '.dat'],
       'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
       'application/vnd.ms-excel': ['.xls'],
+      'application/json': ['.json'],
+      'application/x-ndjson': ['.ndjson', '.jsonl'],
+      'application/xml': ['.xml'],
+      'application/gzip': ['.gz'],
+      'application/zip': ['.zip'],
     },
-    maxFiles: 1,
+    maxFiles,
     disabled: isLoading,
   })
 
@@ -114,13 +131,13 @@ export function FileUpload({
           {/* Text */}
           <div>
             {isLoading ? (
-              <p className="text-lg font-medium text-gray-600">Processing file...</p>
+              <p className="text-lg font-medium text-gray-600">Processing files...</p>
             ) : isDragActive ? (
-              <p className="text-lg font-medium text-primary-600">Drop your file here!</p>
+              <p className="text-lg font-medium text-primary-600">Drop your files here!</p>
             ) : (
               <>
                 <p className="text-lg font-medium text-gray-700">
-                  Drag & drop your file here
+                  Drag & drop one or more files here
                 </p>
                 <p className="text-sm text-gray-500 mt-1">
                   or <span className="text-primary-500 underline">click to browse</span>
@@ -141,7 +158,9 @@ export function FileUpload({
             ))}
           </div>
 
-          <p className="text-xs text-gray-400">Maximum file size: {maxSizeMB}MB</p>
+          <p className="text-xs text-gray-400">
+            Up to {maxFiles} files{maxSizeMB !== undefined && `, maximum file size: ${formatLimit(maxSizeMB)}`}
+          </p>
         </div>
       </div>
 
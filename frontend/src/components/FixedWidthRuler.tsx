@@ -0,0 +1,111 @@
+import { useState, useEffect } from 'react'
+import type { FixedWidthColumn } from '../api'
+
+interface FixedWidthRulerProps {
+  file: File
+  // Layout in use, if any; the ruler starts from its cut positions and names
+  columns?: FixedWidthColumn[]
+  onApply: (columns: FixedWidthColumn[]) => void
+}
+
+// Lines of the file shown under the ruler
+const SAMPLE_LINES = 12
+const SAMPLE_BYTES = 32 * 1024
+
+const SEGMENT_COLORS = ['bg-primary-50', 'bg-amber-50']
+
+// Tick marks every character, with the position printed every ten
+const rulerLabel = (position: number) => {
+  const column = position + 1
+  if (column % 10 === 0) return String(column / 10 % 10)
+  return column % 5 === 0 ? '+' : '·'
+}
+
+// Pick column boundaries by clicking on a monospace ruler over the first lines of a fixed-width file, then name the columns
+export function FixedWidthRuler({ file, columns, onApply }: FixedWidthRulerProps) {
+  const [lines, setLines] = useState<string[]>([])
+  const [cuts, setCuts] = useState<number[]>(() => (columns ?? []).map((c) => c.start).filter((start) => start > 0))
+  const [names, setNames] = useState<Record<number, string>>(() =>
+    Object.fromEntries((columns ?? []).map((c) => [c.start, c.name]))
+  )
+
+  useEffect(() => {
+    let cancelled = false
+    file
+      .slice(0, SAMPLE_BYTES)
+      .text()
+      .then((text) => {
+        if (!cancelled) setLines(text.split(/\r?\n/).slice(0, SAMPLE_LINES))
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [file])
+
+  const width = Math.max(0, ...lines.map((line) => line.length))
+  const starts = [0, ...cuts.filter((cut) => cut < width).sort((a, b) => a - b)]
+  const segments = starts.map((start, i) => ({
+    start,
+    length: (starts[i + 1] ?? width) - start,
+    name: names[start] ?? `Field${i + 1}`,
+  }))
+
+  // Segment each position belongs to, for alternating backgrounds
+  const segmentAt = (position: number) => starts.filter((start) => start <= position).length - 1
+
+  const toggleCut = (position: number) => {
+    if (position === 0) return
+    setCuts((prev) => (prev.includes(position) ? prev.filter((cut) => cut !== position) : [...prev, position]))
+  }
+
+  const renderLine = (line: string, isRuler = false) =>
+    Array.from({ length: width }, (_, position) => (
+      <span
+        key={position}
+        onClick={() => toggleCut(position)}
+        className={`cursor-pointer ${SEGMENT_COLORS[segmentAt(position) % SEGMENT_COLORS.length]} ${
+          starts.includes(position) && position > 0 ? 'border-l-2 border-primary-500' : ''
+        } ${isRuler ? 'text-gray-400 hover:bg-primary-200' : 'hover:bg-primary-100'}`}
+      >
+        {isRuler ? rulerLabel(position) : line[position] ?? ' '}
+      </span>
+    ))
+
+  if (lines.length === 0) return <p className="text-xs text-gray-500">Reading file...</p>
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-500">Click a position to start a new column there; click a cut again to remove it.</p>
+      <div className="overflow-x-auto border border-gray-200 rounded-lg">
+        <pre className="p-2 text-xs leading-5 font-mono select-none">
+          <div>{renderLine('', true)}</div>
+          {lines.map((line, i) => (
+            <div key={i}>{renderLine(line)}</div>
+          ))}
+        </pre>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {segments.map((segment) => (
+          <label key={segment.start} className="flex items-center gap-1 text-xs text-gray-500">
+            <span className="font-mono">{segment.start + 1}-{segment.start + segment.length}</span>
+            <input
+              type="text"
+              value={segment.name}
+              onChange={(e) => setNames((prev) => ({ ...prev, [segment.start]: e.target.value }))}
+              className="w-28 px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+            />
+          </label>
+        ))}
+      </div>
+
+      <button
+        onClick={() => onApply(segments.map((s) => ({ ...s, name: s.name.trim() })))}
+        disabled={segments.some((s) => !s.name.trim()) || new Set(segments.map((s) => s.name.trim())).size < segments.length}
+        className="px-3 py-1 text-sm font-medium text-white bg-primary-500 rounded-lg hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        Apply layout
+      </button>
+    </div>
+  )
+}
@@ -13,6 +13,8 @@ export function ImportProgressBar({ progress }: ImportProgressBarProps) {
         return 'bg-red-500'
       case 'Processing':
         return 'bg-primary-500'
+      case 'Paused':
+        return 'bg-amber-400'
       default:
         return 'bg-gray-400'
     }
@@ -26,6 +28,8 @@ export function ImportProgressBar({ progress }: ImportProgressBarProps) {
         return 'bg-red-100'
       case 'Processing':
         return 'bg-primary-100'
+      case 'Paused':
+        return 'bg-amber-100'
       default:
         return 'bg-gray-100'
     }
@@ -72,7 +76,9 @@ export function ImportProgressBar({ progress }: ImportProgressBarProps) {
             <h3 className="text-lg font-semibold text-gray-800">
               {progress.status === 'Completed' ? 'Import Complete!' : 
                progress.status === 'Failed' ? 'Import Failed' :
-               progress.status === 'Processing' ? 'Importing...' : 'Processing...'}
+               progress.status === 'Processing' ? 'Importing...' :
+               progress.status === 'Paused' ? 'Import Paused' :
+               progress.status === 'Cancelled' ? 'Import Cancelled' : 'Processing...'}
             </h3>
             <p className="text-sm text-gray-500">
               {(progress.processedRecords || 0).toLocaleString()} of {(progress.totalRecords || 0).toLocaleString()} records
@@ -0,0 +1,386 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import type { ColumnDefinition, ExportFormat, ImportJob, JobComparison, RowChange, RowDiff } from '../api'
+import { dataApi, jobsApi, getErrorMessage } from '../api'
+import { useSearchParams, getPageParam } from '../router'
+
+const PAGE_SIZE = 50
+
+const CHANGE_FILTERS: { value: RowChange | ''; label: string }[] = [
+  { value: '', label: 'All changes' },
+  { value: 'added', label: 'Added' },
+  { value: 'removed', label: 'Removed' },
+  { value: 'modified', label: 'Modified' },
+]
+
+const CHANGE_STYLES: Record<RowChange, string> = {
+  added: 'bg-green-100 text-green-700',
+  removed: 'bg-red-100 text-red-700',
+  modified: 'bg-amber-100 text-amber-700',
+}
+
+const INPUT_CLASS =
+  'px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none'
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—'
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  if (typeof value === 'number') return value.toLocaleString()
+  return String(value)
+}
+
+const jobLabel = (job: ImportJob) => `${job.fileName} · ${new Date(job.createdAt).toLocaleDateString()}`
+
+function DiffCell({ row, column }: { row: RowDiff; column: ColumnDefinition }) {
+  const before = row.baseData?.[column.name]
+  const after = row.compareData?.[column.name]
+
+  if (row.change === 'removed') return <span className="text-red-700 line-through">{formatValue(before)}</span>
+  if (row.change === 'added') return <span className="text-green-700">{formatValue(after)}</span>
+  if (!row.changedColumns.includes(column.name)) return <span className="text-gray-600">{formatValue(after)}</span>
+
+  return (
+    <span className="inline-flex flex-col px-1 bg-amber-50 rounded">
+      <span className="text-gray-400 line-through">{formatValue(before)}</span>
+      <span className="font-medium text-amber-800">{formatValue(after)}</span>
+    </span>
+  )
+}
+
+// Row-level and schema differences between two jobs, matched by key columns; the jobs, keys,
+// change filter and page live in the URL
+export function JobComparisonView() {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const baseJobId = searchParams.get('base') ?? ''
+  const compareJobId = searchParams.get('compare') ?? ''
+  const keyParam = searchParams.getAll('key').join('\u001f')
+  const keyColumns = useMemo(() => (keyParam ? keyParam.split('\u001f') : []), [keyParam])
+  const change = (searchParams.get('change') as RowChange | null) ?? undefined
+  const currentPage = getPageParam(searchParams)
+
+  const [jobs, setJobs] = useState<ImportJob[]>([])
+  const [sharedColumns, setSharedColumns] = useState<ColumnDefinition[]>([])
+  const [selectedKeys, setSelectedKeys] = useState<string[]>(keyColumns)
+  const [comparison, setComparison] = useState<JobComparison | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv')
+  const [exportDelimiter, setExportDelimiter] = useState(',')
+
+  useEffect(() => {
+    jobsApi
+      .list(1, 100, { statuses: ['Completed', 'CompletedWithErrors'] })
+      .then((result) => setJobs(result.items))
+      .catch(() => setJobs([]))
+  }, [])
+
+  // Keys can only be columns both jobs import
+  useEffect(() => {
+    if (!baseJobId || !compareJobId) {
+      setSharedColumns([])
+      return
+    }
+    Promise.all([dataApi.getSchema(baseJobId), dataApi.getSchema(compareJobId)])
+      .then(([baseSchema, compareSchema]) => {
+        const compareNames = new Set(compareSchema.columns.filter((c) => !c.isIgnored).map((c) => c.name))
+        setSharedColumns(baseSchema.columns.filter((c) => !c.isIgnored && compareNames.has(c.name)))
+      })
+      .catch((err) => setError(getErrorMessage(err, 'Failed to load schemas')))
+  }, [baseJobId, compareJobId])
+
+  useEffect(() => {
+    setSelectedKeys(keyColumns)
+  }, [keyColumns])
+
+  const loadComparison = useCallback(async () => {
+    if (!baseJobId || !compareJobId || keyColumns.length === 0) {
+      setComparison(null)
+      return
+    }
+    setIsLoading(true)
+    setError(null)
+    try {
+      setComparison(await jobsApi.compare(baseJobId, compareJobId, keyColumns, currentPage, PAGE_SIZE, change))
+    } catch (err) {
+      setComparison(null)
+      setError(getErrorMessage(err, 'Failed to compare jobs'))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [baseJobId, compareJobId, keyColumns, currentPage, change])
+
+  useEffect(() => {
+    loadComparison()
+  }, [loadComparison])
+
+  const setJob = (param: 'base' | 'compare', id: string) => {
+    setSearchParams((params) => {
+      if (id) params.set(param, id)
+      else params.delete(param)
+      params.delete('key')
+      params.delete('change')
+      params.delete('page')
+    })
+  }
+
+  const toggleKey = (name: string) => {
+    setSelectedKeys((prev) => (prev.includes(name) ? prev.filter((k) => k !== name) : [...prev, name]))
+  }
+
+  const handleCompare = () => {
+    setSearchParams((params) => {
+      params.delete('key')
+      selectedKeys.forEach((key) => params.append('key', key))
+      params.delete('page')
+    })
+  }
+
+  const setChange = (value: RowChange | '') => {
+    setSearchParams((params) => {
+      if (value) params.set('change', value)
+      else params.delete('change')
+      params.delete('page')
+    })
+  }
+
+  const goToPage = (page: number) => {
+    setSearchParams((params) => {
+      if (page > 1) params.set('page', String(page))
+      else params.delete('page')
+    })
+  }
+
+  // Navigate to the export URL so the browser streams the download instead of buffering it
+  const handleExport = () => {
+    const a = document.createElement('a')
+    a.href = jobsApi.getComparisonExportUrl(baseJobId, compareJobId, keyColumns, {
+      format: exportFormat,
+      delimiter: exportDelimiter,
+    })
+    a.download = ''
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+  }
+
+  const keysChanged = selectedKeys.join('\u001f') !== keyParam
+  const summary = comparison?.summary
+  const schema = comparison?.schema
+  const totalPages = comparison ? Math.max(1, Math.ceil(comparison.rows.totalCount / PAGE_SIZE)) : 1
+
+  return (
+    <div className="w-full space-y-6">
+      {/* Jobs and key columns */}
+      <div className="space-y-3">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <label className="text-xs text-gray-500">
+            Base job
+            <select value={baseJobId} onChange={(e) => setJob('base', e.target.value)} className={`${INPUT_CLASS} w-full mt-1`}>
+              <option value="">Choose a job...</option>
+              {jobs.map((job) => (
+                <option key={job.id} value={job.id}>{jobLabel(job)}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-xs text-gray-500">
+            Compared with
+            <select value={compareJobId} onChange={(e) => setJob('compare', e.target.value)} className={`${INPUT_CLASS} w-full mt-1`}>
+              <option value="">Choose a job...</option>
+              {jobs.filter((job) => job.id !== baseJobId).map((job) => (
+                <option key={job.id} value={job.id}>{jobLabel(job)}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {sharedColumns.length > 0 && (
+          <div>
+            <p className="text-xs text-gray-500 mb-1">Key columns matching rows between the jobs</p>
+            <div className="flex flex-wrap items-center gap-2">
+              {sharedColumns.map((column) => (
+                <label
+                  key={column.name}
+                  className={`px-2 py-1 text-xs border rounded-lg cursor-pointer ${
+                    selectedKeys.includes(column.name)
+                      ? 'bg-primary-50 border-primary-300 text-primary-700'
+                      : 'bg-white border-gray-300 text-gray-600'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedKeys.includes(column.name)}
+                    onChange={() => toggleKey(column.name)}
+                    className="sr-only"
+                  />
+                  {column.displayName || column.name}
+                </label>
+              ))}
+              <button
+                onClick={handleCompare}
+                disabled={selectedKeys.length === 0 || (!keysChanged && !!comparison)}
+                className="ml-2 px-4 py-1.5 text-sm font-medium text-white bg-primary-500 rounded-lg hover:bg-primary-600 disabled:opacity-50"
+              >
+                Compare
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {error && <div className="p-4 bg-red-50 border border-red-200 rounded-xl text-sm text-red-600">{error}</div>}
+
+      {isLoading && !comparison && <p className="text-sm text-gray-500">Comparing jobs...</p>}
+
+      {comparison && summary && schema && (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {[
+              { label: 'Added', value: summary.added, className: 'text-green-600' },
+              { label: 'Removed', value: summary.removed, className: 'text-red-600' },
+              { label: 'Modified', value: summary.modified, className: 'text-amber-600' },
+              { label: 'Unchanged', value: summary.unchanged, className: 'text-gray-600' },
+            ].map((stat) => (
+              <div key={stat.label} className="p-3 border border-gray-200 rounded-xl">
+                <p className="text-xs text-gray-500">{stat.label}</p>
+                <p className={`text-xl font-semibold ${stat.className}`}>{stat.value.toLocaleString()}</p>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">
+            {summary.baseRecords.toLocaleString()} base records, {summary.compareRecords.toLocaleString()} compared
+            records
+            {summary.skippedRows > 0 && ` · ${summary.skippedRows.toLocaleString()} rows skipped for an empty or repeated key`}
+          </p>
+
+          {/* Schema changes */}
+          {(schema.addedColumns.length > 0 || schema.removedColumns.length > 0 || schema.typeChanges.length > 0) && (
+            <div className="p-3 bg-gray-50 border border-gray-200 rounded-xl text-sm space-y-1">
+              <p className="font-medium text-gray-700">Schema changes</p>
+              {schema.addedColumns.length > 0 && (
+                <p className="text-green-700">Added columns: {schema.addedColumns.join(', ')}</p>
+              )}
+              {schema.removedColumns.length > 0 && (
+                <p className="text-red-700">Removed columns: {schema.removedColumns.join(', ')}</p>
+              )}
+              {schema.typeChanges.map((typeChange) => (
+                <p key={typeChange.column} className="text-amber-700">
+                  {typeChange.column}: {typeChange.baseType} → {typeChange.compareType}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {/* Filter and export */}
+          <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3">
+            <div className="flex bg-gray-100 rounded-lg p-1">
+              {CHANGE_FILTERS.map((filter) => (
+                <button
+                  key={filter.value}
+                  onClick={() => setChange(filter.value)}
+                  className={`px-3 py-1 text-sm font-medium rounded-md transition-colors ${
+                    (change ?? '') === filter.value ? 'bg-white text-gray-800 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  {filter.label}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <select value={exportFormat} onChange={(e) => setExportFormat(e.target.value as ExportFormat)} className={INPUT_CLASS}>
+                <option value="csv">CSV</option>
+                <option value="json">JSON</option>
+                <option value="ndjson">NDJSON</option>
+                <option value="xlsx">Excel (XLSX)</option>
+              </select>
+              {exportFormat === 'csv' && (
+                <select
+                  value={exportDelimiter}
+                  onChange={(e) => setExportDelimiter(e.target.value)}
+                  className={INPUT_CLASS}
+                  title="Delimiter"
+                >
+                  <option value=",">Comma (,)</option>
+                  <option value=";">Semicolon (;)</option>
+                  <option value={'\t'}>Tab</option>
+                  <option value="|">Pipe (|)</option>
+                </select>
+              )}
+              <button
+                onClick={handleExport}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Export
+              </button>
+            </div>
+          </div>
+
+          {/* Changed rows */}
+          {comparison.rows.totalCount === 0 ? (
+            <p className="text-sm text-gray-500">No {change ?? 'changed'} rows.</p>
+          ) : (
+            <div className="overflow-x-auto border border-gray-200 rounded-xl">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-semibold text-gray-600">Change</th>
+                    <th className="px-3 py-2 text-left text-xs font-semibold text-gray-600">Key</th>
+                    <th className="px-3 py-2 text-left text-xs font-semibold text-gray-600">Row</th>
+                    {comparison.columns.map((column) => (
+                      <th key={column.name} className="px-3 py-2 text-left text-xs font-semibold text-gray-600 whitespace-nowrap">
+                        {column.displayName || column.name}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {comparison.rows.items.map((row) => (
+                    <tr key={`${row.change}:${row.key}`}>
+                      <td className="px-3 py-2">
+                        <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${CHANGE_STYLES[row.change]}`}>
+                          {row.change}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2 font-mono text-xs text-gray-700 whitespace-nowrap">{row.key}</td>
+                      <td className="px-3 py-2 font-mono text-xs text-gray-500 whitespace-nowrap">
+                        {row.baseRowNumber ?? '—'} → {row.compareRowNumber ?? '—'}
+                      </td>
+                      {comparison.columns.map((column) => (
+                        <td key={column.name} className="px-3 py-2 whitespace-nowrap">
+                          <DiffCell row={row} column={column} />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between text-sm text-gray-500">
+              <span>
+                Page {currentPage} of {totalPages} · {comparison.rows.totalCount.toLocaleString()} rows
+              </span>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => goToPage(currentPage - 1)}
+                  disabled={currentPage <= 1}
+                  className="px-3 py-1.5 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => goToPage(currentPage + 1)}
+                  disabled={currentPage >= totalPages}
+                  className="px-3 py-1.5 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,107 @@
+import { useState } from 'react'
+import { jobsApi } from '../api'
+
+interface JobControlsProps {
+  jobId: string
+  status: string
+}
+
+const CANCELLABLE_STATUSES = ['Pending', 'Processing', 'Paused']
+
+export function JobControls({ jobId, status }: JobControlsProps) {
+  const [isConfirmingCancel, setIsConfirmingCancel] = useState(false)
+  const [isBusy, setIsBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  if (!CANCELLABLE_STATUSES.includes(status)) return null
+
+  // Status updates arrive through the job's progress stream, so we only send the signal here
+  const run = async (action: () => Promise<unknown>) => {
+    setIsBusy(true)
+    setError(null)
+    try {
+      await action()
+      setIsConfirmingCancel(false)
+    } catch {
+      setError('Request failed')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const stop = (e: React.MouseEvent) => e.stopPropagation()
+
+  if (isConfirmingCancel) {
+    return (
+      <div className="flex items-center gap-2 text-xs" onClick={stop}>
+        <span className="text-gray-600">Cancel import?</span>
+        {status === 'Pending' ? (
+          <button
+            onClick={() => run(() => jobsApi.cancel(jobId))}
+            disabled={isBusy}
+            className="px-2 py-1 font-medium text-white bg-red-500 rounded hover:bg-red-600 disabled:opacity-50"
+          >
+            Cancel import
+          </button>
+        ) : (
+          <>
+            <button
+              onClick={() => run(() => jobsApi.cancel(jobId, true))}
+              disabled={isBusy}
+              className="px-2 py-1 font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+              title="Stop the import and keep the rows already inserted"
+            >
+              Keep rows
+            </button>
+            <button
+              onClick={() => run(() => jobsApi.cancel(jobId, false))}
+              disabled={isBusy}
+              className="px-2 py-1 font-medium text-white bg-red-500 rounded hover:bg-red-600 disabled:opacity-50"
+              title="Stop the import and delete the rows already inserted"
+            >
+              Roll back
+            </button>
+          </>
+        )}
+        <button
+          onClick={() => setIsConfirmingCancel(false)}
+          disabled={isBusy}
+          className="px-2 py-1 text-gray-500 hover:text-gray-700"
+        >
+          Back
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex items-center gap-2 text-xs" onClick={stop}>
+      {error && <span className="text-red-600">{error}</span>}
+      {status === 'Processing' && (
+        <button
+          onClick={() => run(() => jobsApi.pause(jobId))}
+          disabled={isBusy}
+          className="px-2 py-1 font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+        >
+          Pause
+        </button>
+      )}
+      {status === 'Paused' && (
+        <button
+          onClick={() => run(() => jobsApi.resume(jobId))}
+          disabled={isBusy}
+          className="px-2 py-1 font-medium text-primary-700 bg-primary-50 border border-primary-200 rounded hover:bg-primary-100 disabled:opacity-50"
+        >
+          Resume
+        </button>
+      )}
+      <button
+        onClick={() => setIsConfirmingCancel(true)}
+        disabled={isBusy}
+        className="px-2 py-1 font-medium text-red-600 bg-white border border-red-200 rounded hover:bg-red-50 disabled:opacity-50"
+      >
+        Cancel
+      </button>
+    </div>
+  )
+}
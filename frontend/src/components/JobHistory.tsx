@@ -0,0 +1,392 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import type { ImportJob, PagedResult, JobHistoryFilters, JobSortField } from '../api'
+import { importApi, jobsApi } from '../api'
+import { useSearchParams, getPageParam } from '../router'
+import { JobControls } from './JobControls'
+
+interface JobHistoryProps {
+  onSelectJob: (jobId: string) => void
+  refreshTrigger?: number
+}
+
+const STATUSES = ['Pending', 'Processing', 'Paused', 'Completed', 'CompletedWithErrors', 'Failed', 'Cancelled']
+
+const SORTABLE_COLUMNS: { field: JobSortField; label: string }[] = [
+  { field: 'fileName', label: 'File' },
+  { field: 'fileSize', label: 'Size' },
+  { field: 'totalRecords', label: 'Records' },
+  { field: 'duration', label: 'Duration' },
+  { field: 'createdAt', label: 'Created' },
+]
+
+const INPUT_CLASS =
+  'px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none'
+
+export function JobHistory({ onSelectJob, refreshTrigger }: JobHistoryProps) {
+  const [jobs, setJobs] = useState<PagedResult<ImportJob> | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [fileTypes, setFileTypes] = useState<string[]>([])
+
+  // Filters, sort and page live in the URL so the view survives reloads and back/forward
+  const [searchParams, setSearchParams] = useSearchParams()
+  const currentPage = getPageParam(searchParams)
+  const statusParam = searchParams.get('status') ?? ''
+  const fileType = searchParams.get('type') ?? ''
+  const from = searchParams.get('from') ?? ''
+  const to = searchParams.get('to') ?? ''
+  const appliedSearch = searchParams.get('q') ?? ''
+  const sortBy = (searchParams.get('sort') as JobSortField | null) ?? 'createdAt'
+  const descending = searchParams.get('desc') !== 'false'
+  const statuses = useMemo(() => (statusParam ? statusParam.split(',') : []), [statusParam])
+
+  const [search, setSearch] = useState(appliedSearch)
+  const syncedSearchRef = useRef(appliedSearch)
+
+  const pageSize = 20
+
+  useEffect(() => {
+    importApi
+      .formats()
+      .then((data) => setFileTypes(data.formats.map((f) => f.replace(/^\./, ''))))
+      .catch(() => setFileTypes([]))
+  }, [])
+
+  // Debounce file name search
+  useEffect(() => {
+    if (search === appliedSearch) return
+    const timer = setTimeout(() => {
+      syncedSearchRef.current = search
+      setSearchParams((params) => {
+        if (search) params.set('q', search)
+        else params.delete('q')
+        params.delete('page')
+      }, { replace: true })
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [search, appliedSearch, setSearchParams])
+
+  // Follow URL changes from back/forward navigation
+  useEffect(() => {
+    if (appliedSearch === syncedSearchRef.current) return
+    syncedSearchRef.current = appliedSearch
+    setSearch(appliedSearch)
+  }, [appliedSearch])
+
+  const loadJobs = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const filters: JobHistoryFilters = {
+        statuses,
+        fileType,
+        from,
+        to,
+        search: appliedSearch,
+        sortBy,
+        descending,
+      }
+      setJobs(await jobsApi.list(currentPage, pageSize, filters))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load import history')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [currentPage, statuses, fileType, from, to, appliedSearch, sortBy, descending])
+
+  useEffect(() => {
+    loadJobs()
+  }, [loadJobs, refreshTrigger])
+
+  // Keep unfinished jobs on the current page live
+  const activeJobIds = (jobs?.items ?? []).filter((j) => !j.isFinished).map((j) => j.id).join(',')
+  useEffect(() => {
+    if (!activeJobIds) return
+    const unsubscribes = activeJobIds.split(',').map((id) =>
+      jobsApi.subscribe(id, (updated) => {
+        setJobs((prev) =>
+          prev ? { ...prev, items: prev.items.map((j) => (j.id === updated.id ? updated : j)) } : prev
+        )
+      })
+    )
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe())
+  }, [activeJobIds])
+
+  // Changing a filter starts again from the first page
+  const setFilter = (key: string, value: string) => {
+    setSearchParams((params) => {
+      if (value) params.set(key, value)
+      else params.delete(key)
+      params.delete('page')
+    })
+  }
+
+  const setCurrentPage = (page: number) => {
+    setSearchParams((params) => {
+      if (page > 1) params.set('page', String(page))
+      else params.delete('page')
+    })
+  }
+
+  const toggleStatus = (status: string) => {
+    const next = statuses.includes(status) ? statuses.filter((s) => s !== status) : [...statuses, status]
+    setFilter('status', next.join(','))
+  }
+
+  const handleSort = (field: JobSortField) => {
+    setSearchParams((params) => {
+      const nextDescending = field === sortBy ? !descending : field !== 'fileName'
+      if (field === 'createdAt') params.delete('sort')
+      else params.set('sort', field)
+      if (nextDescending) params.delete('desc')
+      else params.set('desc', 'false')
+      params.delete('page')
+    })
+  }
+
+  const handleClearFilters = () => {
+    setSearch('')
+    syncedSearchRef.current = ''
+    setSearchParams((params) => {
+      for (const key of ['status', 'type', 'from', 'to', 'q', 'page']) params.delete(key)
+    })
+  }
+
+  const handleDelete = async (id: string, e: React.MouseEvent) => {
+    e.stopPropagation()
+    if (!confirm('Are you sure you want to delete this import job?')) return
+
+    try {
+      await jobsApi.delete(id)
+      loadJobs()
+    } catch {
+      // Silently fail
+    }
+  }
+
+  const hasFilters = statuses.length > 0 || !!fileType || !!from || !!to || !!appliedSearch
+
+  return (
+    <div className="w-full space-y-4">
+      {/* Filters */}
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="flex-1 min-w-[12rem]">
+          <label className="block text-xs font-medium text-gray-500 mb-1">File name</label>
+          <input
+            type="text"
+            placeholder="Search files..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className={`w-full ${INPUT_CLASS}`}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">File type</label>
+          <select
+            value={fileType}
+            onChange={(e) => setFilter('type', e.target.value)}
+            className={INPUT_CLASS}
+          >
+            <option value="">All</option>
+            {fileTypes.map((type) => (
+              <option key={type} value={type}>
+                {type}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">From</label>
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => setFilter('from', e.target.value)}
+            className={INPUT_CLASS}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">To</label>
+          <input
+            type="date"
+            value={to}
+            onChange={(e) => setFilter('to', e.target.value)}
+            className={INPUT_CLASS}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {STATUSES.map((status) => (
+          <button
+            key={status}
+            onClick={() => toggleStatus(status)}
+            className={`px-3 py-1 text-xs font-medium rounded-full border transition-colors ${
+              statuses.includes(status)
+                ? 'bg-primary-500 text-white border-primary-500'
+                : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {status === 'CompletedWithErrors' ? 'Completed with errors' : status}
+          </button>
+        ))}
+        {hasFilters && (
+          <button onClick={handleClearFilters} className="ml-auto text-sm text-primary-600 hover:text-primary-700">
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-xl">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {/* Table */}
+      <div className="overflow-hidden rounded-xl border border-gray-200">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {SORTABLE_COLUMNS.map(({ field, label }) => (
+                  <th
+                    key={field}
+                    className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                  >
+                    <button
+                      onClick={() => handleSort(field)}
+                      className="flex items-center gap-1 uppercase tracking-wider hover:text-gray-700"
+                    >
+                      {label}
+                      <span className="text-gray-400">{sortBy === field ? (descending ? '▼' : '▲') : '↕'}</span>
+                    </button>
+                  </th>
+                ))}
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className={`bg-white divide-y divide-gray-100 ${isLoading ? 'opacity-60' : ''}`}>
+              {jobs?.items.map((job) => (
+                <tr
+                  key={job.id}
+                  onClick={() => onSelectJob(job.id)}
+                  className="hover:bg-gray-50 cursor-pointer transition-colors group"
+                >
+                  <td className="px-4 py-3 text-sm font-medium text-gray-800 truncate max-w-[240px]" title={job.fileName}>
+                    {job.fileName}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">{formatBytes(job.fileSize)}</td>
+                  <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">
+                    {job.totalRecords.toLocaleString()}
+                    {job.failedRecords > 0 && (
+                      <span className="ml-1 text-xs text-red-600">({job.failedRecords.toLocaleString()} failed)</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap font-mono">
+                    {formatDuration(job.durationMs)}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">{formatDate(job.createdAt)}</td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${getStatusBadge(job.status)}`}>
+                      {job.status}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex items-center justify-end gap-2">
+                      <JobControls jobId={job.id} status={job.status} />
+                      <button
+                        onClick={(e) => handleDelete(job.id, e)}
+                        className="p-2 text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all"
+                        title="Delete"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth="2"
+                            d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                          />
+                        </svg>
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              {jobs && jobs.items.length === 0 && (
+                <tr>
+                  <td colSpan={SORTABLE_COLUMNS.length + 2} className="px-4 py-12 text-center text-sm text-gray-500">
+                    {hasFilters ? 'No imports match these filters' : 'No imports yet'}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Pagination */}
+      {jobs && jobs.totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
+            disabled={currentPage === 1}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Previous
+          </button>
+          <span className="text-sm text-gray-500">
+            Page {jobs.page} of {jobs.totalPages} · {jobs.totalCount.toLocaleString()} imports
+          </span>
+          <button
+            onClick={() => setCurrentPage(Math.min(jobs.totalPages, currentPage + 1))}
+            disabled={currentPage === jobs.totalPages}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function getStatusBadge(status: string): string {
+  switch (status) {
+    case 'Completed':
+      return 'bg-accent-100 text-accent-700'
+    case 'CompletedWithErrors':
+      return 'bg-amber-100 text-amber-700'
+    case 'Failed':
+      return 'bg-red-100 text-red-700'
+    case 'Processing':
+      return 'bg-primary-100 text-primary-700'
+    case 'Paused':
+      return 'bg-amber-100 text-amber-700'
+    default:
+      return 'bg-gray-100 text-gray-700'
+  }
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+function formatDuration(ms?: number): string {
+  if (ms === undefined || ms === null) return '—'
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`
+  return `${Math.floor(ms / 60_000)}m ${Math.round((ms % 60_000) / 1000)}s`
+}
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
@@ -0,0 +1,262 @@
+import { useState, useEffect, useRef, useCallback, type ChangeEvent } from 'react'
+import type { ColumnDefinition, ImportJob, ImportLoad, LoadMode } from '../api'
+import { dataApi, importApi, jobsApi, uploadApi, toImportProgress, getErrorMessage } from '../api'
+import { canPreviewLocally, previewLocally } from '../localPreview'
+import { ImportProgressBar } from './ImportProgressBar'
+
+interface JobLoadPanelProps {
+  importJobId: string
+  // Called when a file finished loading so the records shown can reload
+  onLoaded: () => void
+}
+
+const MODE_DESCRIPTIONS: Record<LoadMode, string> = {
+  append: 'Add every row as a new record',
+  upsert: 'Update records with the same key, add the rest',
+  replace: 'Delete all records, then load the file',
+}
+
+// Columns of the file that differ from the job's, or null when they match
+function findMismatch(jobColumns: ColumnDefinition[], fileColumns: ColumnDefinition[]) {
+  const jobNames = new Set(jobColumns.map((c) => c.name))
+  const fileNames = new Set(fileColumns.map((c) => c.name))
+  const missing = [...jobNames].filter((name) => !fileNames.has(name))
+  const unexpected = [...fileNames].filter((name) => !jobNames.has(name))
+
+  if (missing.length === 0 && unexpected.length === 0) return null
+  return [
+    missing.length > 0 && `missing ${missing.join(', ')}`,
+    unexpected.length > 0 && `unexpected ${unexpected.join(', ')}`,
+  ].filter(Boolean).join('; ')
+}
+
+// Loads that failed or were rolled back did not change the records
+const isUnapplied = (load: ImportLoad) =>
+  load.status === 'Failed' || (load.status === 'Cancelled' && load.insertedRecords + load.updatedRecords === 0)
+
+function LoadCounts({ load }: { load: ImportLoad }) {
+  if (isUnapplied(load)) return <span>{load.status.toLowerCase()}, records unchanged</span>
+
+  return (
+    <span>
+      {load.insertedRecords.toLocaleString()} inserted · {load.updatedRecords.toLocaleString()} updated ·{' '}
+      {load.unchangedRecords.toLocaleString()} unchanged · {load.failedRecords.toLocaleString()} rejected
+    </span>
+  )
+}
+
+// Outcome of the job's loads, and a form to append, upsert or replace its records from another file
+export function JobLoadPanel({ importJobId, onLoaded }: JobLoadPanelProps) {
+  const [job, setJob] = useState<ImportJob | null>(null)
+  const [columns, setColumns] = useState<ColumnDefinition[]>([])
+  const [isOpen, setIsOpen] = useState(false)
+  const [file, setFile] = useState<File | null>(null)
+  const [mode, setMode] = useState<LoadMode>('append')
+  const [keyColumns, setKeyColumns] = useState<string[]>([])
+  const [fileError, setFileError] = useState<string | null>(null)
+  const [isChecking, setIsChecking] = useState(false)
+  const [upload, setUpload] = useState<{ uploadedBytes: number; totalBytes: number } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const unsubscribeRef = useRef<(() => void) | null>(null)
+
+  // Follow a running load until it finishes
+  const follow = useCallback((runningJob: ImportJob) => {
+    unsubscribeRef.current?.()
+    unsubscribeRef.current = jobsApi.subscribe(runningJob.id, (updatedJob) => {
+      setJob(updatedJob)
+      if (updatedJob.isFinished) {
+        unsubscribeRef.current = null
+        onLoaded()
+      }
+    })
+  }, [onLoaded])
+
+  const loadJob = useCallback(async () => {
+    try {
+      const [loadedJob, schema] = await Promise.all([jobsApi.get(importJobId), dataApi.getSchema(importJobId)])
+      setJob(loadedJob)
+      setColumns(schema.columns)
+      if (!loadedJob.isFinished) follow(loadedJob)
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load job'))
+    }
+  }, [importJobId, follow])
+
+  useEffect(() => {
+    loadJob()
+    return () => unsubscribeRef.current?.()
+  }, [loadJob])
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] ?? null
+    setFile(selected)
+    setFileError(null)
+    if (!selected) return
+
+    // Check the header before uploading; the server checks again when it loads the file
+    setIsChecking(true)
+    try {
+      const preview = canPreviewLocally(selected)
+        ? (await previewLocally(selected, {}, 1)).preview
+        : await importApi.preview(selected)
+      const mismatch = findMismatch(columns, preview.detectedColumns)
+      if (mismatch) setFileError(`Columns do not match this job: ${mismatch}`)
+    } catch (err) {
+      setFileError(getErrorMessage(err, 'Failed to read file'))
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  const toggleKeyColumn = (name: string) => {
+    setKeyColumns((prev) => (prev.includes(name) ? prev.filter((c) => c !== name) : [...prev, name]))
+  }
+
+  const handleLoad = async () => {
+    if (!file) return
+    if (mode === 'replace' && !confirm('Delete all records of this job and load the file in their place?')) return
+
+    setError(null)
+    setUpload({ uploadedBytes: 0, totalBytes: file.size })
+    try {
+      const [queuedJob] = await uploadApi.uploadFile(
+        file,
+        { targetJobId: importJobId, mode, keyColumns: mode === 'upsert' ? keyColumns : undefined },
+        (uploadedBytes, totalBytes) => setUpload({ uploadedBytes, totalBytes })
+      )
+      setUpload(null)
+      setJob(queuedJob)
+      setFile(null)
+      if (fileInputRef.current) fileInputRef.current.value = ''
+      follow(queuedJob)
+    } catch (err) {
+      setUpload(null)
+      setError(getErrorMessage(err, 'Failed to load file'))
+    }
+  }
+
+  if (!job) return error ? <p className="mb-4 text-sm text-red-600">{error}</p> : null
+
+  const importedColumns = columns.filter((c) => !c.isIgnored)
+  const isBusy = upload !== null || !job.isFinished
+  const canLoad = !!file && !fileError && !isChecking && !isBusy && (mode !== 'upsert' || keyColumns.length > 0)
+  const lastLoad = job.loads[job.loads.length - 1]
+
+  return (
+    <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-xl space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="text-sm text-gray-600">
+          {!job.isFinished ? (
+            <span>Importing...</span>
+          ) : lastLoad ? (
+            <>
+              <span className="font-medium text-gray-700">
+                {job.loads.length > 1 ? `Last of ${job.loads.length} loads` : 'Loaded'}
+              </span>{' '}
+              {lastLoad.fileName} ({lastLoad.mode.toLowerCase()}): <LoadCounts load={lastLoad} />
+            </>
+          ) : (
+            <span>{job.processedRecords.toLocaleString()} records imported</span>
+          )}
+        </div>
+        <button
+          onClick={() => setIsOpen((open) => !open)}
+          className="shrink-0 text-sm font-medium text-primary-600 hover:text-primary-700"
+        >
+          {isOpen ? 'Close' : 'Import into this job'}
+        </button>
+      </div>
+
+      {job.status === 'Failed' && job.errorMessage && <p className="text-xs text-red-600">{job.errorMessage}</p>}
+      {job.isFinished && lastLoad?.status === 'Failed' && lastLoad.errorMessage && (
+        <p className="text-xs text-red-600">{lastLoad.errorMessage}</p>
+      )}
+
+      {upload ? (
+        <div className="h-3 bg-gray-100 rounded-full overflow-hidden">
+          <div
+            className="h-full rounded-full bg-primary-400 transition-all duration-300 ease-out"
+            style={{ width: `${upload.totalBytes > 0 ? (upload.uploadedBytes / upload.totalBytes) * 100 : 0}%` }}
+          />
+        </div>
+      ) : (
+        !job.isFinished && <ImportProgressBar progress={toImportProgress(job)} />
+      )}
+
+      {isOpen && (
+        <div className="pt-3 border-t border-gray-200 space-y-3">
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              ref={fileInputRef}
+              type="file"
+              onChange={handleFileChange}
+              disabled={isBusy}
+              className="text-sm text-gray-600"
+            />
+            <select
+              value={mode}
+              onChange={(e) => setMode(e.target.value as LoadMode)}
+              disabled={isBusy}
+              className="px-2 py-1.5 text-sm border border-gray-300 rounded-lg"
+            >
+              <option value="append">Append</option>
+              <option value="upsert">Upsert</option>
+              <option value="replace">Replace</option>
+            </select>
+            <span className="text-xs text-gray-500">{MODE_DESCRIPTIONS[mode]}</span>
+          </div>
+
+          {mode === 'upsert' && (
+            <div>
+              <p className="text-xs text-gray-500 mb-1">Key columns identifying a record</p>
+              <div className="flex flex-wrap gap-2">
+                {importedColumns.map((column) => (
+                  <label
+                    key={column.name}
+                    className={`px-2 py-1 text-xs border rounded-lg cursor-pointer ${
+                      keyColumns.includes(column.name)
+                        ? 'bg-primary-50 border-primary-300 text-primary-700'
+                        : 'bg-white border-gray-300 text-gray-600'
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={keyColumns.includes(column.name)}
+                      onChange={() => toggleKeyColumn(column.name)}
+                      className="sr-only"
+                    />
+                    {column.displayName || column.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {isChecking && <p className="text-xs text-gray-500">Checking columns...</p>}
+          {fileError && <p className="text-xs text-red-600">{fileError}</p>}
+          {error && <p className="text-xs text-red-600">{error}</p>}
+
+          <button
+            onClick={handleLoad}
+            disabled={!canLoad}
+            className="px-4 py-2 text-sm font-medium text-white bg-primary-500 rounded-lg hover:bg-primary-600 disabled:opacity-50"
+          >
+            Load file
+          </button>
+
+          {job.loads.length > 1 && (
+            <ul className="text-xs text-gray-500 space-y-0.5">
+              {job.loads.map((load, i) => (
+                <li key={i}>
+                  {new Date(load.completedAt).toLocaleString()} · {load.fileName} ({load.mode.toLowerCase()}) ·{' '}
+                  <LoadCounts load={load} />
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
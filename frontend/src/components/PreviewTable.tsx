@@ -1,19 +1,36 @@
-import type { FilePreview } from '../api'
+import { useState } from 'react'
+import type { ColumnDefinition, FilePreview } from '../api'
+import { ColumnRulesEditor, countRules } from './ColumnRulesEditor'
+
+export const DATA_TYPES = ['string', 'integer', 'decimal', 'boolean', 'date', 'datetime']
 
 interface PreviewTableProps {
   preview: FilePreview
   maxRows?: number
+  // Editable column mapping; when omitted the detected columns are shown read-only
+  columns?: ColumnDefinition[]
+  onColumnsChange?: (columns: ColumnDefinition[]) => void
 }
 
-export function PreviewTable({ preview, maxRows = 10 }: PreviewTableProps) {
+export function PreviewTable({ preview, maxRows = 10, columns: mapping, onColumnsChange }: PreviewTableProps) {
+  // Column whose validation rules are being edited
+  const [rulesColumn, setRulesColumn] = useState<number | null>(null)
+
   // Safety check for undefined preview or columns
   if (!preview || !preview.detectedColumns) {
     return null
   }
 
-  const columns = preview.detectedColumns.filter((c) => !c.isIgnored)
+  const isEditable = !!onColumnsChange
+  const allColumns = mapping ?? preview.detectedColumns
+  const columns = isEditable ? allColumns : allColumns.filter((c) => !c.isIgnored)
+  const includedCount = allColumns.filter((c) => !c.isIgnored).length
   const rows = (preview.previewRows || []).slice(0, maxRows)
 
+  const updateColumn = (index: number, changes: Partial<ColumnDefinition>) => {
+    onColumnsChange?.(allColumns.map((c) => (c.index === index ? { ...c, ...changes } : c)))
+  }
+
   const getTypeColor = (type: string) => {
     switch (type) {
       case 'integer':
@@ -42,10 +59,14 @@ export function PreviewTable({ preview, maxRows = 10 }: PreviewTableProps) {
       <div className="flex items-center justify-between mb-4">
         <div className="flex items-center gap-4">
           <span className="text-sm text-gray-500">
-            <span className="font-medium text-gray-700">{preview.estimatedTotalRows}</span> rows detected
+            <span className="font-medium text-gray-700">
+              {preview.isSample && '~'}
+              {preview.estimatedTotalRows.toLocaleString()}
+            </span>{' '}
+            {preview.isSample ? 'rows estimated' : 'rows detected'}
           </span>
           <span className="text-sm text-gray-500">
-            <span className="font-medium text-gray-700">{columns.length}</span> columns
+            <span className="font-medium text-gray-700">{includedCount}</span> columns
           </span>
           <span className="px-2 py-1 text-xs font-medium bg-primary-100 text-primary-700 rounded-full">
             {getFileFormat(preview.fileName).toUpperCase()}
@@ -65,20 +86,74 @@ export function PreviewTable({ preview, maxRows = 10 }: PreviewTableProps) {
                 {columns.map((column) => (
                   <th
                     key={column.index}
-                    className="px-4 py-3 text-left border-b border-gray-200"
+                    className={`px-4 py-3 text-left border-b border-gray-200 align-top ${
+                      column.isIgnored ? 'opacity-50' : ''
+                    }`}
                   >
-                    <div className="flex flex-col gap-1">
-                      <span className="text-sm font-medium text-gray-700 truncate max-w-[200px]">
-                        {column.displayName || column.name}
-                      </span>
-                      <span
-                        className={`inline-flex px-2 py-0.5 text-xs font-medium rounded-full w-fit ${getTypeColor(
-                          column.detectedType
-                        )}`}
-                      >
-                        {column.detectedType}
-                      </span>
-                    </div>
+                    {isEditable ? (
+                      <div className="flex flex-col gap-2 min-w-[160px]">
+                        <label className="flex items-center gap-2 text-xs text-gray-500">
+                          <input
+                            type="checkbox"
+                            checked={!column.isIgnored}
+                            onChange={(e) => updateColumn(column.index, { isIgnored: !e.target.checked })}
+                            className="rounded border-gray-300 text-primary-500 focus:ring-primary-500"
+                          />
+                          <span className="truncate max-w-[140px]" title={column.name}>
+                            {column.name}
+                          </span>
+                        </label>
+                        <input
+                          type="text"
+                          value={column.displayName ?? ''}
+                          placeholder={column.name}
+                          disabled={column.isIgnored}
+                          onChange={(e) => updateColumn(column.index, { displayName: e.target.value || undefined })}
+                          className="w-full px-2 py-1 text-sm font-medium text-gray-700 border border-gray-300 rounded-md focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+                        />
+                        <select
+                          value={column.detectedType}
+                          disabled={column.isIgnored}
+                          onChange={(e) => updateColumn(column.index, { detectedType: e.target.value })}
+                          className={`w-fit px-2 py-0.5 text-xs font-medium rounded-full border-0 outline-none ${getTypeColor(
+                            column.detectedType
+                          )}`}
+                        >
+                          {DATA_TYPES.map((type) => (
+                            <option key={type} value={type}>
+                              {type}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          type="button"
+                          disabled={column.isIgnored}
+                          onClick={() => setRulesColumn(rulesColumn === column.index ? null : column.index)}
+                          className="w-fit text-xs font-medium text-primary-600 hover:text-primary-700 disabled:text-gray-400"
+                        >
+                          {countRules(column.rules) > 0 ? `Rules (${countRules(column.rules)})` : 'Add rules'}
+                        </button>
+                        {rulesColumn === column.index && !column.isIgnored && (
+                          <ColumnRulesEditor
+                            rules={column.rules}
+                            onChange={(rules) => updateColumn(column.index, { rules })}
+                          />
+                        )}
+                      </div>
+                    ) : (
+                      <div className="flex flex-col gap-1">
+                        <span className="text-sm font-medium text-gray-700 truncate max-w-[200px]">
+                          {column.displayName || column.name}
+                        </span>
+                        <span
+                          className={`inline-flex px-2 py-0.5 text-xs font-medium rounded-full w-fit ${getTypeColor(
+                            column.detectedType
+                          )}`}
+                        >
+                          {column.detectedType}
+                        </span>
+                      </div>
+                    )}
                   </th>
                 ))}
               </tr>
@@ -92,7 +167,9 @@ export function PreviewTable({ preview, maxRows = 10 }: PreviewTableProps) {
                   {columns.map((column) => (
                     <td
                       key={column.index}
-                      className="px-4 py-3 text-sm text-gray-600 truncate max-w-[300px]"
+                      className={`px-4 py-3 text-sm text-gray-600 truncate max-w-[300px] ${
+                        column.isIgnored ? 'opacity-50 line-through' : ''
+                      }`}
                       title={String(row[column.name] ?? '')}
                     >
                       {formatValue(row[column.name])}
@@ -105,10 +182,10 @@ export function PreviewTable({ preview, maxRows = 10 }: PreviewTableProps) {
         </div>
 
         {/* Show more indicator */}
-        {preview.totalRows > maxRows && (
+        {preview.estimatedTotalRows > maxRows && (
           <div className="px-4 py-3 bg-gray-50 border-t border-gray-200 text-center">
             <span className="text-sm text-gray-500">
-              Showing {maxRows} of {preview.totalRows} rows
+              Showing {maxRows} of {preview.estimatedTotalRows} rows
             </span>
           </div>
         )}
@@ -0,0 +1,415 @@
+import { useState, useEffect, useCallback } from 'react'
+import type { ColumnDefinition, FixedWidthColumn, ImportProfile, SaveImportProfile } from '../api'
+import { profilesApi, getErrorMessage } from '../api'
+import { DATA_TYPES } from './PreviewTable'
+import { DELIMITERS, QUOTES, ENCODINGS } from './StagingList'
+
+const INPUT_CLASS =
+  'px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none'
+
+// Saved import profiles with inline editing of their pattern, parser options and column mapping
+export function ProfileList() {
+  const [profiles, setProfiles] = useState<ImportProfile[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+
+  const loadProfiles = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      setProfiles(await profilesApi.list())
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load profiles'))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadProfiles()
+  }, [loadProfiles])
+
+  const handleSave = async (id: string, profile: SaveImportProfile) => {
+    const saved = await profilesApi.update(id, profile)
+    setProfiles((prev) => prev.map((p) => (p.id === id ? saved : p)).sort((a, b) => a.name.localeCompare(b.name)))
+    setEditingId(null)
+  }
+
+  const handleDelete = async (profile: ImportProfile) => {
+    if (!confirm(`Delete the profile "${profile.name}"?`)) return
+
+    try {
+      await profilesApi.delete(profile.id)
+      setProfiles((prev) => prev.filter((p) => p.id !== profile.id))
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete profile'))
+    }
+  }
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading profiles...</p>
+  }
+
+  return (
+    <div className="w-full space-y-3">
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {profiles.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No profiles yet. Expand a staged file in the preview and save its settings as a profile.
+        </p>
+      ) : (
+        <div className="border border-gray-200 rounded-xl divide-y divide-gray-100 overflow-hidden">
+          {profiles.map((profile) => (
+            <div key={profile.id} className={editingId === profile.id ? 'bg-gray-50' : 'bg-white'}>
+              <div className="px-4 py-3 flex items-center gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-3">
+                    <span className="text-sm font-medium text-gray-800 truncate">{profile.name}</span>
+                    <span className="px-2 py-0.5 text-xs font-mono bg-gray-100 text-gray-600 rounded-full">
+                      {profile.fileNamePattern}
+                    </span>
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500">{describeOptions(profile)}</p>
+                </div>
+                <button
+                  onClick={() => setEditingId(editingId === profile.id ? null : profile.id)}
+                  className="px-3 py-1 text-sm font-medium text-primary-600 hover:text-primary-700"
+                >
+                  {editingId === profile.id ? 'Close' : 'Edit'}
+                </button>
+                <button
+                  onClick={() => handleDelete(profile)}
+                  className="p-2 text-gray-400 hover:text-red-500 transition-colors"
+                  title="Delete"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                  </svg>
+                </button>
+              </div>
+
+              {editingId === profile.id && (
+                <ProfileEditor
+                  profile={profile}
+                  onSave={(changes) => handleSave(profile.id, changes)}
+                  onCancel={() => setEditingId(null)}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface ProfileEditorProps {
+  profile: ImportProfile
+  onSave: (profile: SaveImportProfile) => Promise<void>
+  onCancel: () => void
+}
+
+function ProfileEditor({ profile, onSave, onCancel }: ProfileEditorProps) {
+  const [draft, setDraft] = useState<SaveImportProfile>(() => ({
+    name: profile.name,
+    fileNamePattern: profile.fileNamePattern,
+    options: profile.options,
+    columns: profile.columns,
+  }))
+  const [sheets, setSheets] = useState(profile.options.sheetNames.join(', '))
+  const [fixedWidth, setFixedWidth] = useState(
+    profile.options.fixedWidthColumns.map((c) => `${c.start}:${c.length}:${c.name}`).join(', ')
+  )
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const setOption = (changes: Partial<SaveImportProfile['options']>) =>
+    setDraft((prev) => ({ ...prev, options: { ...prev.options, ...changes } }))
+
+  const updateColumn = (name: string, changes: Partial<ColumnDefinition>) =>
+    setDraft((prev) => ({ ...prev, columns: prev.columns.map((c) => (c.name === name ? { ...c, ...changes } : c)) }))
+
+  const removeColumn = (name: string) =>
+    setDraft((prev) => ({ ...prev, columns: prev.columns.filter((c) => c.name !== name) }))
+
+  const toCount = (value: string) => Math.max(0, Math.floor(Number(value)) || 0)
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      const sheetNames = sheets.split(',').map((s) => s.trim()).filter(Boolean)
+      const fixedWidthColumns = parseFixedWidth(fixedWidth)
+      await onSave({ ...draft, options: { ...draft.options, sheetNames, fixedWidthColumns } })
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save profile'))
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="px-4 pb-4 space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <label className="text-xs font-medium text-gray-500">
+          Name
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+            className={`mt-1 w-full ${INPUT_CLASS}`}
+          />
+        </label>
+        <label className="text-xs font-medium text-gray-500">
+          File name pattern
+          <input
+            type="text"
+            value={draft.fileNamePattern}
+            onChange={(e) => setDraft((prev) => ({ ...prev, fileNamePattern: e.target.value }))}
+            title="'*' matches any characters, '?' a single one"
+            className={`mt-1 w-full font-mono ${INPUT_CLASS}`}
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="text-xs font-medium text-gray-500">
+          Delimiter
+          <select
+            value={draft.options.delimiter ?? ''}
+            onChange={(e) => setOption({ delimiter: e.target.value || undefined })}
+            className={`mt-1 block ${INPUT_CLASS}`}
+          >
+            <option value="">Auto</option>
+            {Object.entries(DELIMITERS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs font-medium text-gray-500">
+          Quote
+          <select
+            value={draft.options.quote ?? ''}
+            onChange={(e) => setOption({ quote: e.target.value || undefined })}
+            className={`mt-1 block ${INPUT_CLASS}`}
+          >
+            <option value="">Auto</option>
+            {Object.entries(QUOTES).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs font-medium text-gray-500">
+          First row
+          <select
+            value={draft.options.hasHeader == null ? '' : draft.options.hasHeader ? 'header' : 'data'}
+            onChange={(e) => setOption({ hasHeader: e.target.value ? e.target.value === 'header' : undefined })}
+            className={`mt-1 block ${INPUT_CLASS}`}
+          >
+            <option value="">Auto</option>
+            <option value="header">Headers</option>
+            <option value="data">Data</option>
+          </select>
+        </label>
+        <label className="text-xs font-medium text-gray-500">
+          Encoding
+          <select
+            value={draft.options.encoding ?? ''}
+            onChange={(e) => setOption({ encoding: e.target.value || undefined })}
+            className={`mt-1 block ${INPUT_CLASS}`}
+          >
+            <option value="">Auto</option>
+            {Object.entries(ENCODINGS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs font-medium text-gray-500">
+          Rows above header
+          <input
+            type="number"
+            min={0}
+            value={draft.options.headerRowOffset}
+            onChange={(e) => setOption({ headerRowOffset: toCount(e.target.value) })}
+            className={`mt-1 block w-24 ${INPUT_CLASS}`}
+          />
+        </label>
+        <label className="text-xs font-medium text-gray-500">
+          Skip rows after header
+          <input
+            type="number"
+            min={0}
+            value={draft.options.skipRows}
+            onChange={(e) => setOption({ skipRows: toCount(e.target.value) })}
+            className={`mt-1 block w-24 ${INPUT_CLASS}`}
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex-1 min-w-[12rem] text-xs font-medium text-gray-500">
+          Sheets (comma-separated, workbooks only)
+          <input
+            type="text"
+            value={sheets}
+            onChange={(e) => setSheets(e.target.value)}
+            placeholder="First sheet"
+            className={`mt-1 w-full ${INPUT_CLASS}`}
+          />
+        </label>
+        <label className="flex-1 min-w-[12rem] text-xs font-medium text-gray-500">
+          Record element (XML only)
+          <input
+            type="text"
+            value={draft.options.recordPath ?? ''}
+            onChange={(e) => setOption({ recordPath: e.target.value || undefined })}
+            placeholder="Auto, e.g. /Orders/Order"
+            className={`mt-1 w-full font-mono ${INPUT_CLASS}`}
+          />
+        </label>
+        <label className="flex-1 min-w-[12rem] text-xs font-medium text-gray-500">
+          Fixed-width columns (start:length:name, start from 0)
+          <input
+            type="text"
+            value={fixedWidth}
+            onChange={(e) => setFixedWidth(e.target.value)}
+            placeholder="Delimited, e.g. 0:8:Date, 8:12:Amount"
+            className={`mt-1 w-full font-mono ${INPUT_CLASS}`}
+          />
+        </label>
+        <label className="flex items-center gap-2 pb-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={draft.options.splitSheets}
+            onChange={(e) => setOption({ splitSheets: e.target.checked })}
+            className="rounded border-gray-300 text-primary-500 focus:ring-primary-500"
+          />
+          One import per sheet
+        </label>
+        <label className="flex items-center gap-2 pb-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={draft.options.explodeArrays}
+            onChange={(e) => setOption({ explodeArrays: e.target.checked })}
+            className="rounded border-gray-300 text-primary-500 focus:ring-primary-500"
+          />
+          JSON arrays as rows
+        </label>
+      </div>
+
+      {draft.columns.length > 0 && (
+        <div className="border border-gray-200 rounded-xl overflow-hidden">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                <th className="px-4 py-2">Source column</th>
+                <th className="px-4 py-2">Import as</th>
+                <th className="px-4 py-2">Type</th>
+                <th className="px-4 py-2">Include</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-100">
+              {draft.columns.map((column) => (
+                <tr key={column.name} className={column.isIgnored ? 'opacity-50' : ''}>
+                  <td className="px-4 py-2 text-sm text-gray-700">{column.name}</td>
+                  <td className="px-4 py-2">
+                    <input
+                      type="text"
+                      value={column.displayName ?? ''}
+                      placeholder={column.name}
+                      onChange={(e) => updateColumn(column.name, { displayName: e.target.value || undefined })}
+                      className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+                    />
+                  </td>
+                  <td className="px-4 py-2">
+                    <select
+                      value={column.detectedType}
+                      onChange={(e) => updateColumn(column.name, { detectedType: e.target.value })}
+                      className="px-2 py-1 text-sm border border-gray-300 rounded-md outline-none"
+                    >
+                      {DATA_TYPES.map((type) => (
+                        <option key={type} value={type}>{type}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-2">
+                    <input
+                      type="checkbox"
+                      checked={!column.isIgnored}
+                      onChange={(e) => updateColumn(column.name, { isIgnored: !e.target.checked })}
+                      className="rounded border-gray-300 text-primary-500 focus:ring-primary-500"
+                    />
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    <button
+                      onClick={() => removeColumn(column.name)}
+                      className="text-xs text-gray-400 hover:text-red-500"
+                      title="Stop mapping this column; it is imported as detected"
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex items-center justify-end gap-3">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-sm font-medium text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !draft.name.trim() || !draft.fileNamePattern.trim()}
+          className="px-4 py-2 text-sm font-medium text-white bg-primary-500 rounded-lg hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+// Fixed-width columns typed as comma-separated start:length:name entries; overlaps are checked by the server
+function parseFixedWidth(text: string): FixedWidthColumn[] {
+  return text
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [start, length, ...name] = entry.split(':')
+      if (!/^\d+$/.test(start ?? '') || !/^\d+$/.test(length ?? '') || !name.join(':').trim())
+        throw new Error(`'${entry}' is not a column as start:length:name`)
+      return { start: Number(start), length: Number(length), name: name.join(':').trim() }
+    })
+}
+
+// One-line summary of the settings a profile overrides
+function describeOptions({ options, columns }: ImportProfile): string {
+  const parts: string[] = []
+  if (options.delimiter) parts.push(`${DELIMITERS[options.delimiter] ?? options.delimiter} delimited`)
+  if (options.hasHeader != null) parts.push(options.hasHeader ? 'header row' : 'no header row')
+  if (options.encoding) parts.push(ENCODINGS[options.encoding] ?? options.encoding)
+  if (options.headerRowOffset) parts.push(`${options.headerRowOffset} rows above header`)
+  if (options.skipRows) parts.push(`skips ${options.skipRows} rows`)
+  if (options.sheetNames.length) parts.push(`sheets: ${options.sheetNames.join(', ')}`)
+  if (options.explodeArrays) parts.push('JSON arrays as rows')
+  if (options.recordPath) parts.push(`records at ${options.recordPath}`)
+  if (options.fixedWidthColumns.length) parts.push(`fixed width, ${options.fixedWidthColumns.length} columns`)
+
+  const renamed = columns.filter((c) => c.displayName && !c.isIgnored).length
+  const ignored = columns.filter((c) => c.isIgnored).length
+  if (renamed) parts.push(`${renamed} renamed`)
+  if (ignored) parts.push(`${ignored} ignored`)
+
+  return parts.length ? parts.join(' · ') : 'Detected layout, no column changes'
+}
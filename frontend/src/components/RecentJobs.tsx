@@ -1,13 +1,15 @@
 import { useState, useEffect } from 'react'
 import type { ImportJob } from '../api'
 import { jobsApi } from '../api'
+import { JobControls } from './JobControls'
 
 interface RecentJobsProps {
   onSelectJob: (jobId: string) => void
+  onViewAll?: () => void
   refreshTrigger?: number
 }
 
-export function RecentJobs({ onSelectJob, refreshTrigger }: RecentJobsProps) {
+export function RecentJobs({ onSelectJob, onViewAll, refreshTrigger }: RecentJobsProps) {
   const [jobs, setJobs] = useState<ImportJob[]>([])
   const [isLoading, setIsLoading] = useState(true)
 
@@ -26,6 +28,18 @@ export function RecentJobs({ onSelectJob, refreshTrigger }: RecentJobsProps) {
     loadJobs()
   }, [refreshTrigger])
 
+  // Keep unfinished jobs live so pause/cancel is reflected without a reload
+  const activeJobIds = jobs.filter((j) => !j.isFinished).map((j) => j.id).join(',')
+  useEffect(() => {
+    if (!activeJobIds) return
+    const unsubscribes = activeJobIds.split(',').map((id) =>
+      jobsApi.subscribe(id, (updated) => {
+        setJobs((prev) => prev.map((j) => (j.id === updated.id ? updated : j)))
+      })
+    )
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe())
+  }, [activeJobIds])
+
   const handleDelete = async (id: string, e: React.MouseEvent) => {
     e.stopPropagation()
     if (!confirm('Are you sure you want to delete this import job?')) return
@@ -46,6 +60,8 @@ export function RecentJobs({ onSelectJob, refreshTrigger }: RecentJobsProps) {
         return 'bg-red-100 text-red-700'
       case 'Processing':
         return 'bg-primary-100 text-primary-700'
+      case 'Paused':
+        return 'bg-amber-100 text-amber-700'
       default:
         return 'bg-gray-100 text-gray-700'
     }
@@ -101,8 +117,13 @@ export function RecentJobs({ onSelectJob, refreshTrigger }: RecentJobsProps) {
 
   return (
     <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
-      <div className="px-6 py-4 border-b border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
         <h3 className="text-lg font-semibold text-gray-800">Recent Imports</h3>
+        {onViewAll && (
+          <button onClick={onViewAll} className="text-sm font-medium text-primary-600 hover:text-primary-700">
+            View all
+          </button>
+        )}
       </div>
       <div className="divide-y divide-gray-100">
         {jobs.map((job) => (
@@ -129,6 +150,7 @@ export function RecentJobs({ onSelectJob, refreshTrigger }: RecentJobsProps) {
                 <span>{formatDate(job.createdAt)}</span>
               </div>
             </div>
+            <JobControls jobId={job.id} status={job.status} />
             <button
               onClick={(e) => handleDelete(job.id, e)}
               className="ml-4 p-2 text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all"
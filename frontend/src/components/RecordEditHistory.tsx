@@ -0,0 +1,75 @@
+import { useState, useEffect, useCallback } from 'react'
+import type { RecordEdit } from '../api'
+import { dataApi, getErrorMessage } from '../api'
+
+interface RecordEditHistoryProps {
+  importJobId: string
+  // Bumped by the parent after an edit so the list reloads
+  refreshTrigger: number
+}
+
+const PAGE_SIZE = 20
+
+const formatChange = (value?: string | null) => (value == null || value === '' ? '(empty)' : value)
+
+// Who changed or deleted which records of a job, and when, newest first
+export function RecordEditHistory({ importJobId, refreshTrigger }: RecordEditHistoryProps) {
+  const [edits, setEdits] = useState<RecordEdit[]>([])
+  const [totalCount, setTotalCount] = useState(0)
+  const [page, setPage] = useState(1)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadEdits = useCallback(async (nextPage: number) => {
+    try {
+      const result = await dataApi.getEdits(importJobId, nextPage, PAGE_SIZE)
+      setEdits((prev) => (nextPage === 1 ? result.items : [...prev, ...result.items]))
+      setTotalCount(result.totalCount)
+      setPage(nextPage)
+      setError(null)
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load edit history'))
+    }
+  }, [importJobId])
+
+  useEffect(() => {
+    loadEdits(1)
+  }, [loadEdits, refreshTrigger])
+
+  if (error) return <p className="text-sm text-red-600">{error}</p>
+
+  if (edits.length === 0) return <p className="text-sm text-gray-500">No records have been edited yet.</p>
+
+  return (
+    <div className="space-y-2">
+      <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+        {edits.map((edit) => (
+          <li key={edit.id} className="px-3 py-2 text-xs">
+            <div className="flex items-center justify-between gap-4">
+              <span className="text-gray-700">
+                <span className="font-medium">{edit.editedBy}</span>{' '}
+                {edit.action === 'delete' ? 'deleted' : 'edited'} row{' '}
+                <span className="font-mono">{edit.rowNumber}</span>
+              </span>
+              <span className="text-gray-400">{new Date(edit.editedAt).toLocaleString()}</span>
+            </div>
+            {edit.action === 'update' && (
+              <ul className="mt-1 space-y-0.5 text-gray-500">
+                {edit.changes.map((change) => (
+                  <li key={change.column}>
+                    <span className="font-medium text-gray-600">{change.column}</span>:{' '}
+                    <span className="line-through">{formatChange(change.oldValue)}</span> → {formatChange(change.newValue)}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ul>
+      {edits.length < totalCount && (
+        <button onClick={() => loadEdits(page + 1)} className="text-xs font-medium text-primary-600 hover:text-primary-700">
+          Show more
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,36 @@
+import type { RuleViolation } from '../api'
+
+interface RuleViolationSummaryProps {
+  violations: RuleViolation[]
+}
+
+const RULE_LABELS: Record<string, string> = {
+  required: 'Required',
+  pattern: 'Pattern',
+  min: 'Minimum',
+  max: 'Maximum',
+  allowedValues: 'Allowed values',
+  maxLength: 'Max length',
+  unique: 'Unique',
+}
+
+// Rows rejected by each column validation rule once an import completes
+export function RuleViolationSummary({ violations }: RuleViolationSummaryProps) {
+  if (violations.length === 0) return null
+
+  return (
+    <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg">
+      <p className="text-xs font-medium text-amber-800 mb-2">Validation rule violations</p>
+      <ul className="space-y-1">
+        {violations.map((v) => (
+          <li key={`${v.column}:${v.rule}`} className="flex items-center justify-between gap-4 text-xs text-amber-700">
+            <span>
+              <span className="font-medium">{v.column}</span> · {RULE_LABELS[v.rule] ?? v.rule}
+            </span>
+            <span className="font-mono">{v.count.toLocaleString()} rows</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
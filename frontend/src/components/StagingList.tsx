@@ -0,0 +1,652 @@
+import { useState } from 'react'
+import { getErrorMessage, type ColumnDefinition, type FilePreview, type FixedWidthColumn, type ImportProfile } from '../api'
+import { suggestFileNamePattern } from '../profiles'
+import { FixedWidthRuler } from './FixedWidthRuler'
+import { PreviewTable } from './PreviewTable'
+
+export interface StagedFile {
+  id: string
+  file: File
+  // Layout settings left undefined use what the server detects, shown in preview.format
+  delimiter?: string
+  quote?: string
+  hasHeader?: boolean
+  encoding?: string
+  headerRowOffset: number
+  skipRows: number
+  // Selected workbook sheets, imported combined into one job unless splitSheets is set
+  sheets: string[]
+  splitSheets: boolean
+  // Arrays in JSON records become one row per element instead of JSON text
+  explodeArrays: boolean
+  // Element path of the records of an XML file; detected by the server when undefined
+  recordPath?: string
+  // Column positions of a fixed-width text file; without them .txt files are read as delimited
+  fixedWidth?: FixedWidthColumn[]
+  // Files inside a .zip archive to import, one job each; the first one is previewed
+  entries: string[]
+  columns: ColumnDefinition[]
+  // Saved profile applied to this file, and one offered because the file name matches it
+  profile?: ImportProfile
+  suggestedProfile?: ImportProfile
+  preview?: FilePreview
+  status: 'loading' | 'ready' | 'error'
+  error?: string
+}
+
+export type StagedFileOptions = Partial<
+  Pick<
+    StagedFile,
+    'delimiter' | 'quote' | 'hasHeader' | 'encoding' | 'headerRowOffset' | 'skipRows' | 'sheets' | 'splitSheets' | 'explodeArrays' | 'recordPath' | 'fixedWidth' | 'entries' | 'columns'
+  >
+>
+
+interface StagingListProps {
+  files: StagedFile[]
+  activeFileId: string | null
+  shareOptions: boolean
+  onSelect: (id: string | null) => void
+  onChange: (id: string, options: StagedFileOptions) => void
+  onRemove: (id: string) => void
+  onShareOptionsChange: (share: boolean) => void
+  onApplyProfile: (id: string, profile: ImportProfile) => void
+  onDismissProfile: (id: string) => void
+  onSaveProfile: (id: string, name: string, fileNamePattern: string) => Promise<void>
+}
+
+export const DELIMITERS: Record<string, string> = { ',': 'Comma (,)', ';': 'Semicolon (;)', '\t': 'Tab', '|': 'Pipe (|)' }
+export const QUOTES: Record<string, string> = { '"': 'Double (")', "'": "Single (')" }
+export const ENCODINGS: Record<string, string> = {
+  'utf-8': 'UTF-8',
+  'utf-8-bom': 'UTF-8 with BOM',
+  'windows-1252': 'Windows-1252',
+  'iso-8859-1': 'Latin-1 (ISO-8859-1)',
+}
+
+const JSON_EXTENSIONS = ['.json', '.ndjson', '.jsonl']
+
+const hasExtension = (fileName: string, extensions: string[]) =>
+  extensions.some((extension) => fileName.toLowerCase().endsWith(extension))
+
+// Name of the file the options apply to: the previewed entry of an archive, or the file itself
+const sourceName = (staged: StagedFile) => staged.preview?.archiveEntry ?? staged.file.name
+
+// JSON and XML records have no delimiter, quote or header row. JSON arrays can be exploded into rows,
+// and XML records are the elements at a chosen path
+const isJsonFile = (fileName: string) => hasExtension(fileName, JSON_EXTENSIONS)
+const isXmlFile = (fileName: string) => hasExtension(fileName, ['.xml'])
+const hasRecords = (fileName: string) => isJsonFile(fileName) || isXmlFile(fileName)
+
+// Text files can be cut at fixed positions instead of split on a delimiter; .dat files always are.
+// The ruler reads the file in the browser, so only uncompressed files get one
+const canBeFixedWidth = (staged: StagedFile) => hasExtension(staged.file.name, ['.txt', '.dat'])
+const isFixedWidth = (staged: StagedFile) => !!staged.fixedWidth || hasExtension(sourceName(staged), ['.dat'])
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+// Label for the "Auto" choice, naming what the server detected once a preview is loaded
+const autoLabel = (labels: Record<string, string>, detected?: string) =>
+  detected ? `Auto: ${labels[detected] ?? detected}` : 'Auto'
+
+// Files whose detected headers match are considered the same layout
+export function getSchemaKey(file: StagedFile): string | null {
+  if (!file.preview) return null
+  return file.preview.detectedColumns.map((c) => c.name).join('\u0001')
+}
+
+export function StagingList({
+  files,
+  activeFileId,
+  shareOptions,
+  onSelect,
+  onChange,
+  onRemove,
+  onShareOptionsChange,
+  onApplyProfile,
+  onDismissProfile,
+  onSaveProfile,
+}: StagingListProps) {
+  const countSameLayout = (file: StagedFile) => {
+    const key = getSchemaKey(file)
+    return key ? files.filter((f) => getSchemaKey(f) === key).length : 0
+  }
+
+  const getStatusBadge = (file: StagedFile) => {
+    switch (file.status) {
+      case 'ready':
+        return 'bg-accent-100 text-accent-700'
+      case 'error':
+        return 'bg-red-100 text-red-700'
+      default:
+        return 'bg-primary-100 text-primary-700'
+    }
+  }
+
+  return (
+    <div className="w-full space-y-3">
+      <label className="flex items-center gap-2 text-sm text-gray-600">
+        <input
+          type="checkbox"
+          checked={shareOptions}
+          onChange={(e) => onShareOptionsChange(e.target.checked)}
+          className="rounded border-gray-300 text-primary-500 focus:ring-primary-500"
+        />
+        Share options between files with the same columns
+      </label>
+
+      <div className="border border-gray-200 rounded-xl divide-y divide-gray-100 overflow-hidden">
+        {files.map((staged) => {
+          const isActive = staged.id === activeFileId
+          const sameLayout = countSameLayout(staged)
+
+          return (
+            <div key={staged.id} className={isActive ? 'bg-gray-50' : 'bg-white'}>
+              <div className="px-4 py-3 flex items-center gap-4">
+                <button
+                  onClick={() => onSelect(isActive ? null : staged.id)}
+                  disabled={!staged.preview}
+                  className="flex-1 min-w-0 text-left disabled:cursor-default"
+                >
+                  <div className="flex items-center gap-3">
+                    <svg
+                      className={`w-4 h-4 text-gray-400 transition-transform ${isActive ? 'rotate-90' : ''}`}
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 5l7 7-7 7" />
+                    </svg>
+                    <span className="text-sm font-medium text-gray-800 truncate">{staged.file.name}</span>
+                    <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${getStatusBadge(staged)}`}>
+                      {staged.status === 'loading' ? 'Analyzing' : staged.status === 'ready' ? 'Ready' : 'Error'}
+                    </span>
+                    {staged.profile && (
+                      <span className="px-2 py-0.5 text-xs font-medium bg-primary-50 text-primary-700 rounded-full">
+                        Profile: {staged.profile.name}
+                      </span>
+                    )}
+                    {shareOptions && sameLayout > 1 && (
+                      <span className="px-2 py-0.5 text-xs font-medium bg-gray-100 text-gray-600 rounded-full">
+                        Shared layout ({sameLayout})
+                      </span>
+                    )}
+                  </div>
+                  <div className="mt-1 ml-7 flex items-center gap-4 text-xs text-gray-500">
+                    <span>{formatSize(staged.file.size)}</span>
+                    {staged.preview && (
+                      <>
+                        <span>
+                          {staged.preview.isSample && '~'}
+                          {staged.preview.estimatedTotalRows.toLocaleString()} rows
+                        </span>
+                        <span>{staged.columns.filter((c) => !c.isIgnored).length} columns</span>
+                        {staged.sheets.length > 1 && (
+                          <span>
+                            {staged.sheets.length} sheets, {staged.splitSheets ? 'one import each' : 'combined'}
+                          </span>
+                        )}
+                      </>
+                    )}
+                    {staged.error && <span className="text-red-600 truncate">{staged.error}</span>}
+                  </div>
+                </button>
+
+                {!staged.preview?.sheets.length && !hasRecords(sourceName(staged)) && !isFixedWidth(staged) && (
+                  <select
+                    value={staged.delimiter ?? ''}
+                    onChange={(e) => onChange(staged.id, { delimiter: e.target.value || undefined })}
+                    disabled={staged.status === 'loading'}
+                    className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+                    title="CSV Delimiter"
+                  >
+                    <option value="">{autoLabel(DELIMITERS, staged.preview?.format?.delimiter)}</option>
+                    {Object.entries(DELIMITERS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                )}
+                {!hasRecords(sourceName(staged)) && !isFixedWidth(staged) && (
+                  <select
+                    value={staged.hasHeader === undefined ? '' : staged.hasHeader ? 'header' : 'data'}
+                    onChange={(e) => onChange(staged.id, {
+                      hasHeader: e.target.value ? e.target.value === 'header' : undefined
+                    })}
+                    disabled={staged.status === 'loading'}
+                    className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+                    title="First Row"
+                  >
+                    <option value="">
+                      {staged.preview?.format
+                        ? `Auto: ${staged.preview.format.hasHeader ? 'Headers' : 'Data'}`
+                        : 'Auto'}
+                    </option>
+                    <option value="header">Headers</option>
+                    <option value="data">Data</option>
+                  </select>
+                )}
+                <button
+                  onClick={() => onRemove(staged.id)}
+                  className="p-2 text-gray-400 hover:text-red-500 transition-colors"
+                  title="Remove"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+
+              {staged.suggestedProfile && (
+                <div className="mx-4 mb-3 px-3 py-2 flex items-center gap-3 text-sm bg-primary-50 border border-primary-100 rounded-lg">
+                  <span className="flex-1 text-primary-800">
+                    Matches saved profile <span className="font-medium">{staged.suggestedProfile.name}</span>
+                    <span className="ml-2 text-xs text-primary-600 font-mono">{staged.suggestedProfile.fileNamePattern}</span>
+                  </span>
+                  <button
+                    onClick={() => onApplyProfile(staged.id, staged.suggestedProfile!)}
+                    className="px-3 py-1 text-xs font-medium text-white bg-primary-500 rounded-md hover:bg-primary-600 transition-colors"
+                  >
+                    Apply
+                  </button>
+                  <button
+                    onClick={() => onDismissProfile(staged.id)}
+                    className="px-3 py-1 text-xs font-medium text-gray-600 hover:text-gray-800 transition-colors"
+                  >
+                    Dismiss
+                  </button>
+                </div>
+              )}
+
+              {isActive && staged.preview && (
+                <div className="px-4 pb-4 space-y-4">
+                  {staged.preview.archiveEntries.length > 1 && (
+                    <ArchiveEntries staged={staged} onChange={(options) => onChange(staged.id, options)} />
+                  )}
+                  <LayoutOptions staged={staged} onChange={(options) => onChange(staged.id, options)} />
+                  {staged.status === 'ready' && (
+                    <SaveProfileForm
+                      key={staged.id}
+                      staged={staged}
+                      onSave={(name, fileNamePattern) => onSaveProfile(staged.id, name, fileNamePattern)}
+                    />
+                  )}
+                  {/* The instant local preview is read-only until the server confirms the schema */}
+                  <PreviewTable
+                    preview={staged.preview}
+                    columns={staged.columns}
+                    onColumnsChange={staged.status === 'ready' ? (columns) => onChange(staged.id, { columns }) : undefined}
+                  />
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+interface SaveProfileFormProps {
+  staged: StagedFile
+  onSave: (name: string, fileNamePattern: string) => Promise<void>
+}
+
+// Save the file's current layout and column mapping as a named profile for files matching a pattern
+function SaveProfileForm({ staged, onSave }: SaveProfileFormProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [name, setName] = useState('')
+  const [pattern, setPattern] = useState(() => suggestFileNamePattern(staged.file.name))
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      await onSave(name.trim(), pattern.trim())
+      setIsOpen(false)
+      setName('')
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save profile'))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="text-sm font-medium text-primary-600 hover:text-primary-700"
+      >
+        Save settings as profile…
+      </button>
+    )
+  }
+
+  return (
+    <div className="p-3 bg-white border border-gray-200 rounded-lg space-y-2">
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600">
+        <label className="flex items-center gap-2">
+          Name
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Vendor weekly export"
+            className="w-56 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          File name pattern
+          <input
+            type="text"
+            value={pattern}
+            onChange={(e) => setPattern(e.target.value)}
+            title="'*' matches any characters, '?' a single one"
+            className="w-56 px-2 py-1 font-mono border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+          />
+        </label>
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !name.trim() || !pattern.trim()}
+          className="px-3 py-1 text-sm font-medium text-white bg-primary-500 rounded-lg hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isSaving ? 'Saving...' : 'Save profile'}
+        </button>
+        <button onClick={() => setIsOpen(false)} className="text-sm text-gray-500 hover:text-gray-700">
+          Cancel
+        </button>
+      </div>
+      <p className="text-xs text-gray-400">
+        Saves the layout options and column mapping above; files matching the pattern will be offered this profile.
+      </p>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  )
+}
+
+interface ArchiveEntriesProps {
+  staged: StagedFile
+  onChange: (options: StagedFileOptions) => void
+}
+
+// Files of a .zip archive to import, each as its own job; the first selected one is previewed
+function ArchiveEntries({ staged, onChange }: ArchiveEntriesProps) {
+  const entries = staged.preview?.archiveEntries ?? []
+
+  const toggleEntry = (name: string, checked: boolean) => {
+    // Keep archive order regardless of click order
+    const selected = entries
+      .map((e) => e.name)
+      .filter((e) => (e === name ? checked : staged.entries.includes(e)))
+    if (selected.length > 0) onChange({ entries: selected })
+  }
+
+  return (
+    <div className="p-3 bg-white border border-gray-200 rounded-lg space-y-2">
+      <p className="text-sm font-medium text-gray-700">Files in archive</p>
+      <div className="flex flex-wrap gap-2">
+        {entries.map((entry) => {
+          const checked = staged.entries.includes(entry.name)
+          return (
+            <label
+              key={entry.name}
+              className={`flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg border cursor-pointer ${
+                checked ? 'border-primary-300 bg-primary-50 text-primary-700' : 'border-gray-200 text-gray-600'
+              }`}
+            >
+              <input
+                type="checkbox"
+                checked={checked}
+                disabled={checked && staged.entries.length === 1}
+                onChange={(e) => toggleEntry(entry.name, e.target.checked)}
+                className="rounded border-gray-300 text-primary-500 focus:ring-primary-500"
+              />
+              <span className="font-mono">{entry.name}</span>
+              {entry.size != null && <span className="text-xs text-gray-400">{formatSize(entry.size)}</span>}
+            </label>
+          )
+        })}
+      </div>
+      {staged.entries.length > 1 && (
+        <p className="text-xs text-gray-400">
+          Each file becomes its own import with its layout detected; preview shows {staged.entries[0]}, and its column
+          mapping applies to the columns other files share
+        </p>
+      )}
+    </div>
+  )
+}
+
+interface LayoutOptionsProps {
+  staged: StagedFile
+  onChange: (options: StagedFileOptions) => void
+}
+
+// Quote and encoding for text files, header offset and skipped rows, for workbooks which sheets to import and how,
+// for JSON files what becomes of arrays, for XML files which element holds the records, and for fixed-width
+// text files where the columns are cut
+function LayoutOptions({ staged, onChange }: LayoutOptionsProps) {
+  const sheets = staged.preview?.sheets ?? []
+
+  const toCount = (value: string) => Math.max(0, Math.floor(Number(value)) || 0)
+
+  const toggleSheet = (name: string, checked: boolean) => {
+    // Keep workbook order regardless of click order
+    const selected = sheets
+      .map((s) => s.name)
+      .filter((s) => (s === name ? checked : staged.sheets.includes(s)))
+    if (selected.length > 0) onChange({ sheets: selected })
+  }
+
+  if (isXmlFile(sourceName(staged))) {
+    const recordPaths = staged.preview?.recordPaths ?? []
+    return (
+      <div className="p-3 bg-white border border-gray-200 rounded-lg space-y-2">
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          Record element
+          <select
+            value={staged.recordPath ?? ''}
+            onChange={(e) => onChange({ recordPath: e.target.value || undefined })}
+            className="min-w-0 max-w-md px-2 py-1 font-mono border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+          >
+            <option value="">
+              {staged.preview?.format?.recordPath ? `Auto: ${staged.preview.format.recordPath}` : 'Auto'}
+            </option>
+            {recordPaths.map((recordPath) => (
+              <option key={recordPath.path} value={recordPath.path}>
+                {recordPath.path} ({recordPath.count.toLocaleString()})
+              </option>
+            ))}
+          </select>
+        </label>
+        <p className="text-xs text-gray-400">
+          Each element at this path becomes a row; its attributes and child elements become columns such as Customer.Name
+        </p>
+      </div>
+    )
+  }
+
+  if (isJsonFile(sourceName(staged))) {
+    return (
+      <div className="p-3 bg-white border border-gray-200 rounded-lg">
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          Arrays
+          <select
+            value={staged.explodeArrays ? 'rows' : 'text'}
+            onChange={(e) => onChange({ explodeArrays: e.target.value === 'rows' })}
+            className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+          >
+            <option value="text">Keep as JSON text</option>
+            <option value="rows">One row per element</option>
+          </select>
+          <span className="text-xs text-gray-400">Nested objects become columns such as customer.address.city</span>
+        </label>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-3 bg-white border border-gray-200 rounded-lg space-y-3">
+      {canBeFixedWidth(staged) && <FixedWidthOptions staged={staged} onChange={onChange} />}
+
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+        <label className="flex items-center gap-2">
+          Rows above header
+          <input
+            type="number"
+            min={0}
+            value={staged.headerRowOffset}
+            onChange={(e) => onChange({ headerRowOffset: toCount(e.target.value) })}
+            className="w-20 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          Skip rows after header
+          <input
+            type="number"
+            min={0}
+            value={staged.skipRows}
+            onChange={(e) => onChange({ skipRows: toCount(e.target.value) })}
+            className="w-20 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+          />
+        </label>
+        {sheets.length === 0 && (
+          <>
+            {!isFixedWidth(staged) && (
+              <label className="flex items-center gap-2">
+                Quote
+                <select
+                  value={staged.quote ?? ''}
+                  onChange={(e) => onChange({ quote: e.target.value || undefined })}
+                  className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+                >
+                  <option value="">{autoLabel(QUOTES, staged.preview?.format?.quote)}</option>
+                  {Object.entries(QUOTES).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <label className="flex items-center gap-2">
+              Encoding
+              <select
+                value={staged.encoding ?? ''}
+                onChange={(e) => onChange({ encoding: e.target.value || undefined })}
+                className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 outline-none"
+              >
+                <option value="">{autoLabel(ENCODINGS, staged.preview?.format?.encoding)}</option>
+                {Object.entries(ENCODINGS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </label>
+          </>
+        )}
+      </div>
+
+      {sheets.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-gray-700">Sheets</p>
+          <div className="flex flex-wrap gap-2">
+            {sheets.map((sheet) => {
+              const checked = staged.sheets.includes(sheet.name)
+              return (
+                <label
+                  key={sheet.name}
+                  className={`flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg border cursor-pointer ${
+                    checked ? 'border-primary-300 bg-primary-50 text-primary-700' : 'border-gray-200 text-gray-600'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={checked}
+                    disabled={checked && staged.sheets.length === 1}
+                    onChange={(e) => toggleSheet(sheet.name, e.target.checked)}
+                    className="rounded border-gray-300 text-primary-500 focus:ring-primary-500"
+                  />
+                  {sheet.name}
+                  <span className="text-xs text-gray-400">{sheet.rowCount.toLocaleString()} rows</span>
+                </label>
+              )
+            })}
+          </div>
+
+          {staged.sheets.length > 1 && (
+            <div className="flex items-center gap-4 text-sm text-gray-600">
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  checked={!staged.splitSheets}
+                  onChange={() => onChange({ splitSheets: false })}
+                  className="border-gray-300 text-primary-500 focus:ring-primary-500"
+                />
+                Combine into one import
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  checked={staged.splitSheets}
+                  onChange={() => onChange({ splitSheets: true })}
+                  className="border-gray-300 text-primary-500 focus:ring-primary-500"
+                />
+                One import per sheet
+              </label>
+              {staged.splitSheets && (
+                <span className="text-xs text-gray-400">Preview shows {staged.sheets[0]}; the column mapping applies to every sheet</span>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Cut positions of a text file, picked on the ruler; .txt files stay delimited until a layout is applied
+function FixedWidthOptions({ staged, onChange }: LayoutOptionsProps) {
+  const [isEditing, setIsEditing] = useState(false)
+  const isDataFile = hasExtension(staged.file.name, ['.dat'])
+
+  if (!isEditing) {
+    return (
+      <div className="flex items-center gap-3 text-sm text-gray-600">
+        {staged.fixedWidth ? (
+          <span>Fixed width: {staged.fixedWidth.map((c) => c.name).join(', ')}</span>
+        ) : (
+          <span>{isDataFile ? 'Fixed width: each line is one column until a layout is set' : 'Delimited text'}</span>
+        )}
+        <button
+          onClick={() => setIsEditing(true)}
+          className="text-sm font-medium text-primary-600 hover:text-primary-700"
+        >
+          {staged.fixedWidth ? 'Edit columns…' : 'Set fixed-width columns…'}
+        </button>
+        {staged.fixedWidth && !isDataFile && (
+          <button onClick={() => onChange({ fixedWidth: undefined })} className="text-sm text-gray-500 hover:text-gray-700">
+            Read as delimited
+          </button>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <FixedWidthRuler
+        file={staged.file}
+        columns={staged.fixedWidth}
+        onApply={(columns) => {
+          onChange({ fixedWidth: columns })
+          setIsEditing(false)
+        }}
+      />
+      <button onClick={() => setIsEditing(false)} className="text-sm text-gray-500 hover:text-gray-700">
+        Cancel
+      </button>
+    </div>
+  )
+}
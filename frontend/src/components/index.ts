@@ -2,4 +2,15 @@ export { FileUpload } from './FileUpload'
 export { PreviewTable } from './PreviewTable'
 export { ImportProgressBar } from './ImportProgressBar'
 export { DataTable } from './DataTable'
+export { DataProfilePanel } from './DataProfilePanel'
+export { FailuresTable } from './FailuresTable'
 export { RecentJobs } from './RecentJobs'
+export { JobHistory } from './JobHistory'
+export { JobComparisonView } from './JobComparisonView'
+export { JobControls } from './JobControls'
+export { JobLoadPanel } from './JobLoadPanel'
+export { ProfileList } from './ProfileList'
+export { RecordEditHistory } from './RecordEditHistory'
+export { RuleViolationSummary } from './RuleViolationSummary'
+export { StagingList, getSchemaKey } from './StagingList'
+export type { StagedFile, StagedFileOptions } from './StagingList'
@@ -0,0 +1,54 @@
+import type { FilePreview, ImportOptions } from './api'
+
+// Instant preview of delimited text files, parsed from the start of the file in a Web Worker
+// so large files can be inspected before anything is uploaded.
+
+// Bytes read from the start of the file
+export const SAMPLE_SIZE = 512 * 1024
+
+const TEXT_EXTENSIONS = ['.csv', '.tsv', '.txt']
+
+export interface LocalPreviewRequest {
+  file: File
+  options: ImportOptions
+  sampleSize: number
+  previewRows: number
+}
+
+export interface LocalPreview {
+  preview: FilePreview
+  // Length of the sample cut at the last full line; the server analyzes exactly these bytes
+  sampleBytes: number
+}
+
+export type LocalPreviewResponse = LocalPreview | { error: string }
+
+// Workbooks are zip archives and cannot be read from a slice
+export const canPreviewLocally = (file: File) =>
+  TEXT_EXTENSIONS.some((extension) => file.name.toLowerCase().endsWith(extension))
+
+export const previewLocally = (file: File, options: ImportOptions = {}, previewRows = 10): Promise<LocalPreview> =>
+  new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./localPreview.worker.ts', import.meta.url), { type: 'module' })
+
+    worker.onmessage = (event: MessageEvent<LocalPreviewResponse>) => {
+      worker.terminate()
+      if ('error' in event.data) reject(new Error(event.data.error))
+      else resolve(event.data)
+    }
+    worker.onerror = (event) => {
+      worker.terminate()
+      reject(new Error(event.message || 'Failed to preview file'))
+    }
+
+    const request: LocalPreviewRequest = { file, options, sampleSize: SAMPLE_SIZE, previewRows }
+    worker.postMessage(request)
+  })
+
+// The sample as a file of its own, sent to the server instead of the whole file
+export const toSampleFile = (file: File, sampleBytes: number) =>
+  sampleBytes >= file.size ? file : new File([file.slice(0, sampleBytes)], file.name, { type: file.type })
+
+// Scale a row count from the sample up to the whole file
+export const extrapolateRows = (sampleRows: number, sampleBytes: number, fileSize: number) =>
+  sampleBytes >= fileSize || sampleBytes === 0 ? sampleRows : Math.round((sampleRows * fileSize) / sampleBytes)
@@ -0,0 +1,203 @@
+import type { ColumnDefinition } from './api'
+import { extrapolateRows, type LocalPreview, type LocalPreviewRequest, type LocalPreviewResponse } from './localPreview'
+
+// Parses the start of a delimited text file off the main thread.
+// Sniffing follows the server's FormatSniffer closely enough for a first look;
+// the server's analysis of the same sample replaces this preview once it arrives.
+
+const DELIMITERS = [',', ';', '\t', '|']
+const QUOTES = ['"', "'"]
+
+// Lines compared when looking for a consistent delimiter and a header row
+const SAMPLE_LINES = 50
+
+// Data rows used to infer column types
+const TYPE_SAMPLE_ROWS = 100
+
+self.onmessage = async (event: MessageEvent<LocalPreviewRequest>) => {
+  let response: LocalPreviewResponse
+  try {
+    response = await buildPreview(event.data)
+  } catch (err) {
+    response = { error: err instanceof Error ? err.message : 'Failed to preview file' }
+  }
+  self.postMessage(response)
+}
+
+const buildPreview = async ({ file, options, sampleSize, previewRows }: LocalPreviewRequest): Promise<LocalPreview> => {
+  const bytes = new Uint8Array(await file.slice(0, sampleSize).arrayBuffer())
+
+  // Cut at the last line break so only whole lines are parsed and sent on
+  const lastLineBreak = bytes.lastIndexOf(0x0a)
+  const sampleBytes = file.size <= sampleSize || lastLineBreak < 0 ? bytes.length : lastLineBreak + 1
+  const sample = bytes.subarray(0, sampleBytes)
+
+  const encoding = options.encoding ?? detectEncoding(sample)
+  const text = new TextDecoder(encoding === 'utf-8-bom' ? 'utf-8' : encoding).decode(sample)
+
+  const lines = text
+    .split('\n')
+    .map((line) => line.replace(/\r$/, ''))
+    .slice(options.headerRowOffset ?? 0)
+    .filter((line) => line.length > 0)
+
+  const sniffLines = lines.slice(0, SAMPLE_LINES)
+  const quote = options.quote ?? detectQuote(sniffLines)
+  const delimiter = options.delimiter ?? detectDelimiter(sniffLines, quote)
+  const rows = lines.map((line) => splitLine(line, delimiter, quote))
+  const hasHeader = options.hasHeader ?? looksLikeHeader(rows.slice(0, SAMPLE_LINES))
+
+  const fieldCount = rows[0]?.length ?? 0
+  const names = Array.from({ length: fieldCount }, (_, i) => (hasHeader ? rows[0][i] : `Column${i + 1}`))
+  const data = rows.slice((hasHeader ? 1 : 0) + (options.skipRows ?? 0))
+
+  const detectedColumns: ColumnDefinition[] = names.map((name, index) => ({
+    name,
+    index,
+    detectedType: detectColumnType(data.slice(0, TYPE_SAMPLE_ROWS).map((row) => row[index])),
+    isIgnored: false,
+  }))
+
+  return {
+    preview: {
+      fileName: file.name,
+      fileSize: file.size,
+      detectedColumns,
+      previewRows: data
+        .slice(0, previewRows)
+        .map((row) => Object.fromEntries(names.map((name, i) => [name, row[i] ?? null]))),
+      estimatedTotalRows: extrapolateRows(data.length, sampleBytes, file.size),
+      sheets: [],
+      recordPaths: [],
+      archiveEntries: [],
+      format: { hasHeader, delimiter, quote, encoding },
+      isSample: sampleBytes < file.size,
+    },
+    sampleBytes,
+  }
+}
+
+// A BOM means UTF-8; otherwise valid UTF-8 is taken as such and anything else as Windows-1252
+const detectEncoding = (sample: Uint8Array): string => {
+  if (sample[0] === 0xef && sample[1] === 0xbb && sample[2] === 0xbf) return 'utf-8-bom'
+  try {
+    // Streaming mode tolerates a character cut off at the end of the sample
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true })
+    return 'utf-8'
+  } catch {
+    return 'windows-1252'
+  }
+}
+
+// The quote character is the one that most often opens or closes a field
+const detectQuote = (lines: string[]): string => {
+  const counts = QUOTES.map((quote) =>
+    lines.reduce((total, line) => {
+      let count = 0
+      for (let i = 0; i < line.length; i++) {
+        if (line[i] !== quote) continue
+        const opensField = i === 0 || DELIMITERS.includes(line[i - 1])
+        const closesField = i === line.length - 1 || DELIMITERS.includes(line[i + 1])
+        if (opensField || closesField) count++
+      }
+      return total + count
+    }, 0)
+  )
+  return counts[1] > counts[0] ? QUOTES[1] : QUOTES[0]
+}
+
+// The delimiter is the candidate found the same number of times on the most lines,
+// preferring more fields and then the order of DELIMITERS
+const detectDelimiter = (lines: string[], quote: string): string => {
+  let best = DELIMITERS[0]
+  let bestLines = 0
+  let bestFields = 0
+
+  for (const delimiter of DELIMITERS) {
+    const frequencies = new Map<number, number>()
+    for (const line of lines) {
+      const count = splitLine(line, delimiter, quote).length - 1
+      if (count > 0) frequencies.set(count, (frequencies.get(count) ?? 0) + 1)
+    }
+
+    for (const [fields, lineCount] of frequencies) {
+      if (lineCount > bestLines || (lineCount === bestLines && fields > bestFields)) {
+        best = delimiter
+        bestLines = lineCount
+        bestFields = fields
+      }
+    }
+  }
+
+  return best
+}
+
+// Split a line into fields, honouring quoted fields and doubled quotes inside them
+const splitLine = (line: string, delimiter: string, quote: string): string[] => {
+  const fields: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i]
+    if (inQuotes) {
+      if (c !== quote) field += c
+      else if (line[i + 1] === quote) field += line[++i]
+      else inQuotes = false
+    } else if (c === quote && field.length === 0) {
+      inQuotes = true
+    } else if (c === delimiter) {
+      fields.push(field)
+      field = ''
+    } else {
+      field += c
+    }
+  }
+
+  fields.push(field)
+  return fields
+}
+
+// The first row is a header when its values are distinct non-empty text, and either
+// a column below it holds mostly typed values or the values never repeat in the data
+const looksLikeHeader = (rows: string[][]): boolean => {
+  const header = rows[0]
+  if (!header?.length) return false
+  if (header.some((value) => !value.trim() || detectType(value) !== 'string')) return false
+  if (new Set(header.map((value) => value.trim().toLowerCase())).size !== header.length) return false
+
+  const data = rows.slice(1)
+  if (data.length === 0) return true
+
+  const hasTypedColumn = header.some((_, col) => {
+    const types = data.map((row) => row[col]).filter((value) => value?.trim()).map(detectType)
+    return types.length > 0 && types.filter((type) => type !== 'string').length * 2 > types.length
+  })
+  if (hasTypedColumn) return true
+
+  return header.every((value, col) =>
+    data.every((row) => row[col]?.trim().toLowerCase() !== value.trim().toLowerCase())
+  )
+}
+
+// Most common type among the samples when at least 80% agree, as the server does
+const detectColumnType = (values: (string | undefined)[]): string => {
+  const types = values.filter((value): value is string => !!value?.trim()).map(detectType)
+  if (types.length === 0) return 'string'
+
+  const counts = new Map<string, number>()
+  types.forEach((type) => counts.set(type, (counts.get(type) ?? 0) + 1))
+  const [mostCommon, count] = [...counts].sort((a, b) => b[1] - a[1])[0]
+
+  return count / types.length >= 0.8 ? mostCommon : 'string'
+}
+
+const detectType = (value: string): string => {
+  const text = value.trim()
+  if (/^[-+]?\d+$/.test(text) && Math.abs(Number(text)) <= 2147483647) return 'integer'
+  if (/^[-+]?(\d+[.,]\d*|[.,]\d+)$/.test(text)) return 'decimal'
+  if (/^(true|false)$/i.test(text)) return 'boolean'
+  if (/^\d{4}-\d{2}-\d{2}$|^\d{1,2}\/\d{1,2}\/\d{2,4}$/.test(text)) return 'date'
+  if (/^\d{4}-\d{2}-\d{2}[T ]\d{1,2}:\d{2}|^\d{1,2}\/\d{1,2}\/\d{2,4} \d{1,2}:\d{2}/.test(text)) return 'datetime'
+  return 'string'
+}
@@ -0,0 +1,50 @@
+import type { ColumnDefinition, ImportProfileOptions } from './api'
+import type { StagedFile, StagedFileOptions } from './components'
+
+// Conversions between staged file settings and saved import profiles
+
+export const toProfileOptions = (staged: StagedFile): ImportProfileOptions => ({
+  delimiter: staged.delimiter,
+  quote: staged.quote,
+  hasHeader: staged.hasHeader,
+  encoding: staged.encoding,
+  headerRowOffset: staged.headerRowOffset,
+  skipRows: staged.skipRows,
+  sheetNames: staged.sheets,
+  splitSheets: staged.splitSheets,
+  explodeArrays: staged.explodeArrays,
+  recordPath: staged.recordPath,
+  fixedWidthColumns: staged.fixedWidth ?? [],
+})
+
+// Layout settings of a profile for a staged file; sheets the workbook does not have are dropped.
+// The server sends unset settings as null, while staged files leave them undefined for "Auto"
+export const fromProfileOptions = (options: ImportProfileOptions, staged: StagedFile): StagedFileOptions => {
+  const sheetNames = staged.preview?.sheets.map((s) => s.name) ?? []
+  return {
+    delimiter: options.delimiter ?? undefined,
+    quote: options.quote ?? undefined,
+    hasHeader: options.hasHeader ?? undefined,
+    encoding: options.encoding ?? undefined,
+    headerRowOffset: options.headerRowOffset,
+    skipRows: options.skipRows,
+    sheets: options.sheetNames.filter((name) => sheetNames.includes(name)),
+    splitSheets: options.splitSheets,
+    explodeArrays: options.explodeArrays,
+    recordPath: options.recordPath ?? undefined,
+    fixedWidth: options.fixedWidthColumns.length > 0 ? options.fixedWidthColumns : undefined,
+  }
+}
+
+// Apply saved renames, ignores and type overrides to detected columns, matched by source name
+export const applyProfileColumns = (detected: ColumnDefinition[], saved: ColumnDefinition[]): ColumnDefinition[] =>
+  detected.map((column) => {
+    const mapping = saved.find((c) => c.name === column.name)
+    return mapping
+      ? { ...column, displayName: mapping.displayName, isIgnored: mapping.isIgnored, detectedType: mapping.detectedType }
+      : column
+  })
+
+// Default pattern for a new profile: runs of digits (dates, sequence numbers) become wildcards,
+// so "sales_2024-05-01.csv" suggests "sales_*.csv"
+export const suggestFileNamePattern = (fileName: string) => fileName.replace(/\d+([-_.]\d+)*/g, '*')
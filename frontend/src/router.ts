@@ -0,0 +1,78 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react'
+
+// Minimal client-side routing on top of the History API.
+// Routes are plain paths; page state such as paging, search and filters lives in the query string.
+
+export interface NavigateOptions {
+  // Replace the current history entry instead of adding one (e.g. while typing)
+  replace?: boolean
+}
+
+const NAVIGATE_EVENT = 'app:navigate'
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener('popstate', onChange)
+  window.addEventListener(NAVIGATE_EVENT, onChange)
+  return () => {
+    window.removeEventListener('popstate', onChange)
+    window.removeEventListener(NAVIGATE_EVENT, onChange)
+  }
+}
+
+const getHref = () => window.location.pathname + window.location.search
+
+export const navigate = (to: string, options: NavigateOptions = {}) => {
+  if (to === getHref()) return
+  if (options.replace) window.history.replaceState(null, '', to)
+  else window.history.pushState(null, '', to)
+  window.dispatchEvent(new Event(NAVIGATE_EVENT))
+}
+
+// Current path and query string; re-renders on navigation and browser back/forward
+export const useLocation = () => {
+  const href = useSyncExternalStore(subscribe, getHref)
+  return useMemo(() => {
+    const url = new URL(href, window.location.origin)
+    return { pathname: url.pathname, searchParams: url.searchParams }
+  }, [href])
+}
+
+// Query string of the current route, with a setter that keeps the path
+export const useSearchParams = (): [
+  URLSearchParams,
+  (update: (params: URLSearchParams) => void, options?: NavigateOptions) => void,
+] => {
+  const { searchParams } = useLocation()
+
+  const setSearchParams = useCallback(
+    (update: (params: URLSearchParams) => void, options?: NavigateOptions) => {
+      const params = new URLSearchParams(window.location.search)
+      update(params)
+      const query = params.toString()
+      navigate(window.location.pathname + (query ? `?${query}` : ''), options)
+    },
+    []
+  )
+
+  return [searchParams, setSearchParams]
+}
+
+// Match a path against a pattern such as '/jobs/:id'; returns the decoded params or null
+export const matchPath = (pattern: string, pathname: string): Record<string, string> | null => {
+  const patternParts = pattern.split('/').filter(Boolean)
+  const pathParts = pathname.split('/').filter(Boolean)
+  if (patternParts.length !== pathParts.length) return null
+
+  const params: Record<string, string> = {}
+  for (let i = 0; i < patternParts.length; i++) {
+    if (patternParts[i].startsWith(':')) params[patternParts[i].slice(1)] = decodeURIComponent(pathParts[i])
+    else if (patternParts[i] !== pathParts[i]) return null
+  }
+  return params
+}
+
+// Read a positive page number from the query string
+export const getPageParam = (params: URLSearchParams): number => {
+  const page = Number(params.get('page'))
+  return Number.isInteger(page) && page > 0 ? page : 1
+}
@@ -1,5 +1,6 @@
 namespace QuickIngestFile.Api.Endpoints;
 
+using System.Text.Json;
 using Microsoft.AspNetCore.Mvc;
 using QuickIngestFile.Application.DTOs;
 using QuickIngestFile.Application.Services;
@@ -10,6 +11,8 @@ using QuickIngestFile.Domain.Common;
 /// </summary>
 public static class DataEndpoints
 {
+    private static readonly JsonSerializerOptions JsonOptions = new(JsonSerializerDefaults.Web);
+
     public static void MapDataEndpoints(this WebApplication app)
     {
         var group = app.MapGroup("/api/data")
@@ -25,14 +28,73 @@ public static class DataEndpoints
         // Get records for import job
         group.MapGet("/{importJobId:guid}/records", GetRecords)
             .WithName("GetRecords")
-            .WithDescription("Get paginated records for an import job")
-            .Produces<PagedResult<ImportedRecordDto>>(200);
+            .WithDescription("Get paginated records for an import job. Search with 'searchTerm', filter with 'filters' (JSON array of {column, operator, value, valueTo}) and sort with 'sort' and 'desc'.")
+            .Produces<PagedResult<ImportedRecordDto>>(200)
+            .Produces<ProblemDetails>(400);
+
+        // Edit record values
+        group.MapPatch("/{importJobId:guid}/records/{recordId:guid}", UpdateRecord)
+            .WithName("UpdateRecord")
+            .WithDescription("Change values of a record. Values are converted to the column types and checked against column rules; the change is added to the job's edit history.")
+            .Produces<ImportedRecordDto>(200)
+            .Produces<ProblemDetails>(400)
+            .Produces<ProblemDetails>(404);
+
+        // Delete record
+        group.MapDelete("/{importJobId:guid}/records/{recordId:guid}", DeleteRecord)
+            .WithName("DeleteRecord")
+            .WithDescription("Delete a record; its values are kept in the job's edit history")
+            .Produces(204)
+            .Produces<ProblemDetails>(404);
+
+        // Delete several records
+        group.MapPost("/{importJobId:guid}/records/delete", DeleteRecords)
+            .WithName("DeleteRecords")
+            .WithDescription("Delete the given records of a job; nothing is deleted if any of them is not found")
+            .Produces(200)
+            .Produces<ProblemDetails>(400)
+            .Produces<ProblemDetails>(404);
+
+        // Get edit history
+        group.MapGet("/{importJobId:guid}/edits", GetEdits)
+            .WithName("GetRecordEdits")
+            .WithDescription("Get paginated edits and deletions of a job's records, newest first. Filter to one record with 'recordId'.")
+            .Produces<PagedResult<RecordEditDto>>(200);
 
         // Search records
         group.MapGet("/{importJobId:guid}/search", SearchRecords)
             .WithName("SearchRecords")
-            .WithDescription("Search records by value")
-            .Produces<IReadOnlyList<ImportedRecordDto>>(200);
+            .WithDescription("Paginated, case-insensitive search by value. Use 'column:value' to search a single column.")
+            .Produces<PagedResult<ImportedRecordDto>>(200)
+            .Produces<ProblemDetails>(400);
+
+        // Export records
+        group.MapGet("/{importJobId:guid}/export", ExportRecords)
+            .WithName("ExportRecords")
+            .WithDescription("Stream records as csv, json, ndjson or xlsx. Optionally only records matching a search term and filters, sorted by a column.")
+            .Produces(200, contentType: "text/csv")
+            .Produces<ProblemDetails>(400)
+            .Produces<ProblemDetails>(404);
+
+        // Profile columns of import job
+        group.MapGet("/{importJobId:guid}/profile", GetProfile)
+            .WithName("GetDataProfile")
+            .WithDescription("Per-column data-quality summary: null and empty counts, distinct and top values, ranges, histograms and values not matching the detected type")
+            .Produces<DataProfileDto>(200)
+            .Produces<ProblemDetails>(404);
+
+        // Get rejected rows for import job
+        group.MapGet("/{importJobId:guid}/failures", GetFailures)
+            .WithName("GetFailures")
+            .WithDescription("Get paginated rows that were rejected during import, with their errors")
+            .Produces<PagedResult<ImportFailureDto>>(200);
+
+        // Download rejected rows as CSV
+        group.MapGet("/{importJobId:guid}/failures/download", DownloadFailures)
+            .WithName("DownloadFailures")
+            .WithDescription("Download the rejected rows as CSV with an error column, ready to fix and re-upload")
+            .Produces(200, contentType: "text/csv")
+            .Produces<ProblemDetails>(404);
 
         // Get record count
         group.MapGet("/{importJobId:guid}/count", GetRecordCount)
@@ -66,30 +128,218 @@ public static class DataEndpoints
         Guid importJobId,
         [FromServices] DataQueryService dataService,
         [FromQuery] int page = 1,
+        [FromQuery] int pageSize = 50,
+        [FromQuery] string? searchTerm = null,
+        [FromQuery] string? filters = null,
+        [FromQuery] string? sort = null,
+        [FromQuery] bool desc = false)
+    {
+        var columnFilters = ReadFilters(filters);
+        if (columnFilters is null)
+            return InvalidFilters();
+
+        var result = await dataService.GetRecordsAsync(importJobId, page, pageSize, searchTerm, columnFilters, sort, desc);
+
+        return result.IsSuccess
+            ? Results.Ok(result.Value)
+            : Results.BadRequest(new ProblemDetails
+            {
+                Title = "Invalid query",
+                Detail = result.Error
+            });
+    }
+
+    private static async Task<IResult> UpdateRecord(
+        Guid importJobId,
+        Guid recordId,
+        HttpContext context,
+        [FromBody] UpdateRecordRequest request,
+        [FromServices] RecordEditService editService)
+    {
+        var result = await editService.UpdateRecordAsync(
+            importJobId, recordId, request.Values ?? [], GetEditor(context, request.EditedBy));
+
+        return result.IsSuccess
+            ? Results.Ok(result.Value)
+            : ToEditError(result.Error, "Invalid edit");
+    }
+
+    private static async Task<IResult> DeleteRecord(
+        Guid importJobId,
+        Guid recordId,
+        HttpContext context,
+        [FromServices] RecordEditService editService,
+        [FromQuery] string? editedBy = null)
+    {
+        var result = await editService.DeleteRecordsAsync(importJobId, [recordId], GetEditor(context, editedBy));
+
+        return result.IsSuccess
+            ? Results.NoContent()
+            : ToEditError(result.Error, "Invalid delete");
+    }
+
+    private static async Task<IResult> DeleteRecords(
+        Guid importJobId,
+        HttpContext context,
+        [FromBody] DeleteRecordsRequest request,
+        [FromServices] RecordEditService editService)
+    {
+        var result = await editService.DeleteRecordsAsync(
+            importJobId, request.RecordIds ?? [], GetEditor(context, request.EditedBy));
+
+        return result.IsSuccess
+            ? Results.Ok(new { Deleted = result.Value })
+            : ToEditError(result.Error, "Invalid delete");
+    }
+
+    private static async Task<IResult> GetEdits(
+        Guid importJobId,
+        [FromServices] RecordEditService editService,
+        [FromQuery] Guid? recordId = null,
+        [FromQuery] int page = 1,
         [FromQuery] int pageSize = 50)
     {
-        var result = await dataService.GetRecordsAsync(importJobId, page, pageSize);
+        var result = await editService.GetEditsAsync(importJobId, recordId, page, pageSize);
         return Results.Ok(result);
     }
 
     private static async Task<IResult> SearchRecords(
         Guid importJobId,
         [FromServices] DataQueryService dataService,
-        [FromQuery] string q = "")
+        [FromQuery] string? searchTerm = null,
+        [FromQuery] int page = 1,
+        [FromQuery] int pageSize = 50,
+        [FromQuery] string? filters = null,
+        [FromQuery] string? sort = null,
+        [FromQuery] bool desc = false)
     {
-        if (string.IsNullOrWhiteSpace(q))
+        if (string.IsNullOrWhiteSpace(searchTerm))
         {
             return Results.BadRequest(new ProblemDetails
             {
                 Title = "Search term required",
-                Detail = "Please provide a search term using the 'q' query parameter"
+                Detail = "Please provide a search term using the 'searchTerm' query parameter"
             });
         }
 
-        var result = await dataService.SearchRecordsAsync(importJobId, q);
+        var columnFilters = ReadFilters(filters);
+        if (columnFilters is null)
+            return InvalidFilters();
+
+        var result = await dataService.SearchRecordsAsync(importJobId, searchTerm, page, pageSize, columnFilters, sort, desc);
+
+        return result.IsSuccess
+            ? Results.Ok(result.Value)
+            : Results.BadRequest(new ProblemDetails
+            {
+                Title = "Invalid query",
+                Detail = result.Error
+            });
+    }
+
+    private static async Task<IResult> ExportRecords(
+        Guid importJobId,
+        HttpContext context,
+        [FromServices] DataExportService exportService,
+        [FromServices] DataQueryService dataService,
+        [FromQuery] string format = "csv",
+        [FromQuery] char delimiter = ',',
+        [FromQuery] string? searchTerm = null,
+        [FromQuery] string? filters = null,
+        [FromQuery] string? sort = null,
+        [FromQuery] bool desc = false)
+    {
+        if (!Enum.TryParse<ExportFormat>(format, ignoreCase: true, out var exportFormat)
+            || !Enum.IsDefined(exportFormat))
+        {
+            return Results.BadRequest(new ProblemDetails
+            {
+                Title = "Unsupported export format",
+                Detail = $"Supported formats: {string.Join(", ", Enum.GetNames<ExportFormat>().Select(n => n.ToLowerInvariant()))}"
+            });
+        }
+
+        var file = await exportService.GetExportFileAsync(importJobId, exportFormat);
+        if (file.IsFailure)
+        {
+            return Results.NotFound(new ProblemDetails
+            {
+                Title = "Job not found",
+                Detail = file.Error
+            });
+        }
+
+        var columnFilters = ReadFilters(filters);
+        if (columnFilters is null)
+            return InvalidFilters();
+
+        var query = await dataService.ResolveQueryAsync(importJobId, searchTerm, columnFilters, sort, desc);
+        if (query.IsFailure)
+        {
+            return Results.BadRequest(new ProblemDetails
+            {
+                Title = "Invalid query",
+                Detail = query.Error
+            });
+        }
+
+        var request = new ExportRequest(exportFormat, delimiter, query.Value);
+
+        return Results.Stream(
+            stream => exportService.WriteExportAsync(importJobId, request, stream, context.RequestAborted),
+            file.Value.ContentType,
+            file.Value.FileName);
+    }
+
+    private static async Task<IResult> GetProfile(
+        Guid importJobId,
+        HttpContext context,
+        [FromServices] DataProfileService profileService)
+    {
+        var result = await profileService.GetProfileAsync(importJobId, context.RequestAborted);
+
+        return result.IsSuccess
+            ? Results.Ok(result.Value)
+            : Results.NotFound(new ProblemDetails
+            {
+                Title = "Schema not found",
+                Detail = result.Error
+            });
+    }
+
+    private static async Task<IResult> GetFailures(
+        Guid importJobId,
+        [FromServices] DataQueryService dataService,
+        [FromQuery] int page = 1,
+        [FromQuery] int pageSize = 50)
+    {
+        var result = await dataService.GetFailuresAsync(importJobId, page, pageSize);
         return Results.Ok(result);
     }
 
+    private static async Task<IResult> DownloadFailures(
+        Guid importJobId,
+        [FromServices] DataQueryService dataService,
+        [FromServices] ImportJobService jobService)
+    {
+        var job = await jobService.GetJobByIdAsync(importJobId);
+        if (job.IsFailure)
+        {
+            return Results.NotFound(new ProblemDetails
+            {
+                Title = "Job not found",
+                Detail = job.Error
+            });
+        }
+
+        var fileName = $"{Path.GetFileNameWithoutExtension(job.Value.FileName)}-errors.csv";
+
+        return Results.Stream(
+            stream => dataService.WriteFailuresCsvAsync(importJobId, stream),
+            "text/csv",
+            fileName);
+    }
+
     private static async Task<IResult> GetRecordCount(
         Guid importJobId,
         [FromServices] DataQueryService dataService)
@@ -105,4 +355,58 @@ public static class DataEndpoints
         await dataService.DeleteImportDataAsync(importJobId);
         return Results.NoContent();
     }
+
+    /// <summary>
+    /// Who made an edit: the signed-in user when there is one, otherwise the name the client sent.
+    /// </summary>
+    private static string GetEditor(HttpContext context, string? editedBy)
+    {
+        if (context.User.Identity is { IsAuthenticated: true, Name: { Length: > 0 } name })
+            return name;
+
+        return string.IsNullOrWhiteSpace(editedBy) ? "anonymous" : editedBy.Trim();
+    }
+
+    private static IResult ToEditError(string error, string title)
+    {
+        if (error.EndsWith("not found", StringComparison.Ordinal))
+        {
+            return Results.NotFound(new ProblemDetails
+            {
+                Title = "Record not found",
+                Detail = error
+            });
+        }
+
+        return Results.BadRequest(new ProblemDetails
+        {
+            Title = title,
+            Detail = error
+        });
+    }
+
+    private static IResult InvalidFilters() =>
+        Results.BadRequest(new ProblemDetails
+        {
+            Title = "Invalid filters",
+            Detail = "The 'filters' parameter must be a JSON array of {column, operator, value, valueTo}"
+        });
+
+    /// <summary>
+    /// Parse the JSON-encoded column filters. Returns null when the value is malformed.
+    /// </summary>
+    private static IReadOnlyList<ColumnFilterDto>? ReadFilters(string? filters)
+    {
+        if (string.IsNullOrWhiteSpace(filters))
+            return [];
+
+        try
+        {
+            return JsonSerializer.Deserialize<List<ColumnFilterDto>>(filters, JsonOptions);
+        }
+        catch (JsonException)
+        {
+            return null;
+        }
+    }
 }
@@ -1,9 +1,16 @@
 namespace QuickIngestFile.Api.Endpoints;
 
+using System.Text.Json;
 using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.WebUtilities;
+using Microsoft.Extensions.Options;
+using Microsoft.Extensions.Primitives;
+using Microsoft.Net.Http.Headers;
+using QuickIngestFile.Application.Configuration;
 using QuickIngestFile.Application.DTOs;
 using QuickIngestFile.Application.Parsing;
 using QuickIngestFile.Application.Services;
+using QuickIngestFile.Domain.Common;
 using QuickIngestFile.Domain.Entities;
 using QuickIngestFile.Domain.Repositories;
 
@@ -12,6 +19,8 @@ using QuickIngestFile.Domain.Repositories;
 /// </summary>
 public static class ImportEndpoints
 {
+    private static readonly JsonSerializerOptions JsonOptions = new(JsonSerializerDefaults.Web);
+
     public static void MapImportEndpoints(this WebApplication app)
     {
         var group = app.MapGroup("/api/import")
@@ -21,7 +30,7 @@ public static class ImportEndpoints
         // Preview file before importing
         group.MapPost("/preview", PreviewFile)
             .WithName("PreviewFile")
-            .WithDescription("Preview file contents and detect schema before importing")
+            .WithDescription("Preview file contents, detect schema and list workbook sheets or archive entries before importing")
             .Produces<FilePreviewDto>(200)
             .Produces<ProblemDetails>(400);
 
@@ -35,25 +44,36 @@ public static class ImportEndpoints
         // Import file (asynchronous - returns immediately, processes in background)
         group.MapPost("/async", ImportFileAsync)
             .WithName("ImportFileAsync")
-            .WithDescription("Queue file for import and return immediately. Use /api/jobs/{id} to check progress.")
+            .WithDescription("Queue file for import and return immediately, or pass targetJobId and mode (append, upsert, replace) to load it into an existing job. Use /api/jobs/{id} to check progress.")
             .Produces<ImportJobDto>(202)
-            .Produces<ProblemDetails>(400);
+            .Produces<ProblemDetails>(400)
+            .Produces<ProblemDetails>(404)
+            .Produces<ProblemDetails>(409);
 
         // Get supported formats
         group.MapGet("/formats", GetSupportedFormats)
             .WithName("GetSupportedFormats")
-            .WithDescription("Get list of supported file formats");
+            .WithDescription("Get list of supported file formats and the maximum upload size");
     }
 
     private static async Task<IResult> PreviewFile(
         HttpRequest request,
         [FromServices] ImportService importService,
-        [FromQuery] char delimiter = ';',
-        [FromQuery] bool hasHeader = false,
+        [FromServices] UploadFileStore fileStore,
+        [FromQuery] char? delimiter = null,
+        [FromQuery] char? quote = null,
+        [FromQuery] bool? hasHeader = null,
+        [FromQuery] string? encoding = null,
+        [FromQuery] int headerRowOffset = 0,
         [FromQuery] int skipRows = 0,
-        [FromQuery] string? sheetName = null)
+        [FromQuery(Name = "sheetName")] string[]? sheetNames = null,
+        [FromQuery] bool explodeArrays = false,
+        [FromQuery] string? recordPath = null,
+        [FromQuery(Name = "fixedWidth")] string[]? fixedWidth = null,
+        [FromQuery] string? entry = null)
     {
-        if (!request.HasFormContentType)
+        var boundary = GetMultipartBoundary(request);
+        if (boundary is null)
         {
             return Results.BadRequest(new ProblemDetails
             {
@@ -62,11 +82,22 @@ public static class ImportEndpoints
             });
         }
 
-        var form = await request.ReadFormAsync();
-        var file = form.Files.FirstOrDefault();
+        var layout = FixedWidthFileParser.ParseLayout(fixedWidth);
+        if (layout.IsFailure)
+        {
+            return Results.BadRequest(new ProblemDetails
+            {
+                Title = "Invalid fixed-width layout",
+                Detail = layout.Error
+            });
+        }
 
-        if (file is null || file.Length == 0)
+        var form = await ReadMultipartAsync(request, boundary, fileStore);
+        if (form.File is not { FileSize: > 0 } file)
         {
+            if (form.File is not null)
+                UploadFileStore.Delete(form.File.FilePath);
+
             return Results.BadRequest(new ProblemDetails
             {
                 Title = "No file provided",
@@ -77,17 +108,29 @@ public static class ImportEndpoints
         var options = new ParserOptions
         {
             Delimiter = delimiter,
+            Quote = quote,
             HasHeader = hasHeader,
+            Encoding = encoding,
+            HeaderRowOffset = headerRowOffset,
             SkipRows = skipRows,
-            SheetName = sheetName
+            SheetNames = sheetNames ?? [],
+            ExplodeArrays = explodeArrays,
+            RecordPath = recordPath,
+            FixedWidthColumns = layout.Value,
+            ArchiveEntry = entry
         };
 
-        using var stream = new MemoryStream();
-        await file.CopyToAsync(stream);
-        stream.Position = 0;
-
-        var result = await importService.GetPreviewAsync(
-            stream, file.FileName, file.Length, options);
+        Result<FilePreviewDto> result;
+        try
+        {
+            // Previews read the start of the file more than once, which the stored copy allows
+            await using var stream = File.OpenRead(file.FilePath);
+            result = await importService.GetPreviewAsync(stream, file.FileName, file.FileSize, options);
+        }
+        finally
+        {
+            UploadFileStore.Delete(file.FilePath);
+        }
 
         return result.IsSuccess
             ? Results.Ok(result.Value)
@@ -101,13 +144,22 @@ public static class ImportEndpoints
     private static async Task<IResult> ImportFile(
         HttpRequest request,
         [FromServices] ImportService importService,
-        [FromQuery] char delimiter = ';',
-        [FromQuery] bool hasHeader = false,
+        [FromServices] UploadFileStore fileStore,
+        [FromQuery] char? delimiter = null,
+        [FromQuery] char? quote = null,
+        [FromQuery] bool? hasHeader = null,
+        [FromQuery] string? encoding = null,
+        [FromQuery] int headerRowOffset = 0,
         [FromQuery] int skipRows = 0,
         [FromQuery] int batchSize = 1000,
-        [FromQuery] string? sheetName = null)
+        [FromQuery(Name = "sheetName")] string[]? sheetNames = null,
+        [FromQuery] bool explodeArrays = false,
+        [FromQuery] string? recordPath = null,
+        [FromQuery(Name = "fixedWidth")] string[]? fixedWidth = null,
+        [FromQuery] string? entry = null)
     {
-        if (!request.HasFormContentType)
+        var boundary = GetMultipartBoundary(request);
+        if (boundary is null)
         {
             return Results.BadRequest(new ProblemDetails
             {
@@ -116,11 +168,22 @@ public static class ImportEndpoints
             });
         }
 
-        var form = await request.ReadFormAsync();
-        var file = form.Files.FirstOrDefault();
+        var layout = FixedWidthFileParser.ParseLayout(fixedWidth);
+        if (layout.IsFailure)
+        {
+            return Results.BadRequest(new ProblemDetails
+            {
+                Title = "Invalid fixed-width layout",
+                Detail = layout.Error
+            });
+        }
 
-        if (file is null || file.Length == 0)
+        var form = await ReadMultipartAsync(request, boundary, fileStore);
+        if (form.File is not { FileSize: > 0 } file)
         {
+            if (form.File is not null)
+                UploadFileStore.Delete(form.File.FilePath);
+
             return Results.BadRequest(new ProblemDetails
             {
                 Title = "No file provided",
@@ -128,21 +191,55 @@ public static class ImportEndpoints
             });
         }
 
+        var columnMappings = ReadColumnMappings(form.Fields);
+        if (columnMappings is null)
+        {
+            UploadFileStore.Delete(file.FilePath);
+            return Results.BadRequest(new ProblemDetails
+            {
+                Title = "Invalid column mapping",
+                Detail = "The 'columns' field must be a JSON array of column definitions"
+            });
+        }
+
+        var rules = RowValidator.Create(columnMappings);
+        if (rules.IsFailure)
+        {
+            UploadFileStore.Delete(file.FilePath);
+            return Results.BadRequest(new ProblemDetails
+            {
+                Title = "Invalid validation rule",
+                Detail = rules.Error
+            });
+        }
+
         var options = new ParserOptions
         {
             Delimiter = delimiter,
+            Quote = quote,
             HasHeader = hasHeader,
+            Encoding = encoding,
+            HeaderRowOffset = headerRowOffset,
             SkipRows = skipRows,
             BatchSize = batchSize,
-            SheetName = sheetName
+            SheetNames = sheetNames ?? [],
+            ExplodeArrays = explodeArrays,
+            RecordPath = recordPath,
+            FixedWidthColumns = layout.Value,
+            ArchiveEntry = entry,
+            ColumnMappings = columnMappings
         };
 
-        using var stream = new MemoryStream();
-        await file.CopyToAsync(stream);
-        stream.Position = 0;
-
-        var result = await importService.ImportAsync(
-            stream, file.FileName, file.Length, options);
+        Result<ImportJobDto> result;
+        try
+        {
+            await using var stream = File.OpenRead(file.FilePath);
+            result = await importService.ImportAsync(stream, file.FileName, file.FileSize, options);
+        }
+        finally
+        {
+            UploadFileStore.Delete(file.FilePath);
+        }
 
         return result.IsSuccess
             ? Results.Ok(result.Value)
@@ -154,20 +251,42 @@ public static class ImportEndpoints
     }
 
     /// <summary>
-    /// Async import - queues the file and returns immediately.
+    /// Async import - stores the file on disk, queues it and returns immediately.
     /// Allows parallel processing of multiple files.
     /// </summary>
     private static async Task<IResult> ImportFileAsync(
         HttpRequest request,
         [FromServices] BackgroundImportQueue importQueue,
+        [FromServices] UploadFileStore fileStore,
         [FromServices] IUnitOfWork unitOfWork,
-        [FromQuery] char delimiter = ';',
-        [FromQuery] bool hasHeader = false,
+        [FromServices] ImportJobService jobService,
+        [FromQuery] char? delimiter = null,
+        [FromQuery] char? quote = null,
+        [FromQuery] bool? hasHeader = null,
+        [FromQuery] string? encoding = null,
+        [FromQuery] int headerRowOffset = 0,
         [FromQuery] int skipRows = 0,
         [FromQuery] int batchSize = 1000,
-        [FromQuery] string? sheetName = null)
+        [FromQuery(Name = "sheetName")] string[]? sheetNames = null,
+        [FromQuery] bool explodeArrays = false,
+        [FromQuery] string? recordPath = null,
+        [FromQuery(Name = "fixedWidth")] string[]? fixedWidth = null,
+        [FromQuery] string? entry = null,
+        [FromQuery] Guid? targetJobId = null,
+        [FromQuery] string? mode = null,
+        [FromQuery(Name = "keyColumn")] string[]? keyColumns = null)
     {
-        if (!request.HasFormContentType)
+        if (encoding is not null && !TextEncodings.IsSupported(encoding))
+        {
+            return Results.BadRequest(new ProblemDetails
+            {
+                Title = "Unsupported encoding",
+                Detail = $"Supported encodings: {string.Join(", ", TextEncodings.All)}"
+            });
+        }
+
+        var boundary = GetMultipartBoundary(request);
+        if (boundary is null)
         {
             return Results.BadRequest(new ProblemDetails
             {
@@ -176,11 +295,22 @@ public static class ImportEndpoints
             });
         }
 
-        var form = await request.ReadFormAsync();
-        var file = form.Files.FirstOrDefault();
+        var layout = FixedWidthFileParser.ParseLayout(fixedWidth);
+        if (layout.IsFailure)
+        {
+            return Results.BadRequest(new ProblemDetails
+            {
+                Title = "Invalid fixed-width layout",
+                Detail = layout.Error
+            });
+        }
 
-        if (file is null || file.Length == 0)
+        var form = await ReadMultipartAsync(request, boundary, fileStore);
+        if (form.File is not { FileSize: > 0 } file)
         {
+            if (form.File is not null)
+                UploadFileStore.Delete(form.File.FilePath);
+
             return Results.BadRequest(new ProblemDetails
             {
                 Title = "No file provided",
@@ -188,39 +318,86 @@ public static class ImportEndpoints
             });
         }
 
+        var columnMappings = ReadColumnMappings(form.Fields);
+        if (columnMappings is null)
+        {
+            UploadFileStore.Delete(file.FilePath);
+            return Results.BadRequest(new ProblemDetails
+            {
+                Title = "Invalid column mapping",
+                Detail = "The 'columns' field must be a JSON array of column definitions"
+            });
+        }
+
+        var rules = RowValidator.Create(columnMappings);
+        if (rules.IsFailure)
+        {
+            UploadFileStore.Delete(file.FilePath);
+            return Results.BadRequest(new ProblemDetails
+            {
+                Title = "Invalid validation rule",
+                Detail = rules.Error
+            });
+        }
+
         var options = new ParserOptions
         {
             Delimiter = delimiter,
+            Quote = quote,
             HasHeader = hasHeader,
+            Encoding = encoding,
+            HeaderRowOffset = headerRowOffset,
             SkipRows = skipRows,
             BatchSize = batchSize,
-            SheetName = sheetName
+            SheetNames = sheetNames ?? [],
+            ExplodeArrays = explodeArrays,
+            RecordPath = recordPath,
+            FixedWidthColumns = layout.Value,
+            ArchiveEntry = entry,
+            ColumnMappings = columnMappings
         };
 
+        var filePath = file.FilePath;
+
+        if (targetJobId is { } jobId)
+        {
+            var keys = (keyColumns ?? []).Where(k => !string.IsNullOrWhiteSpace(k)).Distinct().ToList();
+            var loadMode = mode ?? nameof(ImportMode.Append);
+            var load = await jobService.QueueLoadAsync(jobId, loadMode, keys);
+            if (load.IsFailure)
+            {
+                UploadFileStore.Delete(filePath);
+                return ToLoadError(load.Error);
+            }
+
+            await importQueue.EnqueueAsync(new QueuedImportJob(jobId, filePath, file.FileName, file.FileSize, options)
+            {
+                Mode = Enum.Parse<ImportMode>(loadMode, ignoreCase: true),
+                KeyColumns = keys
+            });
+
+            return Results.Accepted($"/api/jobs/{jobId}", load.Value);
+        }
+
         // Create import job in "Pending" state
         var fileType = Path.GetExtension(file.FileName).TrimStart('.');
         var importJob = new ImportJob
         {
             FileName = file.FileName,
             FileType = fileType,
-            FileSize = file.Length
+            FileSize = file.FileSize
             // Status defaults to ImportStatus.Pending
         };
 
         await unitOfWork.ImportJobs.AddAsync(importJob);
         await unitOfWork.SaveChangesAsync();
 
-        // Read file into memory for background processing
-        using var memoryStream = new MemoryStream();
-        await file.CopyToAsync(memoryStream);
-        var fileData = memoryStream.ToArray();
-
         // Queue for background processing
         var queuedJob = new QueuedImportJob(
             importJob.Id,
-            fileData,
+            filePath,
             file.FileName,
-            file.Length,
+            file.FileSize,
             options);
 
         await importQueue.EnqueueAsync(queuedJob);
@@ -229,20 +406,146 @@ public static class ImportEndpoints
         return Results.Accepted($"/api/jobs/{importJob.Id}", ImportJobDto.FromEntity(importJob));
     }
 
-    private static IResult GetSupportedFormats([FromServices] FileParserFactory parserFactory)
+    /// <summary>
+    /// Map a failed load into an existing job: 404 for unknown jobs, 409 while the job is busy, 400 otherwise.
+    /// </summary>
+    private static IResult ToLoadError(string error)
+    {
+        if (error.EndsWith("not found", StringComparison.Ordinal))
+        {
+            return Results.NotFound(new ProblemDetails
+            {
+                Title = "Job not found",
+                Detail = error
+            });
+        }
+
+        return error.EndsWith("still running", StringComparison.Ordinal)
+            ? Results.Conflict(new ProblemDetails
+            {
+                Title = "Job is busy",
+                Detail = error
+            })
+            : Results.BadRequest(new ProblemDetails
+            {
+                Title = "Cannot load into job",
+                Detail = error
+            });
+    }
+
+    /// <summary>
+    /// Boundary of a multipart/form-data request, or null for any other content.
+    /// </summary>
+    private static string? GetMultipartBoundary(HttpRequest request)
+    {
+        if (!MediaTypeHeaderValue.TryParse(request.ContentType, out var contentType)
+            || !contentType.MediaType.Equals("multipart/form-data", StringComparison.OrdinalIgnoreCase))
+        {
+            return null;
+        }
+
+        var boundary = HeaderUtilities.RemoveQuotes(contentType.Boundary);
+        return StringSegment.IsNullOrEmpty(boundary) ? null : boundary.ToString();
+    }
+
+    /// <summary>
+    /// Read a multipart request section by section. The first file is streamed straight into the upload store,
+    /// and the caller becomes responsible for deleting it; other fields are kept as text.
+    /// </summary>
+    private static async Task<MultipartUpload> ReadMultipartAsync(HttpRequest request, string boundary, UploadFileStore fileStore)
+    {
+        var cancellationToken = request.HttpContext.RequestAborted;
+        var reader = new MultipartReader(boundary, request.Body);
+        var fields = new Dictionary<string, string>(StringComparer.OrdinalIgnoreCase);
+        StoredFile? file = null;
+
+        try
+        {
+            while (await reader.ReadNextSectionAsync(cancellationToken) is { } section)
+            {
+                if (!ContentDispositionHeaderValue.TryParse(section.ContentDisposition, out var disposition))
+                    continue;
+
+                if (disposition.IsFileDisposition())
+                {
+                    // Further files are skipped; the reader drains their sections
+                    if (file is not null)
+                        continue;
+
+                    var fileName = HeaderUtilities.RemoveQuotes(
+                        disposition.FileNameStar.HasValue ? disposition.FileNameStar : disposition.FileName).Value;
+                    var path = await fileStore.SaveAsync(section.Body, cancellationToken);
+                    file = new StoredFile(Path.GetFileName(fileName ?? "upload"), path, new FileInfo(path).Length);
+                }
+                else if (disposition.IsFormDisposition())
+                {
+                    using var text = new StreamReader(section.Body);
+                    fields[HeaderUtilities.RemoveQuotes(disposition.Name).Value ?? string.Empty] =
+                        await text.ReadToEndAsync(cancellationToken);
+                }
+            }
+        }
+        catch
+        {
+            if (file is not null)
+                UploadFileStore.Delete(file.FilePath);
+            throw;
+        }
+
+        return new MultipartUpload(file, fields);
+    }
+
+    /// <summary>
+    /// Read the optional column mapping sent as a JSON 'columns' form field.
+    /// Returns null when the field is present but malformed.
+    /// </summary>
+    private static IReadOnlyList<ColumnMapping>? ReadColumnMappings(IReadOnlyDictionary<string, string> fields)
     {
-        var extensions = parserFactory.GetSupportedExtensions();
+        var json = fields.GetValueOrDefault("columns");
+        if (string.IsNullOrWhiteSpace(json))
+            return [];
+
+        try
+        {
+            var columns = JsonSerializer.Deserialize<List<ColumnDefinitionDto>>(json, JsonOptions) ?? [];
+            return columns
+                .Select(c => new ColumnMapping(c.Name, c.DisplayName, c.IsIgnored, c.DetectedType, c.Rules))
+                .ToList();
+        }
+        catch (JsonException)
+        {
+            return null;
+        }
+    }
+
+    private static IResult GetSupportedFormats(
+        [FromServices] FileParserFactory parserFactory,
+        [FromServices] IOptions<ImportOptions> importOptions)
+    {
+        var extensions = parserFactory.GetSupportedExtensions().Concat(ArchiveReader.SupportedExtensions).ToArray();
         return Results.Ok(new
         {
             Formats = extensions,
+            importOptions.Value.MaxFileSizeMB,
             Description = new Dictionary<string, string>
             {
                 [".csv"] = "Comma-Separated Values",
                 [".tsv"] = "Tab-Separated Values",
-                [".txt"] = "Text file (with delimiter)",
+                [".txt"] = "Text file (with delimiter, or fixed-width with a column layout)",
+                [".dat"] = "Fixed-width text file",
                 [".xlsx"] = "Microsoft Excel (2007+)",
-                [".xls"] = "Microsoft Excel (Legacy)"
+                [".xls"] = "Microsoft Excel (Legacy)",
+                [".json"] = "JSON array of objects",
+                [".ndjson"] = "Newline-delimited JSON",
+                [".jsonl"] = "JSON Lines",
+                [".xml"] = "XML (records at a chosen element path)",
+                [".gz"] = "Gzip-compressed file of a supported type, such as .csv.gz",
+                [".zip"] = "ZIP archive (each file of a supported type can be imported)"
             }
         });
     }
+
+    private sealed record MultipartUpload(StoredFile? File, IReadOnlyDictionary<string, string> Fields);
+
+    private sealed record StoredFile(string FileName, string FilePath, long FileSize);
 }
@@ -1,5 +1,7 @@
 namespace QuickIngestFile.Api.Endpoints;
 
+using System.Text.Json;
+using System.Threading.Channels;
 using Microsoft.AspNetCore.Mvc;
 using QuickIngestFile.Application.DTOs;
 using QuickIngestFile.Application.Services;
@@ -10,6 +12,11 @@ using QuickIngestFile.Domain.Common;
 /// </summary>
 public static class JobEndpoints
 {
+    private static readonly JsonSerializerOptions JsonOptions = new(JsonSerializerDefaults.Web);
+
+    // Comment line sent periodically so proxies keep idle streams open
+    private static readonly TimeSpan KeepAliveInterval = TimeSpan.FromSeconds(15);
+
     public static void MapJobEndpoints(this WebApplication app)
     {
         var group = app.MapGroup("/api/jobs")
@@ -24,8 +31,22 @@ public static class JobEndpoints
         // Get all jobs (paginated)
         group.MapGet("/", GetJobs)
             .WithName("GetJobs")
-            .WithDescription("Get all import jobs with pagination")
-            .Produces<PagedResult<ImportJobDto>>(200);
+            .WithDescription("Get import jobs with pagination. Filter by 'status' (comma-separated), 'fileType', 'from'/'to' dates and file name 'search'; sort with 'sortBy' and 'desc'.")
+            .Produces<PagedResult<ImportJobDto>>(200)
+            .Produces<ProblemDetails>(400);
+
+        // Progress stream for all jobs (Server-Sent Events)
+        group.MapGet("/events", StreamAllJobEvents)
+            .WithName("StreamAllJobEvents")
+            .WithDescription("Server-Sent Events stream of progress updates for all import jobs")
+            .Produces(200, contentType: "text/event-stream");
+
+        // Progress stream for a single job (Server-Sent Events)
+        group.MapGet("/{id:guid}/events", StreamJobEvents)
+            .WithName("StreamJobEvents")
+            .WithDescription("Server-Sent Events stream of progress updates for an import job. Closes when the job finishes.")
+            .Produces(200, contentType: "text/event-stream")
+            .Produces<ProblemDetails>(404);
 
         // Get job by ID
         group.MapGet("/{id:guid}", GetJobById)
@@ -34,6 +55,46 @@ public static class JobEndpoints
             .Produces<ImportJobDto>(200)
             .Produces<ProblemDetails>(404);
 
+        // Cancel job
+        group.MapPost("/{id:guid}/cancel", CancelJob)
+            .WithName("CancelJob")
+            .WithDescription("Cancel a pending, running or paused import. keepRows=false rolls back rows already inserted.")
+            .Produces<ImportJobDto>(202)
+            .Produces<ProblemDetails>(404)
+            .Produces<ProblemDetails>(409);
+
+        // Pause job
+        group.MapPost("/{id:guid}/pause", PauseJob)
+            .WithName("PauseJob")
+            .WithDescription("Pause a running import after its current batch")
+            .Produces<ImportJobDto>(202)
+            .Produces<ProblemDetails>(404)
+            .Produces<ProblemDetails>(409);
+
+        // Resume job
+        group.MapPost("/{id:guid}/resume", ResumeJob)
+            .WithName("ResumeJob")
+            .WithDescription("Resume a paused import")
+            .Produces<ImportJobDto>(202)
+            .Produces<ProblemDetails>(404)
+            .Produces<ProblemDetails>(409);
+
+        // Compare two jobs
+        group.MapGet("/{id:guid}/compare/{otherId:guid}", CompareJobs)
+            .WithName("CompareJobs")
+            .WithDescription("Compare a job with another by one or more 'keyColumn's: schema changes, counts and a page of added, removed and modified rows. Filter rows with 'change'.")
+            .Produces<JobComparisonDto>(200)
+            .Produces<ProblemDetails>(400)
+            .Produces<ProblemDetails>(404);
+
+        // Export a comparison
+        group.MapGet("/{id:guid}/compare/{otherId:guid}/export", ExportComparison)
+            .WithName("ExportComparison")
+            .WithDescription("Stream the changed rows of a comparison as csv, json, ndjson or xlsx")
+            .Produces(200, contentType: "text/csv")
+            .Produces<ProblemDetails>(400)
+            .Produces<ProblemDetails>(404);
+
         // Delete job
         group.MapDelete("/{id:guid}", DeleteJob)
             .WithName("DeleteJob")
@@ -53,10 +114,25 @@ public static class JobEndpoints
     private static async Task<IResult> GetJobs(
         [FromServices] ImportJobService jobService,
         [FromQuery] int page = 1,
-        [FromQuery] int pageSize = 20)
+        [FromQuery] int pageSize = 20,
+        [FromQuery] string? status = null,
+        [FromQuery] string? fileType = null,
+        [FromQuery] DateTime? from = null,
+        [FromQuery] DateTime? to = null,
+        [FromQuery] string? search = null,
+        [FromQuery] string? sortBy = null,
+        [FromQuery] bool desc = true)
     {
-        var result = await jobService.GetJobsAsync(page, pageSize);
-        return Results.Ok(result);
+        var filter = new ImportJobFilterDto(status, fileType, from, to, search, sortBy, desc);
+        var result = await jobService.GetJobsAsync(page, pageSize, filter);
+
+        return result.IsSuccess
+            ? Results.Ok(result.Value)
+            : Results.BadRequest(new ProblemDetails
+            {
+                Title = "Invalid query",
+                Detail = result.Error
+            });
     }
 
     private static async Task<IResult> GetJobById(
@@ -74,6 +150,80 @@ public static class JobEndpoints
             });
     }
 
+    private static async Task<IResult> CompareJobs(
+        Guid id,
+        Guid otherId,
+        HttpContext context,
+        [FromServices] JobComparisonService comparisonService,
+        [FromQuery(Name = "keyColumn")] string[]? keyColumns = null,
+        [FromQuery] string? change = null,
+        [FromQuery] int page = 1,
+        [FromQuery] int pageSize = 50)
+    {
+        var result = await comparisonService.GetComparisonAsync(
+            id, otherId, keyColumns ?? [], change, page, pageSize, context.RequestAborted);
+
+        return result.IsSuccess
+            ? Results.Ok(result.Value)
+            : ToComparisonError(result.Error);
+    }
+
+    private static async Task<IResult> ExportComparison(
+        Guid id,
+        Guid otherId,
+        HttpContext context,
+        [FromServices] JobComparisonService comparisonService,
+        [FromServices] DataExportService exportService,
+        [FromQuery(Name = "keyColumn")] string[]? keyColumns = null,
+        [FromQuery] string format = "csv",
+        [FromQuery] char delimiter = ',')
+    {
+        if (!Enum.TryParse<ExportFormat>(format, ignoreCase: true, out var exportFormat)
+            || !Enum.IsDefined(exportFormat))
+        {
+            return Results.BadRequest(new ProblemDetails
+            {
+                Title = "Unsupported export format",
+                Detail = $"Supported formats: {string.Join(", ", Enum.GetNames<ExportFormat>().Select(n => n.ToLowerInvariant()))}"
+            });
+        }
+
+        var result = await comparisonService.CompareAsync(id, otherId, keyColumns ?? [], context.RequestAborted);
+        if (result.IsFailure)
+            return ToComparisonError(result.Error);
+
+        var file = exportService.GetComparisonExportFile(result.Value, exportFormat);
+        var request = new ExportRequest(exportFormat, delimiter);
+
+        var rows = comparisonService.ReadRowsAsync(result.Value, result.Value.Rows, context.RequestAborted);
+
+        return Results.Stream(
+            stream => exportService.WriteComparisonExportAsync(result.Value, rows, request, stream, context.RequestAborted),
+            file.ContentType,
+            file.FileName);
+    }
+
+    /// <summary>
+    /// Map a failed comparison: 404 for unknown jobs, 400 otherwise.
+    /// </summary>
+    private static IResult ToComparisonError(string error)
+    {
+        if (error.EndsWith("not found", StringComparison.Ordinal))
+        {
+            return Results.NotFound(new ProblemDetails
+            {
+                Title = "Job not found",
+                Detail = error
+            });
+        }
+
+        return Results.BadRequest(new ProblemDetails
+        {
+            Title = "Cannot compare jobs",
+            Detail = error
+        });
+    }
+
     private static async Task<IResult> DeleteJob(
         Guid id,
         [FromServices] ImportJobService jobService)
@@ -88,4 +238,149 @@ public static class JobEndpoints
                 Detail = result.Error
             });
     }
+
+    private static async Task<IResult> CancelJob(
+        Guid id,
+        [FromServices] ImportJobService jobService,
+        [FromQuery] bool keepRows = true)
+    {
+        var result = await jobService.CancelJobAsync(id, keepRows);
+        return ToControlResult(id, result, "Cannot cancel job");
+    }
+
+    private static async Task<IResult> PauseJob(
+        Guid id,
+        [FromServices] ImportJobService jobService)
+    {
+        var result = await jobService.PauseJobAsync(id);
+        return ToControlResult(id, result, "Cannot pause job");
+    }
+
+    private static async Task<IResult> ResumeJob(
+        Guid id,
+        [FromServices] ImportJobService jobService)
+    {
+        var result = await jobService.ResumeJobAsync(id);
+        return ToControlResult(id, result, "Cannot resume job");
+    }
+
+    /// <summary>
+    /// Map a pause/resume/cancel result: 202 when signalled, 404 for unknown jobs, 409 for invalid state.
+    /// </summary>
+    private static IResult ToControlResult(Guid id, Result<ImportJobDto> result, string conflictTitle)
+    {
+        if (result.IsSuccess)
+            return Results.Accepted($"/api/jobs/{id}", result.Value);
+
+        return result.Error.EndsWith("not found", StringComparison.Ordinal)
+            ? Results.NotFound(new ProblemDetails
+            {
+                Title = "Job not found",
+                Detail = result.Error
+            })
+            : Results.Conflict(new ProblemDetails
+            {
+                Title = conflictTitle,
+                Detail = result.Error
+            });
+    }
+
+    private static async Task StreamAllJobEvents(
+        HttpContext context,
+        [FromServices] ImportProgressNotifier notifier)
+    {
+        using var subscription = notifier.Subscribe();
+
+        StartEventStream(context.Response);
+        await context.Response.Body.FlushAsync(context.RequestAborted);
+
+        await PumpEventsAsync(context.Response, subscription.Reader, stopWhenFinished: false, context.RequestAborted);
+    }
+
+    private static async Task<IResult> StreamJobEvents(
+        Guid id,
+        HttpContext context,
+        [FromServices] ImportJobService jobService,
+        [FromServices] ImportProgressNotifier notifier)
+    {
+        // Subscribe before reading the current state so no update is missed in between
+        using var subscription = notifier.Subscribe(id);
+
+        var current = await jobService.GetJobByIdAsync(id, context.RequestAborted);
+        if (current.IsFailure)
+        {
+            return Results.NotFound(new ProblemDetails
+            {
+                Title = "Job not found",
+                Detail = current.Error
+            });
+        }
+
+        StartEventStream(context.Response);
+        await WriteEventAsync(context.Response, current.Value, context.RequestAborted);
+
+        if (!current.Value.IsFinished)
+        {
+            await PumpEventsAsync(context.Response, subscription.Reader, stopWhenFinished: true, context.RequestAborted);
+        }
+
+        return Results.Empty;
+    }
+
+    private static void StartEventStream(HttpResponse response)
+    {
+        response.ContentType = "text/event-stream";
+        response.Headers.CacheControl = "no-cache";
+        // Disable nginx response buffering for this stream
+        response.Headers["X-Accel-Buffering"] = "no";
+    }
+
+    private static async Task PumpEventsAsync(
+        HttpResponse response,
+        ChannelReader<ImportJobDto> reader,
+        bool stopWhenFinished,
+        CancellationToken cancellationToken)
+    {
+        try
+        {
+            var waitTask = reader.WaitToReadAsync(cancellationToken).AsTask();
+
+            while (true)
+            {
+                var completed = await Task.WhenAny(waitTask, Task.Delay(KeepAliveInterval, cancellationToken));
+                if (completed != waitTask)
+                {
+                    await response.WriteAsync(": keep-alive\n\n", cancellationToken);
+                    await response.Body.FlushAsync(cancellationToken);
+                    continue;
+                }
+
+                if (!await waitTask)
+                    return;
+
+                while (reader.TryRead(out var update))
+                {
+                    await WriteEventAsync(response, update, cancellationToken);
+                    if (stopWhenFinished && update.IsFinished)
+                        return;
+                }
+
+                waitTask = reader.WaitToReadAsync(cancellationToken).AsTask();
+            }
+        }
+        catch (OperationCanceledException) when (cancellationToken.IsCancellationRequested)
+        {
+            // Client disconnected
+        }
+    }
+
+    private static async Task WriteEventAsync(
+        HttpResponse response,
+        ImportJobDto update,
+        CancellationToken cancellationToken)
+    {
+        var json = JsonSerializer.Serialize(update, JsonOptions);
+        await response.WriteAsync($"event: progress\ndata: {json}\n\n", cancellationToken);
+        await response.Body.FlushAsync(cancellationToken);
+    }
 }
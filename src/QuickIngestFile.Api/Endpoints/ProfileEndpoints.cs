@@ -0,0 +1,166 @@
+namespace QuickIngestFile.Api.Endpoints;
+
+using Microsoft.AspNetCore.Mvc;
+using QuickIngestFile.Application.DTOs;
+using QuickIngestFile.Application.Services;
+using QuickIngestFile.Domain.Common;
+
+/// <summary>
+/// Saved import profile endpoints.
+/// </summary>
+public static class ProfileEndpoints
+{
+    public static void MapProfileEndpoints(this WebApplication app)
+    {
+        var group = app.MapGroup("/api/profiles")
+            .WithTags("Profiles");
+
+        // Get all profiles
+        group.MapGet("/", GetProfiles)
+            .WithName("GetProfiles")
+            .WithDescription("Get all saved import profiles")
+            .Produces<IReadOnlyList<ImportProfileDto>>(200);
+
+        // Find profiles for a file
+        group.MapGet("/match", MatchProfiles)
+            .WithName("MatchProfiles")
+            .WithDescription("Get the profiles whose file name pattern matches 'fileName', most specific first")
+            .Produces<IReadOnlyList<ImportProfileDto>>(200)
+            .Produces<ProblemDetails>(400);
+
+        // Get profile by ID
+        group.MapGet("/{id:guid}", GetProfileById)
+            .WithName("GetProfileById")
+            .WithDescription("Get an import profile by ID")
+            .Produces<ImportProfileDto>(200)
+            .Produces<ProblemDetails>(404);
+
+        // Create profile
+        group.MapPost("/", CreateProfile)
+            .WithName("CreateProfile")
+            .WithDescription("Save parser options, column mapping and a file name pattern ('*' and '?' wildcards) as a named profile")
+            .Produces<ImportProfileDto>(201)
+            .Produces<ProblemDetails>(400)
+            .Produces<ProblemDetails>(409);
+
+        // Update profile
+        group.MapPut("/{id:guid}", UpdateProfile)
+            .WithName("UpdateProfile")
+            .WithDescription("Replace the settings of an import profile")
+            .Produces<ImportProfileDto>(200)
+            .Produces<ProblemDetails>(400)
+            .Produces<ProblemDetails>(404)
+            .Produces<ProblemDetails>(409);
+
+        // Delete profile
+        group.MapDelete("/{id:guid}", DeleteProfile)
+            .WithName("DeleteProfile")
+            .WithDescription("Delete an import profile")
+            .Produces(204)
+            .Produces<ProblemDetails>(404);
+    }
+
+    private static async Task<IResult> GetProfiles(
+        [FromServices] ImportProfileService profileService)
+    {
+        var profiles = await profileService.GetProfilesAsync();
+        return Results.Ok(profiles);
+    }
+
+    private static async Task<IResult> MatchProfiles(
+        [FromServices] ImportProfileService profileService,
+        [FromQuery] string? fileName = null)
+    {
+        if (string.IsNullOrWhiteSpace(fileName))
+        {
+            return Results.BadRequest(new ProblemDetails
+            {
+                Title = "File name required",
+                Detail = "Pass the name of the file to match in 'fileName'"
+            });
+        }
+
+        var profiles = await profileService.FindMatchingProfilesAsync(fileName);
+        return Results.Ok(profiles);
+    }
+
+    private static async Task<IResult> GetProfileById(
+        Guid id,
+        [FromServices] ImportProfileService profileService)
+    {
+        var result = await profileService.GetProfileByIdAsync(id);
+
+        return result.IsSuccess
+            ? Results.Ok(result.Value)
+            : Results.NotFound(new ProblemDetails
+            {
+                Title = "Profile not found",
+                Detail = result.Error
+            });
+    }
+
+    private static async Task<IResult> CreateProfile(
+        [FromBody] SaveImportProfileRequest request,
+        [FromServices] ImportProfileService profileService)
+    {
+        var result = await profileService.CreateProfileAsync(request);
+
+        return result.IsSuccess
+            ? Results.Created($"/api/profiles/{result.Value.Id}", result.Value)
+            : ToSaveError(result);
+    }
+
+    private static async Task<IResult> UpdateProfile(
+        Guid id,
+        [FromBody] SaveImportProfileRequest request,
+        [FromServices] ImportProfileService profileService)
+    {
+        var result = await profileService.UpdateProfileAsync(id, request);
+
+        return result.IsSuccess
+            ? Results.Ok(result.Value)
+            : ToSaveError(result);
+    }
+
+    private static async Task<IResult> DeleteProfile(
+        Guid id,
+        [FromServices] ImportProfileService profileService)
+    {
+        var result = await profileService.DeleteProfileAsync(id);
+
+        return result.IsSuccess
+            ? Results.NoContent()
+            : Results.NotFound(new ProblemDetails
+            {
+                Title = "Profile not found",
+                Detail = result.Error
+            });
+    }
+
+    /// <summary>
+    /// Map a failed create/update: 404 for unknown profiles, 409 for a taken name, 400 otherwise.
+    /// </summary>
+    private static IResult ToSaveError(Result<ImportProfileDto> result)
+    {
+        if (result.Error.EndsWith("not found", StringComparison.Ordinal))
+        {
+            return Results.NotFound(new ProblemDetails
+            {
+                Title = "Profile not found",
+                Detail = result.Error
+            });
+        }
+
+        return result.Error.EndsWith("already exists", StringComparison.Ordinal)
+            ? Results.Conflict(new ProblemDetails
+            {
+                Title = "Profile name taken",
+                Detail = result.Error
+            })
+            : Results.BadRequest(new ProblemDetails
+            {
+                Title = "Invalid profile",
+                Detail = result.Error
+            });
+    }
+}
@@ -0,0 +1,587 @@
+namespace QuickIngestFile.Api.Endpoints;
+
+using Microsoft.AspNetCore.Mvc;
+using QuickIngestFile.Application.DTOs;
+using QuickIngestFile.Application.Parsing;
+using QuickIngestFile.Application.Services;
+using QuickIngestFile.Domain.Entities;
+using QuickIngestFile.Domain.Repositories;
+
+/// <summary>
+/// Resumable chunked upload endpoints: init, upload chunks by offset, finalize into a queued import job.
+/// </summary>
+public static class UploadEndpoints
+{
+    public static void MapUploadEndpoints(this WebApplication app)
+    {
+        var group = app.MapGroup("/api/uploads")
+            .WithTags("Uploads")
+            .DisableAntiforgery();
+
+        // Start a resumable upload
+        group.MapPost("/", StartUpload)
+            .WithName("StartUpload")
+            .WithDescription("Start a resumable chunked upload")
+            .Produces<UploadSessionDto>(201)
+            .Produces<ProblemDetails>(400);
+
+        // Get upload state (used to resume)
+        group.MapGet("/{uploadId:guid}", GetUpload)
+            .WithName("GetUpload")
+            .WithDescription("Get the number of bytes received so far for an upload")
+            .Produces<UploadSessionDto>(200)
+            .Produces<ProblemDetails>(404);
+
+        // Upload a chunk
+        group.MapPut("/{uploadId:guid}/chunks", UploadChunk)
+            .WithName("UploadChunk")
+            .WithDescription("Upload a chunk of raw bytes at the given offset")
+            .Produces<UploadSessionDto>(200)
+            .Produces<ProblemDetails>(404)
+            .Produces<ProblemDetails>(409);
+
+        // Finalize upload into an import job
+        group.MapPost("/{uploadId:guid}/complete", CompleteUpload)
+            .WithName("CompleteUpload")
+            .WithDescription("Finalize an upload and queue it for import, or pass targetJobId and mode (append, upsert, replace) to load it into an existing job. Use /api/jobs/{id} to check progress.")
+            .Produces<ImportJobDto>(202)
+            .Produces<ProblemDetails>(400)
+            .Produces<ProblemDetails>(404)
+            .Produces<ProblemDetails>(409);
+
+        // Finalize a workbook upload into one import job per sheet
+        group.MapPost("/{uploadId:guid}/complete/sheets", CompleteUploadPerSheet)
+            .WithName("CompleteUploadPerSheet")
+            .WithDescription("Finalize a workbook upload and queue one import job per selected sheet")
+            .Produces<IReadOnlyList<ImportJobDto>>(202)
+            .Produces<ProblemDetails>(400)
+            .Produces<ProblemDetails>(404);
+
+        // Finalize an archive upload into one import job per entry
+        group.MapPost("/{uploadId:guid}/complete/entries", CompleteUploadPerEntry)
+            .WithName("CompleteUploadPerEntry")
+            .WithDescription("Finalize a .zip or .gz upload and queue one import job per selected entry")
+            .Produces<IReadOnlyList<ImportJobDto>>(202)
+            .Produces<ProblemDetails>(400)
+            .Produces<ProblemDetails>(404);
+
+        // Abort upload
+        group.MapDelete("/{uploadId:guid}", AbortUpload)
+            .WithName("AbortUpload")
+            .WithDescription("Abort an upload and discard received data")
+            .Produces(204);
+    }
+
+    private static IResult StartUpload(
+        [FromBody] StartUploadRequest request,
+        [FromServices] ChunkedUploadStore uploadStore,
+        [FromServices] FileParserFactory parserFactory,
+        [FromServices] ArchiveReader archiveReader)
+    {
+        if (!parserFactory.CanParse(request.FileName) && !archiveReader.CanRead(request.FileName))
+        {
+            return Results.BadRequest(new ProblemDetails
+            {
+                Title = "Unsupported file type",
+                Detail = $"Supported types: {string.Join(", ", parserFactory.GetSupportedExtensions().Concat(ArchiveReader.SupportedExtensions))}"
+            });
+        }
+
+        var result = uploadStore.Create(request.FileName, request.FileSize);
+
+        return result.IsSuccess
+            ? Results.Created($"/api/uploads/{result.Value.UploadId}", result.Value)
+            : Results.BadRequest(new ProblemDetails
+            {
+                Title = "Upload rejected",
+                Detail = result.Error
+            });
+    }
+
+    private static IResult GetUpload(
+        Guid uploadId,
+        [FromServices] ChunkedUploadStore uploadStore)
+    {
+        var result = uploadStore.Get(uploadId);
+
+        return result.IsSuccess
+            ? Results.Ok(result.Value)
+            : Results.NotFound(new ProblemDetails
+            {
+                Title = "Upload not found",
+                Detail = result.Error
+            });
+    }
+
+    private static async Task<IResult> UploadChunk(
+        Guid uploadId,
+        HttpRequest request,
+        [FromServices] ChunkedUploadStore uploadStore,
+        [FromQuery] long offset = 0)
+    {
+        if (uploadStore.Get(uploadId).IsFailure)
+        {
+            return Results.NotFound(new ProblemDetails
+            {
+                Title = "Upload not found",
+                Detail = $"Upload {uploadId} not found or already completed"
+            });
+        }
+
+        var result = await uploadStore.AppendChunkAsync(uploadId, offset, request.Body, request.HttpContext.RequestAborted);
+
+        return result.IsSuccess
+            ? Results.Ok(result.Value)
+            : Results.Conflict(new ProblemDetails
+            {
+                Title = "Chunk rejected",
+                Detail = result.Error
+            });
+    }
+
+    private static async Task<IResult> CompleteUpload(
+        Guid uploadId,
+        [FromBody] CompleteUploadRequest? body,
+        [FromServices] ChunkedUploadStore uploadStore,
+        [FromServices] UploadFileStore fileStore,
+        [FromServices] BackgroundImportQueue importQueue,
+        [FromServices] IUnitOfWork unitOfWork,
+        [FromServices] ImportJobService jobService,
+        [FromQuery] char? delimiter = null,
+        [FromQuery] char? quote = null,
+        [FromQuery] bool? hasHeader = null,
+        [FromQuery] string? encoding = null,
+        [FromQuery] int headerRowOffset = 0,
+        [FromQuery] int skipRows = 0,
+        [FromQuery] int batchSize = 1000,
+        [FromQuery(Name = "sheetName")] string[]? sheetNames = null,
+        [FromQuery] bool explodeArrays = false,
+        [FromQuery] string? recordPath = null,
+        [FromQuery(Name = "fixedWidth")] string[]? fixedWidth = null,
+        [FromQuery] string? entry = null,
+        [FromQuery] Guid? targetJobId = null,
+        [FromQuery] string? mode = null,
+        [FromQuery(Name = "keyColumn")] string[]? keyColumns = null)
+    {
+        if (encoding is not null && !TextEncodings.IsSupported(encoding))
+        {
+            return Results.BadRequest(new ProblemDetails
+            {
+                Title = "Unsupported encoding",
+                Detail = $"Supported encodings: {string.Join(", ", TextEncodings.All)}"
+            });
+        }
+
+        var rules = RowValidator.Create(ToColumnMappings(body));
+        if (rules.IsFailure)
+        {
+            return Results.BadRequest(new ProblemDetails
+            {
+                Title = "Invalid validation rule",
+                Detail = rules.Error
+            });
+        }
+
+        var layout = FixedWidthFileParser.ParseLayout(fixedWidth);
+        if (layout.IsFailure)
+        {
+            return Results.BadRequest(new ProblemDetails
+            {
+                Title = "Invalid fixed-width layout",
+                Detail = layout.Error
+            });
+        }
+
+        if (uploadStore.Get(uploadId).IsFailure)
+        {
+            return Results.NotFound(new ProblemDetails
+            {
+                Title = "Upload not found",
+                Detail = $"Upload {uploadId} not found or already completed"
+            });
+        }
+
+        var result = uploadStore.Complete(uploadId);
+        if (result.IsFailure)
+        {
+            return Results.BadRequest(new ProblemDetails
+            {
+                Title = "Upload incomplete",
+                Detail = result.Error
+            });
+        }
+
+        var upload = result.Value;
+        var options = new ParserOptions
+        {
+            Delimiter = delimiter,
+            Quote = quote,
+            HasHeader = hasHeader,
+            Encoding = encoding,
+            HeaderRowOffset = headerRowOffset,
+            SkipRows = skipRows,
+            BatchSize = batchSize,
+            SheetNames = sheetNames ?? [],
+            ExplodeArrays = explodeArrays,
+            RecordPath = recordPath,
+            FixedWidthColumns = layout.Value,
+            ArchiveEntry = entry,
+            ColumnMappings = ToColumnMappings(body)
+        };
+
+        try
+        {
+            if (targetJobId is { } jobId)
+            {
+                var keys = (keyColumns ?? []).Where(k => !string.IsNullOrWhiteSpace(k)).Distinct().ToList();
+                var loadMode = mode ?? nameof(ImportMode.Append);
+                var load = await jobService.QueueLoadAsync(jobId, loadMode, keys);
+                if (load.IsFailure)
+                    return ToLoadError(load.Error);
+
+                await EnqueueAsync(
+                    new QueuedImportJob(jobId, upload.FilePath, upload.FileName, upload.FileSize, options)
+                    {
+                        Mode = Enum.Parse<ImportMode>(loadMode, ignoreCase: true),
+                        KeyColumns = keys
+                    },
+                    fileStore,
+                    importQueue);
+
+                return Results.Accepted($"/api/jobs/{jobId}", load.Value);
+            }
+
+            var jobFileName = string.IsNullOrWhiteSpace(entry) ? upload.FileName : ToEntryJobName(upload.FileName, entry);
+            var importJob = await QueueImportAsync(
+                upload, jobFileName, options, fileStore, importQueue, unitOfWork);
+
+            return Results.Accepted($"/api/jobs/{importJob.Id}", ImportJobDto.FromEntity(importJob));
+        }
+        finally
+        {
+            // Queued jobs hold the file themselves; otherwise this deletes it
+            fileStore.Release(upload.FilePath);
+        }
+    }
+
+    /// <summary>
+    /// Queue each selected sheet of a workbook as its own import job. The jobs share the stored workbook.
+    /// </summary>
+    private static async Task<IResult> CompleteUploadPerSheet(
+        Guid uploadId,
+        [FromBody] CompleteUploadRequest? body,
+        [FromServices] ChunkedUploadStore uploadStore,
+        [FromServices] UploadFileStore fileStore,
+        [FromServices] BackgroundImportQueue importQueue,
+        [FromServices] IUnitOfWork unitOfWork,
+        [FromServices] FileParserFactory parserFactory,
+        [FromQuery] bool? hasHeader = null,
+        [FromQuery] int headerRowOffset = 0,
+        [FromQuery] int skipRows = 0,
+        [FromQuery] int batchSize = 1000,
+        [FromQuery(Name = "sheetName")] string[]? sheetNames = null)
+    {
+        var sheets = (sheetNames ?? []).Where(n => !string.IsNullOrWhiteSpace(n)).Distinct().ToList();
+        if (sheets.Count == 0)
+        {
+            return Results.BadRequest(new ProblemDetails
+            {
+                Title = "No sheets selected",
+                Detail = "Pass one or more 'sheetName' query parameters"
+            });
+        }
+
+        var rules = RowValidator.Create(ToColumnMappings(body));
+        if (rules.IsFailure)
+        {
+            return Results.BadRequest(new ProblemDetails
+            {
+                Title = "Invalid validation rule",
+                Detail = rules.Error
+            });
+        }
+
+        var session = uploadStore.Get(uploadId);
+        if (session.IsFailure)
+        {
+            return Results.NotFound(new ProblemDetails
+            {
+                Title = "Upload not found",
+                Detail = $"Upload {uploadId} not found or already completed"
+            });
+        }
+
+        if (parserFactory.GetParser(session.Value.FileName) is not IWorkbookParser)
+        {
+            return Results.BadRequest(new ProblemDetails
+            {
+                Title = "Not a workbook",
+                Detail = $"{session.Value.FileName} has no sheets to import separately"
+            });
+        }
+
+        var result = uploadStore.Complete(uploadId);
+        if (result.IsFailure)
+        {
+            return Results.BadRequest(new ProblemDetails
+            {
+                Title = "Upload incomplete",
+                Detail = result.Error
+            });
+        }
+
+        var upload = result.Value;
+        var jobs = new List<ImportJobDto>();
+
+        // The upload stays held until every job is queued, so one that finishes early cannot delete the workbook
+        try
+        {
+            foreach (var sheet in sheets)
+            {
+                var options = new ParserOptions
+                {
+                    HasHeader = hasHeader,
+                    HeaderRowOffset = headerRowOffset,
+                    SkipRows = skipRows,
+                    BatchSize = batchSize,
+                    SheetName = sheet,
+                    ColumnMappings = ToColumnMappings(body)
+                };
+
+                var jobFileName = $"{Path.GetFileNameWithoutExtension(upload.FileName)} ({sheet}){Path.GetExtension(upload.FileName)}";
+                var importJob = await QueueImportAsync(
+                    upload, jobFileName, options, fileStore, importQueue, unitOfWork);
+
+                jobs.Add(ImportJobDto.FromEntity(importJob));
+            }
+        }
+        finally
+        {
+            fileStore.Release(upload.FilePath);
+        }
+
+        return Results.Accepted(value: jobs);
+    }
+
+    /// <summary>
+    /// Queue each selected entry of an archive as its own import job, each with the layout detected for it.
+    /// The jobs share the stored archive, each decompressing its entry when it runs.
+    /// </summary>
+    private static async Task<IResult> CompleteUploadPerEntry(
+        Guid uploadId,
+        [FromBody] CompleteUploadRequest? body,
+        [FromServices] ChunkedUploadStore uploadStore,
+        [FromServices] UploadFileStore fileStore,
+        [FromServices] BackgroundImportQueue importQueue,
+        [FromServices] IUnitOfWork unitOfWork,
+        [FromQuery] char? delimiter = null,
+        [FromQuery] char? quote = null,
+        [FromQuery] bool? hasHeader = null,
+        [FromQuery] string? encoding = null,
+        [FromQuery] int headerRowOffset = 0,
+        [FromQuery] int skipRows = 0,
+        [FromQuery] int batchSize = 1000,
+        [FromQuery] bool explodeArrays = false,
+        [FromQuery] string? recordPath = null,
+        [FromQuery(Name = "fixedWidth")] string[]? fixedWidth = null,
+        [FromQuery(Name = "entry")] string[]? entryNames = null)
+    {
+        var entries = (entryNames ?? []).Where(n => !string.IsNullOrWhiteSpace(n)).Distinct().ToList();
+        if (entries.Count == 0)
+        {
+            return Results.BadRequest(new ProblemDetails
+            {
+                Title = "No entries selected",
+                Detail = "Pass one or more 'entry' query parameters"
+            });
+        }
+
+        if (encoding is not null && !TextEncodings.IsSupported(encoding))
+        {
+            return Results.BadRequest(new ProblemDetails
+            {
+                Title = "Unsupported encoding",
+                Detail = $"Supported encodings: {string.Join(", ", TextEncodings.All)}"
+            });
+        }
+
+        var rules = RowValidator.Create(ToColumnMappings(body));
+        if (rules.IsFailure)
+        {
+            return Results.BadRequest(new ProblemDetails
+            {
+                Title = "Invalid validation rule",
+                Detail = rules.Error
+            });
+        }
+
+        var layout = FixedWidthFileParser.ParseLayout(fixedWidth);
+        if (layout.IsFailure)
+        {
+            return Results.BadRequest(new ProblemDetails
+            {
+                Title = "Invalid fixed-width layout",
+                Detail = layout.Error
+            });
+        }
+
+        var session = uploadStore.Get(uploadId);
+        if (session.IsFailure)
+        {
+            return Results.NotFound(new ProblemDetails
+            {
+                Title = "Upload not found",
+                Detail = $"Upload {uploadId} not found or already completed"
+            });
+        }
+
+        if (!ArchiveReader.IsArchive(session.Value.FileName))
+        {
+            return Results.BadRequest(new ProblemDetails
+            {
+                Title = "Not an archive",
+                Detail = $"{session.Value.FileName} has no entries to import separately"
+            });
+        }
+
+        var result = uploadStore.Complete(uploadId);
+        if (result.IsFailure)
+        {
+            return Results.BadRequest(new ProblemDetails
+            {
+                Title = "Upload incomplete",
+                Detail = result.Error
+            });
+        }
+
+        var upload = result.Value;
+        var jobs = new List<ImportJobDto>();
+
+        // The upload stays held until every job is queued, so one that finishes early cannot delete the archive
+        try
+        {
+            foreach (var entry in entries)
+            {
+                // Entries can hold different tables, so the column mapping only applies to the columns they share
+                var options = new ParserOptions
+                {
+                    Delimiter = delimiter,
+                    Quote = quote,
+                    HasHeader = hasHeader,
+                    Encoding = encoding,
+                    HeaderRowOffset = headerRowOffset,
+                    SkipRows = skipRows,
+                    BatchSize = batchSize,
+                    ExplodeArrays = explodeArrays,
+                    RecordPath = recordPath,
+                    FixedWidthColumns = layout.Value,
+                    ArchiveEntry = entry,
+                    ColumnMappings = ToColumnMappings(body)
+                };
+
+                var importJob = await QueueImportAsync(
+                    upload, ToEntryJobName(upload.FileName, entry), options, fileStore, importQueue, unitOfWork);
+
+                jobs.Add(ImportJobDto.FromEntity(importJob));
+            }
+        }
+        finally
+        {
+            fileStore.Release(upload.FilePath);
+        }
+
+        return Results.Accepted(value: jobs);
+    }
+
+    /// <summary>
+    /// Create a pending import job and queue the assembled file by path.
+    /// </summary>
+    private static async Task<ImportJob> QueueImportAsync(
+        CompletedUpload upload,
+        string jobFileName,
+        ParserOptions options,
+        UploadFileStore fileStore,
+        BackgroundImportQueue importQueue,
+        IUnitOfWork unitOfWork)
+    {
+        var importJob = new ImportJob
+        {
+            FileName = jobFileName,
+            FileType = Path.GetExtension(jobFileName).TrimStart('.'),
+            FileSize = upload.FileSize
+        };
+
+        await unitOfWork.ImportJobs.AddAsync(importJob);
+        await unitOfWork.SaveChangesAsync();
+
+        var queuedJob = new QueuedImportJob(
+            importJob.Id,
+            upload.FilePath,
+            upload.FileName,
+            upload.FileSize,
+            options);
+
+        await EnqueueAsync(queuedJob, fileStore, importQueue);
+        return importJob;
+    }
+
+    /// <summary>
+    /// Queue a job holding its file, which the worker releases when the job finishes.
+    /// </summary>
+    private static async Task EnqueueAsync(QueuedImportJob job, UploadFileStore fileStore, BackgroundImportQueue importQueue)
+    {
+        fileStore.Acquire(job.FilePath);
+        try
+        {
+            await importQueue.EnqueueAsync(job);
+        }
+        catch
+        {
+            fileStore.Release(job.FilePath);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Map a failed load into an existing job: 404 for unknown jobs, 409 while the job is busy, 400 otherwise.
+    /// </summary>
+    private static IResult ToLoadError(string error)
+    {
+        if (error.EndsWith("not found", StringComparison.Ordinal))
+        {
+            return Results.NotFound(new ProblemDetails
+            {
+                Title = "Job not found",
+                Detail = error
+            });
+        }
+
+        return error.EndsWith("still running", StringComparison.Ordinal)
+            ? Results.Conflict(new ProblemDetails
+            {
+                Title = "Job is busy",
+                Detail = error
+            })
+            : Results.BadRequest(new ProblemDetails
+            {
+                Title = "Cannot load into job",
+                Detail = error
+            });
+    }
+
+    // Jobs of an archive entry are named after both, e.g. "bundle.zip/orders.csv", and typed by the entry
+    private static string ToEntryJobName(string archiveName, string entry) => $"{archiveName}/{entry}";
+
+    private static IReadOnlyList<ColumnMapping> ToColumnMappings(CompleteUploadRequest? body) =>
+        (body?.Columns ?? [])
+            .Select(c => new ColumnMapping(c.Name, c.DisplayName, c.IsIgnored, c.DetectedType, c.Rules))
+            .ToList();
+
+    private static IResult AbortUpload(
+        Guid uploadId,
+        [FromServices] ChunkedUploadStore uploadStore)
+    {
+        uploadStore.Abort(uploadId);
+        return Results.NoContent();
+    }
+}
@@ -1,9 +1,9 @@
 using QuickIngestFile.Application;
+using QuickIngestFile.Application.Configuration;
 using QuickIngestFile.Infrastructure;
 using QuickIngestFile.Infrastructure.Configuration;
 using QuickIngestFile.Infrastructure.Persistence.SqlServer;
 using QuickIngestFile.Api.Endpoints;
-using Microsoft.EntityFrameworkCore;
 
 var builder = WebApplication.CreateBuilder(args);
 
@@ -33,6 +33,13 @@ builder.Services.AddCors(options =>
 
 // Add Application layer
 builder.Services.AddApplication();
+builder.Services.Configure<ImportOptions>(builder.Configuration.GetSection(ImportOptions.SectionName));
+
+// Uploads are streamed to disk, so request bodies may be as large as the largest accepted file,
+// with some room for the other form fields
+var importOptions = builder.Configuration.GetSection(ImportOptions.SectionName).Get<ImportOptions>() ?? new ImportOptions();
+var maxRequestBytes = (importOptions.MaxFileSizeMB + 1) * 1024L * 1024L;
+builder.WebHost.ConfigureKestrel(options => options.Limits.MaxRequestBodySize = maxRequestBytes);
 
 // Configure database
 var databaseProvider = builder.Configuration.GetValue<string>("Database:Provider") ?? "SQLite";
@@ -87,18 +94,20 @@ if (app.Environment.IsDevelopment())
 
 app.UseCors("AllowFrontend");
 
-// Ensure database is created (for SQL/SQLite)
+// Ensure database is created and has the current tables and columns (for SQL/SQLite)
 if (databaseProvider != DatabaseProvider.MongoDB)
 {
     using var scope = app.Services.CreateScope();
     var context = scope.ServiceProvider.GetRequiredService<AppDbContext>();
-    await context.Database.EnsureCreatedAsync();
+    await context.EnsureSchemaAsync();
 }
 
 // Map endpoints
 app.MapImportEndpoints();
+app.MapUploadEndpoints();
 app.MapDataEndpoints();
 app.MapJobEndpoints();
+app.MapProfileEndpoints();
 
 // Health check
 app.MapGet("/health", () => Results.Ok(new { Status = "Healthy", Timestamp = DateTime.UtcNow }))
@@ -0,0 +1,40 @@
+namespace QuickIngestFile.Application.Configuration;
+
+/// <summary>
+/// Import configuration options.
+/// </summary>
+public sealed class ImportOptions
+{
+    public const string SectionName = "Import";
+
+    /// <summary>
+    /// Maximum accepted upload size in megabytes. Uploads are streamed to disk, so this is bound by disk space
+    /// rather than memory; the request size limits of the server follow it.
+    /// </summary>
+    public int MaxFileSizeMB { get; set; } = 2048;
+
+    /// <summary>
+    /// Maximum size in megabytes a file may expand to when decompressed from a .gz or .zip upload.
+    /// </summary>
+    public int MaxUncompressedSizeMB { get; set; } = 1024;
+
+    /// <summary>
+    /// Default number of records per bulk insert.
+    /// </summary>
+    public int BatchSize { get; set; } = 1000;
+
+    /// <summary>
+    /// Directory where uploaded files are stored while being assembled and processed.
+    /// </summary>
+    public string UploadPath { get; set; } = "./uploads";
+
+    /// <summary>
+    /// Size of each chunk in a resumable upload, in megabytes.
+    /// </summary>
+    public int ChunkSizeMB { get; set; } = 5;
+
+    /// <summary>
+    /// Time after which an unfinished resumable upload is discarded.
+    /// </summary>
+    public int UploadExpirationHours { get; set; } = 24;
+}
@@ -1,5 +1,6 @@
 namespace QuickIngestFile.Application.DTOs;
 
+using QuickIngestFile.Domain.Common;
 using QuickIngestFile.Domain.Entities;
 
 /// <summary>
@@ -18,7 +19,11 @@ public sealed record ImportJobDto(
     DateTime? StartedAt,
     DateTime? CompletedAt,
     double? DurationMs,
-    string? ErrorMessage)
+    string? ErrorMessage,
+    bool IsFinished,
+    IReadOnlyList<RuleViolationCount> RuleViolations,
+    string Mode,
+    IReadOnlyList<ImportLoadDto> Loads)
 {
     public static ImportJobDto FromEntity(ImportJob job) => new(
         job.Id,
@@ -33,9 +38,57 @@ public sealed record ImportJobDto(
         job.StartedAt,
         job.CompletedAt,
         job.Duration?.TotalMilliseconds,
-        job.ErrorMessage);
+        job.ErrorMessage,
+        job.IsFinished,
+        job.GetRuleViolations(),
+        job.Mode.ToString(),
+        job.GetLoads().Select(ImportLoadDto.FromLoad).ToList());
+}
+
+/// <summary>
+/// A file loaded into an import job, with what it did to the job's records.
+/// Failed and rolled back loads carry their error and left the records as they were.
+/// </summary>
+public sealed record ImportLoadDto(
+    string FileName,
+    string Mode,
+    IReadOnlyList<string> KeyColumns,
+    int InsertedRecords,
+    int UpdatedRecords,
+    int UnchangedRecords,
+    int FailedRecords,
+    int RowOffset,
+    DateTime CompletedAt,
+    string Status,
+    string? ErrorMessage)
+{
+    public static ImportLoadDto FromLoad(ImportLoad load) => new(
+        load.FileName,
+        load.Mode.ToString(),
+        load.KeyColumns,
+        load.InsertedRecords,
+        load.UpdatedRecords,
+        load.UnchangedRecords,
+        load.FailedRecords,
+        load.RowOffset,
+        load.CompletedAt,
+        load.Status.ToString(),
+        load.ErrorMessage);
 }
 
+/// <summary>
+/// Import job history filters as sent by clients. Status is a comma-separated list of statuses;
+/// SortBy is one of: createdAt, fileName, fileSize, totalRecords, duration. To is an inclusive day.
+/// </summary>
+public sealed record ImportJobFilterDto(
+    string? Status = null,
+    string? FileType = null,
+    DateTime? From = null,
+    DateTime? To = null,
+    string? Search = null,
+    string? SortBy = null,
+    bool Descending = true);
+
 /// <summary>
 /// Progress update for real-time tracking.
 /// </summary>
@@ -53,7 +106,64 @@ public sealed record ImportedRecordDto(
     Guid Id,
     Guid ImportJobId,
     int RowNumber,
-    Dictionary<string, object?> Data);
+    Dictionary<string, object?> Data,
+    DateTime? UpdatedAt = null);
+
+/// <summary>
+/// Request to change values of an imported record. Values are text, converted to each column's type.
+/// EditedBy names who made the change when the request is not authenticated.
+/// </summary>
+public sealed record UpdateRecordRequest(
+    Dictionary<string, string?> Values,
+    string? EditedBy = null);
+
+/// <summary>
+/// Request to delete several imported records of a job.
+/// </summary>
+public sealed record DeleteRecordsRequest(
+    IReadOnlyList<Guid> RecordIds,
+    string? EditedBy = null);
+
+/// <summary>
+/// DTO for an edit made to an imported record. Action is update or delete.
+/// </summary>
+public sealed record RecordEditDto(
+    Guid Id,
+    Guid RecordId,
+    int RowNumber,
+    string Action,
+    string EditedBy,
+    DateTime EditedAt,
+    IReadOnlyList<FieldChange> Changes)
+{
+    public static RecordEditDto FromEntity(RecordEdit edit) => new(
+        edit.Id,
+        edit.RecordId,
+        edit.RowNumber,
+        edit.Action.ToString().ToLowerInvariant(),
+        edit.EditedBy,
+        edit.CreatedAt,
+        edit.GetChanges());
+}
+
+/// <summary>
+/// Column filter as sent by clients. Operator is one of: contains, equal, isEmpty, between.
+/// </summary>
+public sealed record ColumnFilterDto(
+    string Column,
+    string Operator,
+    string? Value = null,
+    string? ValueTo = null);
+
+/// <summary>
+/// DTO for a row rejected during import.
+/// </summary>
+public sealed record ImportFailureDto(
+    Guid Id,
+    Guid ImportJobId,
+    int RowNumber,
+    string ErrorMessage,
+    Dictionary<string, string?> RawData);
 
 /// <summary>
 /// DTO for file schema/structure.
@@ -65,14 +175,104 @@ public sealed record FileSchemaDto(
     IReadOnlyList<ColumnDefinitionDto> Columns);
 
 /// <summary>
-/// DTO for column definition.
+/// DTO for column definition, with the validation rules enforced during import.
 /// </summary>
 public sealed record ColumnDefinitionDto(
     string Name,
     int Index,
     string DetectedType,
     string? DisplayName = null,
-    bool IsIgnored = false);
+    bool IsIgnored = false,
+    ColumnRules? Rules = null);
+
+/// <summary>
+/// Data-quality summary of the records of an import job, one entry per imported column.
+/// </summary>
+public sealed record DataProfileDto(
+    Guid ImportJobId,
+    int RecordCount,
+    IReadOnlyList<ColumnProfileDto> Columns);
+
+/// <summary>
+/// Statistics for one column. Min and Max are set for numeric and date columns, Mean for numeric ones,
+/// formatted as invariant text. DistinctCount stops growing at the tracking limit, flagged by IsDistinctCountCapped.
+/// </summary>
+public sealed record ColumnProfileDto(
+    string Name,
+    string? DisplayName,
+    string DataType,
+    int NullCount,
+    int EmptyCount,
+    int DistinctCount,
+    bool IsDistinctCountCapped,
+    IReadOnlyList<ValueCountDto> TopValues,
+    string? Min,
+    string? Max,
+    double? Mean,
+    IReadOnlyList<HistogramBucketDto> Histogram,
+    int TypeMismatchCount,
+    IReadOnlyList<string> TypeMismatchSamples);
+
+/// <summary>
+/// A column value and the number of records holding it.
+/// </summary>
+public sealed record ValueCountDto(string Value, int Count);
+
+/// <summary>
+/// Histogram bucket covering [Start, End); the last bucket includes End.
+/// </summary>
+public sealed record HistogramBucketDto(string Start, string End, int Count);
+
+/// <summary>
+/// Differences between two import jobs: schema changes, summary counts and one page of changed rows.
+/// Rows are matched by the key columns; Columns are the imported columns both jobs share, which are compared.
+/// </summary>
+public sealed record JobComparisonDto(
+    Guid BaseJobId,
+    Guid CompareJobId,
+    IReadOnlyList<string> KeyColumns,
+    IReadOnlyList<ColumnDefinitionDto> Columns,
+    SchemaDiffDto Schema,
+    ComparisonSummaryDto Summary,
+    PagedResult<RowDiffDto> Rows);
+
+/// <summary>
+/// Columns only in the compared job (added), only in the base job (removed), and shared columns whose type differs.
+/// </summary>
+public sealed record SchemaDiffDto(
+    IReadOnlyList<string> AddedColumns,
+    IReadOnlyList<string> RemovedColumns,
+    IReadOnlyList<ColumnTypeChangeDto> TypeChanges);
+
+public sealed record ColumnTypeChangeDto(
+    string Column,
+    string BaseType,
+    string CompareType);
+
+/// <summary>
+/// Row counts of a comparison. SkippedRows have an empty or repeated key and cannot be matched.
+/// </summary>
+public sealed record ComparisonSummaryDto(
+    int BaseRecords,
+    int CompareRecords,
+    int Added,
+    int Removed,
+    int Modified,
+    int Unchanged,
+    int SkippedRows);
+
+/// <summary>
+/// A row added, removed or modified between the jobs. Data is missing on the side the row is not in;
+/// ChangedColumns lists the compared columns whose values differ.
+/// </summary>
+public sealed record RowDiffDto(
+    string Change,
+    string Key,
+    int? BaseRowNumber,
+    int? CompareRowNumber,
+    Dictionary<string, object?>? BaseData,
+    Dictionary<string, object?>? CompareData,
+    IReadOnlyList<string> ChangedColumns);
 
 /// <summary>
 /// Request to start an import with optional configuration.
@@ -83,12 +283,141 @@ public sealed record StartImportRequest(
     int SkipRows = 0,
     string? SheetName = null);
 
+/// <summary>
+/// Request to start a resumable chunked upload.
+/// </summary>
+public sealed record StartUploadRequest(
+    string FileName,
+    long FileSize);
+
+/// <summary>
+/// State of a resumable chunked upload.
+/// </summary>
+public sealed record UploadSessionDto(
+    Guid UploadId,
+    string FileName,
+    long FileSize,
+    long ReceivedBytes,
+    long ChunkSize);
+
+/// <summary>
+/// Request to finalize a chunked upload into an import job.
+/// </summary>
+public sealed record CompleteUploadRequest(
+    IReadOnlyList<ColumnDefinitionDto>? Columns = null);
+
 /// <summary>
 /// Preview data from a file before full import.
+/// <see cref="Sheets"/> lists every sheet of a workbook and is empty for other formats.
+/// <see cref="RecordPaths"/> lists the element paths of an XML file to pick the record element from.
+/// <see cref="ArchiveEntries"/> lists the importable files of a .gz or .zip upload; the other fields then describe
+/// <see cref="ArchiveEntry"/>, the entry previewed.
+/// <see cref="Format"/> holds the delimiter, header, encoding and record path used, so guesses can be shown and corrected.
 /// </summary>
 public sealed record FilePreviewDto(
     string FileName,
     long FileSize,
     IReadOnlyList<ColumnDefinitionDto> DetectedColumns,
     IReadOnlyList<Dictionary<string, object?>> PreviewRows,
-    int EstimatedTotalRows);
+    int EstimatedTotalRows,
+    IReadOnlyList<SheetInfoDto> Sheets,
+    IReadOnlyList<RecordPathDto> RecordPaths,
+    IReadOnlyList<ArchiveEntryDto> ArchiveEntries,
+    string? ArchiveEntry,
+    DetectedFormatDto? Format);
+
+/// <summary>
+/// Layout the preview was read with. Settings not given in the request are guesses from the file content.
+/// </summary>
+public sealed record DetectedFormatDto(
+    bool HasHeader,
+    char? Delimiter,
+    char? Quote,
+    string? Encoding,
+    string? RecordPath);
+
+/// <summary>
+/// A workbook sheet offered for import.
+/// </summary>
+public sealed record SheetInfoDto(
+    string Name,
+    int RowCount);
+
+/// <summary>
+/// A file inside a compressed upload offered for import, with its uncompressed size when known.
+/// </summary>
+public sealed record ArchiveEntryDto(
+    string Name,
+    long? Size);
+
+/// <summary>
+/// An element path of an XML file offered as the record element, with its number of elements.
+/// </summary>
+public sealed record RecordPathDto(
+    string Path,
+    int Count);
+
+/// <summary>
+/// DTO for a saved import profile.
+/// </summary>
+public sealed record ImportProfileDto(
+    Guid Id,
+    string Name,
+    string FileNamePattern,
+    ImportProfileOptionsDto Options,
+    IReadOnlyList<ColumnDefinitionDto> Columns,
+    DateTime CreatedAt,
+    DateTime? UpdatedAt)
+{
+    public static ImportProfileDto FromEntity(ImportProfile profile)
+    {
+        var options = profile.GetOptions();
+
+        return new ImportProfileDto(
+            profile.Id,
+            profile.Name,
+            profile.FileNamePattern,
+            new ImportProfileOptionsDto(
+                options.Delimiter,
+                options.Quote,
+                options.HasHeader,
+                options.Encoding,
+                options.HeaderRowOffset,
+                options.SkipRows,
+                options.SheetNames,
+                options.SplitSheets,
+                options.ExplodeArrays,
+                options.RecordPath,
+                options.FixedWidthColumns),
+            profile.GetColumns()
+                .Select(c => new ColumnDefinitionDto(c.Name, c.Index, c.DetectedType, c.DisplayName, c.IsIgnored, c.Rules))
+                .ToList(),
+            profile.CreatedAt,
+            profile.UpdatedAt);
+    }
+}
+
+/// <summary>
+/// Parser settings of an import profile. Layout settings left null are detected from the file.
+/// </summary>
+public sealed record ImportProfileOptionsDto(
+    char? Delimiter = null,
+    char? Quote = null,
+    bool? HasHeader = null,
+    string? Encoding = null,
+    int HeaderRowOffset = 0,
+    int SkipRows = 0,
+    IReadOnlyList<string>? SheetNames = null,
+    bool SplitSheets = false,
+    bool ExplodeArrays = false,
+    string? RecordPath = null,
+    IReadOnlyList<FixedWidthColumn>? FixedWidthColumns = null);
+
+/// <summary>
+/// Request to create or replace an import profile.
+/// </summary>
+public sealed record SaveImportProfileRequest(
+    string Name,
+    string FileNamePattern,
+    ImportProfileOptionsDto? Options = null,
+    IReadOnlyList<ColumnDefinitionDto>? Columns = null);
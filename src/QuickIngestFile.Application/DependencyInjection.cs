@@ -11,18 +11,42 @@ public static class DependencyInjection
 {
     public static IServiceCollection AddApplication(this IServiceCollection services)
     {
-        // Register parsers
+        // Register parsers; fixed-width comes first so a layout in the options takes text files from the CSV parser
+        services.AddSingleton<IFileParser, FixedWidthFileParser>();
         services.AddSingleton<IFileParser, CsvFileParser>();
         services.AddSingleton<IFileParser, ExcelFileParser>();
+        services.AddSingleton<IFileParser, JsonFileParser>();
+        services.AddSingleton<IFileParser, XmlFileParser>();
         services.AddSingleton<FileParserFactory>();
+        services.AddSingleton<ArchiveReader>();
 
         // Register services
         services.AddScoped<ImportService>();
         services.AddScoped<ImportJobService>();
         services.AddScoped<DataQueryService>();
+        services.AddScoped<DataExportService>();
+        services.AddScoped<DataProfileService>();
+        services.AddScoped<JobComparisonService>();
+        services.AddScoped<RecordEditService>();
+        services.AddScoped<ImportProfileService>();
         
         // Register background import queue (singleton for shared state)
         services.AddSingleton<BackgroundImportQueue>();
+
+        // Register resumable upload store (singleton, sessions live across requests)
+        services.AddSingleton<ChunkedUploadStore>();
+
+        // Register the store for single-request uploads waiting in the queue
+        services.AddSingleton<UploadFileStore>();
+
+        // Register progress notifier (singleton, shared by worker and SSE endpoints)
+        services.AddSingleton<ImportProgressNotifier>();
+
+        // Register comparison cache (singleton, reused across paging and export requests)
+        services.AddSingleton<JobComparisonCache>();
+
+        // Register job controls (singleton, lets API requests pause/cancel running imports)
+        services.AddSingleton<ImportJobControls>();
         
         // Register background worker for parallel import processing
         services.AddHostedService<ImportBackgroundWorker>();
@@ -0,0 +1,166 @@
+namespace QuickIngestFile.Application.Parsing;
+
+using System.IO.Compression;
+using Microsoft.Extensions.Options;
+using QuickIngestFile.Application.Configuration;
+
+/// <summary>
+/// Opens compressed uploads: a .gz file holds a single compressed file, named after it without ".gz",
+/// and a .zip archive holds entries of which those with a supported format can be imported.
+/// An entry is decompressed to a temporary file before parsing, since parsers read the file more than once.
+/// Decompression stops once <see cref="ImportOptions.MaxUncompressedSizeMB"/> is exceeded, whatever size
+/// the archive declares, so a small archive cannot expand to fill the disk.
+/// </summary>
+public sealed class ArchiveReader
+{
+    private const string GzipExtension = ".gz";
+    private const string ZipExtension = ".zip";
+
+    private readonly FileParserFactory _parserFactory;
+    private readonly long _maxUncompressedBytes;
+    private readonly string _directory;
+
+    public ArchiveReader(FileParserFactory parserFactory, IOptions<ImportOptions> options)
+    {
+        _parserFactory = parserFactory;
+        _maxUncompressedBytes = options.Value.MaxUncompressedSizeMB * 1024L * 1024L;
+        _directory = Path.Combine(Path.GetFullPath(options.Value.UploadPath), "extracted");
+        Directory.CreateDirectory(_directory);
+    }
+
+    public static string[] SupportedExtensions => [GzipExtension, ZipExtension];
+
+    /// <summary>
+    /// Check whether a file is a compressed file or archive, whatever it holds.
+    /// </summary>
+    public static bool IsArchive(string fileName) =>
+        SupportedExtensions.Contains(Path.GetExtension(fileName), StringComparer.OrdinalIgnoreCase);
+
+    /// <summary>
+    /// Check whether a file can be imported once opened: any .zip archive, or a .gz file of a supported format.
+    /// </summary>
+    public bool CanRead(string fileName)
+    {
+        if (IsZip(fileName))
+            return true;
+
+        return IsGzip(fileName) && _parserFactory.CanParse(GetGzipEntryName(fileName));
+    }
+
+    /// <summary>
+    /// List the entries of an archive that can be imported, in archive order, with their uncompressed sizes
+    /// when the archive records them.
+    /// </summary>
+    public IReadOnlyList<ArchiveEntryInfo> GetEntries(Stream stream, string fileName)
+    {
+        if (IsGzip(fileName))
+            return [new ArchiveEntryInfo(GetGzipEntryName(fileName), null)];
+
+        using var archive = new ZipArchive(stream, ZipArchiveMode.Read, leaveOpen: true);
+        var entries = archive.Entries
+            .Where(IsImportable)
+            .Select(e => new ArchiveEntryInfo(e.FullName, e.Length))
+            .ToList();
+
+        stream.Position = 0;
+        return entries;
+    }
+
+    /// <summary>
+    /// Open the file to parse: for an archive, the named entry (or its first importable one) decompressed
+    /// to a temporary file that is deleted when disposed; any other file is returned as is.
+    /// </summary>
+    public async Task<ArchiveEntryStream> OpenAsync(
+        Stream stream,
+        string fileName,
+        string? entryName,
+        CancellationToken cancellationToken = default)
+    {
+        if (IsGzip(fileName))
+        {
+            var name = GetGzipEntryName(fileName);
+            await using var gzip = new GZipStream(stream, CompressionMode.Decompress, leaveOpen: true);
+            return new ArchiveEntryStream(name, await ExtractAsync(gzip, name, cancellationToken));
+        }
+
+        if (!IsZip(fileName))
+            return new ArchiveEntryStream(fileName, stream);
+
+        using var archive = new ZipArchive(stream, ZipArchiveMode.Read, leaveOpen: true);
+        var entry = string.IsNullOrWhiteSpace(entryName)
+            ? archive.Entries.FirstOrDefault(IsImportable)
+                ?? throw new InvalidOperationException($"{fileName} has no files of a supported type")
+            : archive.Entries.FirstOrDefault(e => e.FullName == entryName && IsImportable(e))
+                ?? throw new InvalidOperationException($"{fileName} has no importable entry '{entryName}'");
+
+        if (entry.Length > _maxUncompressedBytes)
+            throw new InvalidOperationException($"{entry.FullName} exceeds the {ToMegabytes(_maxUncompressedBytes)}MB limit for uncompressed files");
+
+        await using var content = entry.Open();
+        return new ArchiveEntryStream(entry.FullName, await ExtractAsync(content, entry.FullName, cancellationToken));
+    }
+
+    /// <summary>
+    /// Copy decompressed content to a temporary file, counting the bytes actually written against the limit.
+    /// </summary>
+    private async Task<Stream> ExtractAsync(Stream content, string entryName, CancellationToken cancellationToken)
+    {
+        var file = new FileStream(
+            Path.Combine(_directory, $"{Guid.NewGuid():N}.tmp"),
+            FileMode.CreateNew,
+            FileAccess.ReadWrite,
+            FileShare.None,
+            bufferSize: 81920,
+            FileOptions.Asynchronous | FileOptions.DeleteOnClose);
+
+        try
+        {
+            var buffer = new byte[81920];
+            int read;
+            while ((read = await content.ReadAsync(buffer, cancellationToken)) > 0)
+            {
+                if (file.Length + read > _maxUncompressedBytes)
+                    throw new InvalidOperationException($"{entryName} exceeds the {ToMegabytes(_maxUncompressedBytes)}MB limit for uncompressed files");
+
+                await file.WriteAsync(buffer.AsMemory(0, read), cancellationToken);
+            }
+
+            file.Position = 0;
+            return file;
+        }
+        catch
+        {
+            await file.DisposeAsync();
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Files of a supported format; folders and the metadata some archivers add (__MACOSX, dot files) are left out.
+    /// </summary>
+    private bool IsImportable(ZipArchiveEntry entry) =>
+        !string.IsNullOrEmpty(entry.Name)
+        && !entry.Name.StartsWith('.')
+        && !entry.FullName.StartsWith("__MACOSX/", StringComparison.Ordinal)
+        && _parserFactory.CanParse(entry.Name);
+
+    private static bool IsGzip(string fileName) =>
+        Path.GetExtension(fileName).Equals(GzipExtension, StringComparison.OrdinalIgnoreCase);
+
+    private static bool IsZip(string fileName) =>
+        Path.GetExtension(fileName).Equals(ZipExtension, StringComparison.OrdinalIgnoreCase);
+
+    // "sales.csv.gz" holds "sales.csv"
+    private static string GetGzipEntryName(string fileName) => Path.GetFileNameWithoutExtension(fileName);
+
+    private static long ToMegabytes(long bytes) => bytes / (1024 * 1024);
+}
+
+/// <summary>
+/// The file to parse after opening an upload: an archive entry and its decompressed content,
+/// or the upload itself when it is not an archive.
+/// </summary>
+public sealed record ArchiveEntryStream(string Name, Stream Content) : IAsyncDisposable
+{
+    public ValueTask DisposeAsync() => Content.DisposeAsync();
+}
@@ -0,0 +1,133 @@
+namespace QuickIngestFile.Application.Parsing;
+
+using System.Globalization;
+using QuickIngestFile.Domain.Entities;
+
+/// <summary>
+/// Applies a user-defined column mapping to detected schemas and parsed rows.
+/// </summary>
+public static class ColumnMapper
+{
+    private static readonly object Invalid = new();
+
+    /// <summary>
+    /// Build schema column definitions from detected columns, applying renames, ignores, type overrides and rules.
+    /// </summary>
+    public static IReadOnlyList<ColumnDefinition> BuildColumns(
+        IEnumerable<DetectedColumn> detectedColumns,
+        IReadOnlyList<ColumnMapping> mappings)
+    {
+        return detectedColumns.Select(c =>
+        {
+            var mapping = mappings.FirstOrDefault(m => m.Name == c.Name);
+
+            return new ColumnDefinition
+            {
+                Name = c.Name,
+                Index = c.Index,
+                DetectedType = string.IsNullOrWhiteSpace(mapping?.DataType) ? c.DetectedType : mapping.DataType,
+                DisplayName = string.IsNullOrWhiteSpace(mapping?.DisplayName) ? null : mapping.DisplayName.Trim(),
+                IsIgnored = mapping?.IsIgnored ?? false,
+                Rules = mapping?.Rules
+            };
+        }).ToList();
+    }
+
+    /// <summary>
+    /// Apply the mapping to a parsed row: drop ignored columns and convert overridden types.
+    /// Rows with values that cannot be converted are returned as failed.
+    /// </summary>
+    public static ParsedRow Apply(ParsedRow row, IReadOnlyList<ColumnMapping> mappings)
+    {
+        if (mappings.Count == 0 || !row.IsSuccess)
+            return row;
+
+        var data = new Dictionary<string, object?>(row.Data);
+
+        foreach (var mapping in mappings)
+        {
+            if (mapping.IsIgnored)
+            {
+                data.Remove(mapping.Name);
+                continue;
+            }
+
+            if (string.IsNullOrWhiteSpace(mapping.DataType) || !data.TryGetValue(mapping.Name, out var value))
+                continue;
+
+            var converted = ConvertValue(value, mapping.DataType);
+            if (ReferenceEquals(converted, Invalid))
+            {
+                return row with
+                {
+                    IsSuccess = false,
+                    ErrorMessage = $"Row {row.RowNumber}: value '{value}' in column '{mapping.Name}' is not a valid {mapping.DataType}"
+                };
+            }
+
+            data[mapping.Name] = converted;
+        }
+
+        return row with { Data = data };
+    }
+
+    /// <summary>
+    /// Convert a single value to a column type, as during import. Empty text converts to null.
+    /// </summary>
+    public static bool TryConvert(object? value, string dataType, out object? converted)
+    {
+        converted = ConvertValue(value, dataType);
+        if (!ReferenceEquals(converted, Invalid))
+            return true;
+
+        converted = null;
+        return false;
+    }
+
+    /// <summary>
+    /// Text is read with the invariant culture, so results do not depend on the server's locale.
+    /// Decimals accept no thousands separators: "1,5" from a comma-decimal source is rejected rather than read as 15.
+    /// </summary>
+    private static object? ConvertValue(object? value, string dataType)
+    {
+        if (value is null || value is string { Length: 0 })
+            return null;
+
+        return dataType switch
+        {
+            DataTypes.String => value is string s ? s : Convert.ToString(value, CultureInfo.InvariantCulture),
+            DataTypes.Integer => value switch
+            {
+                int or long => value,
+                double or decimal when Convert.ToDecimal(value) % 1 == 0 => Convert.ToInt64(value),
+                string s when long.TryParse(s.Trim(), NumberStyles.Integer, CultureInfo.InvariantCulture, out var l) => l,
+                _ => Invalid
+            },
+            DataTypes.Decimal => value switch
+            {
+                int or long or double or decimal => Convert.ToDecimal(value),
+                string s when decimal.TryParse(s.Trim(), NumberStyles.Float, CultureInfo.InvariantCulture, out var d) => d,
+                _ => Invalid
+            },
+            DataTypes.Boolean => value switch
+            {
+                bool => value,
+                string s when bool.TryParse(s.Trim(), out var b) => b,
+                _ => Invalid
+            },
+            DataTypes.Date => value switch
+            {
+                DateTime dt => dt.Date,
+                string s when DateTime.TryParse(s.Trim(), CultureInfo.InvariantCulture, DateTimeStyles.None, out var dt) => dt.Date,
+                _ => Invalid
+            },
+            DataTypes.DateTime => value switch
+            {
+                DateTime => value,
+                string s when DateTime.TryParse(s.Trim(), CultureInfo.InvariantCulture, DateTimeStyles.None, out var dt) => dt,
+                _ => Invalid
+            },
+            _ => value
+        };
+    }
+}
@@ -23,14 +23,11 @@ public sealed class CsvFileParser : IFileParser
         ParserOptions options,
         CancellationToken cancellationToken = default)
     {
-        var csvOptions = new CsvDataReaderOptions
-        {
-            Delimiter = options.Delimiter,
-            HasHeaders = options.HasHeader
-        };
+        var format = await SniffFormatAsync(stream, options, cancellationToken);
 
-        using var reader = new StreamReader(stream, leaveOpen: true);
-        await using var csv = await CsvDataReader.CreateAsync(reader, csvOptions);
+        using var reader = new StreamReader(stream, TextEncodings.Get(format.Encoding), leaveOpen: true);
+        await SkipLinesAsync(reader, options.HeaderRowOffset, cancellationToken);
+        await using var csv = await CsvDataReader.CreateAsync(reader, ToReaderOptions(format));
 
         var columns = new List<DetectedColumn>();
         var sampleValues = new Dictionary<int, List<string>>();
@@ -38,14 +35,17 @@ public sealed class CsvFileParser : IFileParser
         // Get column names
         for (var i = 0; i < csv.FieldCount; i++)
         {
-            var columnName = options.HasHeader 
-                ? csv.GetName(i) 
+            var columnName = format.HasHeader
+                ? csv.GetName(i)
                 : $"Column{i + 1}";
             
             columns.Add(new DetectedColumn(columnName, i, DataTypes.String));
             sampleValues[i] = [];
         }
 
+        // Skip rows if configured
+        for (var i = 0; i < options.SkipRows && await csv.ReadAsync(cancellationToken); i++) { }
+
         // Sample first 100 rows for type detection
         var rowCount = 0;
         while (await csv.ReadAsync(cancellationToken) && rowCount < 100)
@@ -77,7 +77,10 @@ public sealed class CsvFileParser : IFileParser
 
         stream.Position = 0;
 
-        return new DetectedSchema(typedColumns, rowCount);
+        return new DetectedSchema(
+            typedColumns,
+            rowCount,
+            new DetectedFormat(format.HasHeader, format.Delimiter, format.Quote, format.Encoding));
     }
 
     public async Task<IReadOnlyList<ParsedRow>> GetPreviewAsync(
@@ -105,22 +108,23 @@ public sealed class CsvFileParser : IFileParser
         ParserOptions options,
         [EnumeratorCancellation] CancellationToken cancellationToken = default)
     {
-        var csvOptions = new CsvDataReaderOptions
-        {
-            Delimiter = options.Delimiter,
-            HasHeaders = options.HasHeader
-        };
+        var format = await SniffFormatAsync(stream, options, cancellationToken);
 
-        using var reader = new StreamReader(stream, leaveOpen: true);
-        await using var csv = await CsvDataReader.CreateAsync(reader, csvOptions);
+        using var reader = new StreamReader(stream, TextEncodings.Get(format.Encoding), leaveOpen: true);
+        await SkipLinesAsync(reader, options.HeaderRowOffset, cancellationToken);
+        await using var csv = await CsvDataReader.CreateAsync(reader, ToReaderOptions(format));
 
         // Get column names
         var columnNames = new string[csv.FieldCount];
+        var keepRaw = new bool[csv.FieldCount];
         for (var i = 0; i < csv.FieldCount; i++)
         {
-            columnNames[i] = options.HasHeader 
-                ? csv.GetName(i) 
+            columnNames[i] = format.HasHeader
+                ? csv.GetName(i)
                 : $"Column{i + 1}";
+
+            // Retyped columns are converted by the column mapping from the raw text
+            keepRaw[i] = options.GetTypeOverride(columnNames[i]) is not null;
         }
 
         // Skip rows if configured
@@ -134,6 +138,7 @@ public sealed class CsvFileParser : IFileParser
 
             rowNumber++;
             Dictionary<string, object?>? data = null;
+            Dictionary<string, string?> rawData = [];
             string? errorMessage = null;
 
             try
@@ -142,20 +147,71 @@ public sealed class CsvFileParser : IFileParser
                 for (var i = 0; i < csv.FieldCount; i++)
                 {
                     var value = csv.GetString(i);
-                    data[columnNames[i]] = ParseValue(value);
+                    rawData[columnNames[i]] = value;
+                    data[columnNames[i]] = keepRaw[i] ? value : ParseValue(value);
                 }
             }
             catch (Exception ex)
             {
+                data = null;
                 errorMessage = $"Row {rowNumber}: {ex.Message}";
+                rawData = ReadRawFields(csv, columnNames);
             }
 
             yield return new ParsedRow(
                 data ?? [],
                 rowNumber,
                 data is not null,
-                errorMessage);
+                errorMessage,
+                rawData);
+        }
+    }
+
+    /// <summary>
+    /// Resolve delimiter, quote, header and encoding from the options, sniffing the start of the file for any not set.
+    /// </summary>
+    private static async Task<TextFormat> SniffFormatAsync(Stream stream, ParserOptions options, CancellationToken cancellationToken)
+    {
+        var sample = new byte[FormatSniffer.SampleSize];
+        var read = await stream.ReadAtLeastAsync(sample, sample.Length, throwOnEndOfStream: false, cancellationToken);
+        stream.Position = 0;
+
+        return FormatSniffer.Sniff(sample.AsSpan(0, read), options, isWholeFile: read < sample.Length);
+    }
+
+    private static CsvDataReaderOptions ToReaderOptions(TextFormat format) => new()
+    {
+        Delimiter = format.Delimiter,
+        Quote = format.Quote,
+        HasHeaders = format.HasHeader
+    };
+
+    /// <summary>
+    /// Skip lines above the header, such as report titles.
+    /// </summary>
+    private static async Task SkipLinesAsync(StreamReader reader, int count, CancellationToken cancellationToken)
+    {
+        for (var i = 0; i < count && await reader.ReadLineAsync(cancellationToken) is not null; i++) { }
+    }
+
+    /// <summary>
+    /// Read whatever field text is still readable from a row that failed to parse.
+    /// </summary>
+    private static Dictionary<string, string?> ReadRawFields(CsvDataReader csv, string[] columnNames)
+    {
+        var rawData = new Dictionary<string, string?>();
+        for (var i = 0; i < columnNames.Length; i++)
+        {
+            try
+            {
+                rawData[columnNames[i]] = csv.GetString(i);
+            }
+            catch (Exception)
+            {
+                rawData[columnNames[i]] = null;
+            }
         }
+        return rawData;
     }
 
     private static string DetectColumnType(List<string> samples)
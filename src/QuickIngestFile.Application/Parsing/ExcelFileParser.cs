@@ -7,8 +7,9 @@ using QuickIngestFile.Domain.Entities;
 /// <summary>
 /// Excel file parser using ClosedXML library.
 /// Parses Excel files into dynamic dictionary-based records.
+/// Several sheets can be read into one import; their columns are merged by name.
 /// </summary>
-public sealed class ExcelFileParser : IFileParser
+public sealed class ExcelFileParser : IWorkbookParser
 {
     public string[] SupportedExtensions => [".xlsx", ".xls"];
 
@@ -18,70 +19,64 @@ public sealed class ExcelFileParser : IFileParser
         return SupportedExtensions.Contains(extension, StringComparer.OrdinalIgnoreCase);
     }
 
-    public async Task<DetectedSchema> DetectSchemaAsync(
+    public async Task<IReadOnlyList<SheetInfo>> GetSheetsAsync(
         Stream stream,
-        ParserOptions options,
         CancellationToken cancellationToken = default)
     {
         await Task.Yield();
 
         using var workbook = new XLWorkbook(stream);
-        var worksheet = GetWorksheet(workbook, options.SheetName);
-
-        var usedRange = worksheet.RangeUsed();
-        if (usedRange is null)
-            return new DetectedSchema([], 0);
+        var sheets = workbook.Worksheets
+            .Select(w => new SheetInfo(w.Name, w.LastRowUsed()?.RowNumber() ?? 0))
+            .ToList();
 
-        var lastColumn = usedRange.LastColumn().ColumnNumber();
-        var lastRow = usedRange.LastRow().RowNumber();
-
-        var columns = new List<DetectedColumn>();
-        var sampleValues = new Dictionary<int, List<string>>();
-
-        // Get column names from first row if has header
-        var headerRow = options.SkipRows + 1;
-        for (var col = 1; col <= lastColumn; col++)
-        {
-            var columnName = options.HasHeader
-                ? worksheet.Cell(headerRow, col).GetString().Trim()
-                : $"Column{col}";
-
-            if (string.IsNullOrWhiteSpace(columnName))
-                columnName = $"Column{col}";
-
-            columns.Add(new DetectedColumn(columnName, col - 1, DataTypes.String));
-            sampleValues[col - 1] = [];
-        }
+        stream.Position = 0;
+        return sheets;
+    }
 
-        // Sample first 100 data rows for type detection
-        var startRow = headerRow + (options.HasHeader ? 1 : 0);
-        var sampleEnd = Math.Min(startRow + 100, lastRow);
+    public async Task<DetectedSchema> DetectSchemaAsync(
+        Stream stream,
+        ParserOptions options,
+        CancellationToken cancellationToken = default)
+    {
+        await Task.Yield();
 
-        for (var row = startRow; row <= sampleEnd; row++)
+        using var workbook = new XLWorkbook(stream);
+        var worksheets = GetWorksheets(workbook, options);
+        var hasHeader = options.HasHeader ?? DetectHeader(worksheets[0], options);
+        var layouts = worksheets.Select(w => ReadLayout(w, options, hasHeader)).ToList();
+        var columnNames = GetColumnNames(layouts);
+
+        // Sample first 100 data rows of each sheet for type detection
+        var sampleValues = columnNames.ToDictionary(name => name, _ => new List<string>());
+        foreach (var layout in layouts)
         {
-            for (var col = 1; col <= lastColumn; col++)
+            var sampleEnd = Math.Min(layout.StartRow + 100, layout.LastRow);
+            for (var row = layout.StartRow; row <= sampleEnd; row++)
             {
-                var cell = worksheet.Cell(row, col);
-                if (!cell.IsEmpty())
+                for (var col = 1; col <= layout.ColumnNames.Length; col++)
                 {
-                    sampleValues[col - 1].Add(cell.GetString());
+                    var cell = layout.Worksheet.Cell(row, col);
+                    if (!cell.IsEmpty())
+                    {
+                        sampleValues[layout.ColumnNames[col - 1]].Add(cell.GetString());
+                    }
                 }
             }
         }
 
-        // Detect types based on samples
-        var typedColumns = columns.Select(c =>
-        {
-            var samples = sampleValues[c.Index];
-            var detectedType = DetectColumnType(samples);
-            return c with { DetectedType = detectedType };
-        }).ToList();
+        var columns = columnNames
+            .Select((name, index) => new DetectedColumn(name, index, DetectColumnType(sampleValues[name])))
+            .ToList();
 
-        var dataRowCount = lastRow - startRow + 1;
+        if (layouts.Count > 1)
+            columns.Add(new DetectedColumn(GetSheetColumnName(columnNames), columns.Count, DataTypes.String));
+
+        var dataRowCount = layouts.Sum(l => Math.Max(0, l.LastRow - l.StartRow + 1));
 
         stream.Position = 0;
 
-        return new DetectedSchema(typedColumns, Math.Max(0, dataRowCount));
+        return new DetectedSchema(columns, dataRowCount, new DetectedFormat(hasHeader));
     }
 
     public async Task<IReadOnlyList<ParsedRow>> GetPreviewAsync(
@@ -112,22 +107,89 @@ public sealed class ExcelFileParser : IFileParser
         await Task.Yield();
 
         using var workbook = new XLWorkbook(stream);
-        var worksheet = GetWorksheet(workbook, options.SheetName);
+        var worksheets = GetWorksheets(workbook, options);
+        var hasHeader = options.HasHeader ?? DetectHeader(worksheets[0], options);
+        var layouts = worksheets.Select(w => ReadLayout(w, options, hasHeader)).ToList();
+
+        // Combined sheets get an extra column telling which sheet each row came from
+        var sheetColumn = layouts.Count > 1 ? GetSheetColumnName(GetColumnNames(layouts)) : null;
+        var rowNumber = 0;
+
+        foreach (var layout in layouts)
+        {
+            var worksheet = layout.Worksheet;
+            var columnNames = layout.ColumnNames;
+
+            for (var row = layout.StartRow; row <= layout.LastRow; row++)
+            {
+                if (cancellationToken.IsCancellationRequested)
+                    yield break;
+
+                rowNumber++;
+                Dictionary<string, object?>? data = null;
+                Dictionary<string, string?> rawData = [];
+                string? errorMessage = null;
+
+                try
+                {
+                    data = [];
+                    for (var col = 1; col <= columnNames.Length; col++)
+                    {
+                        var cell = worksheet.Cell(row, col);
+                        rawData[columnNames[col - 1]] = cell.GetString();
+                        data[columnNames[col - 1]] = GetCellValue(cell);
+                    }
+
+                    if (sheetColumn is not null)
+                    {
+                        rawData[sheetColumn] = worksheet.Name;
+                        data[sheetColumn] = worksheet.Name;
+                    }
+                }
+                catch (Exception ex)
+                {
+                    data = null;
+                    errorMessage = sheetColumn is null
+                        ? $"Row {rowNumber}: {ex.Message}"
+                        : $"Row {rowNumber} (sheet {worksheet.Name}): {ex.Message}";
+                    rawData = ReadRawCells(worksheet, row, columnNames);
+                }
+
+                yield return new ParsedRow(
+                    data ?? [],
+                    rowNumber,
+                    data is not null,
+                    errorMessage,
+                    rawData);
+            }
+        }
+    }
 
+    /// <summary>
+    /// Column names and data row range of a sheet, after the header offset and skipped rows.
+    /// </summary>
+    private sealed record SheetLayout(
+        IXLWorksheet Worksheet,
+        string[] ColumnNames,
+        int StartRow,
+        int LastRow);
+
+    private static SheetLayout ReadLayout(IXLWorksheet worksheet, ParserOptions options, bool hasHeader)
+    {
         var usedRange = worksheet.RangeUsed();
         if (usedRange is null)
-            yield break;
+            return new SheetLayout(worksheet, [], 1, 0);
 
         var lastColumn = usedRange.LastColumn().ColumnNumber();
         var lastRow = usedRange.LastRow().RowNumber();
 
-        // Get column names
-        var headerRow = options.SkipRows + 1;
+        // Get column names from the header row if the sheet has one
+        var headerRow = options.HeaderRowOffset + 1;
         var columnNames = new string[lastColumn];
-        
+
         for (var col = 1; col <= lastColumn; col++)
         {
-            var columnName = options.HasHeader
+            var columnName = hasHeader
                 ? worksheet.Cell(headerRow, col).GetString().Trim()
                 : $"Column{col}";
 
@@ -137,45 +199,84 @@ public sealed class ExcelFileParser : IFileParser
             columnNames[col - 1] = columnName;
         }
 
-        var startRow = headerRow + (options.HasHeader ? 1 : 0);
-        var rowNumber = 0;
+        var startRow = headerRow + (hasHeader ? 1 : 0) + options.SkipRows;
+        return new SheetLayout(worksheet, columnNames, startRow, lastRow);
+    }
+
+    /// <summary>
+    /// Guess whether the first row below the header offset holds column names, from the rows under it.
+    /// </summary>
+    private static bool DetectHeader(IXLWorksheet worksheet, ParserOptions options)
+    {
+        var usedRange = worksheet.RangeUsed();
+        if (usedRange is null)
+            return false;
+
+        var lastColumn = usedRange.LastColumn().ColumnNumber();
+        var firstRow = options.HeaderRowOffset + 1;
+        var lastRow = Math.Min(usedRange.LastRow().RowNumber(), firstRow + 50);
 
-        for (var row = startRow; row <= lastRow; row++)
+        var rows = new List<IReadOnlyList<string?>>();
+        for (var row = firstRow; row <= lastRow; row++)
         {
-            if (cancellationToken.IsCancellationRequested)
-                yield break;
+            rows.Add(Enumerable.Range(1, lastColumn).Select(col => (string?)worksheet.Cell(row, col).GetString().Trim()).ToList());
+        }
+
+        return FormatSniffer.LooksLikeHeader(rows);
+    }
 
-            rowNumber++;
-            Dictionary<string, object?>? data = null;
-            string? errorMessage = null;
+    /// <summary>
+    /// Columns of all sheets in order of first appearance, so combined sheets can differ slightly.
+    /// </summary>
+    private static List<string> GetColumnNames(IEnumerable<SheetLayout> layouts) =>
+        layouts.SelectMany(l => l.ColumnNames).Distinct().ToList();
 
+    private static string GetSheetColumnName(IReadOnlyCollection<string> columnNames)
+    {
+        var name = "Sheet";
+        for (var i = 2; columnNames.Contains(name); i++)
+        {
+            name = $"Sheet{i}";
+        }
+        return name;
+    }
+
+    /// <summary>
+    /// Read the cell text of a row that failed to parse.
+    /// </summary>
+    private static Dictionary<string, string?> ReadRawCells(IXLWorksheet worksheet, int row, string[] columnNames)
+    {
+        var rawData = new Dictionary<string, string?>();
+        for (var col = 1; col <= columnNames.Length; col++)
+        {
             try
             {
-                data = [];
-                for (var col = 1; col <= lastColumn; col++)
-                {
-                    var cell = worksheet.Cell(row, col);
-                    data[columnNames[col - 1]] = GetCellValue(cell);
-                }
+                rawData[columnNames[col - 1]] = worksheet.Cell(row, col).GetString();
             }
-            catch (Exception ex)
+            catch (Exception)
             {
-                errorMessage = $"Row {rowNumber}: {ex.Message}";
+                rawData[columnNames[col - 1]] = null;
             }
-
-            yield return new ParsedRow(
-                data ?? [],
-                rowNumber,
-                data is not null,
-                errorMessage);
         }
+        return rawData;
+    }
+
+    private static IReadOnlyList<IXLWorksheet> GetWorksheets(XLWorkbook workbook, ParserOptions options)
+    {
+        if (options.SheetNames.Count == 0)
+            return [GetWorksheet(workbook, options.SheetName)];
+
+        return options.SheetNames.Distinct().Select(name => GetWorksheet(workbook, name)).ToList();
     }
 
     private static IXLWorksheet GetWorksheet(XLWorkbook workbook, string? sheetName)
     {
-        return string.IsNullOrEmpty(sheetName)
-            ? workbook.Worksheets.First()
-            : workbook.Worksheet(sheetName);
+        if (string.IsNullOrEmpty(sheetName))
+            return workbook.Worksheets.First();
+
+        return workbook.TryGetWorksheet(sheetName, out var worksheet)
+            ? worksheet
+            : throw new InvalidOperationException($"Sheet '{sheetName}' not found in workbook");
     }
 
     private static string DetectColumnType(List<string> samples)
@@ -8,13 +8,14 @@ public sealed class FileParserFactory(IEnumerable<IFileParser> parsers)
     private readonly IFileParser[] _parsers = parsers.ToArray();
 
     /// <summary>
-    /// Get the appropriate parser for the given file.
+    /// Get the appropriate parser for the given file, read with the given options.
     /// </summary>
-    public IFileParser GetParser(string fileName)
+    public IFileParser GetParser(string fileName, ParserOptions? options = null)
     {
         var extension = Path.GetExtension(fileName);
+        options ??= new ParserOptions();
 
-        var parser = _parsers.FirstOrDefault(p => p.CanParse(fileName));
+        var parser = _parsers.FirstOrDefault(p => p.CanParse(fileName, options));
 
         return parser ?? throw new NotSupportedException(
             $"No parser available for file type: {extension}. " +
@@ -0,0 +1,263 @@
+namespace QuickIngestFile.Application.Parsing;
+
+using System.Runtime.CompilerServices;
+using QuickIngestFile.Domain.Common;
+using QuickIngestFile.Domain.Entities;
+
+/// <summary>
+/// Parser for fixed-width text files, such as mainframe and bank (CNAB) exports, where every column
+/// sits at the same character positions on each line. Columns come from <see cref="ParserOptions.FixedWidthColumns"/>;
+/// without a layout each line is read whole into a single column, so the file can be previewed to define one.
+/// Lines above the data are skipped with <see cref="ParserOptions.HeaderRowOffset"/> and <see cref="ParserOptions.SkipRows"/>.
+/// </summary>
+public sealed class FixedWidthFileParser : IFileParser
+{
+    /// <summary>
+    /// Column holding the whole line when no layout is set.
+    /// </summary>
+    public const string LineColumn = "Line";
+
+    // Read as fixed-width even without a layout, since no other parser reads them
+    private const string DataExtension = ".dat";
+
+    public string[] SupportedExtensions => [".txt", DataExtension];
+
+    public bool CanParse(string fileName)
+    {
+        var extension = Path.GetExtension(fileName);
+        return SupportedExtensions.Contains(extension, StringComparer.OrdinalIgnoreCase);
+    }
+
+    public bool CanParse(string fileName, ParserOptions options) =>
+        CanParse(fileName)
+        && (options.FixedWidthColumns.Count > 0
+            || Path.GetExtension(fileName).Equals(DataExtension, StringComparison.OrdinalIgnoreCase));
+
+    /// <summary>
+    /// Read a layout from "start:length:name" entries, as passed in query strings, and validate it.
+    /// </summary>
+    public static Result<IReadOnlyList<FixedWidthColumn>> ParseLayout(IEnumerable<string>? entries)
+    {
+        var columns = new List<FixedWidthColumn>();
+
+        foreach (var entry in entries ?? [])
+        {
+            var parts = entry.Split(':', 3);
+            if (parts.Length != 3 || !int.TryParse(parts[0], out var start) || !int.TryParse(parts[1], out var length))
+                return Result.Failure<IReadOnlyList<FixedWidthColumn>>($"'{entry}' is not a column as start:length:name");
+
+            columns.Add(new FixedWidthColumn(parts[2].Trim(), start, length));
+        }
+
+        var validation = ValidateLayout(columns);
+        return validation.IsSuccess
+            ? Result.Success<IReadOnlyList<FixedWidthColumn>>(columns)
+            : Result.Failure<IReadOnlyList<FixedWidthColumn>>(validation.Error);
+    }
+
+    /// <summary>
+    /// Check that every column has a name, a position and a width, and that columns neither share names nor overlap.
+    /// </summary>
+    public static Result ValidateLayout(IReadOnlyList<FixedWidthColumn> columns)
+    {
+        var invalid = columns.FirstOrDefault(c => string.IsNullOrWhiteSpace(c.Name) || c.Start < 0 || c.Length <= 0);
+        if (invalid is not null)
+            return Result.Failure($"Fixed-width column '{invalid.Name}' needs a name, a start of 0 or more and a length above 0");
+
+        var duplicate = columns.GroupBy(c => c.Name).FirstOrDefault(g => g.Count() > 1);
+        if (duplicate is not null)
+            return Result.Failure($"Fixed-width column '{duplicate.Key}' is defined more than once");
+
+        var ordered = columns.OrderBy(c => c.Start).ToList();
+        for (var i = 1; i < ordered.Count; i++)
+        {
+            if (ordered[i].Start < ordered[i - 1].Start + ordered[i - 1].Length)
+                return Result.Failure($"Fixed-width columns '{ordered[i - 1].Name}' and '{ordered[i].Name}' overlap");
+        }
+
+        return Result.Success();
+    }
+
+    public async Task<DetectedSchema> DetectSchemaAsync(
+        Stream stream,
+        ParserOptions options,
+        CancellationToken cancellationToken = default)
+    {
+        var encoding = await DetectEncodingAsync(stream, options, cancellationToken);
+        var layout = GetLayout(options);
+        var sampleValues = layout.ToDictionary(c => c.Name, _ => new List<string>());
+
+        // Sample first 100 lines for type detection, count the rest
+        var rowCount = 0;
+        await foreach (var line in ReadLinesAsync(stream, encoding, options, cancellationToken))
+        {
+            if (rowCount++ >= 100)
+                continue;
+
+            foreach (var column in layout)
+            {
+                var value = Cut(line, column);
+                if (!string.IsNullOrWhiteSpace(value))
+                    sampleValues[column.Name].Add(value);
+            }
+        }
+
+        var columns = layout
+            .Select((c, index) => new DetectedColumn(c.Name, index, DetectColumnType(sampleValues[c.Name])))
+            .ToList();
+
+        stream.Position = 0;
+
+        return new DetectedSchema(columns, rowCount, new DetectedFormat(HasHeader: false, Encoding: encoding));
+    }
+
+    public async Task<IReadOnlyList<ParsedRow>> GetPreviewAsync(
+        Stream stream,
+        ParserOptions options,
+        CancellationToken cancellationToken = default)
+    {
+        var rows = new List<ParsedRow>();
+        var count = 0;
+
+        await foreach (var row in ParseAsync(stream, options, cancellationToken))
+        {
+            rows.Add(row);
+            count++;
+            if (count >= options.PreviewRows)
+                break;
+        }
+
+        stream.Position = 0;
+        return rows;
+    }
+
+    public async IAsyncEnumerable<ParsedRow> ParseAsync(
+        Stream stream,
+        ParserOptions options,
+        [EnumeratorCancellation] CancellationToken cancellationToken = default)
+    {
+        var encoding = await DetectEncodingAsync(stream, options, cancellationToken);
+        var layout = GetLayout(options);
+
+        // Retyped columns are converted by the column mapping from the raw text
+        var keepRaw = layout.Select(c => options.GetTypeOverride(c.Name) is not null).ToArray();
+
+        var rowNumber = 0;
+        await foreach (var line in ReadLinesAsync(stream, encoding, options, cancellationToken))
+        {
+            if (cancellationToken.IsCancellationRequested)
+                yield break;
+
+            rowNumber++;
+            var data = new Dictionary<string, object?>();
+            var rawData = new Dictionary<string, string?>();
+            for (var i = 0; i < layout.Count; i++)
+            {
+                var value = Cut(line, layout[i]);
+                data[layout[i].Name] = keepRaw[i] ? value : ParseValue(value);
+                rawData[layout[i].Name] = value;
+            }
+
+            yield return new ParsedRow(data, rowNumber, true, RawData: rawData);
+        }
+    }
+
+    /// <summary>
+    /// The columns from the options, or a single column holding the whole line.
+    /// </summary>
+    private static IReadOnlyList<FixedWidthColumn> GetLayout(ParserOptions options) =>
+        options.FixedWidthColumns.Count > 0
+            ? options.FixedWidthColumns
+            : [new FixedWidthColumn(LineColumn, 0, int.MaxValue)];
+
+    /// <summary>
+    /// Use the encoding from the options, or guess it from the start of the file as for delimited files.
+    /// </summary>
+    private static async Task<string> DetectEncodingAsync(Stream stream, ParserOptions options, CancellationToken cancellationToken)
+    {
+        if (options.Encoding is not null)
+            return options.Encoding.ToLowerInvariant();
+
+        var sample = new byte[FormatSniffer.SampleSize];
+        var read = await stream.ReadAtLeastAsync(sample, sample.Length, throwOnEndOfStream: false, cancellationToken);
+        stream.Position = 0;
+
+        return FormatSniffer.DetectEncoding(sample.AsSpan(0, read));
+    }
+
+    /// <summary>
+    /// Data lines of the file: skipped lines and blank lines are left out.
+    /// </summary>
+    private static async IAsyncEnumerable<string> ReadLinesAsync(
+        Stream stream,
+        string encoding,
+        ParserOptions options,
+        [EnumeratorCancellation] CancellationToken cancellationToken)
+    {
+        using var reader = new StreamReader(stream, TextEncodings.Get(encoding), leaveOpen: true);
+
+        var skip = options.HeaderRowOffset + options.SkipRows;
+        while (await reader.ReadLineAsync(cancellationToken) is { } line)
+        {
+            if (skip > 0)
+            {
+                skip--;
+                continue;
+            }
+
+            if (!string.IsNullOrWhiteSpace(line))
+                yield return line;
+        }
+    }
+
+    /// <summary>
+    /// Text of a column in a line, trimmed; lines shorter than the layout leave the missing columns empty.
+    /// </summary>
+    private static string? Cut(string line, FixedWidthColumn column)
+    {
+        if (column.Start >= line.Length)
+            return null;
+
+        var length = Math.Min(column.Length, line.Length - column.Start);
+        var value = line.Substring(column.Start, length).Trim();
+
+        return value.Length == 0 ? null : value;
+    }
+
+    private static string DetectColumnType(List<string> samples)
+    {
+        if (samples.Count == 0)
+            return DataTypes.String;
+
+        var types = samples.Select(DataTypes.Detect).ToList();
+
+        var mostCommon = types
+            .GroupBy(t => t)
+            .OrderByDescending(g => g.Count())
+            .First()
+            .Key;
+
+        var percentage = types.Count(t => t == mostCommon) / (double)types.Count;
+        return percentage >= 0.8 ? mostCommon : DataTypes.String;
+    }
+
+    private static object? ParseValue(string? value)
+    {
+        if (string.IsNullOrWhiteSpace(value))
+            return null;
+
+        if (int.TryParse(value, out var intVal))
+            return intVal;
+
+        if (decimal.TryParse(value, out var decVal))
+            return decVal;
+
+        if (bool.TryParse(value, out var boolVal))
+            return boolVal;
+
+        if (DateTime.TryParse(value, out var dateVal))
+            return dateVal;
+
+        return value;
+    }
+}
@@ -0,0 +1,232 @@
+namespace QuickIngestFile.Application.Parsing;
+
+using System.Buffers;
+using System.Text;
+using System.Text.Unicode;
+using QuickIngestFile.Domain.Entities;
+
+/// <summary>
+/// Layout of a delimited text file.
+/// </summary>
+public sealed record TextFormat(
+    string Encoding,
+    char Delimiter,
+    char Quote,
+    bool HasHeader);
+
+/// <summary>
+/// Guesses the encoding, delimiter, quote character and header row of a delimited text file
+/// from a sample of its first bytes. Anything set explicitly in the options is kept as is.
+/// </summary>
+public static class FormatSniffer
+{
+    /// <summary>
+    /// Number of bytes to read from the start of a file for sniffing.
+    /// </summary>
+    public const int SampleSize = 64 * 1024;
+
+    // Lines compared when looking for a consistent delimiter and a header row
+    private const int SampleLines = 50;
+
+    // In order of preference when counts tie
+    private static readonly char[] Delimiters = [',', ';', '\t', '|'];
+    private static readonly char[] Quotes = ['"', '\''];
+
+    private static ReadOnlySpan<byte> Utf8Preamble => [0xEF, 0xBB, 0xBF];
+
+    /// <summary>
+    /// Resolve the layout of a file from its first bytes.
+    /// <paramref name="isWholeFile"/> tells whether the sample holds the entire file,
+    /// otherwise its last line is treated as cut off and ignored.
+    /// </summary>
+    public static TextFormat Sniff(ReadOnlySpan<byte> sample, ParserOptions options, bool isWholeFile)
+    {
+        var encoding = options.Encoding?.ToLowerInvariant() ?? DetectEncoding(sample);
+
+        var lines = ReadLines(sample, encoding, isWholeFile)
+            .Skip(options.HeaderRowOffset)
+            .Where(l => l.Length > 0)
+            .Take(SampleLines)
+            .ToList();
+
+        var quote = options.Quote ?? DetectQuote(lines);
+        var delimiter = options.Delimiter ?? DetectDelimiter(lines, quote);
+        var hasHeader = options.HasHeader ?? LooksLikeHeader(lines.Select(l => SplitLine(l, delimiter, quote)).ToList());
+
+        return new TextFormat(encoding, delimiter, quote, hasHeader);
+    }
+
+    /// <summary>
+    /// A BOM means UTF-8; otherwise valid UTF-8 is taken as such and anything else as Windows-1252,
+    /// the usual encoding of spreadsheet exports on Windows (and a superset of Latin-1 for text).
+    /// </summary>
+    public static string DetectEncoding(ReadOnlySpan<byte> sample)
+    {
+        if (sample.StartsWith(Utf8Preamble))
+            return TextEncodings.Utf8Bom;
+
+        return IsValidUtf8(sample) ? TextEncodings.Utf8 : TextEncodings.Windows1252;
+    }
+
+    /// <summary>
+    /// Decide whether the first row is a header: its values are distinct non-empty text,
+    /// and either a column below it holds typed values or the values never repeat in the data.
+    /// </summary>
+    public static bool LooksLikeHeader(IReadOnlyList<IReadOnlyList<string?>> rows)
+    {
+        if (rows.Count == 0 || rows[0].Count == 0)
+            return false;
+
+        var header = rows[0];
+        if (header.Any(v => string.IsNullOrWhiteSpace(v) || DataTypes.Detect(v) != DataTypes.String))
+            return false;
+
+        if (header.Distinct(StringComparer.OrdinalIgnoreCase).Count() != header.Count)
+            return false;
+
+        var data = rows.Skip(1).ToList();
+        if (data.Count == 0)
+            return true;
+
+        for (var col = 0; col < header.Count; col++)
+        {
+            var types = data
+                .Select(r => col < r.Count ? r[col] : null)
+                .Where(v => !string.IsNullOrWhiteSpace(v))
+                .Select(DataTypes.Detect)
+                .ToList();
+
+            if (types.Count > 0 && types.Count(t => t != DataTypes.String) * 2 > types.Count)
+                return true;
+        }
+
+        return Enumerable.Range(0, header.Count).All(col =>
+            data.All(r => col >= r.Count || !string.Equals(r[col]?.Trim(), header[col]!.Trim(), StringComparison.OrdinalIgnoreCase)));
+    }
+
+    private static bool IsValidUtf8(ReadOnlySpan<byte> sample)
+    {
+        // The sample may end in the middle of a character, so it is not decoded as a final block
+        var buffer = ArrayPool<char>.Shared.Rent(sample.Length);
+        try
+        {
+            var status = Utf8.ToUtf16(sample, buffer, out _, out _, replaceInvalidSequences: false, isFinalBlock: false);
+            return status != OperationStatus.InvalidData;
+        }
+        finally
+        {
+            ArrayPool<char>.Shared.Return(buffer);
+        }
+    }
+
+    private static IEnumerable<string> ReadLines(ReadOnlySpan<byte> sample, string encoding, bool isWholeFile)
+    {
+        if (encoding == TextEncodings.Utf8Bom && sample.StartsWith(Utf8Preamble))
+            sample = sample[Utf8Preamble.Length..];
+
+        var lines = TextEncodings.Get(encoding).GetString(sample).Split('\n');
+        var count = isWholeFile || lines.Length == 1 ? lines.Length : lines.Length - 1;
+
+        return lines.Take(count).Select(l => l.TrimEnd('\r'));
+    }
+
+    /// <summary>
+    /// The quote character is the one that most often opens or closes a field.
+    /// </summary>
+    private static char DetectQuote(IReadOnlyList<string> lines)
+    {
+        return Quotes
+            .Select(quote => (Quote: quote, Count: lines.Sum(l => CountFieldQuotes(l, quote))))
+            .OrderByDescending(q => q.Count)
+            .First().Quote;
+    }
+
+    private static int CountFieldQuotes(string line, char quote)
+    {
+        var count = 0;
+        for (var i = 0; i < line.Length; i++)
+        {
+            if (line[i] != quote)
+                continue;
+
+            var opensField = i == 0 || Delimiters.Contains(line[i - 1]);
+            var closesField = i == line.Length - 1 || Delimiters.Contains(line[i + 1]);
+            if (opensField || closesField)
+                count++;
+        }
+        return count;
+    }
+
+    /// <summary>
+    /// The delimiter is the candidate found the same number of times on the most lines,
+    /// preferring more fields and then the order of <see cref="Delimiters"/>.
+    /// </summary>
+    private static char DetectDelimiter(IReadOnlyList<string> lines, char quote)
+    {
+        var best = Delimiters[0];
+        var bestScore = (Lines: 0, Fields: 0);
+
+        foreach (var delimiter in Delimiters)
+        {
+            var mode = lines
+                .Select(l => SplitLine(l, delimiter, quote).Count - 1)
+                .Where(c => c > 0)
+                .GroupBy(c => c)
+                .OrderByDescending(g => g.Count())
+                .ThenByDescending(g => g.Key)
+                .FirstOrDefault();
+
+            if (mode is null)
+                continue;
+
+            var score = (Lines: mode.Count(), Fields: mode.Key);
+            if (score.Lines > bestScore.Lines || (score.Lines == bestScore.Lines && score.Fields > bestScore.Fields))
+            {
+                best = delimiter;
+                bestScore = score;
+            }
+        }
+
+        return best;
+    }
+
+    /// <summary>
+    /// Split a line into fields, honouring quoted fields and doubled quotes inside them.
+    /// </summary>
+    private static IReadOnlyList<string?> SplitLine(string line, char delimiter, char quote)
+    {
+        var fields = new List<string?>();
+        var field = new StringBuilder();
+        var inQuotes = false;
+
+        for (var i = 0; i < line.Length; i++)
+        {
+            var c = line[i];
+            if (inQuotes)
+            {
+                if (c != quote)
+                    field.Append(c);
+                else if (i + 1 < line.Length && line[i + 1] == quote)
+                    field.Append(line[++i]);
+                else
+                    inQuotes = false;
+            }
+            else if (c == quote && field.Length == 0)
+            {
+                inQuotes = true;
+            }
+            else if (c == delimiter)
+            {
+                fields.Add(field.ToString());
+                field.Clear();
+            }
+            else
+            {
+                field.Append(c);
+            }
+        }
+
+        fields.Add(field.ToString());
+        return fields;
+    }
+}
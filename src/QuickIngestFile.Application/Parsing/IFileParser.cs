@@ -16,6 +16,12 @@ public interface IFileParser
     /// </summary>
     bool CanParse(string fileName);
 
+    /// <summary>
+    /// Check if this parser reads the given file with these options.
+    /// Only needed by parsers that share extensions with another and are picked by an option.
+    /// </summary>
+    bool CanParse(string fileName, ParserOptions options) => CanParse(fileName);
+
     /// <summary>
     /// Analyze file and detect schema (columns and types).
     /// </summary>
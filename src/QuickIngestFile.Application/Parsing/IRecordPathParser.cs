@@ -0,0 +1,15 @@
+namespace QuickIngestFile.Application.Parsing;
+
+/// <summary>
+/// Parser for tree-shaped formats where records are the repeated elements at a path, such as XML.
+/// The path is set in <see cref="ParserOptions.RecordPath"/>, or detected when left empty.
+/// </summary>
+public interface IRecordPathParser : IFileParser
+{
+    /// <summary>
+    /// List the element paths of the file in document order, with how often each occurs.
+    /// </summary>
+    Task<IReadOnlyList<RecordPathInfo>> GetRecordPathsAsync(
+        Stream stream,
+        CancellationToken cancellationToken = default);
+}
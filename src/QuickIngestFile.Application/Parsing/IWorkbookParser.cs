@@ -0,0 +1,14 @@
+namespace QuickIngestFile.Application.Parsing;
+
+/// <summary>
+/// Parser for file formats that hold several sheets, such as Excel workbooks.
+/// </summary>
+public interface IWorkbookParser : IFileParser
+{
+    /// <summary>
+    /// List the sheets of the workbook in order, with their used row counts.
+    /// </summary>
+    Task<IReadOnlyList<SheetInfo>> GetSheetsAsync(
+        Stream stream,
+        CancellationToken cancellationToken = default);
+}
@@ -0,0 +1,328 @@
+namespace QuickIngestFile.Application.Parsing;
+
+using System.Runtime.CompilerServices;
+using System.Text;
+using System.Text.Json;
+using QuickIngestFile.Domain.Entities;
+
+/// <summary>
+/// Parser for JSON arrays of objects and newline-delimited JSON (one object per line).
+/// Records are streamed; nested objects are flattened into dotted column names such as "customer.address.city".
+/// Arrays are kept as JSON text, or with <see cref="ParserOptions.ExplodeArrays"/> become one row per element.
+/// </summary>
+public sealed class JsonFileParser : IFileParser
+{
+    // Records sampled for column names and types
+    private const int SampleSize = 100;
+
+    public string[] SupportedExtensions => [".json", ".ndjson", ".jsonl"];
+
+    public bool CanParse(string fileName)
+    {
+        var extension = Path.GetExtension(fileName);
+        return SupportedExtensions.Contains(extension, StringComparer.OrdinalIgnoreCase);
+    }
+
+    public async Task<DetectedSchema> DetectSchemaAsync(
+        Stream stream,
+        ParserOptions options,
+        CancellationToken cancellationToken = default)
+    {
+        // Records do not all carry the same keys, so columns are merged across the sample in order of appearance
+        var sampleValues = new Dictionary<string, List<object>>();
+        var rowCount = 0;
+
+        await foreach (var row in ReadRowsAsync(stream, options.ExplodeArrays, cancellationToken))
+        {
+            if (rowCount++ >= SampleSize || row.Data is null)
+                continue;
+
+            foreach (var (name, value) in row.Data)
+            {
+                if (!sampleValues.TryGetValue(name, out var samples))
+                    sampleValues[name] = samples = [];
+
+                if (value is not null)
+                    samples.Add(value);
+            }
+        }
+
+        var columns = sampleValues
+            .Select((column, index) => new DetectedColumn(column.Key, index, DetectColumnType(column.Value)))
+            .ToList();
+
+        stream.Position = 0;
+
+        return new DetectedSchema(columns, rowCount);
+    }
+
+    public async Task<IReadOnlyList<ParsedRow>> GetPreviewAsync(
+        Stream stream,
+        ParserOptions options,
+        CancellationToken cancellationToken = default)
+    {
+        var rows = new List<ParsedRow>();
+        var count = 0;
+
+        await foreach (var row in ParseAsync(stream, options, cancellationToken))
+        {
+            rows.Add(row);
+            count++;
+            if (count >= options.PreviewRows)
+                break;
+        }
+
+        stream.Position = 0;
+        return rows;
+    }
+
+    public async IAsyncEnumerable<ParsedRow> ParseAsync(
+        Stream stream,
+        ParserOptions options,
+        [EnumeratorCancellation] CancellationToken cancellationToken = default)
+    {
+        var rowNumber = 0;
+
+        await foreach (var row in ReadRowsAsync(stream, options.ExplodeArrays, cancellationToken, keepRaw: options.GetTypeOverride))
+        {
+            if (cancellationToken.IsCancellationRequested)
+                yield break;
+
+            rowNumber++;
+
+            yield return row.Data is not null
+                ? new ParsedRow(row.Data, rowNumber, true, RawData: row.RawData)
+                : new ParsedRow([], rowNumber, false, $"Row {rowNumber}: {row.Error}", new Dictionary<string, string?> { ["record"] = row.Text });
+        }
+    }
+
+    /// <summary>
+    /// Read the records of the file as flattened rows, with the source text of each value.
+    /// Records that are not JSON objects come back with an error.
+    /// Columns for which <paramref name="keepRaw"/> returns a type keep their text, to be converted by the column mapping.
+    /// </summary>
+    private static async IAsyncEnumerable<FlatRow> ReadRowsAsync(
+        Stream stream,
+        bool explodeArrays,
+        [EnumeratorCancellation] CancellationToken cancellationToken,
+        Func<string, string?>? keepRaw = null)
+    {
+        await foreach (var record in ReadRecordsAsync(stream, cancellationToken))
+        {
+            if (record.Error is not null)
+            {
+                yield return new FlatRow(null, record.Text, record.Error);
+                continue;
+            }
+
+            if (record.Value.ValueKind != JsonValueKind.Object)
+            {
+                yield return new FlatRow(null, record.Value.GetRawText(), $"expected a JSON object but found {record.Value.ValueKind}");
+                continue;
+            }
+
+            List<Dictionary<string, JsonElement>> rows = [[]];
+            foreach (var property in record.Value.EnumerateObject())
+            {
+                rows = Flatten(rows, property.Name, property.Value, explodeArrays);
+            }
+
+            foreach (var values in rows)
+            {
+                var data = values.ToDictionary(
+                    v => v.Key,
+                    v => keepRaw?.Invoke(v.Key) is not null ? GetText(v.Value) : ToValue(v.Value));
+                var rawData = values.ToDictionary(v => v.Key, v => GetText(v.Value));
+
+                yield return new FlatRow(data, RawData: rawData);
+            }
+        }
+    }
+
+    /// <summary>
+    /// Stream the top-level records: the elements of an array, each line of newline-delimited JSON,
+    /// or a single document when the file holds one object spread over several lines.
+    /// </summary>
+    private static async IAsyncEnumerable<JsonRecord> ReadRecordsAsync(
+        Stream stream,
+        [EnumeratorCancellation] CancellationToken cancellationToken)
+    {
+        var layout = await SniffLayoutAsync(stream, cancellationToken);
+
+        if (layout == JsonLayout.Array)
+        {
+            await foreach (var element in JsonSerializer.DeserializeAsyncEnumerable<JsonElement>(stream, cancellationToken: cancellationToken))
+            {
+                yield return new JsonRecord(element);
+            }
+            yield break;
+        }
+
+        if (layout == JsonLayout.Document)
+        {
+            using var document = await JsonDocument.ParseAsync(stream, cancellationToken: cancellationToken);
+            yield return new JsonRecord(document.RootElement.Clone());
+            yield break;
+        }
+
+        using var reader = new StreamReader(stream, Encoding.UTF8, leaveOpen: true);
+        while (await reader.ReadLineAsync(cancellationToken) is { } line)
+        {
+            if (string.IsNullOrWhiteSpace(line))
+                continue;
+
+            JsonRecord record;
+            try
+            {
+                using var document = JsonDocument.Parse(line);
+                record = new JsonRecord(document.RootElement.Clone());
+            }
+            catch (JsonException ex)
+            {
+                record = new JsonRecord(default, line, $"invalid JSON: {ex.Message}");
+            }
+
+            yield return record;
+        }
+    }
+
+    /// <summary>
+    /// Tell arrays from line-delimited records by the first character, and a single multi-line object
+    /// from line-delimited ones by whether its first line is a complete value.
+    /// </summary>
+    private static async Task<JsonLayout> SniffLayoutAsync(Stream stream, CancellationToken cancellationToken)
+    {
+        using var reader = new StreamReader(stream, Encoding.UTF8, leaveOpen: true);
+
+        // Arrays are decided on the first character, so a minified array is never read as one line
+        while (reader.Peek() is var next && next >= 0 && char.IsWhiteSpace((char)next))
+        {
+            reader.Read();
+        }
+
+        var isArray = reader.Peek() == '[';
+        var firstLine = isArray ? null : await reader.ReadLineAsync(cancellationToken);
+        stream.Position = 0;
+
+        if (isArray)
+            return JsonLayout.Array;
+
+        if (firstLine is null)
+            return JsonLayout.Lines;
+
+        try
+        {
+            using var _ = JsonDocument.Parse(firstLine);
+            return JsonLayout.Lines;
+        }
+        catch (JsonException)
+        {
+            return JsonLayout.Document;
+        }
+    }
+
+    /// <summary>
+    /// Add a value to every row built so far. Objects add a column per property under the dotted name;
+    /// exploded arrays multiply the rows, one copy per element.
+    /// </summary>
+    private static List<Dictionary<string, JsonElement>> Flatten(
+        List<Dictionary<string, JsonElement>> rows,
+        string name,
+        JsonElement value,
+        bool explodeArrays)
+    {
+        switch (value.ValueKind)
+        {
+            case JsonValueKind.Object:
+                foreach (var property in value.EnumerateObject())
+                {
+                    rows = Flatten(rows, $"{name}.{property.Name}", property.Value, explodeArrays);
+                }
+                return rows;
+
+            case JsonValueKind.Array when explodeArrays && value.GetArrayLength() > 0:
+                var exploded = new List<Dictionary<string, JsonElement>>();
+                foreach (var row in rows)
+                {
+                    foreach (var element in value.EnumerateArray())
+                    {
+                        exploded.AddRange(Flatten([new Dictionary<string, JsonElement>(row)], name, element, explodeArrays));
+                    }
+                }
+                return exploded;
+
+            default:
+                foreach (var row in rows)
+                {
+                    row[name] = value;
+                }
+                return rows;
+        }
+    }
+
+    private static object? ToValue(JsonElement value) => value.ValueKind switch
+    {
+        JsonValueKind.String when value.TryGetDateTime(out var date) => date,
+        JsonValueKind.String => value.GetString(),
+        JsonValueKind.Number when value.TryGetInt32(out var i) => i,
+        JsonValueKind.Number when value.TryGetDecimal(out var d) => d,
+        JsonValueKind.Number => value.GetDouble(),
+        JsonValueKind.True => true,
+        JsonValueKind.False => false,
+        JsonValueKind.Array => value.GetRawText(),
+        _ => null
+    };
+
+    private static string? GetText(JsonElement value) => value.ValueKind switch
+    {
+        JsonValueKind.Null or JsonValueKind.Undefined => null,
+        JsonValueKind.String => value.GetString(),
+        _ => value.GetRawText()
+    };
+
+    /// <summary>
+    /// Type of a column from the values sampled, which JSON already types.
+    /// Whole and fractional numbers together make a decimal column; other mixes fall back to text below 80% agreement.
+    /// </summary>
+    private static string DetectColumnType(List<object> samples)
+    {
+        if (samples.Count == 0)
+            return DataTypes.String;
+
+        var types = samples.Select(value => value switch
+        {
+            int => DataTypes.Integer,
+            decimal or double => DataTypes.Decimal,
+            bool => DataTypes.Boolean,
+            DateTime => DataTypes.DateTime,
+            _ => DataTypes.String
+        }).ToList();
+
+        if (types.All(t => t is DataTypes.Integer or DataTypes.Decimal))
+            return types.Contains(DataTypes.Decimal) ? DataTypes.Decimal : DataTypes.Integer;
+
+        var mostCommon = types
+            .GroupBy(t => t)
+            .OrderByDescending(g => g.Count())
+            .First()
+            .Key;
+
+        var percentage = types.Count(t => t == mostCommon) / (double)types.Count;
+        return percentage >= 0.8 ? mostCommon : DataTypes.String;
+    }
+
+    private enum JsonLayout
+    {
+        Array,
+        Lines,
+        Document
+    }
+
+    private readonly record struct JsonRecord(JsonElement Value, string? Text = null, string? Error = null);
+
+    private sealed record FlatRow(
+        Dictionary<string, object?>? Data,
+        string? Text = null,
+        string? Error = null,
+        Dictionary<string, string?>? RawData = null);
+}
@@ -1,33 +1,118 @@
 namespace QuickIngestFile.Application.Parsing;
 
+using QuickIngestFile.Domain.Entities;
+
 /// <summary>
 /// Options for configuring file parsing behavior.
 /// </summary>
 public sealed class ParserOptions
 {
-    public char Delimiter { get; set; } = ';';
-    public bool HasHeader { get; set; } = false;
+    // Layout settings left null are detected from the file content
+    public char? Delimiter { get; set; }
+    public char? Quote { get; set; }
+    public bool? HasHeader { get; set; }
+
+    /// <summary>
+    /// Text encoding of delimited files, one of <see cref="TextEncodings.All"/>.
+    /// </summary>
+    public string? Encoding { get; set; }
+
+    /// <summary>
+    /// Rows above the header (titles, notes) that are not part of the table.
+    /// </summary>
+    public int HeaderRowOffset { get; set; } = 0;
+
+    /// <summary>
+    /// Rows to skip after the header before the data starts.
+    /// </summary>
     public int SkipRows { get; set; } = 0;
+
     public int BatchSize { get; set; } = 1000;
     public string? SheetName { get; set; }
+
+    /// <summary>
+    /// Workbook sheets to read one after another into a single import.
+    /// When empty, <see cref="SheetName"/> (or the first sheet) is read.
+    /// </summary>
+    public IReadOnlyList<string> SheetNames { get; set; } = [];
+
+    /// <summary>
+    /// Arrays in JSON records become one row per element instead of JSON text.
+    /// </summary>
+    public bool ExplodeArrays { get; set; }
+
+    /// <summary>
+    /// Element whose occurrences are the records of an XML file: an absolute path such as "/Orders/Order",
+    /// or element names matched at any depth such as "Order". Detected when not set.
+    /// </summary>
+    public string? RecordPath { get; set; }
+
+    /// <summary>
+    /// Column layout of a fixed-width text file. When set, text files are cut at these positions instead of
+    /// split on a delimiter.
+    /// </summary>
+    public IReadOnlyList<FixedWidthColumn> FixedWidthColumns { get; set; } = [];
+
+    /// <summary>
+    /// Path of the file to read inside a .zip archive. When not set, the first file of a supported type is read.
+    /// </summary>
+    public string? ArchiveEntry { get; set; }
+
     public int PreviewRows { get; set; } = 10;
+
+    /// <summary>
+    /// User-defined column mapping (rename, ignore, retype) applied during import.
+    /// </summary>
+    public IReadOnlyList<ColumnMapping> ColumnMappings { get; set; } = [];
+
+    /// <summary>
+    /// Get the type override for a column, if the mapping defines one.
+    /// </summary>
+    public string? GetTypeOverride(string columnName) =>
+        ColumnMappings.FirstOrDefault(m => m.Name == columnName)?.DataType;
 }
 
+/// <summary>
+/// Mapping for a single source column, keyed by its detected name.
+/// <see cref="Rules"/> are checked against the converted values by <see cref="RowValidator"/>.
+/// </summary>
+public sealed record ColumnMapping(
+    string Name,
+    string? DisplayName = null,
+    bool IsIgnored = false,
+    string? DataType = null,
+    ColumnRules? Rules = null);
+
 /// <summary>
 /// Result of parsing a row - generic with dictionary data.
+/// Parsers put the field text as it was in the file in <see cref="RawData"/>, so rows rejected at any stage
+/// can be reported back as they were.
 /// </summary>
 public sealed record ParsedRow(
     Dictionary<string, object?> Data,
     int RowNumber,
     bool IsSuccess,
-    string? ErrorMessage = null);
+    string? ErrorMessage = null,
+    IReadOnlyDictionary<string, string?>? RawData = null);
 
 /// <summary>
-/// Detected schema from file analysis.
+/// Detected schema from file analysis, with the layout the file was read with.
 /// </summary>
 public sealed record DetectedSchema(
     IReadOnlyList<DetectedColumn> Columns,
-    int EstimatedRowCount);
+    int EstimatedRowCount,
+    DetectedFormat? Format = null);
+
+/// <summary>
+/// Layout a file was read with, as set in the options or guessed from its content.
+/// Delimiter, quote and encoding only apply to delimited text files, the record path to XML files.
+/// </summary>
+public sealed record DetectedFormat(
+    bool HasHeader,
+    char? Delimiter = null,
+    char? Quote = null,
+    string? Encoding = null,
+    string? RecordPath = null);
 
 /// <summary>
 /// Detected column information.
@@ -36,3 +121,24 @@ public sealed record DetectedColumn(
     string Name,
     int Index,
     string DetectedType);
+
+/// <summary>
+/// A sheet of a workbook and the number of rows it uses.
+/// </summary>
+public sealed record SheetInfo(
+    string Name,
+    int RowCount);
+
+/// <summary>
+/// A file inside an archive and its uncompressed size, when the archive records it.
+/// </summary>
+public sealed record ArchiveEntryInfo(
+    string Name,
+    long? Size);
+
+/// <summary>
+/// An element path of a tree-shaped file and the number of elements at it.
+/// </summary>
+public sealed record RecordPathInfo(
+    string Path,
+    int Count);
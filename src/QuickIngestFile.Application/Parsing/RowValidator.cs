@@ -0,0 +1,206 @@
+namespace QuickIngestFile.Application.Parsing;
+
+using System.Globalization;
+using System.Text.RegularExpressions;
+using QuickIngestFile.Domain.Common;
+using QuickIngestFile.Domain.Entities;
+
+/// <summary>
+/// Checks parsed rows against the validation rules of their columns and counts violations per rule.
+/// Keeps the values seen in unique columns, so one instance validates one file, row by row.
+/// </summary>
+public sealed class RowValidator
+{
+    public const string Required = "required";
+    public const string Pattern = "pattern";
+    public const string Min = "min";
+    public const string Max = "max";
+    public const string AllowedValues = "allowedValues";
+    public const string MaxLength = "maxLength";
+    public const string Unique = "unique";
+
+    private static readonly TimeSpan PatternTimeout = TimeSpan.FromMilliseconds(100);
+
+    private readonly List<ColumnValidator> _columns;
+    private readonly Dictionary<(string Column, string Rule), int> _violations = [];
+
+    private RowValidator(List<ColumnValidator> columns)
+    {
+        _columns = columns;
+    }
+
+    /// <summary>
+    /// Build a validator for the rules in a column mapping. Ignored columns are not validated.
+    /// </summary>
+    public static Result<RowValidator> Create(IReadOnlyList<ColumnMapping> mappings)
+    {
+        var columns = new List<ColumnValidator>();
+
+        foreach (var mapping in mappings.Where(m => m.Rules is not null && !m.IsIgnored))
+        {
+            var rules = mapping.Rules!;
+
+            Regex? pattern = null;
+            if (!string.IsNullOrEmpty(rules.Pattern))
+            {
+                try
+                {
+                    pattern = new Regex($"^(?:{rules.Pattern})$", RegexOptions.CultureInvariant, PatternTimeout);
+                }
+                catch (ArgumentException)
+                {
+                    return Result.Failure<RowValidator>($"Invalid pattern for column '{mapping.Name}': {rules.Pattern}");
+                }
+            }
+
+            IComparable? min = null, max = null;
+            if (rules.Min is not null && (min = ParseBound(rules.Min)) is null)
+                return Result.Failure<RowValidator>($"Minimum for column '{mapping.Name}' must be a number or a date: {rules.Min}");
+
+            if (rules.Max is not null && (max = ParseBound(rules.Max)) is null)
+                return Result.Failure<RowValidator>($"Maximum for column '{mapping.Name}' must be a number or a date: {rules.Max}");
+
+            if (rules.MaxLength is < 0)
+                return Result.Failure<RowValidator>($"Maximum length for column '{mapping.Name}' cannot be negative");
+
+            var allowed = rules.AllowedValues is { Count: > 0 }
+                ? new HashSet<string>(rules.AllowedValues.Select(v => v.Trim()), StringComparer.OrdinalIgnoreCase)
+                : null;
+
+            columns.Add(new ColumnValidator(mapping.Name, rules, pattern, min, max, allowed,
+                rules.Unique ? new Dictionary<string, int>(StringComparer.Ordinal) : null));
+        }
+
+        return Result.Success(new RowValidator(columns));
+    }
+
+    /// <summary>
+    /// Validate a successfully parsed row. A row that breaks any rule is returned as failed,
+    /// with one message per broken rule.
+    /// </summary>
+    public ParsedRow Validate(ParsedRow row)
+    {
+        if (_columns.Count == 0 || !row.IsSuccess)
+            return row;
+
+        List<string>? messages = null;
+
+        foreach (var column in _columns)
+        {
+            row.Data.TryGetValue(column.Name, out var value);
+
+            foreach (var (rule, message) in column.Check(value, row.RowNumber))
+            {
+                (messages ??= []).Add(message);
+                _violations[(column.Name, rule)] = _violations.GetValueOrDefault((column.Name, rule)) + 1;
+            }
+        }
+
+        if (messages is null)
+            return row;
+
+        return row with
+        {
+            IsSuccess = false,
+            ErrorMessage = $"Row {row.RowNumber}: {string.Join("; ", messages)}"
+        };
+    }
+
+    /// <summary>
+    /// Rows rejected so far by each rule, most frequent first.
+    /// </summary>
+    public IReadOnlyList<RuleViolationCount> GetViolations() =>
+        _violations
+            .Select(kv => new RuleViolationCount(kv.Key.Column, kv.Key.Rule, kv.Value))
+            .OrderByDescending(v => v.Count)
+            .ThenBy(v => v.Column, StringComparer.Ordinal)
+            .ToList();
+
+    /// <summary>
+    /// Numbers compare as decimals and dates as dates; anything else cannot be bounded.
+    /// </summary>
+    private static IComparable? ParseBound(string text)
+    {
+        if (decimal.TryParse(text.Trim(), NumberStyles.Number, CultureInfo.InvariantCulture, out var number))
+            return number;
+
+        if (DateTime.TryParse(text.Trim(), CultureInfo.InvariantCulture, DateTimeStyles.None, out var date))
+            return date;
+
+        return null;
+    }
+
+    private static IComparable? ToComparable(object value, IComparable bound) => (value, bound) switch
+    {
+        (int or long or double or decimal, decimal) => Convert.ToDecimal(value, CultureInfo.InvariantCulture),
+        (DateTime, DateTime) => (DateTime)value,
+        (string s, decimal) when decimal.TryParse(s.Trim(), NumberStyles.Number, CultureInfo.InvariantCulture, out var d) => d,
+        (string s, DateTime) when DateTime.TryParse(s.Trim(), CultureInfo.InvariantCulture, DateTimeStyles.None, out var dt) => dt,
+        _ => null
+    };
+
+    private sealed record ColumnValidator(
+        string Name,
+        ColumnRules Rules,
+        Regex? Pattern,
+        IComparable? Min,
+        IComparable? Max,
+        HashSet<string>? Allowed,
+        Dictionary<string, int>? Seen)
+    {
+        public IEnumerable<(string Rule, string Message)> Check(object? value, int rowNumber)
+        {
+            var text = value is null ? null : Convert.ToString(value, CultureInfo.InvariantCulture);
+
+            // Empty values only break the required rule; the other rules apply to values that are present
+            if (string.IsNullOrWhiteSpace(text))
+            {
+                if (Rules.Required)
+                    yield return (RowValidator.Required, $"column '{Name}' is required");
+                yield break;
+            }
+
+            if (Pattern is not null && !MatchesPattern(text))
+                yield return (RowValidator.Pattern, $"value '{text}' in column '{Name}' does not match the pattern {Rules.Pattern}");
+
+            if (Min is not null)
+            {
+                var comparable = ToComparable(value!, Min);
+                if (comparable is null)
+                    yield return (RowValidator.Min, $"value '{text}' in column '{Name}' cannot be compared with the minimum {Rules.Min}");
+                else if (comparable.CompareTo(Min) < 0)
+                    yield return (RowValidator.Min, $"value '{text}' in column '{Name}' is below the minimum {Rules.Min}");
+            }
+
+            if (Max is not null)
+            {
+                var comparable = ToComparable(value!, Max);
+                if (comparable is null)
+                    yield return (RowValidator.Max, $"value '{text}' in column '{Name}' cannot be compared with the maximum {Rules.Max}");
+                else if (comparable.CompareTo(Max) > 0)
+                    yield return (RowValidator.Max, $"value '{text}' in column '{Name}' is above the maximum {Rules.Max}");
+            }
+
+            if (Allowed is not null && !Allowed.Contains(text.Trim()))
+                yield return (RowValidator.AllowedValues, $"value '{text}' in column '{Name}' is not one of the allowed values");
+
+            if (Rules.MaxLength is { } maxLength && text.Length > maxLength)
+                yield return (RowValidator.MaxLength, $"value in column '{Name}' is longer than {maxLength} characters");
+
+            if (Seen is not null && !Seen.TryAdd(text, rowNumber))
+                yield return (RowValidator.Unique, $"value '{text}' in column '{Name}' duplicates row {Seen[text]}");
+        }
+
+        private bool MatchesPattern(string text)
+        {
+            try
+            {
+                return Pattern!.IsMatch(text);
+            }
+            catch (RegexMatchTimeoutException)
+            {
+                return false;
+            }
+        }
+    }
+}
@@ -0,0 +1,36 @@
+namespace QuickIngestFile.Application.Parsing;
+
+using System.Text;
+
+/// <summary>
+/// Text encodings supported for delimited files, by the names used in options and previews.
+/// </summary>
+public static class TextEncodings
+{
+    public const string Utf8 = "utf-8";
+    public const string Utf8Bom = "utf-8-bom";
+    public const string Windows1252 = "windows-1252";
+    public const string Latin1 = "iso-8859-1";
+
+    public static readonly string[] All = [Utf8, Utf8Bom, Windows1252, Latin1];
+
+    static TextEncodings()
+    {
+        // Windows code pages are not available on .NET Core until the provider is registered
+        Encoding.RegisterProvider(CodePagesEncodingProvider.Instance);
+    }
+
+    public static bool IsSupported(string? name) =>
+        name is not null && All.Contains(name, StringComparer.OrdinalIgnoreCase);
+
+    /// <summary>
+    /// Get the encoding for a supported name. UTF-8 files are read the same with or without a BOM.
+    /// </summary>
+    public static Encoding Get(string name) => name.ToLowerInvariant() switch
+    {
+        Utf8 or Utf8Bom => new UTF8Encoding(false),
+        Windows1252 => Encoding.GetEncoding(1252),
+        Latin1 => Encoding.Latin1,
+        _ => throw new ArgumentException($"Unsupported encoding: {name}. Supported: {string.Join(", ", All)}", nameof(name))
+    };
+}
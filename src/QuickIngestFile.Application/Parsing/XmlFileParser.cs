@@ -0,0 +1,353 @@
+namespace QuickIngestFile.Application.Parsing;
+
+using System.Runtime.CompilerServices;
+using System.Xml;
+using System.Xml.Linq;
+using QuickIngestFile.Domain.Entities;
+
+/// <summary>
+/// XML parser that reads the elements at a record path, such as "/Orders/Order", as rows.
+/// The file is streamed and only one record element is held in memory at a time.
+/// Attributes and child elements become columns; nested ones get dotted names such as "Customer.Name",
+/// and repeated children are numbered, as in "Line", "Line[2]".
+/// </summary>
+public sealed class XmlFileParser : IRecordPathParser
+{
+    // Elements scanned to detect the record path when none is set
+    private const int DetectionSampleSize = 1000;
+
+    // Distinct paths offered to choose the record element from
+    private const int MaxRecordPaths = 200;
+
+    private static readonly XmlReaderSettings ReaderSettings = new()
+    {
+        Async = true,
+        DtdProcessing = DtdProcessing.Ignore,
+        XmlResolver = null,
+        IgnoreComments = true,
+        IgnoreProcessingInstructions = true,
+        IgnoreWhitespace = true,
+        CloseInput = false
+    };
+
+    public string[] SupportedExtensions => [".xml"];
+
+    public bool CanParse(string fileName)
+    {
+        var extension = Path.GetExtension(fileName);
+        return SupportedExtensions.Contains(extension, StringComparer.OrdinalIgnoreCase);
+    }
+
+    public async Task<IReadOnlyList<RecordPathInfo>> GetRecordPathsAsync(
+        Stream stream,
+        CancellationToken cancellationToken = default)
+    {
+        var counts = await CountPathsAsync(stream, int.MaxValue, cancellationToken);
+
+        return counts
+            .Skip(1) // The root element
+            .Take(MaxRecordPaths)
+            .Select(kv => new RecordPathInfo(kv.Key, kv.Value))
+            .ToList();
+    }
+
+    public async Task<DetectedSchema> DetectSchemaAsync(
+        Stream stream,
+        ParserOptions options,
+        CancellationToken cancellationToken = default)
+    {
+        var recordPath = await ResolveRecordPathAsync(stream, options, cancellationToken);
+
+        // Records do not all carry the same children, so columns are merged across the sample in order of appearance
+        var sampleValues = new Dictionary<string, List<string>>();
+        var rowCount = 0;
+
+        await foreach (var record in ReadRecordsAsync(stream, recordPath, cancellationToken))
+        {
+            if (rowCount++ >= 100)
+                continue;
+
+            foreach (var (name, value) in FlattenRecord(record))
+            {
+                if (!sampleValues.TryGetValue(name, out var samples))
+                    sampleValues[name] = samples = [];
+
+                if (!string.IsNullOrWhiteSpace(value))
+                    samples.Add(value);
+            }
+        }
+
+        if (rowCount == 0 && !string.IsNullOrWhiteSpace(options.RecordPath))
+            throw new InvalidOperationException($"No elements found at record path '{options.RecordPath}'");
+
+        var columns = sampleValues
+            .Select((column, index) => new DetectedColumn(column.Key, index, DetectColumnType(column.Value)))
+            .ToList();
+
+        stream.Position = 0;
+
+        return new DetectedSchema(columns, rowCount, new DetectedFormat(HasHeader: true, RecordPath: recordPath));
+    }
+
+    public async Task<IReadOnlyList<ParsedRow>> GetPreviewAsync(
+        Stream stream,
+        ParserOptions options,
+        CancellationToken cancellationToken = default)
+    {
+        var rows = new List<ParsedRow>();
+        var count = 0;
+
+        await foreach (var row in ParseAsync(stream, options, cancellationToken))
+        {
+            rows.Add(row);
+            count++;
+            if (count >= options.PreviewRows)
+                break;
+        }
+
+        stream.Position = 0;
+        return rows;
+    }
+
+    public async IAsyncEnumerable<ParsedRow> ParseAsync(
+        Stream stream,
+        ParserOptions options,
+        [EnumeratorCancellation] CancellationToken cancellationToken = default)
+    {
+        var recordPath = await ResolveRecordPathAsync(stream, options, cancellationToken);
+
+        var rowNumber = 0;
+        await foreach (var record in ReadRecordsAsync(stream, recordPath, cancellationToken))
+        {
+            if (cancellationToken.IsCancellationRequested)
+                yield break;
+
+            rowNumber++;
+            var data = new Dictionary<string, object?>();
+            var rawData = new Dictionary<string, string?>();
+            foreach (var (name, value) in FlattenRecord(record))
+            {
+                // Retyped columns are converted by the column mapping from the raw text
+                data[name] = options.GetTypeOverride(name) is not null ? value : ParseValue(value);
+                rawData[name] = value;
+            }
+
+            yield return new ParsedRow(data, rowNumber, true, RawData: rawData);
+        }
+    }
+
+    /// <summary>
+    /// Stream the elements at the record path, each loaded on its own.
+    /// </summary>
+    private static async IAsyncEnumerable<XElement> ReadRecordsAsync(
+        Stream stream,
+        string recordPath,
+        [EnumeratorCancellation] CancellationToken cancellationToken)
+    {
+        using var reader = XmlReader.Create(stream, ReaderSettings);
+        var path = new List<string>();
+
+        while (!reader.EOF)
+        {
+            cancellationToken.ThrowIfCancellationRequested();
+
+            if (reader.NodeType == XmlNodeType.Element)
+            {
+                path.Add(reader.LocalName);
+
+                if (MatchesPath(path, recordPath))
+                {
+                    // Reading the element moves past it, so there is no end tag left to pop the path on
+                    var record = (XElement)await XNode.ReadFromAsync(reader, cancellationToken);
+                    path.RemoveAt(path.Count - 1);
+                    yield return record;
+                    continue;
+                }
+
+                if (reader.IsEmptyElement)
+                    path.RemoveAt(path.Count - 1);
+            }
+            else if (reader.NodeType == XmlNodeType.EndElement)
+            {
+                path.RemoveAt(path.Count - 1);
+            }
+
+            await reader.ReadAsync();
+        }
+    }
+
+    /// <summary>
+    /// Use the record path from the options, or detect it: the shallowest path that repeats,
+    /// the most frequent one when several do, or else the first element under the root.
+    /// </summary>
+    private static async Task<string> ResolveRecordPathAsync(
+        Stream stream,
+        ParserOptions options,
+        CancellationToken cancellationToken)
+    {
+        if (!string.IsNullOrWhiteSpace(options.RecordPath))
+            return options.RecordPath.Trim();
+
+        var counts = await CountPathsAsync(stream, DetectionSampleSize, cancellationToken);
+        var paths = counts.Keys.ToList();
+
+        var repeated = counts
+            .Where(kv => kv.Value > 1)
+            .OrderBy(kv => kv.Key.Count(c => c == '/'))
+            .ThenByDescending(kv => kv.Value)
+            .Select(kv => kv.Key)
+            .FirstOrDefault();
+
+        return repeated
+            ?? (paths.Count > 1 ? paths[1] : paths.FirstOrDefault())
+            ?? throw new InvalidOperationException("The file has no XML elements");
+    }
+
+    /// <summary>
+    /// Count the elements at each absolute path, in order of first appearance, up to a number of elements.
+    /// </summary>
+    private static async Task<Dictionary<string, int>> CountPathsAsync(
+        Stream stream,
+        int maxElements,
+        CancellationToken cancellationToken)
+    {
+        var counts = new Dictionary<string, int>(StringComparer.Ordinal);
+
+        using (var reader = XmlReader.Create(stream, ReaderSettings))
+        {
+            var path = new List<string>();
+            var elements = 0;
+
+            while (elements < maxElements && await reader.ReadAsync())
+            {
+                cancellationToken.ThrowIfCancellationRequested();
+
+                if (reader.NodeType == XmlNodeType.Element)
+                {
+                    path.Add(reader.LocalName);
+                    var key = "/" + string.Join('/', path);
+                    counts[key] = counts.GetValueOrDefault(key) + 1;
+                    elements++;
+
+                    if (reader.IsEmptyElement)
+                        path.RemoveAt(path.Count - 1);
+                }
+                else if (reader.NodeType == XmlNodeType.EndElement)
+                {
+                    path.RemoveAt(path.Count - 1);
+                }
+            }
+        }
+
+        stream.Position = 0;
+        return counts;
+    }
+
+    /// <summary>
+    /// Absolute paths match the whole element path; others, with or without a leading "//", match its end.
+    /// </summary>
+    private static bool MatchesPath(List<string> path, string recordPath)
+    {
+        var current = "/" + string.Join('/', path);
+
+        if (recordPath.StartsWith("//", StringComparison.Ordinal))
+            recordPath = recordPath[2..];
+        else if (recordPath.StartsWith('/'))
+            return current.Equals(recordPath.TrimEnd('/'), StringComparison.Ordinal);
+
+        return current.EndsWith("/" + recordPath.Trim('/'), StringComparison.Ordinal);
+    }
+
+    /// <summary>
+    /// Columns of a record. A record without child elements also has its own text, under its name.
+    /// </summary>
+    private static IEnumerable<KeyValuePair<string, string?>> FlattenRecord(XElement record)
+    {
+        var columns = Flatten(record);
+
+        return record.HasElements || record.IsEmpty
+            ? columns
+            : columns.Prepend(new(record.Name.LocalName, record.Value));
+    }
+
+    /// <summary>
+    /// Columns of an element: its attributes, the text of its leaf elements and, under dotted names,
+    /// the attributes and children of nested elements.
+    /// </summary>
+    private static IEnumerable<KeyValuePair<string, string?>> Flatten(XElement element, string? prefix = null)
+    {
+        foreach (var attribute in element.Attributes().Where(a => !a.IsNamespaceDeclaration))
+        {
+            yield return new(Join(prefix, attribute.Name.LocalName), attribute.Value);
+        }
+
+        var seen = new Dictionary<string, int>(StringComparer.Ordinal);
+        foreach (var child in element.Elements())
+        {
+            var localName = child.Name.LocalName;
+            var occurrence = seen[localName] = seen.GetValueOrDefault(localName) + 1;
+            var name = Join(prefix, occurrence == 1 ? localName : $"{localName}[{occurrence}]");
+
+            if (child.HasElements || child.HasAttributes && child.Attributes().Any(a => !a.IsNamespaceDeclaration))
+            {
+                // Text next to child elements or attributes is kept under the element's own name
+                if (!child.HasElements && !child.IsEmpty)
+                    yield return new(name, child.Value);
+
+                foreach (var nested in Flatten(child, name))
+                {
+                    yield return nested;
+                }
+            }
+            else
+            {
+                yield return new(name, child.IsEmpty ? null : child.Value);
+            }
+        }
+    }
+
+    private static string Join(string? prefix, string name) => prefix is null ? name : $"{prefix}.{name}";
+
+    private static string DetectColumnType(List<string> samples)
+    {
+        if (samples.Count == 0)
+            return DataTypes.String;
+
+        var types = samples.Select(DataTypes.Detect).ToList();
+
+        // Whole and fractional numbers together make a decimal column
+        if (types.All(t => t is DataTypes.Integer or DataTypes.Decimal))
+            return types.Contains(DataTypes.Decimal) ? DataTypes.Decimal : DataTypes.Integer;
+
+        var mostCommon = types
+            .GroupBy(t => t)
+            .OrderByDescending(g => g.Count())
+            .First()
+            .Key;
+
+        var percentage = types.Count(t => t == mostCommon) / (double)types.Count;
+        return percentage >= 0.8 ? mostCommon : DataTypes.String;
+    }
+
+    private static object? ParseValue(string? value)
+    {
+        if (string.IsNullOrWhiteSpace(value))
+            return null;
+
+        value = value.Trim();
+
+        if (int.TryParse(value, out var intVal))
+            return intVal;
+
+        if (decimal.TryParse(value, out var decVal))
+            return decVal;
+
+        if (bool.TryParse(value, out var boolVal))
+            return boolVal;
+
+        if (DateTime.TryParse(value, out var dateVal))
+            return dateVal;
+
+        return value;
+    }
+}
@@ -2,16 +2,30 @@ namespace QuickIngestFile.Application.Services;
 
 using System.Threading.Channels;
 using QuickIngestFile.Application.Parsing;
+using QuickIngestFile.Domain.Entities;
 
 /// <summary>
 /// Represents a queued import job to be processed in background.
+/// The file to import waits on disk at <see cref="FilePath"/>, held in <see cref="UploadFileStore"/> until the job finishes.
 /// </summary>
 public sealed record QueuedImportJob(
     Guid ImportJobId,
-    byte[] FileData,
+    string FilePath,
     string FileName,
     long FileSize,
-    ParserOptions Options);
+    ParserOptions Options)
+{
+    /// <summary>
+    /// How the file is loaded into the job. Anything but <see cref="ImportMode.New"/> loads into
+    /// an existing job, whose schema then decides the columns.
+    /// </summary>
+    public ImportMode Mode { get; init; } = ImportMode.New;
+
+    /// <summary>
+    /// Columns identifying a record when upserting.
+    /// </summary>
+    public IReadOnlyList<string> KeyColumns { get; init; } = [];
+}
 
 /// <summary>
 /// In-memory queue for background import processing.
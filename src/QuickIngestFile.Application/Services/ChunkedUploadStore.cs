@@ -0,0 +1,191 @@
+namespace QuickIngestFile.Application.Services;
+
+using System.Collections.Concurrent;
+using Microsoft.Extensions.Options;
+using QuickIngestFile.Application.Configuration;
+using QuickIngestFile.Application.DTOs;
+using QuickIngestFile.Domain.Common;
+
+/// <summary>
+/// Stores resumable uploads on disk while their chunks arrive.
+/// Chunks must be sent in order; a failed chunk can be resent from the last acknowledged offset.
+/// Finished uploads move into <see cref="UploadFileStore"/> to wait for their imports.
+/// </summary>
+public sealed class ChunkedUploadStore
+{
+    private readonly ConcurrentDictionary<Guid, UploadSession> _sessions = new();
+    private readonly ImportOptions _options;
+    private readonly UploadFileStore _fileStore;
+    private readonly string _directory;
+
+    public ChunkedUploadStore(IOptions<ImportOptions> options, UploadFileStore fileStore)
+    {
+        _options = options.Value;
+        _fileStore = fileStore;
+        _directory = Path.Combine(Path.GetFullPath(_options.UploadPath), "chunked");
+        Directory.CreateDirectory(_directory);
+    }
+
+    private long ChunkSize => _options.ChunkSizeMB * 1024L * 1024L;
+
+    /// <summary>
+    /// Start a new resumable upload.
+    /// </summary>
+    public Result<UploadSessionDto> Create(string fileName, long fileSize)
+    {
+        RemoveExpired();
+
+        if (string.IsNullOrWhiteSpace(fileName))
+            return Result.Failure<UploadSessionDto>("File name is required");
+
+        if (fileSize <= 0)
+            return Result.Failure<UploadSessionDto>("File size must be greater than zero");
+
+        if (fileSize > _options.MaxFileSizeMB * 1024L * 1024L)
+            return Result.Failure<UploadSessionDto>($"File size exceeds {_options.MaxFileSizeMB}MB limit");
+
+        var session = new UploadSession(Path.GetFileName(fileName), fileSize, Path.Combine(_directory, $"{Guid.NewGuid():N}.part"));
+        _sessions[session.Id] = session;
+
+        return Result.Success(ToDto(session));
+    }
+
+    /// <summary>
+    /// Get the current state of an upload, used by clients to resume.
+    /// </summary>
+    public Result<UploadSessionDto> Get(Guid uploadId)
+    {
+        return _sessions.TryGetValue(uploadId, out var session)
+            ? Result.Success(ToDto(session))
+            : Result.Failure<UploadSessionDto>($"Upload {uploadId} not found");
+    }
+
+    /// <summary>
+    /// Write a chunk at the given offset. The offset must match the bytes received so far.
+    /// </summary>
+    public async Task<Result<UploadSessionDto>> AppendChunkAsync(
+        Guid uploadId,
+        long offset,
+        Stream data,
+        CancellationToken cancellationToken = default)
+    {
+        if (!_sessions.TryGetValue(uploadId, out var session))
+            return Result.Failure<UploadSessionDto>($"Upload {uploadId} not found");
+
+        await session.Lock.WaitAsync(cancellationToken);
+        try
+        {
+            if (offset != session.ReceivedBytes)
+                return Result.Failure<UploadSessionDto>(
+                    $"Unexpected offset {offset}. Upload must resume at offset {session.ReceivedBytes}");
+
+            await using (var file = new FileStream(session.FilePath, FileMode.OpenOrCreate, FileAccess.Write, FileShare.None))
+            {
+                // Discard any partial bytes left by a previously interrupted chunk
+                file.SetLength(offset);
+                file.Seek(offset, SeekOrigin.Begin);
+                await data.CopyToAsync(file, cancellationToken);
+
+                if (file.Length > session.FileSize)
+                {
+                    file.SetLength(offset);
+                    return Result.Failure<UploadSessionDto>("Chunk exceeds the declared file size");
+                }
+
+                session.ReceivedBytes = file.Length;
+            }
+
+            session.LastActivityAt = DateTime.UtcNow;
+            return Result.Success(ToDto(session));
+        }
+        finally
+        {
+            session.Lock.Release();
+        }
+    }
+
+    /// <summary>
+    /// Finish an upload and hand over the assembled file, moved into <see cref="UploadFileStore"/>.
+    /// The caller holds the returned file and becomes responsible for releasing it there.
+    /// </summary>
+    public Result<CompletedUpload> Complete(Guid uploadId)
+    {
+        if (!_sessions.TryGetValue(uploadId, out var session))
+            return Result.Failure<CompletedUpload>($"Upload {uploadId} not found");
+
+        if (session.ReceivedBytes != session.FileSize)
+            return Result.Failure<CompletedUpload>(
+                $"Upload incomplete: received {session.ReceivedBytes} of {session.FileSize} bytes");
+
+        if (!_sessions.TryRemove(uploadId, out _))
+            return Result.Failure<CompletedUpload>($"Upload {uploadId} not found");
+
+        var filePath = _fileStore.Adopt(session.FilePath);
+        return Result.Success(new CompletedUpload(session.FileName, session.FileSize, filePath));
+    }
+
+    /// <summary>
+    /// Abort an upload and delete its data.
+    /// </summary>
+    public void Abort(Guid uploadId)
+    {
+        if (_sessions.TryRemove(uploadId, out var session))
+            DeleteFile(session.FilePath);
+    }
+
+    private void RemoveExpired()
+    {
+        var cutoff = DateTime.UtcNow.AddHours(-_options.UploadExpirationHours);
+
+        foreach (var session in _sessions.Values.Where(s => s.LastActivityAt < cutoff))
+        {
+            Abort(session.Id);
+        }
+
+        // Parts of uploads lost to a restart have no session left to expire them
+        var active = _sessions.Values.Select(s => s.FilePath).ToHashSet(StringComparer.Ordinal);
+        foreach (var path in Directory.EnumerateFiles(_directory)
+            .Where(p => !active.Contains(p) && File.GetLastWriteTimeUtc(p) < cutoff))
+        {
+            DeleteFile(path);
+        }
+    }
+
+    private UploadSessionDto ToDto(UploadSession session) => new(
+        session.Id,
+        session.FileName,
+        session.FileSize,
+        session.ReceivedBytes,
+        ChunkSize);
+
+    private static void DeleteFile(string path)
+    {
+        try
+        {
+            File.Delete(path);
+        }
+        catch (IOException)
+        {
+            // File still in use or already gone
+        }
+    }
+
+    private sealed class UploadSession(string fileName, long fileSize, string filePath)
+    {
+        public Guid Id { get; } = Guid.NewGuid();
+        public string FileName { get; } = fileName;
+        public long FileSize { get; } = fileSize;
+        public string FilePath { get; } = filePath;
+        public long ReceivedBytes { get; set; }
+        public DateTime LastActivityAt { get; set; } = DateTime.UtcNow;
+        public SemaphoreSlim Lock { get; } = new(1, 1);
+    }
+}
+
+/// <summary>
+/// A fully received upload ready to be queued for import.
+/// </summary>
+public sealed record CompletedUpload(
+    string FileName,
+    long FileSize,
+    string FilePath);
@@ -0,0 +1,20 @@
+namespace QuickIngestFile.Application.Services;
+
+/// <summary>
+/// Formats values as delimited text lines with RFC 4180 quoting.
+/// </summary>
+internal static class CsvFormat
+{
+    public static string FormatLine(IEnumerable<string?> values, char delimiter = ',') =>
+        string.Join(delimiter, values.Select(v => Escape(v, delimiter)));
+
+    private static string Escape(string? value, char delimiter)
+    {
+        if (string.IsNullOrEmpty(value))
+            return string.Empty;
+
+        return value.IndexOfAny([delimiter, '"', '\r', '\n']) >= 0
+            ? $"\"{value.Replace("\"", "\"\"")}\""
+            : value;
+    }
+}
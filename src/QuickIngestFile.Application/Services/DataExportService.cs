@@ -0,0 +1,502 @@
+namespace QuickIngestFile.Application.Services;
+
+using System.Buffers;
+using System.Globalization;
+using System.IO.Packaging;
+using System.Text;
+using System.Text.Json;
+using System.Xml;
+using DocumentFormat.OpenXml;
+using DocumentFormat.OpenXml.Packaging;
+using DocumentFormat.OpenXml.Spreadsheet;
+using QuickIngestFile.Domain.Common;
+using QuickIngestFile.Domain.Entities;
+using QuickIngestFile.Domain.Repositories;
+
+/// <summary>
+/// Supported export file formats.
+/// </summary>
+public enum ExportFormat
+{
+    Csv,
+    Json,
+    Ndjson,
+    Xlsx
+}
+
+/// <summary>
+/// Export request options.
+/// </summary>
+public sealed record ExportRequest(
+    ExportFormat Format,
+    char Delimiter = ',',
+    RecordQuery? Query = null);
+
+/// <summary>
+/// File name and content type of a prepared export.
+/// </summary>
+public sealed record ExportFile(string FileName, string ContentType);
+
+/// <summary>
+/// Streams imported records to CSV, JSON, NDJSON or XLSX using the job's schema:
+/// display names as headers, ignored columns left out, source column order kept.
+/// XLSX rows past Excel's row limit continue on further sheets, so nothing is left out.
+/// Job comparisons are exported through the same writers.
+/// </summary>
+public sealed class DataExportService(IUnitOfWork unitOfWork)
+{
+    // Flush streamed formats to the client every N records
+    private const int FlushInterval = 1000;
+
+    // Excel sheet row limit, minus the header row
+    private const int MaxXlsxRows = 1_048_575;
+
+    // Excel cell text limit
+    private const int MaxXlsxCellText = 32_767;
+
+    // Cell formats of the XLSX stylesheet, by index
+    private const uint HeaderStyle = 1;
+    private const uint DateStyle = 2;
+    private const uint DateTimeStyle = 3;
+
+    /// <summary>
+    /// Resolve the download file name and content type for an export.
+    /// </summary>
+    public async Task<Result<ExportFile>> GetExportFileAsync(
+        Guid importJobId,
+        ExportFormat format,
+        CancellationToken cancellationToken = default)
+    {
+        var job = await unitOfWork.ImportJobs.GetByIdAsync(importJobId, cancellationToken);
+
+        if (job is null)
+            return Result.Failure<ExportFile>($"Import job with ID {importJobId} not found");
+
+        return Result.Success(ToExportFile(Path.GetFileNameWithoutExtension(job.FileName), format));
+    }
+
+    /// <summary>
+    /// Resolve the download file name and content type for the export of a comparison.
+    /// </summary>
+    public ExportFile GetComparisonExportFile(JobComparison comparison, ExportFormat format) =>
+        ToExportFile(
+            $"{Path.GetFileNameWithoutExtension(comparison.BaseJob.FileName)}-vs-{Path.GetFileNameWithoutExtension(comparison.CompareJob.FileName)}",
+            format);
+
+    /// <summary>
+    /// Write the records of an import job to the output stream in the requested format.
+    /// </summary>
+    public async Task WriteExportAsync(
+        Guid importJobId,
+        ExportRequest request,
+        Stream output,
+        CancellationToken cancellationToken = default)
+    {
+        var schema = await unitOfWork.FileSchemas.GetByImportJobIdAsync(importJobId, cancellationToken);
+        var schemaColumns = schema?.GetColumns() ?? [];
+        var columns = schemaColumns
+            .Where(c => !c.IsIgnored)
+            .OrderBy(c => c.Index)
+            .ToList();
+
+        // Same query as the data viewer, so an export holds the rows the user sees, in the same order
+        var records = unitOfWork.ImportedRecords.StreamByImportJobIdAsync(
+            importJobId, request.Query, cancellationToken);
+
+        await WriteRowsAsync(ReadDataAsync(records), columns, request, output, cancellationToken);
+    }
+
+    /// <summary>
+    /// Write the changed rows of a comparison, as read with their data: the kind of change, row numbers, changed columns,
+    /// then each compared column's value in the base and in the compared job.
+    /// </summary>
+    public async Task WriteComparisonExportAsync(
+        JobComparison comparison,
+        IAsyncEnumerable<RowDiffDetail> rows,
+        ExportRequest request,
+        Stream output,
+        CancellationToken cancellationToken = default)
+    {
+        var columns = new List<ColumnDefinition>
+        {
+            new() { Name = "change", Index = 0, DetectedType = DataTypes.String },
+            new() { Name = "key", Index = 1, DetectedType = DataTypes.String },
+            new() { Name = "baseRow", Index = 2, DetectedType = DataTypes.Integer },
+            new() { Name = "compareRow", Index = 3, DetectedType = DataTypes.Integer },
+            new() { Name = "changedColumns", Index = 4, DetectedType = DataTypes.String }
+        };
+
+        foreach (var column in comparison.Columns)
+        {
+            columns.Add(column with { Name = $"base:{column.Name}", Index = columns.Count, DisplayName = $"{GetHeader(column)} (base)" });
+            columns.Add(column with { Name = $"compare:{column.Name}", Index = columns.Count, DisplayName = $"{GetHeader(column)} (compare)" });
+        }
+
+        await WriteRowsAsync(ReadComparisonRowsAsync(comparison, rows), columns, request, output, cancellationToken);
+    }
+
+    private static ExportFile ToExportFile(string baseName, ExportFormat format)
+    {
+        var (extension, contentType) = format switch
+        {
+            ExportFormat.Json => ("json", "application/json"),
+            ExportFormat.Ndjson => ("ndjson", "application/x-ndjson"),
+            ExportFormat.Xlsx => ("xlsx", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"),
+            _ => ("csv", "text/csv")
+        };
+
+        return new ExportFile($"{baseName}.{extension}", contentType);
+    }
+
+    private static async Task WriteRowsAsync(
+        IAsyncEnumerable<Dictionary<string, object?>> rows,
+        IReadOnlyList<ColumnDefinition> columns,
+        ExportRequest request,
+        Stream output,
+        CancellationToken cancellationToken)
+    {
+        switch (request.Format)
+        {
+            case ExportFormat.Json:
+            case ExportFormat.Ndjson:
+                await WriteJsonAsync(rows, columns, request.Format == ExportFormat.Ndjson, output, cancellationToken);
+                break;
+            case ExportFormat.Xlsx:
+                await WriteXlsxAsync(rows, columns, output, cancellationToken);
+                break;
+            default:
+                await WriteCsvAsync(rows, columns, request.Delimiter, output, cancellationToken);
+                break;
+        }
+    }
+
+    private static async IAsyncEnumerable<Dictionary<string, object?>> ReadDataAsync(IAsyncEnumerable<ImportedRecord> records)
+    {
+        await foreach (var record in records)
+        {
+            yield return record.GetData();
+        }
+    }
+
+    private static async IAsyncEnumerable<Dictionary<string, object?>> ReadComparisonRowsAsync(
+        JobComparison comparison,
+        IAsyncEnumerable<RowDiffDetail> rows)
+    {
+        await foreach (var detail in rows)
+        {
+            var row = new Dictionary<string, object?>
+            {
+                ["change"] = detail.Diff.Change.ToString().ToLowerInvariant(),
+                ["key"] = detail.Diff.Key,
+                ["baseRow"] = detail.Diff.BaseRowNumber,
+                ["compareRow"] = detail.Diff.CompareRowNumber,
+                ["changedColumns"] = string.Join(", ", detail.ChangedColumns)
+            };
+
+            foreach (var column in comparison.Columns)
+            {
+                row[$"base:{column.Name}"] = detail.BaseData?.GetValueOrDefault(column.Name);
+                row[$"compare:{column.Name}"] = detail.CompareData?.GetValueOrDefault(column.Name);
+            }
+
+            yield return row;
+        }
+    }
+
+    private static async Task WriteCsvAsync(
+        IAsyncEnumerable<Dictionary<string, object?>> rows,
+        IReadOnlyList<ColumnDefinition> columns,
+        char delimiter,
+        Stream output,
+        CancellationToken cancellationToken)
+    {
+        await using var writer = new StreamWriter(output, new UTF8Encoding(false), leaveOpen: true);
+        await writer.WriteLineAsync(CsvFormat.FormatLine(columns.Select(GetHeader), delimiter));
+
+        var count = 0;
+        await foreach (var data in rows)
+        {
+            var values = columns.Select(c => FormatValue(data.GetValueOrDefault(c.Name)));
+            await writer.WriteLineAsync(CsvFormat.FormatLine(values, delimiter));
+
+            if (++count % FlushInterval == 0)
+                await writer.FlushAsync(cancellationToken);
+        }
+
+        await writer.FlushAsync(cancellationToken);
+    }
+
+    private static async Task WriteJsonAsync(
+        IAsyncEnumerable<Dictionary<string, object?>> rows,
+        IReadOnlyList<ColumnDefinition> columns,
+        bool newlineDelimited,
+        Stream output,
+        CancellationToken cancellationToken)
+    {
+        var buffer = new ArrayBufferWriter<byte>();
+        await using var json = new Utf8JsonWriter(buffer);
+
+        if (!newlineDelimited)
+            await output.WriteAsync("["u8.ToArray(), cancellationToken);
+
+        var count = 0;
+        await foreach (var data in rows)
+        {
+            // Each record is serialized on its own so the stream stays valid JSON between flushes
+            if (count > 0 && !newlineDelimited)
+                buffer.Write(","u8);
+
+            json.Reset(buffer);
+            WriteRecordObject(json, data, columns);
+            json.Flush();
+
+            if (newlineDelimited)
+                buffer.Write("\n"u8);
+
+            if (++count % FlushInterval == 0)
+            {
+                await output.WriteAsync(buffer.WrittenMemory, cancellationToken);
+                buffer.Clear();
+            }
+        }
+
+        if (!newlineDelimited)
+            buffer.Write("]"u8);
+
+        await output.WriteAsync(buffer.WrittenMemory, cancellationToken);
+    }
+
+    private static async Task WriteXlsxAsync(
+        IAsyncEnumerable<Dictionary<string, object?>> rows,
+        IReadOnlyList<ColumnDefinition> columns,
+        Stream output,
+        CancellationToken cancellationToken)
+    {
+        // Rows are written as they are read; the Open XML SDK only writes synchronously,
+        // so the workbook goes to a temporary file that is then copied to the output
+        await using var buffer = new FileStream(
+            Path.Combine(Path.GetTempPath(), $"{Guid.NewGuid():N}.xlsx"),
+            FileMode.CreateNew,
+            FileAccess.ReadWrite,
+            FileShare.None,
+            bufferSize: 81920,
+            FileOptions.Asynchronous | FileOptions.DeleteOnClose);
+
+        // A write-only package streams each part to the file; a read-write one holds them in memory until saved
+        using (var package = Package.Open(buffer, FileMode.Create, FileAccess.Write))
+        using (var document = SpreadsheetDocument.Create(package, SpreadsheetDocumentType.Workbook))
+        {
+            var workbookPart = document.AddWorkbookPart();
+            workbookPart.AddNewPart<WorkbookStylesPart>().Stylesheet = CreateStylesheet();
+
+            var sheets = new Sheets();
+            OpenXmlWriter? writer = null;
+            try
+            {
+                var row = 0;
+                await foreach (var data in rows)
+                {
+                    if (writer is null || row == MaxXlsxRows)
+                    {
+                        EndSheet(writer);
+                        writer = StartSheet(workbookPart, sheets, columns);
+                        row = 0;
+                    }
+
+                    row++;
+                    writer.WriteStartElement(new Row());
+                    foreach (var column in columns)
+                    {
+                        writer.WriteElement(CreateCell(data.GetValueOrDefault(column.Name), column.DetectedType));
+                    }
+                    writer.WriteEndElement();
+
+                    cancellationToken.ThrowIfCancellationRequested();
+                }
+
+                // An export without rows still gets its headers
+                writer ??= StartSheet(workbookPart, sheets, columns);
+                EndSheet(writer);
+                writer = null;
+            }
+            finally
+            {
+                writer?.Dispose();
+            }
+
+            workbookPart.Workbook = new Workbook(sheets);
+        }
+
+        buffer.Position = 0;
+        await buffer.CopyToAsync(output, cancellationToken);
+    }
+
+    /// <summary>
+    /// Add a worksheet, named "Data", "Data 2" and so on, and open it for writing after the header row.
+    /// </summary>
+    private static OpenXmlWriter StartSheet(WorkbookPart workbookPart, Sheets sheets, IReadOnlyList<ColumnDefinition> columns)
+    {
+        var worksheetPart = workbookPart.AddNewPart<WorksheetPart>();
+        var number = sheets.ChildElements.Count + 1;
+        sheets.Append(new Sheet
+        {
+            Name = number == 1 ? "Data" : $"Data {number}",
+            SheetId = (uint)number,
+            Id = workbookPart.GetIdOfPart(worksheetPart)
+        });
+
+        var writer = OpenXmlWriter.Create(worksheetPart);
+        writer.WriteStartElement(new Worksheet());
+        writer.WriteStartElement(new SheetData());
+
+        writer.WriteStartElement(new Row());
+        foreach (var column in columns)
+        {
+            var cell = CreateTextCell(GetHeader(column));
+            cell.StyleIndex = HeaderStyle;
+            writer.WriteElement(cell);
+        }
+        writer.WriteEndElement();
+
+        return writer;
+    }
+
+    private static void EndSheet(OpenXmlWriter? writer)
+    {
+        if (writer is null)
+            return;
+
+        writer.WriteEndElement(); // SheetData
+        writer.WriteEndElement(); // Worksheet
+        writer.Close();
+        writer.Dispose();
+    }
+
+    /// <summary>
+    /// Styles for the header row and for dates; Excel requires the two default fills.
+    /// </summary>
+    private static Stylesheet CreateStylesheet() => new(
+        new Fonts(
+            new Font(new FontSize { Val = 11 }, new FontName { Val = "Calibri" }),
+            new Font(new Bold(), new FontSize { Val = 11 }, new FontName { Val = "Calibri" })),
+        new Fills(
+            new Fill(new PatternFill { PatternType = PatternValues.None }),
+            new Fill(new PatternFill { PatternType = PatternValues.Gray125 })),
+        new Borders(new Border()),
+        new CellStyleFormats(new CellFormat()),
+        new CellFormats(
+            new CellFormat(),
+            new CellFormat { FontId = 1, ApplyFont = true },
+            new CellFormat { NumberFormatId = 14, ApplyNumberFormat = true },
+            new CellFormat { NumberFormatId = 22, ApplyNumberFormat = true }));
+
+    private static void WriteRecordObject(
+        Utf8JsonWriter json,
+        Dictionary<string, object?> data,
+        IReadOnlyList<ColumnDefinition> columns)
+    {
+        json.WriteStartObject();
+        foreach (var column in columns)
+        {
+            json.WritePropertyName(GetHeader(column));
+
+            switch (data.GetValueOrDefault(column.Name))
+            {
+                case JsonElement element:
+                    element.WriteTo(json);
+                    break;
+                case null:
+                    json.WriteNullValue();
+                    break;
+                case var value:
+                    JsonSerializer.Serialize(json, value);
+                    break;
+            }
+        }
+        json.WriteEndObject();
+    }
+
+    /// <summary>
+    /// Cell for a stored value: numbers, booleans and dates keep their type, everything else is text.
+    /// Empty values still get a cell, since cells without a reference are placed one after another.
+    /// </summary>
+    private static Cell CreateCell(object? value, string detectedType)
+    {
+        if (value is not JsonElement element)
+        {
+            var text = FormatValue(value);
+            return text is null ? new Cell() : CreateTextCell(text);
+        }
+
+        switch (element.ValueKind)
+        {
+            case JsonValueKind.Number:
+                return new Cell
+                {
+                    DataType = CellValues.Number,
+                    CellValue = new CellValue(element.GetDouble().ToString(CultureInfo.InvariantCulture))
+                };
+            case JsonValueKind.True:
+            case JsonValueKind.False:
+                return new Cell
+                {
+                    DataType = CellValues.Boolean,
+                    CellValue = new CellValue(element.GetBoolean() ? "1" : "0")
+                };
+            case JsonValueKind.String:
+                var text = element.GetString()!;
+                if (detectedType is DataTypes.Date or DataTypes.DateTime
+                    && DateTime.TryParse(text, CultureInfo.InvariantCulture, DateTimeStyles.RoundtripKind, out var date))
+                {
+                    return new Cell
+                    {
+                        StyleIndex = detectedType == DataTypes.Date ? DateStyle : DateTimeStyle,
+                        CellValue = new CellValue(date.ToOADate().ToString(CultureInfo.InvariantCulture))
+                    };
+                }
+                return CreateTextCell(text);
+            default:
+                return new Cell();
+        }
+    }
+
+    /// <summary>
+    /// Inline text cell, without the characters XML does not allow and cut to Excel's cell limit.
+    /// </summary>
+    private static Cell CreateTextCell(string text)
+    {
+        if (!text.All(XmlConvert.IsXmlChar))
+        {
+            var valid = new StringBuilder(text.Length);
+            for (var i = 0; i < text.Length; i++)
+            {
+                if (XmlConvert.IsXmlChar(text[i]))
+                    valid.Append(text[i]);
+                else if (i + 1 < text.Length && XmlConvert.IsXmlSurrogatePair(text[i + 1], text[i]))
+                    valid.Append(text, i++, 2);
+            }
+            text = valid.ToString();
+        }
+
+        if (text.Length > MaxXlsxCellText)
+            text = text[..MaxXlsxCellText];
+
+        return new Cell
+        {
+            DataType = CellValues.InlineString,
+            InlineString = new InlineString(new Text(text) { Space = SpaceProcessingModeValues.Preserve })
+        };
+    }
+
+    private static string GetHeader(ColumnDefinition column) =>
+        string.IsNullOrWhiteSpace(column.DisplayName) ? column.Name : column.DisplayName;
+
+    private static string? FormatValue(object? value) => value switch
+    {
+        null => null,
+        JsonElement { ValueKind: JsonValueKind.Null or JsonValueKind.Undefined } => null,
+        JsonElement { ValueKind: JsonValueKind.String } element => element.GetString(),
+        JsonElement element => element.GetRawText(),
+        _ => Convert.ToString(value, CultureInfo.InvariantCulture)
+    };
+}
@@ -0,0 +1,258 @@
+namespace QuickIngestFile.Application.Services;
+
+using System.Globalization;
+using System.Text.Json;
+using QuickIngestFile.Application.DTOs;
+using QuickIngestFile.Domain.Common;
+using QuickIngestFile.Domain.Entities;
+using QuickIngestFile.Domain.Repositories;
+
+/// <summary>
+/// Profiles the imported records of a job column by column: nulls, distinct and top values, ranges,
+/// histograms and values that do not fit the column's detected type.
+/// Records are streamed from the repository, so profiling behaves the same on SQL and MongoDB.
+/// </summary>
+public sealed class DataProfileService(IUnitOfWork unitOfWork)
+{
+    private const int TopValueCount = 10;
+    private const int HistogramBucketCount = 10;
+    private const int MismatchSampleCount = 5;
+
+    // Distinct values tracked per column; past this, only values already seen keep being counted
+    private const int MaxTrackedValues = 10_000;
+
+    /// <summary>
+    /// Profile every imported column of a job. Ignored columns are left out.
+    /// </summary>
+    public async Task<Result<DataProfileDto>> GetProfileAsync(
+        Guid importJobId,
+        CancellationToken cancellationToken = default)
+    {
+        var schema = await unitOfWork.FileSchemas.GetByImportJobIdAsync(importJobId, cancellationToken);
+
+        if (schema is null)
+            return Result.Failure<DataProfileDto>($"Schema not found for import job {importJobId}");
+
+        var columns = schema.GetColumns()
+            .Where(c => !c.IsIgnored)
+            .OrderBy(c => c.Index)
+            .Select(c => new ColumnStats(c))
+            .ToList();
+
+        var recordCount = 0;
+        await foreach (var record in unitOfWork.ImportedRecords.StreamByImportJobIdAsync(importJobId, cancellationToken: cancellationToken))
+        {
+            recordCount++;
+            var data = record.GetData();
+            foreach (var column in columns)
+            {
+                column.Add(data.GetValueOrDefault(column.Definition.Name));
+            }
+        }
+
+        // Bucket bounds depend on the ranges found above, so histograms need a second pass
+        var ranged = columns.Where(c => c.HasRange).ToList();
+        if (ranged.Count > 0)
+        {
+            await foreach (var record in unitOfWork.ImportedRecords.StreamByImportJobIdAsync(importJobId, cancellationToken: cancellationToken))
+            {
+                var data = record.GetData();
+                foreach (var column in ranged)
+                {
+                    column.AddToHistogram(data.GetValueOrDefault(column.Definition.Name));
+                }
+            }
+        }
+
+        return Result.Success(new DataProfileDto(
+            importJobId,
+            recordCount,
+            columns.Select(c => c.ToDto()).ToList()));
+    }
+
+    private static string? GetText(object? value) => value switch
+    {
+        null => null,
+        JsonElement { ValueKind: JsonValueKind.Null or JsonValueKind.Undefined } => null,
+        JsonElement { ValueKind: JsonValueKind.String } element => element.GetString(),
+        JsonElement element => element.GetRawText(),
+        _ => Convert.ToString(value, CultureInfo.InvariantCulture)
+    };
+
+    private static double? GetNumber(object? value, string text) => value switch
+    {
+        JsonElement { ValueKind: JsonValueKind.Number } element => element.GetDouble(),
+        JsonElement { ValueKind: JsonValueKind.String } when
+            double.TryParse(text.Trim(), NumberStyles.Number, CultureInfo.InvariantCulture, out var number) => number,
+        _ => null
+    };
+
+    private static DateTime? GetDate(object? value, string text) =>
+        value is JsonElement { ValueKind: JsonValueKind.String }
+            && DateTime.TryParse(text.Trim(), CultureInfo.InvariantCulture, DateTimeStyles.None, out var date)
+            ? date
+            : null;
+
+    /// <summary>
+    /// Whether a stored value can be read as the column's type. Text columns accept anything.
+    /// </summary>
+    private static bool MatchesType(object? value, string text, string dataType) => dataType switch
+    {
+        DataTypes.Integer => value is JsonElement { ValueKind: JsonValueKind.Number } element
+            ? element.TryGetInt64(out _)
+            : long.TryParse(text.Trim(), NumberStyles.Integer, CultureInfo.InvariantCulture, out _),
+        DataTypes.Decimal => GetNumber(value, text) is not null,
+        DataTypes.Boolean => value is JsonElement { ValueKind: JsonValueKind.True or JsonValueKind.False }
+            || bool.TryParse(text.Trim(), out _),
+        DataTypes.Date or DataTypes.DateTime => GetDate(value, text) is not null,
+        _ => true
+    };
+
+    /// <summary>
+    /// Running statistics for one column.
+    /// </summary>
+    private sealed class ColumnStats(ColumnDefinition definition)
+    {
+        private readonly Dictionary<string, int> _values = new(StringComparer.Ordinal);
+        private readonly List<string> _mismatchSamples = [];
+        private int _nullCount;
+        private int _emptyCount;
+        private int _mismatchCount;
+        private bool _isDistinctCountCapped;
+
+        private int _numberCount;
+        private double _sum;
+        private double _min = double.MaxValue;
+        private double _max = double.MinValue;
+
+        private int[]? _buckets;
+
+        public ColumnDefinition Definition { get; } = definition;
+
+        private bool IsNumeric => Definition.DetectedType is DataTypes.Integer or DataTypes.Decimal;
+
+        private bool IsDate => Definition.DetectedType is DataTypes.Date or DataTypes.DateTime;
+
+        public bool HasRange => (IsNumeric || IsDate) && _numberCount > 0;
+
+        public void Add(object? value)
+        {
+            var text = GetText(value);
+            if (text is null)
+            {
+                _nullCount++;
+                return;
+            }
+
+            if (string.IsNullOrWhiteSpace(text))
+            {
+                _emptyCount++;
+                return;
+            }
+
+            if (_values.TryGetValue(text, out var count))
+                _values[text] = count + 1;
+            else if (_values.Count < MaxTrackedValues)
+                _values[text] = 1;
+            else
+                _isDistinctCountCapped = true;
+
+            if (!MatchesType(value, text, Definition.DetectedType))
+            {
+                _mismatchCount++;
+                if (_mismatchSamples.Count < MismatchSampleCount && !_mismatchSamples.Contains(text))
+                    _mismatchSamples.Add(text);
+                return;
+            }
+
+            if (GetPosition(value, text) is { } position)
+            {
+                _numberCount++;
+                _sum += position;
+                _min = Math.Min(_min, position);
+                _max = Math.Max(_max, position);
+            }
+        }
+
+        public void AddToHistogram(object? value)
+        {
+            var text = GetText(value);
+            if (string.IsNullOrWhiteSpace(text) || !MatchesType(value, text, Definition.DetectedType))
+                return;
+
+            if (GetPosition(value, text) is not { } position)
+                return;
+
+            _buckets ??= new int[_max > _min ? HistogramBucketCount : 1];
+
+            var index = _max > _min
+                ? (int)((position - _min) / (_max - _min) * _buckets.Length)
+                : 0;
+
+            _buckets[Math.Clamp(index, 0, _buckets.Length - 1)]++;
+        }
+
+        public ColumnProfileDto ToDto()
+        {
+            var topValues = _values
+                .OrderByDescending(kv => kv.Value)
+                .ThenBy(kv => kv.Key, StringComparer.Ordinal)
+                .Take(TopValueCount)
+                .Select(kv => new ValueCountDto(kv.Key, kv.Value))
+                .ToList();
+
+            var histogram = new List<HistogramBucketDto>();
+            if (_buckets is not null)
+            {
+                var width = (_max - _min) / _buckets.Length;
+                for (var i = 0; i < _buckets.Length; i++)
+                {
+                    var start = _min + width * i;
+                    var end = i == _buckets.Length - 1 ? _max : start + width;
+                    histogram.Add(new HistogramBucketDto(Format(start), Format(end), _buckets[i]));
+                }
+            }
+
+            return new ColumnProfileDto(
+                Definition.Name,
+                Definition.DisplayName,
+                Definition.DetectedType,
+                _nullCount,
+                _emptyCount,
+                _values.Count,
+                _isDistinctCountCapped,
+                topValues,
+                HasRange ? Format(_min) : null,
+                HasRange ? Format(_max) : null,
+                IsNumeric && _numberCount > 0 ? _sum / _numberCount : null,
+                histogram,
+                _mismatchCount,
+                _mismatchSamples);
+        }
+
+        /// <summary>
+        /// Place on the column's axis: the number itself, or the ticks of a date.
+        /// </summary>
+        private double? GetPosition(object? value, string text)
+        {
+            if (IsNumeric)
+                return GetNumber(value, text);
+
+            if (IsDate)
+                return GetDate(value, text)?.Ticks;
+
+            return null;
+        }
+
+        private string Format(double position)
+        {
+            if (!IsDate)
+                return position.ToString("G", CultureInfo.InvariantCulture);
+
+            var date = new DateTime((long)position);
+            return Definition.DetectedType == DataTypes.Date
+                ? date.ToString("yyyy-MM-dd", CultureInfo.InvariantCulture)
+                : date.ToString("yyyy-MM-dd HH:mm:ss", CultureInfo.InvariantCulture);
+        }
+    }
+}
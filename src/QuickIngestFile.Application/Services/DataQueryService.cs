@@ -1,7 +1,9 @@
 namespace QuickIngestFile.Application.Services;
 
+using System.Text;
 using QuickIngestFile.Application.DTOs;
 using QuickIngestFile.Domain.Common;
+using QuickIngestFile.Domain.Entities;
 using QuickIngestFile.Domain.Repositories;
 
 /// <summary>
@@ -9,6 +11,9 @@ using QuickIngestFile.Domain.Repositories;
 /// </summary>
 public sealed class DataQueryService(IUnitOfWork unitOfWork)
 {
+    private const int FailureExportPageSize = 1000;
+    private const string ErrorColumnName = "Error";
+
     /// <summary>
     /// Get schema for an import job.
     /// </summary>
@@ -26,7 +31,8 @@ public sealed class DataQueryService(IUnitOfWork unitOfWork)
             c.Index,
             c.DetectedType,
             c.DisplayName,
-            c.IsIgnored)).ToList();
+            c.IsIgnored,
+            c.Rules)).ToList();
 
         return Result.Success(new FileSchemaDto(
             schema.Id,
@@ -36,42 +42,147 @@ public sealed class DataQueryService(IUnitOfWork unitOfWork)
     }
 
     /// <summary>
-    /// Get paginated records for an import job.
+    /// Get paginated records for an import job, optionally searched, filtered and sorted by column values.
     /// </summary>
-    public async Task<PagedResult<ImportedRecordDto>> GetRecordsAsync(
+    public async Task<Result<PagedResult<ImportedRecordDto>>> GetRecordsAsync(
         Guid importJobId,
         int page = 1,
         int pageSize = 50,
+        string? searchTerm = null,
+        IReadOnlyList<ColumnFilterDto>? filters = null,
+        string? sortColumn = null,
+        bool sortDescending = false,
         CancellationToken cancellationToken = default)
     {
-        var result = await unitOfWork.ImportedRecords.GetPagedByImportJobIdAsync(
-            importJobId, page, pageSize, cancellationToken);
+        var query = await ResolveQueryAsync(
+            importJobId, searchTerm, filters, sortColumn, sortDescending, cancellationToken);
+        if (query.IsFailure)
+            return Result.Failure<PagedResult<ImportedRecordDto>>(query.Error);
+
+        var result = query.Value.IsEmpty
+            ? await unitOfWork.ImportedRecords.GetPagedByImportJobIdAsync(
+                importJobId, page, pageSize, cancellationToken)
+            : await unitOfWork.ImportedRecords.QueryByImportJobIdAsync(
+                importJobId, query.Value, page, pageSize, cancellationToken);
 
         var dtos = result.Items.Select(r => new ImportedRecordDto(
             r.Id,
             r.ImportJobId,
             r.RowNumber,
-            r.GetData())).ToList();
+            r.GetData(),
+            r.UpdatedAt)).ToList();
 
-        return new PagedResult<ImportedRecordDto>(dtos, result.TotalCount, result.Page, result.PageSize);
+        return Result.Success(new PagedResult<ImportedRecordDto>(dtos, result.TotalCount, result.Page, result.PageSize));
     }
 
     /// <summary>
-    /// Search records by value.
+    /// Resolve a client search, filters and sort against the job's schema, as the data viewer pages records by them.
     /// </summary>
-    public async Task<IReadOnlyList<ImportedRecordDto>> SearchRecordsAsync(
+    public async Task<Result<RecordQuery>> ResolveQueryAsync(
+        Guid importJobId,
+        string? searchTerm = null,
+        IReadOnlyList<ColumnFilterDto>? filters = null,
+        string? sortColumn = null,
+        bool sortDescending = false,
+        CancellationToken cancellationToken = default)
+    {
+        if (string.IsNullOrWhiteSpace(searchTerm) && (filters is null || filters.Count == 0) && string.IsNullOrEmpty(sortColumn))
+            return Result.Success(new RecordQuery());
+
+        var schema = await unitOfWork.FileSchemas.GetByImportJobIdAsync(importJobId, cancellationToken);
+        if (schema is null)
+            return Result.Failure<RecordQuery>($"Schema not found for import job {importJobId}");
+
+        return BuildQuery(schema.GetColumns(), searchTerm, filters ?? [], sortColumn, sortDescending);
+    }
+
+    /// <summary>
+    /// Search records by value, case-insensitive. "column:value" searches a single column.
+    /// </summary>
+    public async Task<Result<PagedResult<ImportedRecordDto>>> SearchRecordsAsync(
         Guid importJobId,
         string searchTerm,
+        int page = 1,
+        int pageSize = 50,
+        IReadOnlyList<ColumnFilterDto>? filters = null,
+        string? sortColumn = null,
+        bool sortDescending = false,
         CancellationToken cancellationToken = default)
     {
-        var records = await unitOfWork.ImportedRecords.SearchAsync(
-            importJobId, searchTerm, cancellationToken);
+        if (string.IsNullOrWhiteSpace(searchTerm))
+            return Result.Failure<PagedResult<ImportedRecordDto>>("Search term is required");
 
-        return records.Select(r => new ImportedRecordDto(
-            r.Id,
-            r.ImportJobId,
-            r.RowNumber,
-            r.GetData())).ToList();
+        return await GetRecordsAsync(
+            importJobId, page, pageSize, searchTerm, filters, sortColumn, sortDescending, cancellationToken);
+    }
+
+    /// <summary>
+    /// Get paginated rejected rows for an import job.
+    /// </summary>
+    public async Task<PagedResult<ImportFailureDto>> GetFailuresAsync(
+        Guid importJobId,
+        int page = 1,
+        int pageSize = 50,
+        CancellationToken cancellationToken = default)
+    {
+        var result = await unitOfWork.ImportFailures.GetPagedByImportJobIdAsync(
+            importJobId, page, pageSize, cancellationToken);
+
+        var dtos = result.Items.Select(f => new ImportFailureDto(
+            f.Id,
+            f.ImportJobId,
+            f.RowNumber,
+            f.ErrorMessage,
+            f.GetRawData())).ToList();
+
+        return new PagedResult<ImportFailureDto>(dtos, result.TotalCount, result.Page, result.PageSize);
+    }
+
+    /// <summary>
+    /// Write the rejected rows of an import job as CSV, in source column order plus an error column,
+    /// so they can be fixed and uploaded again.
+    /// </summary>
+    public async Task WriteFailuresCsvAsync(
+        Guid importJobId,
+        Stream output,
+        CancellationToken cancellationToken = default)
+    {
+        var schema = await unitOfWork.FileSchemas.GetByImportJobIdAsync(importJobId, cancellationToken);
+        var columns = schema?.GetColumns()
+            .OrderBy(c => c.Index)
+            .Select(c => c.Name)
+            .ToList() ?? [];
+
+        var result = await unitOfWork.ImportFailures.GetPagedByImportJobIdAsync(
+            importJobId, 1, FailureExportPageSize, cancellationToken);
+
+        // Without a schema, fall back to the columns of the first failure
+        if (columns.Count == 0 && result.Items.Count > 0)
+            columns = result.Items[0].GetRawData().Keys.ToList();
+
+        await using var writer = new StreamWriter(output, new UTF8Encoding(false), leaveOpen: true);
+        await writer.WriteLineAsync(CsvFormat.FormatLine(columns.Append(ErrorColumnName)));
+
+        while (true)
+        {
+            foreach (var failure in result.Items)
+            {
+                var rawData = failure.GetRawData();
+                var values = columns
+                    .Select(c => rawData.GetValueOrDefault(c))
+                    .Append(failure.ErrorMessage);
+
+                await writer.WriteLineAsync(CsvFormat.FormatLine(values));
+            }
+
+            if (!result.HasNextPage)
+                break;
+
+            result = await unitOfWork.ImportFailures.GetPagedByImportJobIdAsync(
+                importJobId, result.Page + 1, FailureExportPageSize, cancellationToken);
+        }
+
+        await writer.FlushAsync(cancellationToken);
     }
 
     /// <summary>
@@ -92,6 +203,86 @@ public sealed class DataQueryService(IUnitOfWork unitOfWork)
         CancellationToken cancellationToken = default)
     {
         await unitOfWork.ImportedRecords.DeleteByImportJobIdAsync(importJobId, cancellationToken);
+        await unitOfWork.ImportFailures.DeleteByImportJobIdAsync(importJobId, cancellationToken);
+        await unitOfWork.RecordEdits.DeleteByImportJobIdAsync(importJobId, cancellationToken);
         await unitOfWork.SaveChangesAsync(cancellationToken);
     }
+
+    /// <summary>
+    /// Resolve the client search and filters against the schema so each filter is compared by the column's detected type.
+    /// </summary>
+    private static Result<RecordQuery> BuildQuery(
+        IReadOnlyList<ColumnDefinition> columns,
+        string? searchTerm,
+        IReadOnlyList<ColumnFilterDto> filters,
+        string? sortColumn,
+        bool sortDescending)
+    {
+        var columnsByName = columns
+            .Where(c => !c.IsIgnored)
+            .ToDictionary(c => c.Name);
+
+        var columnFilters = new List<ColumnFilter>();
+        foreach (var filter in filters)
+        {
+            if (!columnsByName.TryGetValue(filter.Column, out var column))
+                return Result.Failure<RecordQuery>($"Unknown column '{filter.Column}'");
+
+            if (!Enum.TryParse<FilterOperator>(filter.Operator, ignoreCase: true, out var op) || !Enum.IsDefined(op))
+                return Result.Failure<RecordQuery>($"Unsupported filter operator '{filter.Operator}'");
+
+            var columnFilter = new ColumnFilter(column.Name, column.DetectedType, op, filter.Value, filter.ValueTo);
+            var error = ValidateFilter(columnFilter);
+            if (error is not null)
+                return Result.Failure<RecordQuery>(error);
+
+            columnFilters.Add(columnFilter);
+        }
+
+        ColumnSort? sort = null;
+        if (!string.IsNullOrEmpty(sortColumn))
+        {
+            if (!columnsByName.TryGetValue(sortColumn, out var column))
+                return Result.Failure<RecordQuery>($"Unknown column '{sortColumn}'");
+
+            sort = new ColumnSort(column.Name, column.DetectedType, sortDescending);
+        }
+
+        return Result.Success(new RecordQuery
+        {
+            Search = RecordSearch.Parse(searchTerm, columns),
+            Filters = columnFilters,
+            Sort = sort
+        });
+    }
+
+    private static string? ValidateFilter(ColumnFilter filter)
+    {
+        switch (filter.Operator)
+        {
+            case FilterOperator.Between when filter.IsNumeric:
+                return HasInvalidBound(filter, v => ColumnFilter.ParseNumber(v) is not null)
+                    ? $"Range for column '{filter.Column}' must be numeric"
+                    : null;
+
+            case FilterOperator.Between when filter.IsDate:
+                return HasInvalidBound(filter, v => ColumnFilter.ParseDate(v) is not null)
+                    ? $"Range for column '{filter.Column}' must be a date"
+                    : null;
+
+            case FilterOperator.Between:
+                return $"Column '{filter.Column}' of type {filter.DataType} does not support range filters";
+
+            case FilterOperator.Equal when filter.DataType == DataTypes.Boolean:
+                return bool.TryParse(filter.Value, out _)
+                    ? null
+                    : $"Value for column '{filter.Column}' must be true or false";
+
+            default:
+                return null;
+        }
+    }
+
+    private static bool HasInvalidBound(ColumnFilter filter, Func<string, bool> isValid) =>
+        new[] { filter.Value, filter.ValueTo }.Any(v => !string.IsNullOrWhiteSpace(v) && !isValid(v));
 }
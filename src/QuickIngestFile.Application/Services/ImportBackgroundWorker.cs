@@ -16,6 +16,9 @@ public sealed class ImportBackgroundWorker : BackgroundService
 {
     private readonly IServiceScopeFactory _scopeFactory;
     private readonly BackgroundImportQueue _queue;
+    private readonly ImportProgressNotifier _notifier;
+    private readonly ImportJobControls _controls;
+    private readonly UploadFileStore _fileStore;
     private readonly ILogger<ImportBackgroundWorker> _logger;
     
     // Maximum concurrent imports - adjust based on resources
@@ -25,10 +28,16 @@ public sealed class ImportBackgroundWorker : BackgroundService
     public ImportBackgroundWorker(
         IServiceScopeFactory scopeFactory,
         BackgroundImportQueue queue,
+        ImportProgressNotifier notifier,
+        ImportJobControls controls,
+        UploadFileStore fileStore,
         ILogger<ImportBackgroundWorker> logger)
     {
         _scopeFactory = scopeFactory;
         _queue = queue;
+        _notifier = notifier;
+        _controls = controls;
+        _fileStore = fileStore;
         _logger = logger;
     }
     
@@ -89,6 +98,7 @@ public sealed class ImportBackgroundWorker : BackgroundService
             using var scope = _scopeFactory.CreateScope();
             var unitOfWork = scope.ServiceProvider.GetRequiredService<IUnitOfWork>();
             var parserFactory = scope.ServiceProvider.GetRequiredService<FileParserFactory>();
+            var archiveReader = scope.ServiceProvider.GetRequiredService<ArchiveReader>();
             
             // Get the import job from database
             var importJob = await unitOfWork.ImportJobs.GetByIdAsync(job.ImportJobId, stoppingToken);
@@ -97,74 +107,278 @@ public sealed class ImportBackgroundWorker : BackgroundService
                 _logger.LogWarning("Import job {JobId} not found in database", job.ImportJobId);
                 return;
             }
-            
+
+            // Cancelled, or its load dropped, while still waiting in the queue
+            if (importJob.Status != ImportStatus.Pending)
+            {
+                _logger.LogInformation("Import job {JobId} was cancelled before processing", job.ImportJobId);
+                return;
+            }
+
+            // A file loaded into an existing job is staged apart from the job's records until it completes,
+            // so a load that fails or is rolled back leaves the job as it was
+            var isMerge = job.Mode != ImportMode.New;
+            var targetId = isMerge ? Guid.NewGuid() : importJob.Id;
+            var snapshot = importJob.TakeSnapshot();
+            var outcome = new ImportOutcome();
+            var rowOffset = 0;
+
+            var control = _controls.Register(importJob.Id, stoppingToken);
             try
             {
-                var parser = parserFactory.GetParser(job.FileName);
-                using var stream = new MemoryStream(job.FileData);
+                using var upload = File.OpenRead(job.FilePath);
+
+                // Compressed files and archives are decompressed to a temporary file for the chosen entry
+                await using var file = await archiveReader.OpenAsync(upload, job.FileName, job.Options.ArchiveEntry, control.Token);
+                var stream = file.Content;
+                var parser = parserFactory.GetParser(file.Name, job.Options);
                 
                 // Detect and save schema
-                var schema = await parser.DetectSchemaAsync(stream, job.Options, stoppingToken);
-                var fileSchema = new FileSchema
+                var schema = await parser.DetectSchemaAsync(stream, job.Options, control.Token);
+                var options = job.Options;
+                RecordMerger? merger = null;
+
+                if (isMerge)
                 {
-                    ImportJobId = importJob.Id,
-                    FileName = job.FileName
-                };
-                fileSchema.SetColumns(schema.Columns.Select(c => new ColumnDefinition
+                    // Loading into an existing job: its schema decides the columns, the file has to fit it
+                    var targetSchema = await unitOfWork.FileSchemas.GetByImportJobIdAsync(importJob.Id, control.Token)
+                        ?? throw new InvalidOperationException("The job has no schema to load the file into");
+                    var targetColumns = targetSchema.GetColumns();
+
+                    var mismatch = RecordMerger.FindColumnMismatch(targetColumns, schema.Columns);
+                    if (mismatch is not null)
+                        throw new InvalidOperationException(mismatch);
+
+                    options.ColumnMappings = RecordMerger.BuildMappings(targetColumns, schema.Columns);
+
+                    if (job.Mode != ImportMode.Replace)
+                        rowOffset = await unitOfWork.ImportedRecords.GetMaxRowNumberAsync(importJob.Id, control.Token);
+
+                    if (job.Mode == ImportMode.Upsert)
+                    {
+                        merger = await RecordMerger.LoadAsync(
+                            unitOfWork.ImportedRecords, importJob.Id, job.KeyColumns, control.Token);
+                    }
+                }
+                else
                 {
-                    Name = c.Name,
-                    Index = c.Index,
-                    DetectedType = c.DetectedType
-                }));
+                    var fileSchema = new FileSchema
+                    {
+                        ImportJobId = importJob.Id,
+                        FileName = job.FileName
+                    };
+                    fileSchema.SetColumns(ColumnMapper.BuildColumns(schema.Columns, options.ColumnMappings));
 
-                await unitOfWork.FileSchemas.AddAsync(fileSchema, stoppingToken);
-                await unitOfWork.SaveChangesAsync(stoppingToken);
+                    await unitOfWork.FileSchemas.AddAsync(fileSchema, control.Token);
+                    await unitOfWork.SaveChangesAsync(control.Token);
+                }
 
+                // Counters follow the load while it runs; a merge recounts the job once it completes
+                importJob.Mode = job.Mode;
                 importJob.TotalRecords = schema.EstimatedRowCount;
+                importJob.ProcessedRecords = 0;
+                importJob.FailedRecords = 0;
                 importJob.Start();
-                await unitOfWork.ImportJobs.UpdateAsync(importJob, stoppingToken);
-                await unitOfWork.SaveChangesAsync(stoppingToken);
+                await unitOfWork.ImportJobs.UpdateAsync(importJob, control.Token);
+                await unitOfWork.SaveChangesAsync(control.Token);
+                _notifier.Publish(importJob);
 
                 // Reset stream position for parsing
                 stream.Position = 0;
                 
                 // Process with producer/consumer pattern
-                var result = await ProcessImportAsync(
-                    parser, stream, job.Options, importJob, unitOfWork, stoppingToken);
+                await ProcessImportAsync(
+                    parser, stream, options, importJob, targetId, unitOfWork, control, rowOffset, merger, outcome);
+
+                if (isMerge)
+                    await CommitLoadAsync(importJob, job, targetId, unitOfWork, control.Token);
+                else
+                    importJob.Complete(outcome.Total, outcome.Processed, outcome.Failed);
 
-                importJob.Complete(result.Total, result.Processed, result.Failed);
+                importJob.SetRuleViolations(outcome.Violations);
+                importJob.RecordLoad(new ImportLoad(
+                    job.FileName,
+                    job.Mode,
+                    job.KeyColumns,
+                    outcome.Inserted,
+                    outcome.Updated,
+                    outcome.Unchanged,
+                    outcome.Failed,
+                    rowOffset,
+                    importJob.CompletedAt ?? DateTime.UtcNow,
+                    importJob.Status));
                 
                 _logger.LogInformation(
-                    "Import job {JobId} completed. Total: {Total}, Processed: {Processed}, Failed: {Failed}",
-                    job.ImportJobId, result.Total, result.Processed, result.Failed);
+                    "Import job {JobId} completed ({Mode}). Total: {Total}, Inserted: {Inserted}, Updated: {Updated}, Unchanged: {Unchanged}, Failed: {Failed}",
+                    job.ImportJobId, job.Mode, outcome.Total, outcome.Inserted, outcome.Updated, outcome.Unchanged, outcome.Failed);
+            }
+            catch (OperationCanceledException) when (control.IsCancelRequested)
+            {
+                var keepRows = control.KeepInsertedRows;
+
+                if (isMerge)
+                {
+                    // Rows kept from a cancelled load go in like a completed one; otherwise only the staged rows go
+                    if (keepRows)
+                        await CommitLoadAsync(importJob, job, targetId, unitOfWork, stoppingToken);
+                    else
+                        await DiscardLoadAsync(targetId, unitOfWork, stoppingToken);
+
+                    RecordUnfinishedLoad(
+                        importJob, job, rowOffset, keepRows ? outcome : new ImportOutcome(), ImportStatus.Cancelled,
+                        keepRows ? "Cancelled by user; imported rows were kept" : "Cancelled by user; imported rows were rolled back");
+
+                    if (keepRows)
+                        importJob.Cancel(rowsRolledBack: false);
+                    else
+                        importJob.RestoreAfterLoad(snapshot);
+                }
+                else
+                {
+                    if (!keepRows)
+                    {
+                        // Rejected rows go too, so the job reports no failures for rows it no longer has
+                        await unitOfWork.ImportedRecords.DeleteByImportJobIdAsync(importJob.Id, stoppingToken);
+                        await unitOfWork.ImportFailures.DeleteByImportJobIdAsync(importJob.Id, stoppingToken);
+                    }
+
+                    importJob.Cancel(rowsRolledBack: !keepRows);
+                }
+
+                _logger.LogInformation(
+                    "Import job {JobId} cancelled. Rows kept: {KeepRows}",
+                    job.ImportJobId, keepRows);
             }
             catch (Exception ex)
             {
                 _logger.LogError(ex, "Import job {JobId} failed: {Message}", job.ImportJobId, ex.Message);
-                importJob.Fail(ex.Message);
+
+                if (isMerge)
+                {
+                    // The job keeps its records, status and counters; the error belongs to the load
+                    await DiscardLoadAsync(targetId, unitOfWork, stoppingToken);
+                    RecordUnfinishedLoad(importJob, job, rowOffset, new ImportOutcome(), ImportStatus.Failed, ex.Message);
+                    importJob.RestoreAfterLoad(snapshot);
+                }
+                else
+                {
+                    importJob.Fail(ex.Message);
+                }
+            }
+            finally
+            {
+                _controls.Unregister(importJob.Id);
             }
 
             await unitOfWork.ImportJobs.UpdateAsync(importJob, stoppingToken);
             await unitOfWork.SaveChangesAsync(stoppingToken);
+            _notifier.Publish(importJob);
         }
         finally
         {
+            // Deleted once no other queued job shares the file
+            _fileStore.Release(job.FilePath);
             _semaphore.Release();
         }
     }
-    
-    private async Task<(int Total, int Processed, int Failed)> ProcessImportAsync(
+
+    /// <summary>
+    /// Move a staged load into the job, replacing the rejected rows of the previous load,
+    /// and count what the job holds afterwards.
+    /// </summary>
+    private static async Task CommitLoadAsync(
+        ImportJob importJob,
+        QueuedImportJob job,
+        Guid stagingId,
+        IUnitOfWork unitOfWork,
+        CancellationToken cancellationToken)
+    {
+        await unitOfWork.ImportedRecords.CommitStagedAsync(
+            stagingId, importJob.Id, job.Mode == ImportMode.Replace, cancellationToken);
+        await unitOfWork.ImportFailures.CommitStagedAsync(stagingId, importJob.Id, cancellationToken);
+
+        var processed = await unitOfWork.ImportedRecords.CountByImportJobIdAsync(importJob.Id, cancellationToken);
+        var failed = await unitOfWork.ImportFailures.CountByImportJobIdAsync(importJob.Id, cancellationToken);
+        importJob.Complete(processed + failed, processed, failed);
+    }
+
+    /// <summary>
+    /// Drop the rows and failures staged by a load that did not go through.
+    /// </summary>
+    private static async Task DiscardLoadAsync(Guid stagingId, IUnitOfWork unitOfWork, CancellationToken cancellationToken)
+    {
+        await unitOfWork.ImportedRecords.DeleteByImportJobIdAsync(stagingId, cancellationToken);
+        await unitOfWork.ImportFailures.DeleteByImportJobIdAsync(stagingId, cancellationToken);
+    }
+
+    private static void RecordUnfinishedLoad(
+        ImportJob importJob,
+        QueuedImportJob job,
+        int rowOffset,
+        ImportOutcome outcome,
+        ImportStatus status,
+        string errorMessage)
+    {
+        importJob.RecordLoad(new ImportLoad(
+            job.FileName,
+            job.Mode,
+            job.KeyColumns,
+            outcome.Inserted,
+            outcome.Updated,
+            outcome.Unchanged,
+            outcome.Failed,
+            rowOffset,
+            DateTime.UtcNow,
+            status,
+            errorMessage));
+    }
+
+    /// <summary>
+    /// Hold the consumer between batches while the user has the job paused.
+    /// The bounded channel then blocks the producer as well.
+    /// </summary>
+    private async Task PauseIfRequestedAsync(ImportJob importJob, IUnitOfWork unitOfWork, ImportJobControl control)
+    {
+        if (!control.IsPauseRequested)
+            return;
+
+        importJob.Pause();
+        await unitOfWork.ImportJobs.UpdateAsync(importJob, control.Token);
+        await unitOfWork.SaveChangesAsync(control.Token);
+        _notifier.Publish(importJob);
+
+        _logger.LogInformation("Import job {JobId} paused", importJob.Id);
+        await control.WaitForResumeAsync();
+
+        importJob.Resume();
+        await unitOfWork.ImportJobs.UpdateAsync(importJob, control.Token);
+        await unitOfWork.SaveChangesAsync(control.Token);
+        _notifier.Publish(importJob);
+        _logger.LogInformation("Import job {JobId} resumed", importJob.Id);
+    }
+
+    /// <summary>
+    /// Parse, validate and store the rows of a file under <paramref name="targetId"/>, counting into <paramref name="outcome"/>
+    /// as batches are written. New records are numbered after <paramref name="rowOffset"/>; with a merger, rows matching
+    /// an existing record are staged with its row number to update it, or skipped when nothing changed.
+    /// </summary>
+    private async Task ProcessImportAsync(
         IFileParser parser,
         Stream fileStream,
         ParserOptions options,
         ImportJob importJob,
+        Guid targetId,
         IUnitOfWork unitOfWork,
-        CancellationToken cancellationToken)
+        ImportJobControl control,
+        int rowOffset,
+        RecordMerger? merger,
+        ImportOutcome outcome)
     {
+        var cancellationToken = control.Token;
         const int channelCapacity = 10_000;
         const int defaultBatchSize = 1000;
         
-        var channel = System.Threading.Channels.Channel.CreateBounded<ImportedRecord>(
+        var channel = System.Threading.Channels.Channel.CreateBounded<object>(
             new System.Threading.Channels.BoundedChannelOptions(channelCapacity)
             {
                 FullMode = System.Threading.Channels.BoundedChannelFullMode.Wait,
@@ -172,34 +386,66 @@ public sealed class ImportBackgroundWorker : BackgroundService
                 SingleWriter = true
             });
 
-        var totalRecords = 0;
-        var processedRecords = 0;
-        var failedRecords = 0;
+        // Rules were checked when the import was requested, so this only fails for hand-built options
+        var validatorResult = RowValidator.Create(options.ColumnMappings);
+        if (validatorResult.IsFailure)
+            throw new InvalidOperationException(validatorResult.Error);
+        var validator = validatorResult.Value;
 
         // Producer: Parse file and write to channel
         var producerTask = Task.Run(async () =>
         {
             try
             {
-                await foreach (var row in parser.ParseAsync(fileStream, options, cancellationToken))
+                await foreach (var parsedRow in parser.ParseAsync(fileStream, options, cancellationToken))
                 {
-                    totalRecords++;
+                    outcome.Total++;
+                    var row = validator.Validate(ColumnMapper.Apply(parsedRow, options.ColumnMappings));
 
                     if (row.IsSuccess)
                     {
                         var record = new ImportedRecord
                         {
-                            ImportJobId = importJob.Id,
+                            ImportJobId = targetId,
                             RowNumber = row.RowNumber
                         };
                         record.SetData(row.Data);
 
-                        await channel.Writer.WriteAsync(record, cancellationToken);
+                        var match = merger?.Match(record) ?? new MergeMatch(MergeAction.Insert);
+                        switch (match.Action)
+                        {
+                            case MergeAction.Insert:
+                                record.RowNumber = rowOffset + row.RowNumber;
+                                await channel.Writer.WriteAsync(record, cancellationToken);
+                                continue;
+
+                            case MergeAction.Update:
+                                record.RowNumber = match.RowNumber!.Value;
+                                record.UpdateData(row.Data);
+                                await channel.Writer.WriteAsync(new RecordUpdate(record), cancellationToken);
+                                continue;
+
+                            case MergeAction.Unchanged:
+                                Interlocked.Increment(ref outcome.Unchanged);
+                                continue;
+
+                            default:
+                                row = row with { IsSuccess = false, ErrorMessage = match.Error };
+                                break;
+                        }
                     }
-                    else
+
+                    Interlocked.Increment(ref outcome.Failed);
+
+                    var failure = new ImportFailure
                     {
-                        Interlocked.Increment(ref failedRecords);
-                    }
+                        ImportJobId = targetId,
+                        RowNumber = row.RowNumber,
+                        ErrorMessage = row.ErrorMessage ?? $"Row {row.RowNumber}: could not be parsed"
+                    };
+                    failure.SetRawData(row.RawData ?? new Dictionary<string, string?>());
+
+                    await channel.Writer.WriteAsync(failure, cancellationToken);
                 }
             }
             finally
@@ -213,39 +459,88 @@ public sealed class ImportBackgroundWorker : BackgroundService
         var consumerTask = Task.Run(async () =>
         {
             var batch = new List<ImportedRecord>(batchSize);
+            var failures = new List<ImportFailure>();
+            var updatedInBatch = 0;
 
-            await foreach (var record in channel.Reader.ReadAllAsync(cancellationToken))
+            async Task WriteBatchAsync()
             {
-                batch.Add(record);
+                // Updates are staged like new records and applied when the load is committed
+                await unitOfWork.ImportedRecords.BulkInsertAsync(batch, cancellationToken);
+                outcome.Inserted += batch.Count - updatedInBatch;
+                outcome.Updated += updatedInBatch;
+
+                // Update job progress periodically; unchanged rows are counted by the producer and never reach the channel
+                importJob.ProcessedRecords = outcome.Processed;
+                await unitOfWork.ImportJobs.UpdateAsync(importJob, cancellationToken);
+                await unitOfWork.SaveChangesAsync(cancellationToken);
+                _notifier.Publish(importJob);
+
+                batch.Clear();
+                updatedInBatch = 0;
+            }
+
+            await foreach (var item in channel.Reader.ReadAllAsync(cancellationToken))
+            {
+                // Rejected rows are stored alongside so they can be reviewed and re-imported
+                if (item is ImportFailure failure)
+                {
+                    failures.Add(failure);
+                    if (failures.Count >= batchSize)
+                    {
+                        await unitOfWork.ImportFailures.BulkInsertAsync(failures, cancellationToken);
+                        failures.Clear();
+                    }
+                    continue;
+                }
+
+                if (item is RecordUpdate update)
+                {
+                    batch.Add(update.Record);
+                    updatedInBatch++;
+                }
+                else
+                {
+                    batch.Add((ImportedRecord)item);
+                }
 
                 if (batch.Count >= batchSize)
                 {
-                    await unitOfWork.ImportedRecords.BulkInsertAsync(batch, cancellationToken);
-                    Interlocked.Add(ref processedRecords, batch.Count);
-                    
-                    // Update job progress periodically
-                    importJob.ProcessedRecords = processedRecords;
-                    await unitOfWork.ImportJobs.UpdateAsync(importJob, cancellationToken);
-                    await unitOfWork.SaveChangesAsync(cancellationToken);
-
-                    batch.Clear();
+                    await PauseIfRequestedAsync(importJob, unitOfWork, control);
+                    await WriteBatchAsync();
                 }
             }
 
             // Insert remaining items
-            if (batch.Count > 0)
+            if (failures.Count > 0)
             {
-                await unitOfWork.ImportedRecords.BulkInsertAsync(batch, cancellationToken);
-                Interlocked.Add(ref processedRecords, batch.Count);
-                
-                importJob.ProcessedRecords = processedRecords;
-                await unitOfWork.ImportJobs.UpdateAsync(importJob, cancellationToken);
-                await unitOfWork.SaveChangesAsync(cancellationToken);
+                await unitOfWork.ImportFailures.BulkInsertAsync(failures, cancellationToken);
             }
+
+            await WriteBatchAsync();
         }, cancellationToken);
 
         await Task.WhenAll(producerTask, consumerTask);
 
-        return (totalRecords, processedRecords, failedRecords);
+        outcome.Violations = validator.GetViolations();
+    }
+
+    /// <summary>
+    /// Staged copy of an existing record, carrying its row number and new data.
+    /// </summary>
+    private sealed record RecordUpdate(ImportedRecord Record);
+
+    /// <summary>
+    /// Counts of a load, kept up to date while it runs so an interrupted load can still report them.
+    /// </summary>
+    private sealed class ImportOutcome
+    {
+        public int Total;
+        public int Failed;
+        public int Inserted;
+        public int Updated;
+        public int Unchanged;
+        public IReadOnlyList<RuleViolationCount> Violations = [];
+
+        public int Processed => Inserted + Updated + Volatile.Read(ref Unchanged);
     }
 }
@@ -0,0 +1,126 @@
+namespace QuickIngestFile.Application.Services;
+
+using System.Collections.Concurrent;
+
+/// <summary>
+/// Registry of control handles for imports currently being processed.
+/// API requests signal a handle; the background worker observes it between batches.
+/// </summary>
+public sealed class ImportJobControls
+{
+    private readonly ConcurrentDictionary<Guid, ImportJobControl> _controls = new();
+
+    // Finished jobs a request is queueing a load into
+    private readonly ConcurrentDictionary<Guid, byte> _loading = new();
+
+    /// <summary>
+    /// Register a control handle for a job that is starting to process.
+    /// </summary>
+    public ImportJobControl Register(Guid importJobId, CancellationToken stoppingToken)
+    {
+        var control = new ImportJobControl(stoppingToken);
+        _controls[importJobId] = control;
+        return control;
+    }
+
+    /// <summary>
+    /// Get the control handle of a running job.
+    /// </summary>
+    public ImportJobControl? Get(Guid importJobId) =>
+        _controls.TryGetValue(importJobId, out var control) ? control : null;
+
+    /// <summary>
+    /// Remove the control handle once the job stops processing.
+    /// </summary>
+    public void Unregister(Guid importJobId)
+    {
+        if (_controls.TryRemove(importJobId, out var control))
+            control.Dispose();
+    }
+
+    /// <summary>
+    /// Claim a job to queue a load into it. Only one request holds the claim at a time,
+    /// so two loads cannot both find the job finished and queue into it.
+    /// </summary>
+    public bool TryClaimLoad(Guid importJobId) => _loading.TryAdd(importJobId, 0);
+
+    /// <summary>
+    /// Release the claim once the load is queued or turned down.
+    /// </summary>
+    public void ReleaseLoad(Guid importJobId) => _loading.TryRemove(importJobId, out _);
+}
+
+/// <summary>
+/// Cancellation and pause signals for a single running import.
+/// </summary>
+public sealed class ImportJobControl : IDisposable
+{
+    private readonly CancellationTokenSource _cancellation;
+    private TaskCompletionSource? _resumeSignal;
+    private readonly object _lock = new();
+
+    public ImportJobControl(CancellationToken stoppingToken)
+    {
+        _cancellation = CancellationTokenSource.CreateLinkedTokenSource(stoppingToken);
+    }
+
+    /// <summary>
+    /// Token cancelled when the user cancels the job or the host stops.
+    /// </summary>
+    public CancellationToken Token => _cancellation.Token;
+
+    /// <summary>
+    /// Whether the user asked to cancel (as opposed to host shutdown).
+    /// </summary>
+    public bool IsCancelRequested { get; private set; }
+
+    /// <summary>
+    /// Whether rows inserted before cancellation should be kept.
+    /// </summary>
+    public bool KeepInsertedRows { get; private set; } = true;
+
+    public bool IsPauseRequested
+    {
+        get
+        {
+            lock (_lock)
+                return _resumeSignal is not null;
+        }
+    }
+
+    public void Cancel(bool keepInsertedRows)
+    {
+        KeepInsertedRows = keepInsertedRows;
+        IsCancelRequested = true;
+        _cancellation.Cancel();
+    }
+
+    public void Pause()
+    {
+        lock (_lock)
+            _resumeSignal ??= new TaskCompletionSource(TaskCreationOptions.RunContinuationsAsynchronously);
+    }
+
+    public void Resume()
+    {
+        lock (_lock)
+        {
+            _resumeSignal?.TrySetResult();
+            _resumeSignal = null;
+        }
+    }
+
+    /// <summary>
+    /// Wait until the job is resumed. Returns immediately when not paused.
+    /// </summary>
+    public Task WaitForResumeAsync()
+    {
+        Task signal;
+        lock (_lock)
+            signal = _resumeSignal?.Task ?? Task.CompletedTask;
+
+        return signal.WaitAsync(Token);
+    }
+
+    public void Dispose() => _cancellation.Dispose();
+}
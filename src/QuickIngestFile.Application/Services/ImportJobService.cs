@@ -2,12 +2,16 @@ namespace QuickIngestFile.Application.Services;
 
 using QuickIngestFile.Application.DTOs;
 using QuickIngestFile.Domain.Common;
+using QuickIngestFile.Domain.Entities;
 using QuickIngestFile.Domain.Repositories;
 
 /// <summary>
 /// Service for managing import jobs.
 /// </summary>
-public sealed class ImportJobService(IUnitOfWork unitOfWork)
+public sealed class ImportJobService(
+    IUnitOfWork unitOfWork,
+    ImportJobControls controls,
+    ImportProgressNotifier notifier)
 {
     /// <summary>
     /// Get recent import jobs.
@@ -35,18 +39,23 @@ public sealed class ImportJobService(IUnitOfWork unitOfWork)
     }
 
     /// <summary>
-    /// Get all import jobs with pagination.
+    /// Get import jobs with pagination, optionally filtered and sorted.
     /// </summary>
-    public async Task<PagedResult<ImportJobDto>> GetJobsAsync(
+    public async Task<Result<PagedResult<ImportJobDto>>> GetJobsAsync(
         int page = 1,
         int pageSize = 20,
+        ImportJobFilterDto? filter = null,
         CancellationToken cancellationToken = default)
     {
-        var result = await unitOfWork.ImportJobs.GetPagedAsync(page, pageSize, cancellationToken);
+        var query = BuildQuery(filter ?? new ImportJobFilterDto());
+        if (query.IsFailure)
+            return Result.Failure<PagedResult<ImportJobDto>>(query.Error);
+
+        var result = await unitOfWork.ImportJobs.QueryAsync(query.Value, page, pageSize, cancellationToken);
 
         var dtos = result.Items.Select(ImportJobDto.FromEntity).ToList();
 
-        return new PagedResult<ImportJobDto>(dtos, result.TotalCount, result.Page, result.PageSize);
+        return Result.Success(new PagedResult<ImportJobDto>(dtos, result.TotalCount, result.Page, result.PageSize));
     }
 
     /// <summary>
@@ -63,9 +72,182 @@ public sealed class ImportJobService(IUnitOfWork unitOfWork)
 
         // Delete related data
         await unitOfWork.ImportedRecords.DeleteByImportJobIdAsync(id, cancellationToken);
+        await unitOfWork.ImportFailures.DeleteByImportJobIdAsync(id, cancellationToken);
+        await unitOfWork.RecordEdits.DeleteByImportJobIdAsync(id, cancellationToken);
         await unitOfWork.ImportJobs.DeleteAsync(id, cancellationToken);
         await unitOfWork.SaveChangesAsync(cancellationToken);
 
         return Result.Success();
     }
+
+    /// <summary>
+    /// Cancel a pending, running or paused import job.
+    /// Running jobs stop at the next batch; inserted rows are kept or rolled back.
+    /// </summary>
+    public async Task<Result<ImportJobDto>> CancelJobAsync(
+        Guid id,
+        bool keepRows,
+        CancellationToken cancellationToken = default)
+    {
+        var job = await unitOfWork.ImportJobs.GetByIdAsync(id, cancellationToken);
+
+        if (job is null)
+            return Result.Failure<ImportJobDto>($"Import job with ID {id} not found");
+
+        if (job.IsFinished)
+            return Result.Failure<ImportJobDto>($"Import job is already {job.Status}");
+
+        // The worker owns the entity while processing; signal it instead of writing here
+        var control = controls.Get(id);
+        if (control is not null)
+        {
+            control.Cancel(keepRows);
+            return Result.Success(ImportJobDto.FromEntity(job));
+        }
+
+        if (job.Status != ImportStatus.Pending)
+            return Result.Failure<ImportJobDto>("Import job is not running");
+
+        // Still queued: the worker skips jobs that are no longer pending when it dequeues them.
+        // A load queued into a finished job just leaves the job as it was
+        if (job.PreviousStatus is not null)
+            job.CancelQueuedLoad();
+        else
+            job.Cancel(rowsRolledBack: !keepRows);
+        await unitOfWork.ImportJobs.UpdateAsync(job, cancellationToken);
+        await unitOfWork.SaveChangesAsync(cancellationToken);
+        notifier.Publish(job);
+
+        return Result.Success(ImportJobDto.FromEntity(job));
+    }
+
+    /// <summary>
+    /// Prepare a finished job to load another file into it. Upserts match records by the key columns,
+    /// which have to be imported columns of the job. The caller queues the file.
+    /// </summary>
+    public async Task<Result<ImportJobDto>> QueueLoadAsync(
+        Guid id,
+        string? mode,
+        IReadOnlyList<string> keyColumns,
+        CancellationToken cancellationToken = default)
+    {
+        if (!Enum.TryParse<ImportMode>(mode, ignoreCase: true, out var importMode)
+            || !Enum.IsDefined(importMode)
+            || importMode == ImportMode.New)
+        {
+            return Result.Failure<ImportJobDto>($"Unsupported import mode '{mode}'; use append, upsert or replace");
+        }
+
+        // Checking that the job is finished and queueing the load happen under one claim
+        if (!controls.TryClaimLoad(id))
+            return Result.Failure<ImportJobDto>("Another load into the import job is still running");
+
+        try
+        {
+            var job = await unitOfWork.ImportJobs.GetByIdAsync(id, cancellationToken);
+
+            if (job is null)
+                return Result.Failure<ImportJobDto>($"Import job with ID {id} not found");
+
+            if (!job.IsFinished)
+                return Result.Failure<ImportJobDto>("Import job is still running");
+
+            var schema = await unitOfWork.FileSchemas.GetByImportJobIdAsync(id, cancellationToken);
+            if (schema is null)
+                return Result.Failure<ImportJobDto>("Import job has no schema to load into");
+
+            if (importMode == ImportMode.Upsert)
+            {
+                if (keyColumns.Count == 0)
+                    return Result.Failure<ImportJobDto>("Upsert needs at least one key column");
+
+                var columns = schema.GetColumns().Where(c => !c.IsIgnored).Select(c => c.Name).ToHashSet();
+                var unknown = keyColumns.FirstOrDefault(k => !columns.Contains(k));
+                if (unknown is not null)
+                    return Result.Failure<ImportJobDto>($"Key column '{unknown}' is not an imported column of the job");
+            }
+
+            job.QueueLoad();
+            await unitOfWork.ImportJobs.UpdateAsync(job, cancellationToken);
+            await unitOfWork.SaveChangesAsync(cancellationToken);
+            notifier.Publish(job);
+
+            return Result.Success(ImportJobDto.FromEntity(job));
+        }
+        finally
+        {
+            controls.ReleaseLoad(id);
+        }
+    }
+
+    /// <summary>
+    /// Pause a running import job after its current batch.
+    /// </summary>
+    public async Task<Result<ImportJobDto>> PauseJobAsync(
+        Guid id,
+        CancellationToken cancellationToken = default)
+    {
+        var job = await unitOfWork.ImportJobs.GetByIdAsync(id, cancellationToken);
+
+        if (job is null)
+            return Result.Failure<ImportJobDto>($"Import job with ID {id} not found");
+
+        var control = controls.Get(id);
+        if (control is null)
+            return Result.Failure<ImportJobDto>("Only running imports can be paused");
+
+        control.Pause();
+        return Result.Success(ImportJobDto.FromEntity(job));
+    }
+
+    /// <summary>
+    /// Resume a paused import job.
+    /// </summary>
+    public async Task<Result<ImportJobDto>> ResumeJobAsync(
+        Guid id,
+        CancellationToken cancellationToken = default)
+    {
+        var job = await unitOfWork.ImportJobs.GetByIdAsync(id, cancellationToken);
+
+        if (job is null)
+            return Result.Failure<ImportJobDto>($"Import job with ID {id} not found");
+
+        var control = controls.Get(id);
+        if (control is null || !control.IsPauseRequested)
+            return Result.Failure<ImportJobDto>("Import job is not paused");
+
+        control.Resume();
+        return Result.Success(ImportJobDto.FromEntity(job));
+    }
+
+    private static Result<ImportJobQuery> BuildQuery(ImportJobFilterDto filter)
+    {
+        var statuses = new List<ImportStatus>();
+        foreach (var value in (filter.Status ?? string.Empty).Split(',', StringSplitOptions.RemoveEmptyEntries | StringSplitOptions.TrimEntries))
+        {
+            if (!Enum.TryParse<ImportStatus>(value, ignoreCase: true, out var status) || !Enum.IsDefined(status))
+                return Result.Failure<ImportJobQuery>($"Unknown status '{value}'");
+
+            statuses.Add(status);
+        }
+
+        var sortBy = ImportJobSortField.CreatedAt;
+        if (!string.IsNullOrWhiteSpace(filter.SortBy)
+            && (!Enum.TryParse(filter.SortBy, ignoreCase: true, out sortBy) || !Enum.IsDefined(sortBy)))
+        {
+            return Result.Failure<ImportJobQuery>($"Unsupported sort field '{filter.SortBy}'");
+        }
+
+        return Result.Success(new ImportJobQuery
+        {
+            Statuses = statuses,
+            FileType = filter.FileType?.Trim().TrimStart('.'),
+            CreatedFrom = filter.From?.Date,
+            // The end date is inclusive, so match everything before the following day
+            CreatedBefore = filter.To?.Date.AddDays(1),
+            FileName = filter.Search?.Trim(),
+            SortBy = sortBy,
+            Descending = filter.Descending
+        });
+    }
 }
@@ -0,0 +1,187 @@
+namespace QuickIngestFile.Application.Services;
+
+using QuickIngestFile.Application.DTOs;
+using QuickIngestFile.Application.Parsing;
+using QuickIngestFile.Domain.Common;
+using QuickIngestFile.Domain.Entities;
+using QuickIngestFile.Domain.Repositories;
+
+/// <summary>
+/// Service for managing saved import profiles and finding the ones that apply to a file.
+/// </summary>
+public sealed class ImportProfileService(IUnitOfWork unitOfWork)
+{
+    /// <summary>
+    /// Get all profiles ordered by name.
+    /// </summary>
+    public async Task<IReadOnlyList<ImportProfileDto>> GetProfilesAsync(
+        CancellationToken cancellationToken = default)
+    {
+        var profiles = await unitOfWork.ImportProfiles.GetAllAsync(cancellationToken);
+
+        return profiles
+            .OrderBy(p => p.Name, StringComparer.OrdinalIgnoreCase)
+            .Select(ImportProfileDto.FromEntity)
+            .ToList();
+    }
+
+    /// <summary>
+    /// Get a profile by ID.
+    /// </summary>
+    public async Task<Result<ImportProfileDto>> GetProfileByIdAsync(
+        Guid id,
+        CancellationToken cancellationToken = default)
+    {
+        var profile = await unitOfWork.ImportProfiles.GetByIdAsync(id, cancellationToken);
+
+        return profile is null
+            ? Result.Failure<ImportProfileDto>($"Import profile with ID {id} not found")
+            : Result.Success(ImportProfileDto.FromEntity(profile));
+    }
+
+    /// <summary>
+    /// Get the profiles whose file name pattern matches a file, most specific pattern first.
+    /// </summary>
+    public async Task<IReadOnlyList<ImportProfileDto>> FindMatchingProfilesAsync(
+        string fileName,
+        CancellationToken cancellationToken = default)
+    {
+        var profiles = await unitOfWork.ImportProfiles.GetAllAsync(cancellationToken);
+
+        return profiles
+            .Where(p => p.MatchesFileName(fileName))
+            .OrderByDescending(p => p.PatternSpecificity)
+            .ThenBy(p => p.Name, StringComparer.OrdinalIgnoreCase)
+            .Select(ImportProfileDto.FromEntity)
+            .ToList();
+    }
+
+    /// <summary>
+    /// Create a profile. Names are unique, case-insensitive.
+    /// </summary>
+    public async Task<Result<ImportProfileDto>> CreateProfileAsync(
+        SaveImportProfileRequest request,
+        CancellationToken cancellationToken = default)
+    {
+        var validation = Validate(request);
+        if (validation.IsFailure)
+            return Result.Failure<ImportProfileDto>(validation.Error);
+
+        var existing = await unitOfWork.ImportProfiles.GetByNameAsync(request.Name.Trim(), cancellationToken);
+        if (existing is not null)
+            return Result.Failure<ImportProfileDto>($"An import profile named '{existing.Name}' already exists");
+
+        var profile = new ImportProfile();
+        Apply(profile, request);
+
+        await unitOfWork.ImportProfiles.AddAsync(profile, cancellationToken);
+        await unitOfWork.SaveChangesAsync(cancellationToken);
+
+        return Result.Success(ImportProfileDto.FromEntity(profile));
+    }
+
+    /// <summary>
+    /// Replace the settings of a profile.
+    /// </summary>
+    public async Task<Result<ImportProfileDto>> UpdateProfileAsync(
+        Guid id,
+        SaveImportProfileRequest request,
+        CancellationToken cancellationToken = default)
+    {
+        var profile = await unitOfWork.ImportProfiles.GetByIdAsync(id, cancellationToken);
+        if (profile is null)
+            return Result.Failure<ImportProfileDto>($"Import profile with ID {id} not found");
+
+        var validation = Validate(request);
+        if (validation.IsFailure)
+            return Result.Failure<ImportProfileDto>(validation.Error);
+
+        var existing = await unitOfWork.ImportProfiles.GetByNameAsync(request.Name.Trim(), cancellationToken);
+        if (existing is not null && existing.Id != id)
+            return Result.Failure<ImportProfileDto>($"An import profile named '{existing.Name}' already exists");
+
+        Apply(profile, request);
+        profile.MarkUpdated();
+
+        await unitOfWork.ImportProfiles.UpdateAsync(profile, cancellationToken);
+        await unitOfWork.SaveChangesAsync(cancellationToken);
+
+        return Result.Success(ImportProfileDto.FromEntity(profile));
+    }
+
+    /// <summary>
+    /// Delete a profile.
+    /// </summary>
+    public async Task<Result> DeleteProfileAsync(
+        Guid id,
+        CancellationToken cancellationToken = default)
+    {
+        var profile = await unitOfWork.ImportProfiles.GetByIdAsync(id, cancellationToken);
+        if (profile is null)
+            return Result.Failure($"Import profile with ID {id} not found");
+
+        await unitOfWork.ImportProfiles.DeleteAsync(id, cancellationToken);
+        await unitOfWork.SaveChangesAsync(cancellationToken);
+
+        return Result.Success();
+    }
+
+    private static Result Validate(SaveImportProfileRequest request)
+    {
+        if (string.IsNullOrWhiteSpace(request.Name))
+            return Result.Failure("Profile name is required");
+
+        if (string.IsNullOrWhiteSpace(request.FileNamePattern))
+            return Result.Failure("File name pattern is required");
+
+        var mappings = (request.Columns ?? [])
+            .Select(c => new ColumnMapping(c.Name, c.DisplayName, c.IsIgnored, c.DetectedType, c.Rules))
+            .ToList();
+        var rules = RowValidator.Create(mappings);
+        if (rules.IsFailure)
+            return Result.Failure(rules.Error);
+
+        var options = request.Options;
+        if (options is null)
+            return Result.Success();
+
+        if (options.Encoding is not null && !TextEncodings.IsSupported(options.Encoding))
+            return Result.Failure($"Unsupported encoding: {options.Encoding}. Supported: {string.Join(", ", TextEncodings.All)}");
+
+        if (options.HeaderRowOffset < 0 || options.SkipRows < 0)
+            return Result.Failure("Header row offset and skipped rows cannot be negative");
+
+        return FixedWidthFileParser.ValidateLayout(options.FixedWidthColumns ?? []);
+    }
+
+    private static void Apply(ImportProfile profile, SaveImportProfileRequest request)
+    {
+        var options = request.Options ?? new ImportProfileOptionsDto();
+
+        profile.Name = request.Name.Trim();
+        profile.FileNamePattern = request.FileNamePattern.Trim();
+        profile.SetOptions(new ImportProfileOptions
+        {
+            Delimiter = options.Delimiter,
+            Quote = options.Quote,
+            HasHeader = options.HasHeader,
+            Encoding = options.Encoding?.ToLowerInvariant(),
+            HeaderRowOffset = options.HeaderRowOffset,
+            SkipRows = options.SkipRows,
+            SheetNames = options.SheetNames ?? [],
+            SplitSheets = options.SplitSheets,
+            ExplodeArrays = options.ExplodeArrays,
+            RecordPath = string.IsNullOrWhiteSpace(options.RecordPath) ? null : options.RecordPath.Trim(),
+            FixedWidthColumns = (options.FixedWidthColumns ?? []).Select(c => c with { Name = c.Name.Trim() }).ToList()
+        });
+        profile.SetColumns((request.Columns ?? []).Select(c => new ColumnDefinition
+        {
+            Name = c.Name,
+            Index = c.Index,
+            DetectedType = c.DetectedType,
+            DisplayName = c.DisplayName,
+            IsIgnored = c.IsIgnored,
+            Rules = c.Rules
+        }));
+    }
+}
@@ -0,0 +1,67 @@
+namespace QuickIngestFile.Application.Services;
+
+using System.Collections.Concurrent;
+using System.Threading.Channels;
+using QuickIngestFile.Application.DTOs;
+using QuickIngestFile.Domain.Entities;
+
+/// <summary>
+/// In-memory publish/subscribe hub for import job progress.
+/// The background worker publishes after each committed batch; SSE endpoints subscribe.
+/// </summary>
+public sealed class ImportProgressNotifier
+{
+    // Slow subscribers only need the latest state, so older updates are dropped
+    private const int SubscriberCapacity = 100;
+
+    private readonly ConcurrentDictionary<Guid, Subscriber> _subscribers = new();
+
+    /// <summary>
+    /// Publish the current state of a job to all interested subscribers.
+    /// </summary>
+    public void Publish(ImportJob job)
+    {
+        var update = ImportJobDto.FromEntity(job);
+
+        foreach (var subscriber in _subscribers.Values)
+        {
+            if (subscriber.JobId is null || subscriber.JobId == job.Id)
+                subscriber.Channel.Writer.TryWrite(update);
+        }
+    }
+
+    /// <summary>
+    /// Subscribe to updates for one job, or for all jobs when <paramref name="jobId"/> is null.
+    /// Dispose the subscription to stop receiving updates.
+    /// </summary>
+    public ImportProgressSubscription Subscribe(Guid? jobId = null)
+    {
+        var channel = Channel.CreateBounded<ImportJobDto>(new BoundedChannelOptions(SubscriberCapacity)
+        {
+            FullMode = BoundedChannelFullMode.DropOldest,
+            SingleReader = true,
+            SingleWriter = false
+        });
+
+        var id = Guid.NewGuid();
+        _subscribers[id] = new Subscriber(jobId, channel);
+
+        return new ImportProgressSubscription(channel.Reader, () =>
+        {
+            if (_subscribers.TryRemove(id, out var subscriber))
+                subscriber.Channel.Writer.TryComplete();
+        });
+    }
+
+    private sealed record Subscriber(Guid? JobId, Channel<ImportJobDto> Channel);
+}
+
+/// <summary>
+/// Active subscription to import progress updates.
+/// </summary>
+public sealed class ImportProgressSubscription(ChannelReader<ImportJobDto> reader, Action unsubscribe) : IDisposable
+{
+    public ChannelReader<ImportJobDto> Reader { get; } = reader;
+
+    public void Dispose() => unsubscribe();
+}
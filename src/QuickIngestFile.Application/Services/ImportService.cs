@@ -13,13 +13,15 @@ using QuickIngestFile.Domain.Repositories;
 /// </summary>
 public sealed class ImportService(
     FileParserFactory parserFactory,
+    ArchiveReader archiveReader,
     IUnitOfWork unitOfWork)
 {
     private const int ChannelCapacity = 10_000;
     private const int DefaultBatchSize = 1000;
 
     /// <summary>
-    /// Get preview of file before importing.
+    /// Get preview of file before importing. Compressed files and archives are previewed by the entry
+    /// chosen in the options, or their first importable one.
     /// </summary>
     public async Task<Result<FilePreviewDto>> GetPreviewAsync(
         Stream fileStream,
@@ -31,10 +33,20 @@ public sealed class ImportService(
         try
         {
             options ??= new ParserOptions();
-            var parser = parserFactory.GetParser(fileName);
 
-            var schema = await parser.DetectSchemaAsync(fileStream, options, cancellationToken);
-            var previewRows = await parser.GetPreviewAsync(fileStream, options, cancellationToken);
+            // Archives list their entries so the user can pick which ones to import
+            var isArchive = ArchiveReader.IsArchive(fileName);
+            IReadOnlyList<ArchiveEntryDto> archiveEntries = isArchive
+                ? archiveReader.GetEntries(fileStream, fileName)
+                    .Select(e => new ArchiveEntryDto(e.Name, e.Size))
+                    .ToList()
+                : [];
+
+            await using var file = await archiveReader.OpenAsync(fileStream, fileName, options.ArchiveEntry, cancellationToken);
+            var parser = parserFactory.GetParser(file.Name, options);
+
+            var schema = await parser.DetectSchemaAsync(file.Content, options, cancellationToken);
+            var previewRows = await parser.GetPreviewAsync(file.Content, options, cancellationToken);
 
             var columns = schema.Columns.Select(c => new ColumnDefinitionDto(
                 c.Name,
@@ -46,12 +58,33 @@ public sealed class ImportService(
                 .Select(r => r.Data)
                 .ToList();
 
+            // Workbooks list their sheets so the user can pick which ones to import
+            IReadOnlyList<SheetInfoDto> sheets = parser is IWorkbookParser workbookParser
+                ? (await workbookParser.GetSheetsAsync(file.Content, cancellationToken))
+                    .Select(s => new SheetInfoDto(s.Name, s.RowCount))
+                    .ToList()
+                : [];
+
+            // XML files list their element paths so the user can pick the record element
+            IReadOnlyList<RecordPathDto> recordPaths = parser is IRecordPathParser recordPathParser
+                ? (await recordPathParser.GetRecordPathsAsync(file.Content, cancellationToken))
+                    .Select(p => new RecordPathDto(p.Path, p.Count))
+                    .ToList()
+                : [];
+
             return Result.Success(new FilePreviewDto(
                 fileName,
                 fileSize,
                 columns,
                 rows,
-                schema.EstimatedRowCount));
+                schema.EstimatedRowCount,
+                sheets,
+                recordPaths,
+                archiveEntries,
+                isArchive ? file.Name : null,
+                schema.Format is { } format
+                    ? new DetectedFormatDto(format.HasHeader, format.Delimiter, format.Quote, format.Encoding, format.RecordPath)
+                    : null));
         }
         catch (Exception ex)
         {
@@ -71,7 +104,6 @@ public sealed class ImportService(
         CancellationToken cancellationToken = default)
     {
         options ??= new ParserOptions();
-        var parser = parserFactory.GetParser(fileName);
         var fileType = Path.GetExtension(fileName).TrimStart('.');
 
         // Create import job
@@ -87,19 +119,17 @@ public sealed class ImportService(
 
         try
         {
+            await using var file = await archiveReader.OpenAsync(fileStream, fileName, options.ArchiveEntry, cancellationToken);
+            var parser = parserFactory.GetParser(file.Name, options);
+
             // Detect and save schema
-            var schema = await parser.DetectSchemaAsync(fileStream, options, cancellationToken);
+            var schema = await parser.DetectSchemaAsync(file.Content, options, cancellationToken);
             var fileSchema = new FileSchema
             {
                 ImportJobId = importJob.Id,
                 FileName = fileName
             };
-            fileSchema.SetColumns(schema.Columns.Select(c => new ColumnDefinition
-            {
-                Name = c.Name,
-                Index = c.Index,
-                DetectedType = c.DetectedType
-            }));
+            fileSchema.SetColumns(ColumnMapper.BuildColumns(schema.Columns, options.ColumnMappings));
 
             await unitOfWork.FileSchemas.AddAsync(fileSchema, cancellationToken);
             await unitOfWork.SaveChangesAsync(cancellationToken);
@@ -109,9 +139,21 @@ public sealed class ImportService(
 
             // Process import with channels
             var result = await ProcessImportAsync(
-                parser, fileStream, options, importJob, progress, cancellationToken);
+                parser, file.Content, options, importJob, progress, cancellationToken);
 
             importJob.Complete(result.Total, result.Processed, result.Failed);
+            importJob.SetRuleViolations(result.Violations);
+            importJob.RecordLoad(new ImportLoad(
+                fileName,
+                ImportMode.New,
+                [],
+                result.Processed,
+                0,
+                0,
+                result.Failed,
+                0,
+                importJob.CompletedAt ?? DateTime.UtcNow,
+                importJob.Status));
         }
         catch (Exception ex)
         {
@@ -127,7 +169,7 @@ public sealed class ImportService(
         return Result.Success(ImportJobDto.FromEntity(importJob));
     }
 
-    private async Task<(int Total, int Processed, int Failed)> ProcessImportAsync(
+    private async Task<(int Total, int Processed, int Failed, IReadOnlyList<RuleViolationCount> Violations)> ProcessImportAsync(
         IFileParser parser,
         Stream fileStream,
         ParserOptions options,
@@ -135,13 +177,19 @@ public sealed class ImportService(
         IProgress<ImportProgressDto>? progress,
         CancellationToken cancellationToken)
     {
-        var channel = Channel.CreateBounded<ImportedRecord>(new BoundedChannelOptions(ChannelCapacity)
+        var channel = Channel.CreateBounded<Entity>(new BoundedChannelOptions(ChannelCapacity)
         {
             FullMode = BoundedChannelFullMode.Wait,
             SingleReader = true,
             SingleWriter = true
         });
 
+        // Rules were checked when the import was requested, so this only fails for hand-built options
+        var validatorResult = RowValidator.Create(options.ColumnMappings);
+        if (validatorResult.IsFailure)
+            throw new InvalidOperationException(validatorResult.Error);
+        var validator = validatorResult.Value;
+
         var totalRecords = 0;
         var processedRecords = 0;
         var failedRecords = 0;
@@ -151,9 +199,10 @@ public sealed class ImportService(
         {
             try
             {
-                await foreach (var row in parser.ParseAsync(fileStream, options, cancellationToken))
+                await foreach (var parsedRow in parser.ParseAsync(fileStream, options, cancellationToken))
                 {
                     totalRecords++;
+                    var row = validator.Validate(ColumnMapper.Apply(parsedRow, options.ColumnMappings));
 
                     if (row.IsSuccess)
                     {
@@ -169,6 +218,16 @@ public sealed class ImportService(
                     else
                     {
                         Interlocked.Increment(ref failedRecords);
+
+                        var failure = new ImportFailure
+                        {
+                            ImportJobId = importJob.Id,
+                            RowNumber = row.RowNumber,
+                            ErrorMessage = row.ErrorMessage ?? $"Row {row.RowNumber}: could not be parsed"
+                        };
+                        failure.SetRawData(row.RawData ?? new Dictionary<string, string?>());
+
+                        await channel.Writer.WriteAsync(failure, cancellationToken);
                     }
                 }
             }
@@ -183,10 +242,23 @@ public sealed class ImportService(
         var consumerTask = Task.Run(async () =>
         {
             var batch = new List<ImportedRecord>(batchSize);
+            var failures = new List<ImportFailure>();
 
-            await foreach (var record in channel.Reader.ReadAllAsync(cancellationToken))
+            await foreach (var item in channel.Reader.ReadAllAsync(cancellationToken))
             {
-                batch.Add(record);
+                // Rejected rows are stored alongside so they can be reviewed and re-imported
+                if (item is ImportFailure failure)
+                {
+                    failures.Add(failure);
+                    if (failures.Count >= batchSize)
+                    {
+                        await unitOfWork.ImportFailures.BulkInsertAsync(failures, cancellationToken);
+                        failures.Clear();
+                    }
+                    continue;
+                }
+
+                batch.Add((ImportedRecord)item);
 
                 if (batch.Count >= batchSize)
                 {
@@ -200,6 +272,11 @@ public sealed class ImportService(
             }
 
             // Insert remaining items
+            if (failures.Count > 0)
+            {
+                await unitOfWork.ImportFailures.BulkInsertAsync(failures, cancellationToken);
+            }
+
             if (batch.Count > 0)
             {
                 await unitOfWork.ImportedRecords.BulkInsertAsync(batch, cancellationToken);
@@ -210,7 +287,7 @@ public sealed class ImportService(
 
         await Task.WhenAll(producerTask, consumerTask);
 
-        return (totalRecords, processedRecords, failedRecords);
+        return (totalRecords, processedRecords, failedRecords, validator.GetViolations());
     }
 
     private static void ReportProgress(
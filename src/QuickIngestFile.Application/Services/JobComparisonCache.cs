@@ -0,0 +1,85 @@
+namespace QuickIngestFile.Application.Services;
+
+using System.Collections.Concurrent;
+using System.Text.Json;
+using QuickIngestFile.Domain.Entities;
+
+/// <summary>
+/// Recent job comparisons, so paging, filtering and exporting one does not compare the jobs again.
+/// Entries are kept for a few minutes and belong to the jobs as they were: another load into either job
+/// changes the key, and editing a job's records drops its entries.
+/// </summary>
+public sealed class JobComparisonCache
+{
+    private static readonly TimeSpan Lifetime = TimeSpan.FromMinutes(5);
+
+    // Comparisons hold an entry per changed row, so only the latest few are kept
+    private const int MaxEntries = 4;
+
+    private readonly ConcurrentDictionary<CacheKey, CacheEntry> _entries = new();
+
+    /// <summary>
+    /// Get a cached comparison of two jobs by the given key columns, if one is still fresh.
+    /// </summary>
+    public JobComparison? Get(ImportJob baseJob, ImportJob compareJob, IReadOnlyList<string> keyColumns)
+    {
+        var key = CacheKey.For(baseJob, compareJob, keyColumns);
+        if (!_entries.TryGetValue(key, out var entry))
+            return null;
+
+        if (entry.ExpiresAt > DateTime.UtcNow)
+            return entry.Comparison;
+
+        _entries.TryRemove(key, out _);
+        return null;
+    }
+
+    /// <summary>
+    /// Keep a comparison, evicting expired ones and the oldest beyond the limit.
+    /// </summary>
+    public void Set(JobComparison comparison)
+    {
+        var now = DateTime.UtcNow;
+        _entries[CacheKey.For(comparison.BaseJob, comparison.CompareJob, comparison.KeyColumns)] =
+            new CacheEntry(comparison, now + Lifetime);
+
+        var excess = _entries.Count - MaxEntries;
+        var stale = _entries
+            .OrderBy(e => e.Value.ExpiresAt)
+            .Where((e, index) => e.Value.ExpiresAt <= now || index < excess)
+            .Select(e => e.Key)
+            .ToList();
+
+        foreach (var key in stale)
+            _entries.TryRemove(key, out _);
+    }
+
+    /// <summary>
+    /// Drop every comparison involving a job whose records changed.
+    /// </summary>
+    public void Invalidate(Guid importJobId)
+    {
+        foreach (var (key, _) in _entries)
+        {
+            if (key.BaseJobId == importJobId || key.CompareJobId == importJobId)
+                _entries.TryRemove(key, out _);
+        }
+    }
+
+    private readonly record struct CacheKey(
+        Guid BaseJobId,
+        DateTime? BaseCompletedAt,
+        Guid CompareJobId,
+        DateTime? CompareCompletedAt,
+        string KeyColumns)
+    {
+        public static CacheKey For(ImportJob baseJob, ImportJob compareJob, IReadOnlyList<string> keyColumns) => new(
+            baseJob.Id,
+            baseJob.CompletedAt,
+            compareJob.Id,
+            compareJob.CompletedAt,
+            JsonSerializer.Serialize(keyColumns));
+    }
+
+    private sealed record CacheEntry(JobComparison Comparison, DateTime ExpiresAt);
+}
@@ -0,0 +1,332 @@
+namespace QuickIngestFile.Application.Services;
+
+using System.Runtime.CompilerServices;
+using System.Security.Cryptography;
+using System.Text;
+using System.Text.Json;
+using QuickIngestFile.Application.DTOs;
+using QuickIngestFile.Domain.Common;
+using QuickIngestFile.Domain.Entities;
+using QuickIngestFile.Domain.Repositories;
+
+/// <summary>
+/// Kind of difference found for a row when comparing two jobs.
+/// </summary>
+public enum RowChange
+{
+    Added,
+    Removed,
+    Modified
+}
+
+/// <summary>
+/// A changed row between two jobs, by row number; its data is only read for the rows shown or exported.
+/// </summary>
+public sealed record RowDiff(
+    RowChange Change,
+    string Key,
+    int? BaseRowNumber,
+    int? CompareRowNumber);
+
+/// <summary>
+/// A changed row with the data of both sides and the compared columns whose values differ.
+/// </summary>
+public sealed record RowDiffDetail(
+    RowDiff Diff,
+    Dictionary<string, object?>? BaseData,
+    Dictionary<string, object?>? CompareData,
+    IReadOnlyList<string> ChangedColumns);
+
+/// <summary>
+/// Full result of comparing two jobs, ready to be paged or exported.
+/// </summary>
+public sealed record JobComparison(
+    ImportJob BaseJob,
+    ImportJob CompareJob,
+    IReadOnlyList<string> KeyColumns,
+    IReadOnlyList<ColumnDefinition> Columns,
+    SchemaDiffDto Schema,
+    ComparisonSummaryDto Summary,
+    IReadOnlyList<RowDiff> Rows);
+
+/// <summary>
+/// Compares the records of two import jobs matched by key columns, and their schemas.
+/// The base job is indexed by key with a fingerprint of its compared values while the compared job is streamed past it,
+/// so only keys and row numbers are held in memory. Comparisons of finished jobs are cached briefly for paging and exporting.
+/// </summary>
+public sealed class JobComparisonService(IUnitOfWork unitOfWork, JobComparisonCache cache)
+{
+    // Changed rows whose data is read at once when showing or exporting them
+    private const int DetailBatchSize = 500;
+
+    // Separates the values hashed into a fingerprint
+    private const char ValueSeparator = '\u001e';
+
+    /// <summary>
+    /// Compare two jobs and return one page of changed rows, optionally only added, removed or modified ones.
+    /// </summary>
+    public async Task<Result<JobComparisonDto>> GetComparisonAsync(
+        Guid baseJobId,
+        Guid compareJobId,
+        IReadOnlyList<string> keyColumns,
+        string? change = null,
+        int page = 1,
+        int pageSize = 50,
+        CancellationToken cancellationToken = default)
+    {
+        RowChange? changeFilter = null;
+        if (!string.IsNullOrWhiteSpace(change))
+        {
+            if (!Enum.TryParse<RowChange>(change, ignoreCase: true, out var parsed) || !Enum.IsDefined(parsed))
+                return Result.Failure<JobComparisonDto>($"Unknown change '{change}'; use added, removed or modified");
+
+            changeFilter = parsed;
+        }
+
+        var result = await CompareAsync(baseJobId, compareJobId, keyColumns, cancellationToken);
+        if (result.IsFailure)
+            return Result.Failure<JobComparisonDto>(result.Error);
+
+        var comparison = result.Value;
+        var rows = comparison.Rows
+            .Where(r => changeFilter is null || r.Change == changeFilter)
+            .ToList();
+
+        var items = new List<RowDiffDto>();
+        var pageRows = rows.Skip((page - 1) * pageSize).Take(pageSize);
+        await foreach (var row in ReadRowsAsync(comparison, pageRows, cancellationToken))
+        {
+            items.Add(new RowDiffDto(
+                row.Diff.Change.ToString().ToLowerInvariant(),
+                row.Diff.Key,
+                row.Diff.BaseRowNumber,
+                row.Diff.CompareRowNumber,
+                row.BaseData,
+                row.CompareData,
+                row.ChangedColumns));
+        }
+
+        return Result.Success(new JobComparisonDto(
+            baseJobId,
+            compareJobId,
+            comparison.KeyColumns,
+            comparison.Columns
+                .Select(c => new ColumnDefinitionDto(c.Name, c.Index, c.DetectedType, c.DisplayName, c.IsIgnored, c.Rules))
+                .ToList(),
+            comparison.Schema,
+            comparison.Summary,
+            new PagedResult<RowDiffDto>(items, rows.Count, page, pageSize)));
+    }
+
+    /// <summary>
+    /// Compare two jobs. Key columns have to be imported columns of both; the shared imported columns are compared.
+    /// Rows with an empty key, or a key already seen in the same job, are counted as skipped.
+    /// </summary>
+    public async Task<Result<JobComparison>> CompareAsync(
+        Guid baseJobId,
+        Guid compareJobId,
+        IReadOnlyList<string> keyColumns,
+        CancellationToken cancellationToken = default)
+    {
+        if (keyColumns.Count == 0)
+            return Result.Failure<JobComparison>("Choose at least one key column to match rows by");
+
+        var baseJob = await unitOfWork.ImportJobs.GetByIdAsync(baseJobId, cancellationToken);
+        if (baseJob is null)
+            return Result.Failure<JobComparison>($"Import job with ID {baseJobId} not found");
+
+        var compareJob = await unitOfWork.ImportJobs.GetByIdAsync(compareJobId, cancellationToken);
+        if (compareJob is null)
+            return Result.Failure<JobComparison>($"Import job with ID {compareJobId} not found");
+
+        if (cache.Get(baseJob, compareJob, keyColumns) is { } cached)
+            return Result.Success(cached);
+
+        var baseSchema = await unitOfWork.FileSchemas.GetByImportJobIdAsync(baseJobId, cancellationToken);
+        var compareSchema = await unitOfWork.FileSchemas.GetByImportJobIdAsync(compareJobId, cancellationToken);
+        if (baseSchema is null || compareSchema is null)
+            return Result.Failure<JobComparison>("Both jobs need a schema to be compared");
+
+        var baseColumns = baseSchema.GetColumns().Where(c => !c.IsIgnored).OrderBy(c => c.Index).ToList();
+        var compareColumns = compareSchema.GetColumns().Where(c => !c.IsIgnored).ToDictionary(c => c.Name);
+
+        var missingKey = keyColumns.FirstOrDefault(k => baseColumns.All(c => c.Name != k) || !compareColumns.ContainsKey(k));
+        if (missingKey is not null)
+            return Result.Failure<JobComparison>($"Key column '{missingKey}' is not an imported column of both jobs");
+
+        var sharedColumns = baseColumns.Where(c => compareColumns.ContainsKey(c.Name)).ToList();
+        var schemaDiff = new SchemaDiffDto(
+            compareColumns.Values.OrderBy(c => c.Index).Select(c => c.Name)
+                .Where(name => baseColumns.All(c => c.Name != name))
+                .ToList(),
+            baseColumns.Select(c => c.Name).Where(name => !compareColumns.ContainsKey(name)).ToList(),
+            sharedColumns
+                .Where(c => compareColumns[c.Name].DetectedType != c.DetectedType)
+                .Select(c => new ColumnTypeChangeDto(c.Name, c.DetectedType, compareColumns[c.Name].DetectedType))
+                .ToList());
+
+        // Index the base job by key
+        var baseRecords = new Dictionary<string, IndexedRecord>(StringComparer.Ordinal);
+        var baseCount = 0;
+        var skipped = 0;
+        await foreach (var record in unitOfWork.ImportedRecords.StreamByImportJobIdAsync(baseJobId, cancellationToken: cancellationToken))
+        {
+            baseCount++;
+            using var document = JsonDocument.Parse(record.DataJson);
+            var key = GetKey(document.RootElement, keyColumns);
+            var indexed = new IndexedRecord(record.RowNumber, GetFingerprint(document.RootElement, sharedColumns));
+            if (key is null || !baseRecords.TryAdd(key, indexed))
+                skipped++;
+        }
+
+        // Stream the compared job past it; whatever is left unmatched was removed
+        var rows = new List<RowDiff>();
+        var matchedKeys = new HashSet<string>(StringComparer.Ordinal);
+        var compareCount = 0;
+        var unchanged = 0;
+        await foreach (var record in unitOfWork.ImportedRecords.StreamByImportJobIdAsync(compareJobId, cancellationToken: cancellationToken))
+        {
+            compareCount++;
+            using var document = JsonDocument.Parse(record.DataJson);
+            var key = GetKey(document.RootElement, keyColumns);
+            if (key is null || !matchedKeys.Add(key))
+            {
+                skipped++;
+                continue;
+            }
+
+            if (!baseRecords.Remove(key, out var baseRecord))
+            {
+                rows.Add(new RowDiff(RowChange.Added, key, null, record.RowNumber));
+                continue;
+            }
+
+            if (baseRecord.Fingerprint == GetFingerprint(document.RootElement, sharedColumns))
+            {
+                unchanged++;
+                continue;
+            }
+
+            rows.Add(new RowDiff(RowChange.Modified, key, baseRecord.RowNumber, record.RowNumber));
+        }
+
+        var removed = baseRecords
+            .OrderBy(kv => kv.Value.RowNumber)
+            .Select(kv => new RowDiff(RowChange.Removed, kv.Key, kv.Value.RowNumber, null))
+            .ToList();
+        rows.AddRange(removed);
+
+        var summary = new ComparisonSummaryDto(
+            baseCount,
+            compareCount,
+            rows.Count(r => r.Change == RowChange.Added),
+            removed.Count,
+            rows.Count(r => r.Change == RowChange.Modified),
+            unchanged,
+            skipped);
+
+        var comparison = new JobComparison(
+            baseJob, compareJob, keyColumns, sharedColumns, schemaDiff, summary, rows);
+
+        // Running jobs are still changing, so only finished ones are worth keeping
+        if (baseJob.IsFinished && compareJob.IsFinished)
+            cache.Set(comparison);
+
+        return Result.Success(comparison);
+    }
+
+    /// <summary>
+    /// Read the data of changed rows from both jobs, a batch at a time, and find the columns that differ.
+    /// </summary>
+    public async IAsyncEnumerable<RowDiffDetail> ReadRowsAsync(
+        JobComparison comparison,
+        IEnumerable<RowDiff> rows,
+        [EnumeratorCancellation] CancellationToken cancellationToken = default)
+    {
+        foreach (var batch in rows.Chunk(DetailBatchSize))
+        {
+            var baseRecords = await GetRecordsAsync(comparison.BaseJob.Id, batch.Select(r => r.BaseRowNumber), cancellationToken);
+            var compareRecords = await GetRecordsAsync(comparison.CompareJob.Id, batch.Select(r => r.CompareRowNumber), cancellationToken);
+
+            foreach (var row in batch)
+            {
+                var baseRecord = row.BaseRowNumber is { } baseRow ? baseRecords.GetValueOrDefault(baseRow) : null;
+                var compareRecord = row.CompareRowNumber is { } compareRow ? compareRecords.GetValueOrDefault(compareRow) : null;
+
+                IReadOnlyList<string> changedColumns = [];
+                if (row.Change == RowChange.Modified && baseRecord is not null && compareRecord is not null)
+                {
+                    using var baseDocument = JsonDocument.Parse(baseRecord.DataJson);
+                    using var compareDocument = JsonDocument.Parse(compareRecord.DataJson);
+                    changedColumns = comparison.Columns
+                        .Where(c => GetText(baseDocument.RootElement, c.Name) != GetText(compareDocument.RootElement, c.Name))
+                        .Select(c => c.Name)
+                        .ToList();
+                }
+
+                yield return new RowDiffDetail(row, baseRecord?.GetData(), compareRecord?.GetData(), changedColumns);
+            }
+        }
+    }
+
+    private async Task<Dictionary<int, ImportedRecord>> GetRecordsAsync(
+        Guid importJobId,
+        IEnumerable<int?> rowNumbers,
+        CancellationToken cancellationToken)
+    {
+        var wanted = rowNumbers.OfType<int>().ToList();
+        if (wanted.Count == 0)
+            return [];
+
+        var records = await unitOfWork.ImportedRecords.GetByRowNumbersAsync(importJobId, wanted, cancellationToken);
+        return records.ToDictionary(r => r.RowNumber);
+    }
+
+    /// <summary>
+    /// Key of a record: its key column value as text, or a JSON array of the values for composite keys,
+    /// so values containing any separator cannot run into each other. Null when all of them are empty.
+    /// </summary>
+    private static string? GetKey(JsonElement data, IReadOnlyList<string> keyColumns)
+    {
+        var values = keyColumns.Select(column => GetText(data, column)).ToList();
+
+        if (values.All(string.IsNullOrWhiteSpace))
+            return null;
+
+        var trimmed = values.Select(v => v?.Trim() ?? string.Empty).ToList();
+        return trimmed.Count == 1 ? trimmed[0] : JsonSerializer.Serialize(trimmed);
+    }
+
+    /// <summary>
+    /// Hash of the compared values of a record. Values compare as text, and an empty value differs from a missing one.
+    /// </summary>
+    private static Guid GetFingerprint(JsonElement data, IReadOnlyList<ColumnDefinition> columns)
+    {
+        var text = new StringBuilder();
+        foreach (var column in columns)
+        {
+            var value = GetText(data, column.Name);
+            text.Append(value is null ? '0' : '1').Append(value).Append(ValueSeparator);
+        }
+
+        return new Guid(MD5.HashData(Encoding.UTF8.GetBytes(text.ToString())));
+    }
+
+    /// <summary>
+    /// Value of a column as text, so a number stored as "42" compares equal to 42.
+    /// </summary>
+    private static string? GetText(JsonElement data, string column)
+    {
+        if (!data.TryGetProperty(column, out var value))
+            return null;
+
+        return value.ValueKind switch
+        {
+            JsonValueKind.Null or JsonValueKind.Undefined => null,
+            JsonValueKind.String => value.GetString(),
+            _ => value.GetRawText()
+        };
+    }
+
+    private readonly record struct IndexedRecord(int RowNumber, Guid Fingerprint);
+}
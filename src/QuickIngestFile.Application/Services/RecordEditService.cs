@@ -0,0 +1,211 @@
+namespace QuickIngestFile.Application.Services;
+
+using System.Text.Json;
+using QuickIngestFile.Application.DTOs;
+using QuickIngestFile.Application.Parsing;
+using QuickIngestFile.Domain.Common;
+using QuickIngestFile.Domain.Entities;
+using QuickIngestFile.Domain.Repositories;
+
+/// <summary>
+/// Edits and deletes individual imported records, recording each change in the job's audit trail.
+/// </summary>
+public sealed class RecordEditService(IUnitOfWork unitOfWork, JobComparisonCache comparisons)
+{
+    // Records that can be deleted in one request
+    private const int MaxDeleteCount = 1000;
+
+    /// <summary>
+    /// Change values of a record. Values are converted to the column's type and checked against its rules,
+    /// except uniqueness, which only holds for the file as imported. Unchanged values are not recorded.
+    /// </summary>
+    public async Task<Result<ImportedRecordDto>> UpdateRecordAsync(
+        Guid importJobId,
+        Guid recordId,
+        IReadOnlyDictionary<string, string?> values,
+        string editedBy,
+        CancellationToken cancellationToken = default)
+    {
+        if (values.Count == 0)
+            return Result.Failure<ImportedRecordDto>("No values to update");
+
+        var record = await unitOfWork.ImportedRecords.GetByIdAsync(recordId, cancellationToken);
+        if (record is null || record.ImportJobId != importJobId)
+            return Result.Failure<ImportedRecordDto>($"Record {recordId} not found");
+
+        var schema = await unitOfWork.FileSchemas.GetByImportJobIdAsync(importJobId, cancellationToken);
+        if (schema is null)
+            return Result.Failure<ImportedRecordDto>($"Schema not found for import job {importJobId}");
+
+        var columns = schema.GetColumns()
+            .Where(c => !c.IsIgnored)
+            .ToDictionary(c => c.Name);
+
+        var data = record.GetData();
+        var changed = new Dictionary<string, object?>();
+        var changes = new List<FieldChange>();
+
+        foreach (var (name, text) in values)
+        {
+            if (!columns.TryGetValue(name, out var column))
+                return Result.Failure<ImportedRecordDto>($"Unknown column '{name}'");
+
+            if (!ColumnMapper.TryConvert(text, column.DetectedType, out var value))
+                return Result.Failure<ImportedRecordDto>($"Value '{text}' in column '{name}' is not a valid {column.DetectedType}");
+
+            var oldText = ToText(data.GetValueOrDefault(name));
+            var newText = ToText(value);
+            if (oldText == newText)
+                continue;
+
+            changed[name] = value;
+            changes.Add(new FieldChange(name, oldText, newText));
+        }
+
+        if (changes.Count > 0)
+        {
+            var error = Validate(record.RowNumber, changed, columns);
+            if (error is not null)
+                return Result.Failure<ImportedRecordDto>(error);
+
+            foreach (var (name, value) in changed)
+            {
+                data[name] = value;
+            }
+
+            record.UpdateData(data);
+            await unitOfWork.ImportedRecords.UpdateAsync(record, cancellationToken);
+
+            var edit = new RecordEdit
+            {
+                ImportJobId = importJobId,
+                RecordId = record.Id,
+                RowNumber = record.RowNumber,
+                Action = RecordEditAction.Update,
+                EditedBy = editedBy
+            };
+            edit.SetChanges(changes);
+
+            await unitOfWork.RecordEdits.AddAsync(edit, cancellationToken);
+            await unitOfWork.SaveChangesAsync(cancellationToken);
+            comparisons.Invalidate(importJobId);
+        }
+
+        return Result.Success(new ImportedRecordDto(
+            record.Id,
+            record.ImportJobId,
+            record.RowNumber,
+            record.GetData(),
+            record.UpdatedAt));
+    }
+
+    /// <summary>
+    /// Delete records of a job. Each deletion is recorded with the values the record held.
+    /// Nothing is deleted when any of the records does not belong to the job.
+    /// </summary>
+    public async Task<Result<int>> DeleteRecordsAsync(
+        Guid importJobId,
+        IReadOnlyList<Guid> recordIds,
+        string editedBy,
+        CancellationToken cancellationToken = default)
+    {
+        var ids = recordIds.Distinct().ToList();
+
+        if (ids.Count == 0)
+            return Result.Failure<int>("No records selected");
+
+        if (ids.Count > MaxDeleteCount)
+            return Result.Failure<int>($"At most {MaxDeleteCount} records can be deleted at once");
+
+        var records = new List<ImportedRecord>();
+        foreach (var id in ids)
+        {
+            var record = await unitOfWork.ImportedRecords.GetByIdAsync(id, cancellationToken);
+            if (record is null || record.ImportJobId != importJobId)
+                return Result.Failure<int>($"Record {id} not found");
+
+            records.Add(record);
+        }
+
+        var edits = new List<RecordEdit>();
+        foreach (var record in records)
+        {
+            var edit = new RecordEdit
+            {
+                ImportJobId = importJobId,
+                RecordId = record.Id,
+                RowNumber = record.RowNumber,
+                Action = RecordEditAction.Delete,
+                EditedBy = editedBy
+            };
+            edit.SetChanges(record.GetData().Select(kv => new FieldChange(kv.Key, ToText(kv.Value), null)));
+            edits.Add(edit);
+
+            await unitOfWork.ImportedRecords.DeleteAsync(record.Id, cancellationToken);
+        }
+
+        await unitOfWork.RecordEdits.AddRangeAsync(edits, cancellationToken);
+        await unitOfWork.SaveChangesAsync(cancellationToken);
+        comparisons.Invalidate(importJobId);
+
+        return Result.Success(records.Count);
+    }
+
+    /// <summary>
+    /// Get paginated edits of a job, newest first, optionally only those of one record.
+    /// </summary>
+    public async Task<PagedResult<RecordEditDto>> GetEditsAsync(
+        Guid importJobId,
+        Guid? recordId = null,
+        int page = 1,
+        int pageSize = 50,
+        CancellationToken cancellationToken = default)
+    {
+        var result = await unitOfWork.RecordEdits.GetPagedByImportJobIdAsync(
+            importJobId, recordId, page, pageSize, cancellationToken);
+
+        var dtos = result.Items.Select(RecordEditDto.FromEntity).ToList();
+
+        return new PagedResult<RecordEditDto>(dtos, result.TotalCount, result.Page, result.PageSize);
+    }
+
+    /// <summary>
+    /// Check the changed values against their columns' rules. Returns the violations, or null when valid.
+    /// </summary>
+    private static string? Validate(
+        int rowNumber,
+        Dictionary<string, object?> changed,
+        IReadOnlyDictionary<string, ColumnDefinition> columns)
+    {
+        var mappings = changed.Keys
+            .Select(name => columns[name])
+            .Where(c => c.Rules is not null)
+            .Select(c => new ColumnMapping(c.Name, DataType: c.DetectedType, Rules: c.Rules! with { Unique = false }))
+            .ToList();
+
+        if (mappings.Count == 0)
+            return null;
+
+        var validator = RowValidator.Create(mappings);
+        if (validator.IsFailure)
+            return validator.Error;
+
+        var row = validator.Value.Validate(new ParsedRow(changed, rowNumber, IsSuccess: true));
+        return row.IsSuccess ? null : row.ErrorMessage;
+    }
+
+    /// <summary>
+    /// Value as stored text, so stored and newly converted values compare and read the same.
+    /// </summary>
+    private static string? ToText(object? value)
+    {
+        var element = value as JsonElement? ?? JsonSerializer.SerializeToElement(value);
+
+        return element.ValueKind switch
+        {
+            JsonValueKind.Null or JsonValueKind.Undefined => null,
+            JsonValueKind.String => element.GetString(),
+            _ => element.GetRawText()
+        };
+    }
+}
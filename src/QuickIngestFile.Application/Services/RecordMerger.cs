@@ -0,0 +1,185 @@
+namespace QuickIngestFile.Application.Services;
+
+using System.Security.Cryptography;
+using System.Text;
+using System.Text.Json;
+using QuickIngestFile.Application.Parsing;
+using QuickIngestFile.Domain.Entities;
+using QuickIngestFile.Domain.Repositories;
+
+/// <summary>
+/// Matches incoming rows to the existing records of a job by key columns, for upsert imports.
+/// Existing records are indexed by key with a fingerprint of their values, so rows that did not
+/// change are recognised without rewriting them.
+/// </summary>
+public sealed class RecordMerger
+{
+    // Joins the values of composite keys; not expected in real data
+    private const char KeySeparator = '\u001f';
+
+    private readonly IReadOnlyList<string> _keyColumns;
+    private readonly Dictionary<string, ExistingRecord> _existing;
+
+    // Keys already seen in the incoming file, with the row they were first seen in
+    private readonly Dictionary<string, int> _seen = new(StringComparer.Ordinal);
+
+    private RecordMerger(IReadOnlyList<string> keyColumns, Dictionary<string, ExistingRecord> existing)
+    {
+        _keyColumns = keyColumns;
+        _existing = existing;
+    }
+
+    /// <summary>
+    /// Index the existing records of a job by their key values.
+    /// </summary>
+    public static async Task<RecordMerger> LoadAsync(
+        IImportedRecordRepository records,
+        Guid importJobId,
+        IReadOnlyList<string> keyColumns,
+        CancellationToken cancellationToken = default)
+    {
+        var existing = new Dictionary<string, ExistingRecord>(StringComparer.Ordinal);
+
+        await foreach (var record in records.StreamByImportJobIdAsync(importJobId, cancellationToken: cancellationToken))
+        {
+            using var document = JsonDocument.Parse(record.DataJson);
+            var key = GetKey(document.RootElement, keyColumns);
+
+            // Records from earlier loads may share a key; the first one is the one kept up to date
+            if (key is not null)
+                existing.TryAdd(key, new ExistingRecord(record.RowNumber, GetFingerprint(document.RootElement)));
+        }
+
+        return new RecordMerger(keyColumns, existing);
+    }
+
+    /// <summary>
+    /// Decide what to do with an incoming record, built from a valid row.
+    /// Rows with empty keys, or keys repeated within the file, are rejected.
+    /// </summary>
+    public MergeMatch Match(ImportedRecord incoming)
+    {
+        using var document = JsonDocument.Parse(incoming.DataJson);
+        var key = GetKey(document.RootElement, _keyColumns);
+
+        if (key is null)
+        {
+            return MergeMatch.Reject(
+                $"Row {incoming.RowNumber}: key column(s) {string.Join(", ", _keyColumns)} are empty");
+        }
+
+        if (!_seen.TryAdd(key, incoming.RowNumber))
+        {
+            return MergeMatch.Reject(
+                $"Row {incoming.RowNumber}: key '{key.Replace(KeySeparator, '|')}' repeats row {_seen[key]}");
+        }
+
+        if (!_existing.TryGetValue(key, out var existing))
+            return new MergeMatch(MergeAction.Insert);
+
+        return existing.Fingerprint == GetFingerprint(document.RootElement)
+            ? new MergeMatch(MergeAction.Unchanged, existing.RowNumber)
+            : new MergeMatch(MergeAction.Update, existing.RowNumber);
+    }
+
+    /// <summary>
+    /// Describe how the columns of a file differ from those of the job it is loaded into, or null when they match.
+    /// </summary>
+    public static string? FindColumnMismatch(
+        IReadOnlyList<ColumnDefinition> targetColumns,
+        IReadOnlyList<DetectedColumn> fileColumns)
+    {
+        var target = targetColumns.Select(c => c.Name).ToHashSet(StringComparer.Ordinal);
+        var file = fileColumns.Select(c => c.Name).ToHashSet(StringComparer.Ordinal);
+
+        var missing = target.Where(name => !file.Contains(name)).ToList();
+        var unexpected = file.Where(name => !target.Contains(name)).ToList();
+
+        if (missing.Count == 0 && unexpected.Count == 0)
+            return null;
+
+        var problems = new List<string>();
+        if (missing.Count > 0)
+            problems.Add($"missing {string.Join(", ", missing)}");
+        if (unexpected.Count > 0)
+            problems.Add($"unexpected {string.Join(", ", unexpected)}");
+
+        return $"The file's columns do not match the job: {string.Join("; ", problems)}";
+    }
+
+    /// <summary>
+    /// Column mapping that loads a file the way the job's own file was loaded: same names, ignores and rules.
+    /// Types are only converted where the job's type differs from the one detected in the file,
+    /// since those are the columns whose type was overridden.
+    /// </summary>
+    public static IReadOnlyList<ColumnMapping> BuildMappings(
+        IReadOnlyList<ColumnDefinition> targetColumns,
+        IReadOnlyList<DetectedColumn> fileColumns)
+    {
+        var detectedTypes = fileColumns.ToDictionary(c => c.Name, c => c.DetectedType, StringComparer.Ordinal);
+
+        return targetColumns
+            .Select(c => new ColumnMapping(
+                c.Name,
+                c.DisplayName,
+                c.IsIgnored,
+                detectedTypes.GetValueOrDefault(c.Name) == c.DetectedType ? null : c.DetectedType,
+                c.Rules))
+            .ToList();
+    }
+
+    /// <summary>
+    /// Key of a record: its key column values as text, or null when all of them are empty.
+    /// </summary>
+    private static string? GetKey(JsonElement data, IReadOnlyList<string> keyColumns)
+    {
+        var values = keyColumns
+            .Select(column => data.TryGetProperty(column, out var value) ? GetText(value) : null)
+            .ToList();
+
+        return values.All(string.IsNullOrWhiteSpace)
+            ? null
+            : string.Join(KeySeparator, values.Select(v => v?.Trim() ?? string.Empty));
+    }
+
+    /// <summary>
+    /// Hash of all values of a record, independent of column order.
+    /// Values compare as text so a number stored as "42" matches 42.
+    /// </summary>
+    private static Guid GetFingerprint(JsonElement data)
+    {
+        var text = new StringBuilder();
+        foreach (var property in data.EnumerateObject().OrderBy(p => p.Name, StringComparer.Ordinal))
+        {
+            text.Append(property.Name).Append(KeySeparator).Append(GetText(property.Value)).Append('\u001e');
+        }
+
+        return new Guid(MD5.HashData(Encoding.UTF8.GetBytes(text.ToString())));
+    }
+
+    private static string? GetText(JsonElement value) => value.ValueKind switch
+    {
+        JsonValueKind.Null or JsonValueKind.Undefined => null,
+        JsonValueKind.String => value.GetString(),
+        _ => value.GetRawText()
+    };
+
+    private sealed record ExistingRecord(int RowNumber, Guid Fingerprint);
+}
+
+/// <summary>
+/// What an upsert does with an incoming row. RowNumber is that of the existing record it matched, if any;
+/// row numbers are unique within a job.
+/// </summary>
+public sealed record MergeMatch(MergeAction Action, int? RowNumber = null, string? Error = null)
+{
+    public static MergeMatch Reject(string error) => new(MergeAction.Reject, Error: error);
+}
+
+public enum MergeAction
+{
+    Insert,
+    Update,
+    Unchanged,
+    Reject
+}
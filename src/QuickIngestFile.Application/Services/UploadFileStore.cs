@@ -0,0 +1,140 @@
+namespace QuickIngestFile.Application.Services;
+
+using Microsoft.Extensions.Options;
+using QuickIngestFile.Application.Configuration;
+
+/// <summary>
+/// Keeps uploaded files on disk until the background worker imports them, so queued imports are held by path
+/// rather than in memory. Files uploaded in a single request are saved here, finished chunked uploads moved here.
+/// Each queued job holds the file it imports and releases it when it finishes, so jobs sharing one upload, such as
+/// the sheets of a workbook, need a single copy; the file is deleted once nobody holds it.
+/// Files left behind, such as by a restart that emptied the queue, are removed once they expire.
+/// </summary>
+public sealed class UploadFileStore
+{
+    private readonly ImportOptions _options;
+    private readonly string _directory;
+
+    // Holders of each file saved since startup that still exists: requests and queued, running or paused imports.
+    // Held files never expire, however long their imports wait
+    private readonly Dictionary<string, int> _holders = new(StringComparer.Ordinal);
+
+    public UploadFileStore(IOptions<ImportOptions> options)
+    {
+        _options = options.Value;
+        _directory = Path.Combine(Path.GetFullPath(_options.UploadPath), "incoming");
+        Directory.CreateDirectory(_directory);
+    }
+
+    /// <summary>
+    /// Stream content to a new file and return its path.
+    /// The caller holds the file and becomes responsible for releasing it, usually by queueing it for import.
+    /// </summary>
+    public async Task<string> SaveAsync(Stream content, CancellationToken cancellationToken = default)
+    {
+        RemoveExpired();
+
+        var path = Path.Combine(_directory, $"{Guid.NewGuid():N}.upload");
+        try
+        {
+            await using var file = new FileStream(path, FileMode.CreateNew, FileAccess.Write, FileShare.None, 81920, useAsync: true);
+
+            // Held once it exists, so pruning never sees a held path without a file
+            Acquire(path);
+            await content.CopyToAsync(file, cancellationToken);
+        }
+        catch
+        {
+            Release(path);
+            throw;
+        }
+
+        return path;
+    }
+
+    /// <summary>
+    /// Move a file assembled elsewhere, such as a finished chunked upload, into the store and return its new path.
+    /// The caller holds the file and becomes responsible for releasing it.
+    /// </summary>
+    public string Adopt(string sourcePath)
+    {
+        RemoveExpired();
+
+        var path = Path.Combine(_directory, $"{Guid.NewGuid():N}.upload");
+        lock (_holders)
+        {
+            File.Move(sourcePath, path);
+            _holders[path] = 1;
+        }
+
+        return path;
+    }
+
+    /// <summary>
+    /// Add a holder to a stored file, such as a job queued to import it.
+    /// </summary>
+    public void Acquire(string path)
+    {
+        lock (_holders)
+        {
+            _holders[path] = _holders.GetValueOrDefault(path) + 1;
+        }
+    }
+
+    /// <summary>
+    /// Drop a holder of a stored file, deleting the file when it was the last one.
+    /// </summary>
+    public void Release(string path)
+    {
+        lock (_holders)
+        {
+            if (_holders.TryGetValue(path, out var count) && count > 1)
+            {
+                _holders[path] = count - 1;
+                return;
+            }
+
+            _holders.Remove(path);
+        }
+
+        Delete(path);
+    }
+
+    /// <summary>
+    /// Delete a stored file, ignoring one that is still in use or already gone.
+    /// </summary>
+    public static void Delete(string path)
+    {
+        try
+        {
+            File.Delete(path);
+        }
+        catch (IOException)
+        {
+            // File still in use or already gone
+        }
+    }
+
+    /// <summary>
+    /// Delete expired files nobody holds: those left from before a restart, whose imports are gone with the queue.
+    /// </summary>
+    private void RemoveExpired()
+    {
+        var cutoff = DateTime.UtcNow.AddHours(-_options.UploadExpirationHours);
+
+        lock (_holders)
+        {
+            // Files deleted directly rather than released are forgotten here
+            foreach (var path in _holders.Keys.Where(p => !File.Exists(p)).ToList())
+            {
+                _holders.Remove(path);
+            }
+
+            foreach (var path in Directory.EnumerateFiles(_directory)
+                .Where(p => !_holders.ContainsKey(p) && File.GetLastWriteTimeUtc(p) < cutoff))
+            {
+                Delete(path);
+            }
+        }
+    }
+}
@@ -0,0 +1,49 @@
+namespace QuickIngestFile.Domain.Common;
+
+using QuickIngestFile.Domain.Entities;
+
+/// <summary>
+/// Filter and sort criteria for browsing import job history.
+/// </summary>
+public sealed record ImportJobQuery
+{
+    /// <summary>
+    /// Jobs in any of these statuses; empty for all.
+    /// </summary>
+    public IReadOnlyList<ImportStatus> Statuses { get; init; } = [];
+
+    /// <summary>
+    /// File extension without the dot, e.g. "csv".
+    /// </summary>
+    public string? FileType { get; init; }
+
+    /// <summary>
+    /// Jobs created at or after this time.
+    /// </summary>
+    public DateTime? CreatedFrom { get; init; }
+
+    /// <summary>
+    /// Jobs created before this time.
+    /// </summary>
+    public DateTime? CreatedBefore { get; init; }
+
+    /// <summary>
+    /// Case-insensitive part of the file name.
+    /// </summary>
+    public string? FileName { get; init; }
+
+    public ImportJobSortField SortBy { get; init; } = ImportJobSortField.CreatedAt;
+    public bool Descending { get; init; } = true;
+}
+
+/// <summary>
+/// Columns import job history can be sorted by.
+/// </summary>
+public enum ImportJobSortField
+{
+    CreatedAt,
+    FileName,
+    FileSize,
+    TotalRecords,
+    Duration
+}
@@ -0,0 +1,117 @@
+namespace QuickIngestFile.Domain.Common;
+
+using System.Globalization;
+using QuickIngestFile.Domain.Entities;
+
+/// <summary>
+/// Search, filter and sort criteria for querying imported records by column values.
+/// </summary>
+public sealed record RecordQuery
+{
+    public RecordSearch? Search { get; init; }
+    public IReadOnlyList<ColumnFilter> Filters { get; init; } = [];
+    public ColumnSort? Sort { get; init; }
+
+    public bool IsEmpty => Search is null && Filters.Count == 0 && Sort is null;
+}
+
+/// <summary>
+/// Case-insensitive text search over the values of the given columns.
+/// </summary>
+public sealed record RecordSearch(string Term, IReadOnlyList<string> Columns)
+{
+    /// <summary>
+    /// Parse a search term against the schema. A "column:value" term whose prefix names a column
+    /// (by name or display name) searches only that column; anything else searches every visible column.
+    /// </summary>
+    public static RecordSearch? Parse(string? searchTerm, IReadOnlyList<ColumnDefinition> columns)
+    {
+        if (string.IsNullOrWhiteSpace(searchTerm))
+            return null;
+
+        var visible = columns.Where(c => !c.IsIgnored).ToList();
+        var term = searchTerm.Trim();
+
+        var separator = term.IndexOf(':');
+        if (separator > 0)
+        {
+            var prefix = term[..separator].Trim();
+            var column = visible.FirstOrDefault(c =>
+                string.Equals(c.Name, prefix, StringComparison.OrdinalIgnoreCase)
+                || string.Equals(c.DisplayName, prefix, StringComparison.OrdinalIgnoreCase));
+
+            var value = term[(separator + 1)..].Trim();
+            if (column is not null && value.Length > 0)
+                return new RecordSearch(value, [column.Name]);
+        }
+
+        return new RecordSearch(term, visible.Select(c => c.Name).ToList());
+    }
+}
+
+/// <summary>
+/// Filter on a single column. <see cref="DataType"/> is the column's detected type
+/// and decides how values are compared.
+/// </summary>
+public sealed record ColumnFilter(
+    string Column,
+    string DataType,
+    FilterOperator Operator,
+    string? Value = null,
+    string? ValueTo = null)
+{
+    // Dates are stored as ISO-8601 text, so ranges compare as text in this format
+    private const string IsoDateTimeFormat = "yyyy-MM-dd'T'HH:mm:ss";
+
+    public bool IsNumeric => IsNumericType(DataType);
+    public bool IsDate => IsDateType(DataType);
+
+    /// <summary>
+    /// Bounds of a numeric range filter.
+    /// </summary>
+    public (double? Min, double? Max) GetNumberRange() => (ParseNumber(Value), ParseNumber(ValueTo));
+
+    /// <summary>
+    /// Bounds of a date range filter as ISO text: inclusive start, exclusive end (the day after ValueTo).
+    /// </summary>
+    public (string? From, string? ToExclusive) GetDateRange() =>
+    (
+        ParseDate(Value)?.ToString(IsoDateTimeFormat, CultureInfo.InvariantCulture),
+        ParseDate(ValueTo)?.Date.AddDays(1).ToString(IsoDateTimeFormat, CultureInfo.InvariantCulture)
+    );
+
+    public static bool IsNumericType(string dataType) => dataType is DataTypes.Integer or DataTypes.Decimal;
+    public static bool IsDateType(string dataType) => dataType is DataTypes.Date or DataTypes.DateTime;
+
+    public static double? ParseNumber(string? value) =>
+        double.TryParse(value, NumberStyles.Float, CultureInfo.InvariantCulture, out var number) ? number : null;
+
+    public static DateTime? ParseDate(string? value) =>
+        DateTime.TryParse(value, CultureInfo.InvariantCulture, DateTimeStyles.None, out var date) ? date : null;
+}
+
+/// <summary>
+/// Sort on a single column, compared according to its detected type.
+/// </summary>
+public sealed record ColumnSort(
+    string Column,
+    string DataType,
+    bool Descending = false);
+
+/// <summary>
+/// Supported column filter operators.
+/// </summary>
+public enum FilterOperator
+{
+    /// <summary>Text contains the value.</summary>
+    Contains,
+
+    /// <summary>Value equals exactly (text, or true/false for booleans).</summary>
+    Equal,
+
+    /// <summary>Value is missing, null or empty text.</summary>
+    IsEmpty,
+
+    /// <summary>Number or date between Value and ValueTo, inclusive; either bound may be omitted.</summary>
+    Between
+}
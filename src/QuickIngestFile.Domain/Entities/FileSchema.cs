@@ -44,6 +44,34 @@ public sealed record ColumnDefinition
     public required string DetectedType { get; init; }
     public string? DisplayName { get; init; }
     public bool IsIgnored { get; init; } = false;
+
+    /// <summary>
+    /// Validation rules checked on every row during import.
+    /// </summary>
+    public ColumnRules? Rules { get; init; }
+}
+
+/// <summary>
+/// Validation rules for a column. Min and max are numbers or dates, compared with typed values.
+/// </summary>
+public sealed record ColumnRules
+{
+    public bool Required { get; init; }
+
+    /// <summary>
+    /// Regular expression the whole value must match.
+    /// </summary>
+    public string? Pattern { get; init; }
+
+    public string? Min { get; init; }
+    public string? Max { get; init; }
+    public IReadOnlyList<string>? AllowedValues { get; init; }
+    public int? MaxLength { get; init; }
+
+    /// <summary>
+    /// No two rows of the same file may hold the same value.
+    /// </summary>
+    public bool Unique { get; init; }
 }
 
 /// <summary>
@@ -0,0 +1,45 @@
+namespace QuickIngestFile.Domain.Entities;
+
+using System.Text.Json;
+using QuickIngestFile.Domain.Common;
+
+/// <summary>
+/// A source row that was rejected during import, kept so it can be reviewed and fixed.
+/// </summary>
+public sealed class ImportFailure : Entity
+{
+    public Guid ImportJobId { get; set; }
+    public int RowNumber { get; set; }
+
+    /// <summary>
+    /// Longest error message stored; messages quote cell values and rules, so longer ones are cut.
+    /// </summary>
+    public const int MaxErrorMessageLength = 2000;
+
+    private string _errorMessage = string.Empty;
+
+    public string ErrorMessage
+    {
+        get => _errorMessage;
+        set => _errorMessage = value.Length > MaxErrorMessageLength
+            ? string.Concat(value.AsSpan(0, MaxErrorMessageLength - 3), "...")
+            : value;
+    }
+
+    /// <summary>
+    /// JSON serialized raw field values of the rejected row, keyed by source column name.
+    /// </summary>
+    public string RawDataJson { get; set; } = "{}";
+
+    /// <summary>
+    /// Get raw field values as dictionary.
+    /// </summary>
+    public Dictionary<string, string?> GetRawData() =>
+        JsonSerializer.Deserialize<Dictionary<string, string?>>(RawDataJson) ?? [];
+
+    /// <summary>
+    /// Set raw field values from dictionary.
+    /// </summary>
+    public void SetRawData(IReadOnlyDictionary<string, string?> rawData) =>
+        RawDataJson = JsonSerializer.Serialize(rawData);
+}
@@ -1,5 +1,6 @@
 namespace QuickIngestFile.Domain.Entities;
 
+using System.Text.Json;
 using QuickIngestFile.Domain.Common;
 
 /// <summary>
@@ -17,10 +18,116 @@ public sealed class ImportJob : Entity
     public DateTime? StartedAt { get; set; }
     public DateTime? CompletedAt { get; set; }
     public string? ErrorMessage { get; set; }
+
+    /// <summary>
+    /// How the latest file was loaded: into this new job, or appended, upserted or replacing its records.
+    /// </summary>
+    public ImportMode Mode { get; set; } = ImportMode.New;
+
+    /// <summary>
+    /// Status the job had when another file was queued into it, put back if that load does not go through.
+    /// </summary>
+    public ImportStatus? PreviousStatus { get; set; }
+
     public TimeSpan? Duration => CompletedAt.HasValue && StartedAt.HasValue
         ? CompletedAt.Value - StartedAt.Value
         : null;
 
+    /// <summary>
+    /// Whether the job has reached a final state and will not change anymore.
+    /// </summary>
+    public bool IsFinished => Status is ImportStatus.Completed
+        or ImportStatus.CompletedWithErrors
+        or ImportStatus.Failed
+        or ImportStatus.Cancelled;
+
+    /// <summary>
+    /// JSON serialized count of rows rejected by each column validation rule.
+    /// </summary>
+    public string RuleViolationsJson { get; set; } = "[]";
+
+    /// <summary>
+    /// Get rule violation counts.
+    /// </summary>
+    public List<RuleViolationCount> GetRuleViolations() =>
+        JsonSerializer.Deserialize<List<RuleViolationCount>>(RuleViolationsJson, JsonOptions) ?? [];
+
+    /// <summary>
+    /// Set rule violation counts.
+    /// </summary>
+    public void SetRuleViolations(IEnumerable<RuleViolationCount> violations) =>
+        RuleViolationsJson = JsonSerializer.Serialize(violations.ToList(), JsonOptions);
+
+    /// <summary>
+    /// JSON serialized history of the files loaded into this job, oldest first.
+    /// </summary>
+    public string LoadsJson { get; set; } = "[]";
+
+    /// <summary>
+    /// Get the load history.
+    /// </summary>
+    public List<ImportLoad> GetLoads() =>
+        JsonSerializer.Deserialize<List<ImportLoad>>(LoadsJson, JsonOptions) ?? [];
+
+    /// <summary>
+    /// Queue another file to load into this finished job. Records and counters stay as they are until the load completes.
+    /// </summary>
+    public void QueueLoad()
+    {
+        PreviousStatus = Status;
+        Status = ImportStatus.Pending;
+    }
+
+    /// <summary>
+    /// Drop a queued load that has not started, putting the job back the way it was.
+    /// </summary>
+    public void CancelQueuedLoad()
+    {
+        Status = PreviousStatus ?? ImportStatus.Cancelled;
+        PreviousStatus = null;
+    }
+
+    /// <summary>
+    /// Capture the counters and state a load overwrites while it runs.
+    /// </summary>
+    public ImportJobSnapshot TakeSnapshot() => new(
+        Mode,
+        TotalRecords,
+        ProcessedRecords,
+        FailedRecords,
+        StartedAt,
+        CompletedAt,
+        ErrorMessage,
+        RuleViolationsJson);
+
+    /// <summary>
+    /// Put the job back the way it was before a load that failed or was rolled back.
+    /// The load itself is only recorded in the history.
+    /// </summary>
+    public void RestoreAfterLoad(ImportJobSnapshot snapshot)
+    {
+        Mode = snapshot.Mode;
+        TotalRecords = snapshot.TotalRecords;
+        ProcessedRecords = snapshot.ProcessedRecords;
+        FailedRecords = snapshot.FailedRecords;
+        StartedAt = snapshot.StartedAt;
+        CompletedAt = snapshot.CompletedAt;
+        ErrorMessage = snapshot.ErrorMessage;
+        RuleViolationsJson = snapshot.RuleViolationsJson;
+        Status = PreviousStatus ?? Status;
+        PreviousStatus = null;
+    }
+
+    /// <summary>
+    /// Add the outcome of a load to the history.
+    /// </summary>
+    public void RecordLoad(ImportLoad load)
+    {
+        var loads = GetLoads();
+        loads.Add(load);
+        LoadsJson = JsonSerializer.Serialize(loads, JsonOptions);
+    }
+
     public void Start()
     {
         Status = ImportStatus.Processing;
@@ -34,6 +141,8 @@ public sealed class ImportJob : Entity
         FailedRecords = failedRecords;
         Status = failedRecords > 0 ? ImportStatus.CompletedWithErrors : ImportStatus.Completed;
         CompletedAt = DateTime.UtcNow;
+        ErrorMessage = null;
+        PreviousStatus = null;
     }
 
     public void Fail(string errorMessage)
@@ -42,6 +151,92 @@ public sealed class ImportJob : Entity
         ErrorMessage = errorMessage;
         CompletedAt = DateTime.UtcNow;
     }
+
+    public void Pause()
+    {
+        Status = ImportStatus.Paused;
+    }
+
+    public void Resume()
+    {
+        Status = ImportStatus.Processing;
+    }
+
+    public void Cancel(bool rowsRolledBack)
+    {
+        Status = ImportStatus.Cancelled;
+        CompletedAt = DateTime.UtcNow;
+        PreviousStatus = null;
+
+        if (ProcessedRecords == 0)
+        {
+            ErrorMessage = "Cancelled by user";
+        }
+        else if (rowsRolledBack)
+        {
+            ProcessedRecords = 0;
+            FailedRecords = 0;
+            ErrorMessage = "Cancelled by user; imported rows were rolled back";
+        }
+        else
+        {
+            ErrorMessage = "Cancelled by user; imported rows were kept";
+        }
+    }
+
+    private static readonly JsonSerializerOptions JsonOptions = new()
+    {
+        PropertyNamingPolicy = JsonNamingPolicy.CamelCase
+    };
+}
+
+/// <summary>
+/// Number of rows that broke a validation rule on a column.
+/// </summary>
+public sealed record RuleViolationCount(
+    string Column,
+    string Rule,
+    int Count);
+
+/// <summary>
+/// One file loaded into a job. Rows it inserted are numbered after <see cref="RowOffset"/>.
+/// Loads that failed or were rolled back left the job's records as they were.
+/// </summary>
+public sealed record ImportLoad(
+    string FileName,
+    ImportMode Mode,
+    IReadOnlyList<string> KeyColumns,
+    int InsertedRecords,
+    int UpdatedRecords,
+    int UnchangedRecords,
+    int FailedRecords,
+    int RowOffset,
+    DateTime CompletedAt,
+    ImportStatus Status = ImportStatus.Completed,
+    string? ErrorMessage = null);
+
+/// <summary>
+/// Counters and state of a job from before a load, see <see cref="ImportJob.TakeSnapshot"/>.
+/// </summary>
+public sealed record ImportJobSnapshot(
+    ImportMode Mode,
+    int TotalRecords,
+    int ProcessedRecords,
+    int FailedRecords,
+    DateTime? StartedAt,
+    DateTime? CompletedAt,
+    string? ErrorMessage,
+    string RuleViolationsJson);
+
+/// <summary>
+/// How a file is loaded. Append, Upsert and Replace load into an existing job with the same columns.
+/// </summary>
+public enum ImportMode
+{
+    New,
+    Append,
+    Upsert,
+    Replace
 }
 
 public enum ImportStatus
@@ -50,5 +245,7 @@ public enum ImportStatus
     Processing,
     Completed,
     CompletedWithErrors,
-    Failed
+    Failed,
+    Paused,
+    Cancelled
 }
@@ -0,0 +1,116 @@
+namespace QuickIngestFile.Domain.Entities;
+
+using System.Text.Json;
+using System.Text.RegularExpressions;
+using QuickIngestFile.Domain.Common;
+
+/// <summary>
+/// Named set of import settings reused for files that arrive with the same layout,
+/// suggested for files whose name matches <see cref="FileNamePattern"/>.
+/// </summary>
+public sealed class ImportProfile : Entity
+{
+    public string Name { get; set; } = string.Empty;
+
+    /// <summary>
+    /// File name pattern where '*' matches any run of characters and '?' a single one, case-insensitive.
+    /// </summary>
+    public string FileNamePattern { get; set; } = "*";
+
+    /// <summary>
+    /// JSON serialized parser settings.
+    /// </summary>
+    public string OptionsJson { get; set; } = "{}";
+
+    /// <summary>
+    /// JSON serialized column mapping: renames, ignores and type overrides keyed by source column name.
+    /// </summary>
+    public string ColumnsJson { get; set; } = "[]";
+
+    /// <summary>
+    /// Get parser settings.
+    /// </summary>
+    public ImportProfileOptions GetOptions() =>
+        JsonSerializer.Deserialize<ImportProfileOptions>(OptionsJson, JsonOptions) ?? new ImportProfileOptions();
+
+    /// <summary>
+    /// Set parser settings.
+    /// </summary>
+    public void SetOptions(ImportProfileOptions options) =>
+        OptionsJson = JsonSerializer.Serialize(options, JsonOptions);
+
+    /// <summary>
+    /// Get column mapping as list.
+    /// </summary>
+    public List<ColumnDefinition> GetColumns() =>
+        JsonSerializer.Deserialize<List<ColumnDefinition>>(ColumnsJson, JsonOptions) ?? [];
+
+    /// <summary>
+    /// Set column mapping.
+    /// </summary>
+    public void SetColumns(IEnumerable<ColumnDefinition> columns) =>
+        ColumnsJson = JsonSerializer.Serialize(columns.ToList(), JsonOptions);
+
+    /// <summary>
+    /// Check whether a file name matches <see cref="FileNamePattern"/>.
+    /// </summary>
+    public bool MatchesFileName(string fileName)
+    {
+        var pattern = "^" + Regex.Escape(FileNamePattern).Replace(@"\*", ".*").Replace(@"\?", ".") + "$";
+        return Regex.IsMatch(fileName, pattern, RegexOptions.IgnoreCase | RegexOptions.CultureInvariant);
+    }
+
+    /// <summary>
+    /// Number of literal characters in the pattern; more specific patterns are preferred when several match.
+    /// </summary>
+    public int PatternSpecificity => FileNamePattern.Count(c => c is not ('*' or '?'));
+
+    public void MarkUpdated() => UpdatedAt = DateTime.UtcNow;
+
+    private static readonly JsonSerializerOptions JsonOptions = new()
+    {
+        PropertyNamingPolicy = JsonNamingPolicy.CamelCase
+    };
+}
+
+/// <summary>
+/// Parser settings stored in an import profile. Layout settings left null are detected from the file.
+/// </summary>
+public sealed record ImportProfileOptions
+{
+    public char? Delimiter { get; init; }
+    public char? Quote { get; init; }
+    public bool? HasHeader { get; init; }
+    public string? Encoding { get; init; }
+    public int HeaderRowOffset { get; init; }
+    public int SkipRows { get; init; }
+
+    /// <summary>
+    /// Workbook sheets to import, combined into one job unless <see cref="SplitSheets"/> is set.
+    /// </summary>
+    public IReadOnlyList<string> SheetNames { get; init; } = [];
+    public bool SplitSheets { get; init; }
+
+    /// <summary>
+    /// Arrays in JSON records become one row per element instead of JSON text.
+    /// </summary>
+    public bool ExplodeArrays { get; init; }
+
+    /// <summary>
+    /// Element whose occurrences are the records of an XML file; detected when null.
+    /// </summary>
+    public string? RecordPath { get; init; }
+
+    /// <summary>
+    /// Column layout of fixed-width text files; when empty, text files are read as delimited.
+    /// </summary>
+    public IReadOnlyList<FixedWidthColumn> FixedWidthColumns { get; init; } = [];
+}
+
+/// <summary>
+/// A column of a fixed-width text file: <see cref="Length"/> characters from the 0-based <see cref="Start"/> of each line.
+/// </summary>
+public sealed record FixedWidthColumn(
+    string Name,
+    int Start,
+    int Length);
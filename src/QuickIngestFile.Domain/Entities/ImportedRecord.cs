@@ -8,6 +8,13 @@ using QuickIngestFile.Domain.Common;
 /// </summary>
 public sealed class ImportedRecord : Entity
 {
+    public ImportedRecord() { }
+
+    /// <summary>
+    /// Record standing in for an existing one, to overwrite its data.
+    /// </summary>
+    public ImportedRecord(Guid id) : base(id) { }
+
     public Guid ImportJobId { get; set; }
     public int RowNumber { get; set; }
     
@@ -28,6 +35,15 @@ public sealed class ImportedRecord : Entity
     public void SetData(Dictionary<string, object?> data) =>
         DataJson = JsonSerializer.Serialize(data, JsonOptions);
 
+    /// <summary>
+    /// Replace the data after an edit or a later load, marking the record as changed since import.
+    /// </summary>
+    public void UpdateData(Dictionary<string, object?> data)
+    {
+        SetData(data);
+        UpdatedAt = DateTime.UtcNow;
+    }
+
     /// <summary>
     /// Get typed value from data.
     /// </summary>
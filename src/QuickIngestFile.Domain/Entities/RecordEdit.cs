@@ -0,0 +1,54 @@
+namespace QuickIngestFile.Domain.Entities;
+
+using System.Text.Json;
+using QuickIngestFile.Domain.Common;
+
+/// <summary>
+/// A change made to an imported record after import: who made it, when, and the values before and after.
+/// The source row number is kept so edited data can still be traced back to the file.
+/// </summary>
+public sealed class RecordEdit : Entity
+{
+    public Guid ImportJobId { get; set; }
+    public Guid RecordId { get; set; }
+    public int RowNumber { get; set; }
+    public RecordEditAction Action { get; set; }
+    public string EditedBy { get; set; } = string.Empty;
+
+    /// <summary>
+    /// JSON serialized list of changed values. Deletions list every value of the removed record.
+    /// </summary>
+    public string ChangesJson { get; set; } = "[]";
+
+    /// <summary>
+    /// Get the changed values.
+    /// </summary>
+    public List<FieldChange> GetChanges() =>
+        JsonSerializer.Deserialize<List<FieldChange>>(ChangesJson, JsonOptions) ?? [];
+
+    /// <summary>
+    /// Set the changed values.
+    /// </summary>
+    public void SetChanges(IEnumerable<FieldChange> changes) =>
+        ChangesJson = JsonSerializer.Serialize(changes, JsonOptions);
+
+    private static readonly JsonSerializerOptions JsonOptions = new()
+    {
+        PropertyNamingPolicy = JsonNamingPolicy.CamelCase,
+        WriteIndented = false
+    };
+}
+
+/// <summary>
+/// A column value before and after an edit, as text. Null means the value was empty.
+/// </summary>
+public sealed record FieldChange(string Column, string? OldValue, string? NewValue);
+
+/// <summary>
+/// Kind of change made to an imported record.
+/// </summary>
+public enum RecordEditAction
+{
+    Update,
+    Delete
+}
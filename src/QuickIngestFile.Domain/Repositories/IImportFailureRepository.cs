@@ -0,0 +1,55 @@
+namespace QuickIngestFile.Domain.Repositories;
+
+using QuickIngestFile.Domain.Common;
+using QuickIngestFile.Domain.Entities;
+
+/// <summary>
+/// Repository for rows rejected during import.
+/// </summary>
+public interface IImportFailureRepository : IRepository<ImportFailure>
+{
+    /// <summary>
+    /// Get all failures for a specific import job, ordered by row number.
+    /// </summary>
+    Task<IReadOnlyList<ImportFailure>> GetByImportJobIdAsync(
+        Guid importJobId,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Get paginated failures for a specific import job.
+    /// </summary>
+    Task<PagedResult<ImportFailure>> GetPagedByImportJobIdAsync(
+        Guid importJobId,
+        int page,
+        int pageSize,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Bulk insert failures.
+    /// </summary>
+    Task BulkInsertAsync(
+        IEnumerable<ImportFailure> failures,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Replace the failures of an import job with those staged under <paramref name="stagingId"/>.
+    /// </summary>
+    Task CommitStagedAsync(
+        Guid stagingId,
+        Guid importJobId,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Count failures for an import job.
+    /// </summary>
+    Task<int> CountByImportJobIdAsync(
+        Guid importJobId,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Delete all failures for an import job.
+    /// </summary>
+    Task DeleteByImportJobIdAsync(
+        Guid importJobId,
+        CancellationToken cancellationToken = default);
+}
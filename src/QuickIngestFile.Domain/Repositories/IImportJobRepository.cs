@@ -1,5 +1,6 @@
 namespace QuickIngestFile.Domain.Repositories;
 
+using QuickIngestFile.Domain.Common;
 using QuickIngestFile.Domain.Entities;
 
 /// <summary>
@@ -9,4 +10,5 @@ public interface IImportJobRepository : IRepository<ImportJob>
 {
     Task<IReadOnlyList<ImportJob>> GetRecentAsync(int count, CancellationToken cancellationToken = default);
     Task<ImportJob?> GetLatestByFileNameAsync(string fileName, CancellationToken cancellationToken = default);
+    Task<PagedResult<ImportJob>> QueryAsync(ImportJobQuery query, int page, int pageSize, CancellationToken cancellationToken = default);
 }
@@ -0,0 +1,16 @@
+namespace QuickIngestFile.Domain.Repositories;
+
+using QuickIngestFile.Domain.Entities;
+
+/// <summary>
+/// Repository for saved import profiles.
+/// </summary>
+public interface IImportProfileRepository : IRepository<ImportProfile>
+{
+    /// <summary>
+    /// Get a profile by its name, case-insensitive.
+    /// </summary>
+    Task<ImportProfile?> GetByNameAsync(
+        string name,
+        CancellationToken cancellationToken = default);
+}
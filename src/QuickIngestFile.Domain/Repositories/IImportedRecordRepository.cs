@@ -24,6 +24,33 @@ public interface IImportedRecordRepository : IRepository<ImportedRecord>
         int pageSize,
         CancellationToken cancellationToken = default);
 
+    /// <summary>
+    /// Get paginated records for a specific import job, searched, filtered and sorted by column values.
+    /// Records with equal sort values keep row order so pages stay stable.
+    /// </summary>
+    Task<PagedResult<ImportedRecord>> QueryByImportJobIdAsync(
+        Guid importJobId,
+        RecordQuery query,
+        int page,
+        int pageSize,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Stream records for an import job in row order, or optionally only those matching a query, in its order.
+    /// </summary>
+    IAsyncEnumerable<ImportedRecord> StreamByImportJobIdAsync(
+        Guid importJobId,
+        RecordQuery? query = null,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Get the records of an import job with the given row numbers.
+    /// </summary>
+    Task<IReadOnlyList<ImportedRecord>> GetByRowNumbersAsync(
+        Guid importJobId,
+        IReadOnlyCollection<int> rowNumbers,
+        CancellationToken cancellationToken = default);
+
     /// <summary>
     /// Bulk insert records for high-performance import.
     /// </summary>
@@ -31,6 +58,24 @@ public interface IImportedRecordRepository : IRepository<ImportedRecord>
         IEnumerable<ImportedRecord> records, 
         CancellationToken cancellationToken = default);
 
+    /// <summary>
+    /// Move the records staged under <paramref name="stagingId"/> into an import job.
+    /// A staged record numbered like one of the job's records overwrites its data; the others are added.
+    /// With <paramref name="replace"/> the job's own records are deleted first.
+    /// </summary>
+    Task CommitStagedAsync(
+        Guid stagingId,
+        Guid importJobId,
+        bool replace,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Highest row number among the records of an import job, or 0 when it has none.
+    /// </summary>
+    Task<int> GetMaxRowNumberAsync(
+        Guid importJobId,
+        CancellationToken cancellationToken = default);
+
     /// <summary>
     /// Delete all records for an import job.
     /// </summary>
@@ -44,12 +89,4 @@ public interface IImportedRecordRepository : IRepository<ImportedRecord>
     Task<int> CountByImportJobIdAsync(
         Guid importJobId, 
         CancellationToken cancellationToken = default);
-
-    /// <summary>
-    /// Search records by value in any column.
-    /// </summary>
-    Task<IReadOnlyList<ImportedRecord>> SearchAsync(
-        Guid importJobId,
-        string searchTerm,
-        CancellationToken cancellationToken = default);
-}
+}
\ No newline at end of file
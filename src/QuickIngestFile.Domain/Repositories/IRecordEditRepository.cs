@@ -0,0 +1,27 @@
+namespace QuickIngestFile.Domain.Repositories;
+
+using QuickIngestFile.Domain.Common;
+using QuickIngestFile.Domain.Entities;
+
+/// <summary>
+/// Repository for the audit trail of edits made to imported records.
+/// </summary>
+public interface IRecordEditRepository : IRepository<RecordEdit>
+{
+    /// <summary>
+    /// Get paginated edits for an import job, newest first, optionally only those of one record.
+    /// </summary>
+    Task<PagedResult<RecordEdit>> GetPagedByImportJobIdAsync(
+        Guid importJobId,
+        Guid? recordId,
+        int page,
+        int pageSize,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Delete all edits for an import job.
+    /// </summary>
+    Task DeleteByImportJobIdAsync(
+        Guid importJobId,
+        CancellationToken cancellationToken = default);
+}
@@ -8,6 +8,9 @@ public interface IUnitOfWork : IDisposable
     IImportJobRepository ImportJobs { get; }
     IImportedRecordRepository ImportedRecords { get; }
     IFileSchemaRepository FileSchemas { get; }
+    IImportFailureRepository ImportFailures { get; }
+    IImportProfileRepository ImportProfiles { get; }
+    IRecordEditRepository RecordEdits { get; }
     
     Task<int> SaveChangesAsync(CancellationToken cancellationToken = default);
     Task BeginTransactionAsync(CancellationToken cancellationToken = default);
@@ -0,0 +1,131 @@
+namespace QuickIngestFile.Infrastructure.Persistence.MongoDB;
+
+using global::MongoDB.Driver;
+using QuickIngestFile.Domain.Common;
+using QuickIngestFile.Domain.Entities;
+using QuickIngestFile.Domain.Repositories;
+
+/// <summary>
+/// MongoDB implementation of ImportFailure repository.
+/// </summary>
+public sealed class MongoImportFailureRepository : IImportFailureRepository
+{
+    private readonly IMongoCollection<ImportFailure> _collection;
+
+    public MongoImportFailureRepository(IMongoDatabase database)
+    {
+        _collection = database.GetCollection<ImportFailure>("importFailures");
+
+        // Create indexes
+        var indexKeys = Builders<ImportFailure>.IndexKeys
+            .Ascending(x => x.ImportJobId)
+            .Ascending(x => x.RowNumber);
+
+        _collection.Indexes.CreateOne(new CreateIndexModel<ImportFailure>(indexKeys));
+    }
+
+    public async Task<ImportFailure?> GetByIdAsync(Guid id, CancellationToken cancellationToken = default)
+    {
+        return await _collection.Find(x => x.Id == id).FirstOrDefaultAsync(cancellationToken);
+    }
+
+    public async Task<IReadOnlyList<ImportFailure>> GetAllAsync(CancellationToken cancellationToken = default)
+    {
+        return await _collection.Find(_ => true)
+            .SortBy(x => x.RowNumber)
+            .ToListAsync(cancellationToken);
+    }
+
+    public async Task<PagedResult<ImportFailure>> GetPagedAsync(int page, int pageSize, CancellationToken cancellationToken = default)
+    {
+        var totalCount = await _collection.CountDocumentsAsync(_ => true, cancellationToken: cancellationToken);
+
+        var items = await _collection.Find(_ => true)
+            .SortBy(x => x.RowNumber)
+            .Skip((page - 1) * pageSize)
+            .Limit(pageSize)
+            .ToListAsync(cancellationToken);
+
+        return new PagedResult<ImportFailure>(items, (int)totalCount, page, pageSize);
+    }
+
+    public async Task<ImportFailure> AddAsync(ImportFailure entity, CancellationToken cancellationToken = default)
+    {
+        await _collection.InsertOneAsync(entity, cancellationToken: cancellationToken);
+        return entity;
+    }
+
+    public async Task AddRangeAsync(IEnumerable<ImportFailure> entities, CancellationToken cancellationToken = default)
+    {
+        var list = entities.ToList();
+        if (list.Count > 0)
+        {
+            await _collection.InsertManyAsync(list, cancellationToken: cancellationToken);
+        }
+    }
+
+    public async Task UpdateAsync(ImportFailure entity, CancellationToken cancellationToken = default)
+    {
+        await _collection.ReplaceOneAsync(x => x.Id == entity.Id, entity, cancellationToken: cancellationToken);
+    }
+
+    public async Task DeleteAsync(Guid id, CancellationToken cancellationToken = default)
+    {
+        await _collection.DeleteOneAsync(x => x.Id == id, cancellationToken);
+    }
+
+    public async Task<int> CountAsync(CancellationToken cancellationToken = default)
+    {
+        return (int)await _collection.CountDocumentsAsync(_ => true, cancellationToken: cancellationToken);
+    }
+
+    public async Task<IReadOnlyList<ImportFailure>> GetByImportJobIdAsync(Guid importJobId, CancellationToken cancellationToken = default)
+    {
+        return await _collection.Find(x => x.ImportJobId == importJobId)
+            .SortBy(x => x.RowNumber)
+            .ToListAsync(cancellationToken);
+    }
+
+    public async Task<PagedResult<ImportFailure>> GetPagedByImportJobIdAsync(Guid importJobId, int page, int pageSize, CancellationToken cancellationToken = default)
+    {
+        var filter = Builders<ImportFailure>.Filter.Eq(x => x.ImportJobId, importJobId);
+
+        var totalCount = await _collection.CountDocumentsAsync(filter, cancellationToken: cancellationToken);
+
+        var items = await _collection.Find(filter)
+            .SortBy(x => x.RowNumber)
+            .Skip((page - 1) * pageSize)
+            .Limit(pageSize)
+            .ToListAsync(cancellationToken);
+
+        return new PagedResult<ImportFailure>(items, (int)totalCount, page, pageSize);
+    }
+
+    public async Task BulkInsertAsync(IEnumerable<ImportFailure> failures, CancellationToken cancellationToken = default)
+    {
+        var list = failures.ToList();
+        if (list.Count > 0)
+        {
+            await _collection.InsertManyAsync(list, new InsertManyOptions { IsOrdered = false }, cancellationToken);
+        }
+    }
+
+    public async Task CommitStagedAsync(Guid stagingId, Guid importJobId, CancellationToken cancellationToken = default)
+    {
+        await DeleteByImportJobIdAsync(importJobId, cancellationToken);
+        await _collection.UpdateManyAsync(
+            x => x.ImportJobId == stagingId,
+            Builders<ImportFailure>.Update.Set(x => x.ImportJobId, importJobId),
+            cancellationToken: cancellationToken);
+    }
+
+    public async Task<int> CountByImportJobIdAsync(Guid importJobId, CancellationToken cancellationToken = default)
+    {
+        return (int)await _collection.CountDocumentsAsync(x => x.ImportJobId == importJobId, cancellationToken: cancellationToken);
+    }
+
+    public async Task DeleteByImportJobIdAsync(Guid importJobId, CancellationToken cancellationToken = default)
+    {
+        await _collection.DeleteManyAsync(x => x.ImportJobId == importJobId, cancellationToken);
+    }
+}
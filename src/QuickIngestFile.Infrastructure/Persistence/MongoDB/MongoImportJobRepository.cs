@@ -1,5 +1,7 @@
 namespace QuickIngestFile.Infrastructure.Persistence.MongoDB;
 
+using System.Text.RegularExpressions;
+using global::MongoDB.Bson;
 using global::MongoDB.Driver;
 using QuickIngestFile.Domain.Common;
 using QuickIngestFile.Domain.Entities;
@@ -86,4 +88,65 @@ public sealed class MongoImportJobRepository : IImportJobRepository
             .SortByDescending(x => x.CreatedAt)
             .FirstOrDefaultAsync(cancellationToken);
     }
+
+    public async Task<PagedResult<ImportJob>> QueryAsync(ImportJobQuery query, int page, int pageSize, CancellationToken cancellationToken = default)
+    {
+        var builder = Builders<ImportJob>.Filter;
+        var filter = builder.Empty;
+
+        if (query.Statuses.Count > 0)
+            filter &= builder.In(x => x.Status, query.Statuses);
+
+        if (!string.IsNullOrWhiteSpace(query.FileType))
+            filter &= builder.Regex(x => x.FileType, new BsonRegularExpression($"^{Regex.Escape(query.FileType)}$", "i"));
+
+        if (query.CreatedFrom is not null)
+            filter &= builder.Gte(x => x.CreatedAt, query.CreatedFrom.Value);
+
+        if (query.CreatedBefore is not null)
+            filter &= builder.Lt(x => x.CreatedAt, query.CreatedBefore.Value);
+
+        if (!string.IsNullOrWhiteSpace(query.FileName))
+            filter &= builder.Regex(x => x.FileName, new BsonRegularExpression(Regex.Escape(query.FileName), "i"));
+
+        var totalCount = await _collection.CountDocumentsAsync(filter, cancellationToken: cancellationToken);
+
+        // Duration is computed rather than stored, so that sort happens in memory over the matching jobs
+        if (query.SortBy == ImportJobSortField.Duration)
+        {
+            var jobs = await _collection.Find(filter).ToListAsync(cancellationToken);
+            var ordered = query.Descending
+                ? jobs.OrderByDescending(x => x.Duration).ThenByDescending(x => x.CreatedAt)
+                : jobs.OrderBy(x => x.Duration).ThenByDescending(x => x.CreatedAt);
+
+            return new PagedResult<ImportJob>(
+                ordered.Skip((page - 1) * pageSize).Take(pageSize).ToList(), (int)totalCount, page, pageSize);
+        }
+
+        var items = await _collection.Find(filter)
+            .Sort(GetSort(query))
+            .Skip((page - 1) * pageSize)
+            .Limit(pageSize)
+            .ToListAsync(cancellationToken);
+
+        return new PagedResult<ImportJob>(items, (int)totalCount, page, pageSize);
+    }
+
+    private static SortDefinition<ImportJob> GetSort(ImportJobQuery query)
+    {
+        var sort = Builders<ImportJob>.Sort;
+
+        SortDefinition<ImportJob> primary = query.SortBy switch
+        {
+            ImportJobSortField.FileName => query.Descending ? sort.Descending(x => x.FileName) : sort.Ascending(x => x.FileName),
+            ImportJobSortField.FileSize => query.Descending ? sort.Descending(x => x.FileSize) : sort.Ascending(x => x.FileSize),
+            ImportJobSortField.TotalRecords => query.Descending ? sort.Descending(x => x.TotalRecords) : sort.Ascending(x => x.TotalRecords),
+            _ => query.Descending ? sort.Descending(x => x.CreatedAt) : sort.Ascending(x => x.CreatedAt)
+        };
+
+        // Creation time breaks ties so pagination stays stable
+        return query.SortBy == ImportJobSortField.CreatedAt
+            ? primary
+            : sort.Combine(primary, sort.Descending(x => x.CreatedAt));
+    }
 }
@@ -0,0 +1,81 @@
+namespace QuickIngestFile.Infrastructure.Persistence.MongoDB;
+
+using global::MongoDB.Driver;
+using QuickIngestFile.Domain.Common;
+using QuickIngestFile.Domain.Entities;
+using QuickIngestFile.Domain.Repositories;
+
+/// <summary>
+/// MongoDB implementation of ImportProfile repository.
+/// </summary>
+public sealed class MongoImportProfileRepository : IImportProfileRepository
+{
+    private readonly IMongoCollection<ImportProfile> _collection;
+
+    public MongoImportProfileRepository(IMongoDatabase database)
+    {
+        _collection = database.GetCollection<ImportProfile>("importProfiles");
+
+        // Create unique index on Name
+        var indexKeys = Builders<ImportProfile>.IndexKeys.Ascending(x => x.Name);
+        _collection.Indexes.CreateOne(new CreateIndexModel<ImportProfile>(indexKeys, new CreateIndexOptions { Unique = true }));
+    }
+
+    public async Task<ImportProfile?> GetByIdAsync(Guid id, CancellationToken cancellationToken = default)
+    {
+        return await _collection.Find(x => x.Id == id).FirstOrDefaultAsync(cancellationToken);
+    }
+
+    public async Task<IReadOnlyList<ImportProfile>> GetAllAsync(CancellationToken cancellationToken = default)
+    {
+        return await _collection.Find(_ => true).ToListAsync(cancellationToken);
+    }
+
+    public async Task<PagedResult<ImportProfile>> GetPagedAsync(int page, int pageSize, CancellationToken cancellationToken = default)
+    {
+        var totalCount = await _collection.CountDocumentsAsync(_ => true, cancellationToken: cancellationToken);
+
+        var items = await _collection.Find(_ => true)
+            .Skip((page - 1) * pageSize)
+            .Limit(pageSize)
+            .ToListAsync(cancellationToken);
+
+        return new PagedResult<ImportProfile>(items, (int)totalCount, page, pageSize);
+    }
+
+    public async Task<ImportProfile> AddAsync(ImportProfile entity, CancellationToken cancellationToken = default)
+    {
+        await _collection.InsertOneAsync(entity, cancellationToken: cancellationToken);
+        return entity;
+    }
+
+    public async Task AddRangeAsync(IEnumerable<ImportProfile> entities, CancellationToken cancellationToken = default)
+    {
+        var list = entities.ToList();
+        if (list.Count > 0)
+        {
+            await _collection.InsertManyAsync(list, cancellationToken: cancellationToken);
+        }
+    }
+
+    public async Task UpdateAsync(ImportProfile entity, CancellationToken cancellationToken = default)
+    {
+        await _collection.ReplaceOneAsync(x => x.Id == entity.Id, entity, cancellationToken: cancellationToken);
+    }
+
+    public async Task DeleteAsync(Guid id, CancellationToken cancellationToken = default)
+    {
+        await _collection.DeleteOneAsync(x => x.Id == id, cancellationToken);
+    }
+
+    public async Task<int> CountAsync(CancellationToken cancellationToken = default)
+    {
+        return (int)await _collection.CountDocumentsAsync(_ => true, cancellationToken: cancellationToken);
+    }
+
+    public async Task<ImportProfile?> GetByNameAsync(string name, CancellationToken cancellationToken = default)
+    {
+        var normalized = name.ToLower();
+        return await _collection.Find(x => x.Name.ToLower() == normalized).FirstOrDefaultAsync(cancellationToken);
+    }
+}
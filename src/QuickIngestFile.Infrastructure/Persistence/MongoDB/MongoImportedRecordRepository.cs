@@ -1,5 +1,6 @@
 namespace QuickIngestFile.Infrastructure.Persistence.MongoDB;
 
+using System.Runtime.CompilerServices;
 using global::MongoDB.Driver;
 using QuickIngestFile.Domain.Common;
 using QuickIngestFile.Domain.Entities;
@@ -10,6 +11,9 @@ using QuickIngestFile.Domain.Repositories;
 /// </summary>
 public sealed class MongoImportedRecordRepository : IImportedRecordRepository
 {
+    // Sorted streams read their records back this many at a time
+    private const int StreamBatchSize = 1000;
+
     private readonly IMongoCollection<ImportedRecord> _collection;
 
     public MongoImportedRecordRepository(IMongoDatabase database)
@@ -101,6 +105,65 @@ public sealed class MongoImportedRecordRepository : IImportedRecordRepository
         return new PagedResult<ImportedRecord>(items, (int)totalCount, page, pageSize);
     }
 
+    public async Task<PagedResult<ImportedRecord>> QueryByImportJobIdAsync(Guid importJobId, RecordQuery query, int page, int pageSize, CancellationToken cancellationToken = default)
+    {
+        var matches = await FindMatchesAsync(importJobId, query, cancellationToken);
+
+        var pageIds = matches
+            .Skip((page - 1) * pageSize)
+            .Take(pageSize)
+            .ToList();
+
+        var items = await GetInOrderAsync(pageIds, cancellationToken);
+
+        return new PagedResult<ImportedRecord>(items, matches.Count, page, pageSize);
+    }
+
+    public async IAsyncEnumerable<ImportedRecord> StreamByImportJobIdAsync(Guid importJobId, RecordQuery? query = null, [EnumeratorCancellation] CancellationToken cancellationToken = default)
+    {
+        if (query?.Sort is not null)
+        {
+            // Sorting needs every match first; only their ids are held and the records are read back in batches
+            var matches = await FindMatchesAsync(importJobId, query, cancellationToken);
+            foreach (var batch in matches.Chunk(StreamBatchSize))
+            {
+                foreach (var record in await GetInOrderAsync(batch, cancellationToken))
+                {
+                    yield return record;
+                }
+            }
+
+            yield break;
+        }
+
+        var filter = Builders<ImportedRecord>.Filter.Eq(x => x.ImportJobId, importJobId);
+        var options = new FindOptions<ImportedRecord>
+        {
+            Sort = Builders<ImportedRecord>.Sort.Ascending(x => x.RowNumber)
+        };
+
+        using var cursor = await _collection.FindAsync(filter, options, cancellationToken);
+        while (await cursor.MoveNextAsync(cancellationToken))
+        {
+            foreach (var record in cursor.Current)
+            {
+                // Searches and filters match column values, which are only reachable after parsing the JSON
+                if (query is { IsEmpty: false } && !Matches(record.GetData(), query))
+                    continue;
+
+                yield return record;
+            }
+        }
+    }
+
+    public async Task<IReadOnlyList<ImportedRecord>> GetByRowNumbersAsync(Guid importJobId, IReadOnlyCollection<int> rowNumbers, CancellationToken cancellationToken = default)
+    {
+        var filter = Builders<ImportedRecord>.Filter.Eq(x => x.ImportJobId, importJobId)
+            & Builders<ImportedRecord>.Filter.In(x => x.RowNumber, rowNumbers);
+
+        return await _collection.Find(filter).ToListAsync(cancellationToken);
+    }
+
     public async Task BulkInsertAsync(IEnumerable<ImportedRecord> records, CancellationToken cancellationToken = default)
     {
         var list = records.ToList();
@@ -110,6 +173,57 @@ public sealed class MongoImportedRecordRepository : IImportedRecordRepository
         }
     }
 
+    public async Task CommitStagedAsync(Guid stagingId, Guid importJobId, bool replace, CancellationToken cancellationToken = default)
+    {
+        if (replace)
+        {
+            await DeleteByImportJobIdAsync(importJobId, cancellationToken);
+        }
+        else
+        {
+            // Staged updates carry the row number of the record they overwrite, which keeps its ID and edits
+            using var cursor = await _collection.FindAsync(x => x.ImportJobId == stagingId, cancellationToken: cancellationToken);
+            while (await cursor.MoveNextAsync(cancellationToken))
+            {
+                var staged = cursor.Current.ToDictionary(r => r.RowNumber);
+                var rowNumbers = staged.Keys.ToList();
+                var targets = await _collection
+                    .Find(x => x.ImportJobId == importJobId && rowNumbers.Contains(x.RowNumber))
+                    .ToListAsync(cancellationToken);
+
+                if (targets.Count == 0)
+                    continue;
+
+                var updates = targets
+                    .Select(target => new UpdateOneModel<ImportedRecord>(
+                        Builders<ImportedRecord>.Filter.Eq(x => x.Id, target.Id),
+                        Builders<ImportedRecord>.Update
+                            .Set(x => x.DataJson, staged[target.RowNumber].DataJson)
+                            .Set(x => x.UpdatedAt, staged[target.RowNumber].UpdatedAt ?? DateTime.UtcNow)))
+                    .ToList();
+                var applied = targets.Select(target => staged[target.RowNumber].Id).ToList();
+
+                await _collection.BulkWriteAsync(updates, new BulkWriteOptions { IsOrdered = false }, cancellationToken);
+                await _collection.DeleteManyAsync(Builders<ImportedRecord>.Filter.In(x => x.Id, applied), cancellationToken);
+            }
+        }
+
+        await _collection.UpdateManyAsync(
+            x => x.ImportJobId == stagingId,
+            Builders<ImportedRecord>.Update.Set(x => x.ImportJobId, importJobId),
+            cancellationToken: cancellationToken);
+    }
+
+    public async Task<int> GetMaxRowNumberAsync(Guid importJobId, CancellationToken cancellationToken = default)
+    {
+        var last = await _collection.Find(x => x.ImportJobId == importJobId)
+            .SortByDescending(x => x.RowNumber)
+            .Limit(1)
+            .FirstOrDefaultAsync(cancellationToken);
+
+        return last?.RowNumber ?? 0;
+    }
+
     public async Task DeleteByImportJobIdAsync(Guid importJobId, CancellationToken cancellationToken = default)
     {
         await _collection.DeleteManyAsync(x => x.ImportJobId == importJobId, cancellationToken);
@@ -120,17 +234,61 @@ public sealed class MongoImportedRecordRepository : IImportedRecordRepository
         return (int)await _collection.CountDocumentsAsync(x => x.ImportJobId == importJobId, cancellationToken: cancellationToken);
     }
 
-    public async Task<IReadOnlyList<ImportedRecord>> SearchAsync(Guid importJobId, string searchTerm, CancellationToken cancellationToken = default)
+    /// <summary>
+    /// Ids of the records of a job matching a query, in the query's order.
+    /// Data is a JSON string here, so filters are evaluated while streaming the job's records
+    /// and only the ids, row numbers and sort keys of matches are kept.
+    /// </summary>
+    private async Task<IReadOnlyList<Guid>> FindMatchesAsync(Guid importJobId, RecordQuery query, CancellationToken cancellationToken)
     {
-        // Text search in DataJson
-        var filter = Builders<ImportedRecord>.Filter.And(
-            Builders<ImportedRecord>.Filter.Eq(x => x.ImportJobId, importJobId),
-            Builders<ImportedRecord>.Filter.Regex(x => x.DataJson, new global::MongoDB.Bson.BsonRegularExpression(searchTerm, "i"))
-        );
+        var matches = new List<(Guid Id, int RowNumber, IComparable? SortKey)>();
 
-        return await _collection.Find(filter)
-            .SortBy(x => x.RowNumber)
-            .Limit(100)
+        using (var cursor = await _collection.FindAsync(x => x.ImportJobId == importJobId, cancellationToken: cancellationToken))
+        {
+            while (await cursor.MoveNextAsync(cancellationToken))
+            {
+                foreach (var record in cursor.Current)
+                {
+                    var data = record.GetData();
+                    if (!Matches(data, query))
+                        continue;
+
+                    var sortKey = query.Sort is null ? null : RecordQueryEvaluator.GetSortKey(data, query.Sort);
+                    matches.Add((record.Id, record.RowNumber, sortKey));
+                }
+            }
+        }
+
+        var ordered = query.Sort switch
+        {
+            null => matches.OrderBy(m => m.RowNumber),
+            { Descending: true } => matches
+                .OrderByDescending(m => m.SortKey, RecordQueryEvaluator.SortKeyComparer)
+                .ThenBy(m => m.RowNumber),
+            _ => matches
+                .OrderBy(m => m.SortKey, RecordQueryEvaluator.SortKeyComparer)
+                .ThenBy(m => m.RowNumber)
+        };
+
+        return ordered.Select(m => m.Id).ToList();
+    }
+
+    /// <summary>
+    /// Records with the given ids, in the order of the ids.
+    /// </summary>
+    private async Task<List<ImportedRecord>> GetInOrderAsync(IReadOnlyList<Guid> ids, CancellationToken cancellationToken)
+    {
+        var records = await _collection.Find(Builders<ImportedRecord>.Filter.In(x => x.Id, ids))
             .ToListAsync(cancellationToken);
+
+        var recordsById = records.ToDictionary(r => r.Id);
+        return ids
+            .Where(recordsById.ContainsKey)
+            .Select(id => recordsById[id])
+            .ToList();
     }
+
+    private static bool Matches(Dictionary<string, object?> data, RecordQuery query) =>
+        (query.Search is null || RecordQueryEvaluator.Matches(data, query.Search))
+        && RecordQueryEvaluator.Matches(data, query.Filters);
 }
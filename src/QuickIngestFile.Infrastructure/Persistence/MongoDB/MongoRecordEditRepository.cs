@@ -0,0 +1,104 @@
+namespace QuickIngestFile.Infrastructure.Persistence.MongoDB;
+
+using global::MongoDB.Driver;
+using QuickIngestFile.Domain.Common;
+using QuickIngestFile.Domain.Entities;
+using QuickIngestFile.Domain.Repositories;
+
+/// <summary>
+/// MongoDB implementation of RecordEdit repository.
+/// </summary>
+public sealed class MongoRecordEditRepository : IRecordEditRepository
+{
+    private readonly IMongoCollection<RecordEdit> _collection;
+
+    public MongoRecordEditRepository(IMongoDatabase database)
+    {
+        _collection = database.GetCollection<RecordEdit>("recordEdits");
+
+        // Create indexes
+        var indexKeys = Builders<RecordEdit>.IndexKeys
+            .Ascending(x => x.ImportJobId)
+            .Descending(x => x.CreatedAt);
+
+        _collection.Indexes.CreateOne(new CreateIndexModel<RecordEdit>(indexKeys));
+    }
+
+    public async Task<RecordEdit?> GetByIdAsync(Guid id, CancellationToken cancellationToken = default)
+    {
+        return await _collection.Find(x => x.Id == id).FirstOrDefaultAsync(cancellationToken);
+    }
+
+    public async Task<IReadOnlyList<RecordEdit>> GetAllAsync(CancellationToken cancellationToken = default)
+    {
+        return await _collection.Find(_ => true)
+            .SortByDescending(x => x.CreatedAt)
+            .ToListAsync(cancellationToken);
+    }
+
+    public async Task<PagedResult<RecordEdit>> GetPagedAsync(int page, int pageSize, CancellationToken cancellationToken = default)
+    {
+        var totalCount = await _collection.CountDocumentsAsync(_ => true, cancellationToken: cancellationToken);
+
+        var items = await _collection.Find(_ => true)
+            .SortByDescending(x => x.CreatedAt)
+            .Skip((page - 1) * pageSize)
+            .Limit(pageSize)
+            .ToListAsync(cancellationToken);
+
+        return new PagedResult<RecordEdit>(items, (int)totalCount, page, pageSize);
+    }
+
+    public async Task<RecordEdit> AddAsync(RecordEdit entity, CancellationToken cancellationToken = default)
+    {
+        await _collection.InsertOneAsync(entity, cancellationToken: cancellationToken);
+        return entity;
+    }
+
+    public async Task AddRangeAsync(IEnumerable<RecordEdit> entities, CancellationToken cancellationToken = default)
+    {
+        var list = entities.ToList();
+        if (list.Count > 0)
+        {
+            await _collection.InsertManyAsync(list, cancellationToken: cancellationToken);
+        }
+    }
+
+    public async Task UpdateAsync(RecordEdit entity, CancellationToken cancellationToken = default)
+    {
+        await _collection.ReplaceOneAsync(x => x.Id == entity.Id, entity, cancellationToken: cancellationToken);
+    }
+
+    public async Task DeleteAsync(Guid id, CancellationToken cancellationToken = default)
+    {
+        await _collection.DeleteOneAsync(x => x.Id == id, cancellationToken);
+    }
+
+    public async Task<int> CountAsync(CancellationToken cancellationToken = default)
+    {
+        return (int)await _collection.CountDocumentsAsync(_ => true, cancellationToken: cancellationToken);
+    }
+
+    public async Task<PagedResult<RecordEdit>> GetPagedByImportJobIdAsync(Guid importJobId, Guid? recordId, int page, int pageSize, CancellationToken cancellationToken = default)
+    {
+        var filter = Builders<RecordEdit>.Filter.Eq(x => x.ImportJobId, importJobId);
+
+        if (recordId is not null)
+            filter &= Builders<RecordEdit>.Filter.Eq(x => x.RecordId, recordId.Value);
+
+        var totalCount = await _collection.CountDocumentsAsync(filter, cancellationToken: cancellationToken);
+
+        var items = await _collection.Find(filter)
+            .SortByDescending(x => x.CreatedAt)
+            .Skip((page - 1) * pageSize)
+            .Limit(pageSize)
+            .ToListAsync(cancellationToken);
+
+        return new PagedResult<RecordEdit>(items, (int)totalCount, page, pageSize);
+    }
+
+    public async Task DeleteByImportJobIdAsync(Guid importJobId, CancellationToken cancellationToken = default)
+    {
+        await _collection.DeleteManyAsync(x => x.ImportJobId == importJobId, cancellationToken);
+    }
+}
@@ -21,11 +21,17 @@ public sealed class MongoUnitOfWork : IUnitOfWork
         ImportJobs = new MongoImportJobRepository(database);
         ImportedRecords = new MongoImportedRecordRepository(database);
         FileSchemas = new MongoFileSchemaRepository(database);
+        ImportFailures = new MongoImportFailureRepository(database);
+        ImportProfiles = new MongoImportProfileRepository(database);
+        RecordEdits = new MongoRecordEditRepository(database);
     }
 
     public IImportJobRepository ImportJobs { get; }
     public IImportedRecordRepository ImportedRecords { get; }
     public IFileSchemaRepository FileSchemas { get; }
+    public IImportFailureRepository ImportFailures { get; }
+    public IImportProfileRepository ImportProfiles { get; }
+    public IRecordEditRepository RecordEdits { get; }
 
     public Task<int> SaveChangesAsync(CancellationToken cancellationToken = default)
     {
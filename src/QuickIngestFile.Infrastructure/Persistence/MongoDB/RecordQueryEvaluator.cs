@@ -0,0 +1,88 @@
+namespace QuickIngestFile.Infrastructure.Persistence.MongoDB;
+
+using System.Text.Json;
+using QuickIngestFile.Domain.Common;
+using QuickIngestFile.Domain.Entities;
+
+/// <summary>
+/// Evaluates searches, column filters and sort keys against record data in memory.
+/// Record data is stored as a JSON string in MongoDB, which the database cannot query into.
+/// Semantics follow the SQL implementation: nulls sort first, ties keep row order.
+/// </summary>
+internal static class RecordQueryEvaluator
+{
+    public static readonly IComparer<IComparable?> SortKeyComparer = Comparer<IComparable?>.Create((a, b) =>
+    {
+        if (a is null || b is null)
+            return a is null ? (b is null ? 0 : -1) : 1;
+
+        return a is string textA && b is string textB
+            ? string.CompareOrdinal(textA, textB)
+            : a.CompareTo(b);
+    });
+
+    public static bool Matches(Dictionary<string, object?> data, RecordSearch search) =>
+        search.Columns.Any(column =>
+            GetText(data.GetValueOrDefault(column))?.Contains(search.Term, StringComparison.OrdinalIgnoreCase) == true);
+
+    public static bool Matches(Dictionary<string, object?> data, IReadOnlyList<ColumnFilter> filters) =>
+        filters.All(filter => Matches(data.GetValueOrDefault(filter.Column), filter));
+
+    public static IComparable? GetSortKey(Dictionary<string, object?> data, ColumnSort sort)
+    {
+        var value = data.GetValueOrDefault(sort.Column);
+
+        return ColumnFilter.IsNumericType(sort.DataType)
+            ? GetNumber(value)
+            : GetText(value);
+    }
+
+    private static bool Matches(object? value, ColumnFilter filter)
+    {
+        switch (filter.Operator)
+        {
+            case FilterOperator.IsEmpty:
+                return string.IsNullOrEmpty(GetText(value));
+
+            case FilterOperator.Equal when filter.DataType == DataTypes.Boolean:
+                var flag = bool.TryParse(filter.Value, out var parsed) && parsed;
+                return value is JsonElement { ValueKind: JsonValueKind.True or JsonValueKind.False } element
+                    && element.GetBoolean() == flag;
+
+            case FilterOperator.Equal:
+                return GetText(value) == (filter.Value ?? string.Empty);
+
+            case FilterOperator.Contains:
+                return GetText(value)?.Contains(filter.Value ?? string.Empty, StringComparison.OrdinalIgnoreCase) == true;
+
+            case FilterOperator.Between when filter.IsNumeric:
+                var number = GetNumber(value);
+                var (min, max) = filter.GetNumberRange();
+                return number is not null
+                    && (min is null || number >= min)
+                    && (max is null || number <= max);
+
+            case FilterOperator.Between when filter.IsDate:
+                var text = GetText(value);
+                var (from, toExclusive) = filter.GetDateRange();
+                return text is not null
+                    && (from is null || string.CompareOrdinal(text, from) >= 0)
+                    && (toExclusive is null || string.CompareOrdinal(text, toExclusive) < 0);
+
+            default:
+                return true;
+        }
+    }
+
+    private static string? GetText(object? value) => value switch
+    {
+        JsonElement { ValueKind: JsonValueKind.String } element => element.GetString(),
+        JsonElement { ValueKind: JsonValueKind.True } => "true",
+        JsonElement { ValueKind: JsonValueKind.False } => "false",
+        JsonElement { ValueKind: JsonValueKind.Number } element => element.GetRawText(),
+        _ => null
+    };
+
+    private static double? GetNumber(object? value) =>
+        value is JsonElement { ValueKind: JsonValueKind.Number } element ? element.GetDouble() : null;
+}
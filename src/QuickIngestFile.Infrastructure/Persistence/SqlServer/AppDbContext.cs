@@ -1,6 +1,8 @@
 namespace QuickIngestFile.Infrastructure.Persistence.SqlServer;
 
+using System.Linq.Expressions;
 using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Query.SqlExpressions;
 using QuickIngestFile.Domain.Entities;
 
 /// <summary>
@@ -15,11 +17,35 @@ public sealed class AppDbContext : DbContext
     public DbSet<ImportJob> ImportJobs => Set<ImportJob>();
     public DbSet<ImportedRecord> ImportedRecords => Set<ImportedRecord>();
     public DbSet<FileSchema> FileSchemas => Set<FileSchema>();
+    public DbSet<ImportFailure> ImportFailures => Set<ImportFailure>();
+    public DbSet<ImportProfile> ImportProfiles => Set<ImportProfile>();
+    public DbSet<RecordEdit> RecordEdits => Set<RecordEdit>();
+
+    /// <summary>
+    /// Text value at a JSON path (JSON_VALUE on SQL Server, json_extract on SQLite). Query-only.
+    /// </summary>
+    public static string? JsonValue(string json, string path) =>
+        throw new NotSupportedException("Only usable in LINQ queries");
+
+    /// <summary>
+    /// Numeric value at a JSON path, null when not a number. Query-only.
+    /// </summary>
+    public static double? JsonNumber(string json, string path) =>
+        throw new NotSupportedException("Only usable in LINQ queries");
+
+    /// <summary>
+    /// Time between two timestamps, for ordering only: milliseconds on SQL Server, days on SQLite. Query-only.
+    /// </summary>
+    public static double? ElapsedTime(DateTime? from, DateTime? to) =>
+        throw new NotSupportedException("Only usable in LINQ queries");
 
     protected override void OnModelCreating(ModelBuilder modelBuilder)
     {
         base.OnModelCreating(modelBuilder);
 
+        ConfigureJsonFunctions(modelBuilder);
+        ConfigureDateFunctions(modelBuilder);
+
         // ImportJob configuration
         modelBuilder.Entity<ImportJob>(entity =>
         {
@@ -28,6 +54,8 @@ public sealed class AppDbContext : DbContext
             entity.Property(e => e.FileName).HasMaxLength(500).IsRequired();
             entity.Property(e => e.FileType).HasMaxLength(50).IsRequired();
             entity.Property(e => e.Status).HasConversion<string>().HasMaxLength(50);
+            entity.Property(e => e.Mode).HasConversion<string>().HasMaxLength(50);
+            entity.Property(e => e.PreviousStatus).HasConversion<string>().HasMaxLength(50);
             entity.Property(e => e.ErrorMessage).HasMaxLength(2000);
             entity.HasIndex(e => e.CreatedAt);
             entity.HasIndex(e => e.Status);
@@ -52,5 +80,96 @@ public sealed class AppDbContext : DbContext
             entity.Property(e => e.ColumnsJson).IsRequired();
             entity.HasIndex(e => e.ImportJobId).IsUnique();
         });
+
+        // ImportFailure configuration
+        modelBuilder.Entity<ImportFailure>(entity =>
+        {
+            entity.ToTable("ImportFailures");
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.ErrorMessage).HasMaxLength(ImportFailure.MaxErrorMessageLength).IsRequired();
+            entity.Property(e => e.RawDataJson).IsRequired();
+            entity.HasIndex(e => new { e.ImportJobId, e.RowNumber });
+        });
+
+        // ImportProfile configuration
+        modelBuilder.Entity<ImportProfile>(entity =>
+        {
+            entity.ToTable("ImportProfiles");
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Name).HasMaxLength(200).IsRequired();
+            entity.Property(e => e.FileNamePattern).HasMaxLength(500).IsRequired();
+            entity.Property(e => e.OptionsJson).IsRequired();
+            entity.Property(e => e.ColumnsJson).IsRequired();
+            entity.HasIndex(e => e.Name).IsUnique();
+        });
+
+        // RecordEdit configuration
+        modelBuilder.Entity<RecordEdit>(entity =>
+        {
+            entity.ToTable("RecordEdits");
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Action).HasConversion<string>().HasMaxLength(50);
+            entity.Property(e => e.EditedBy).HasMaxLength(200).IsRequired();
+            entity.Property(e => e.ChangesJson).IsRequired();
+            entity.HasIndex(e => new { e.ImportJobId, e.CreatedAt });
+            entity.HasIndex(e => e.RecordId);
+        });
+    }
+
+    private void ConfigureJsonFunctions(ModelBuilder modelBuilder)
+    {
+        // SQLite's json_extract returns native numbers; SQL Server's JSON_VALUE returns text and needs converting
+        var isSqlite = Database.IsSqlite();
+
+        modelBuilder.HasDbFunction(typeof(AppDbContext).GetMethod(nameof(JsonValue))!)
+            .HasTranslation(args => new SqlFunctionExpression(
+                isSqlite ? "json_extract" : "JSON_VALUE",
+                args,
+                nullable: true,
+                argumentsPropagateNullability: [true, false],
+                typeof(string),
+                null));
+
+        modelBuilder.HasDbFunction(typeof(AppDbContext).GetMethod(nameof(JsonNumber))!)
+            .HasTranslation(args => isSqlite
+                ? new SqlFunctionExpression(
+                    "json_extract",
+                    args,
+                    nullable: true,
+                    argumentsPropagateNullability: [true, false],
+                    typeof(double),
+                    null)
+                : new SqlFunctionExpression(
+                    "TRY_CONVERT",
+                    [
+                        new SqlFragmentExpression("float"),
+                        new SqlFunctionExpression("JSON_VALUE", args, true, [true, false], typeof(string), null)
+                    ],
+                    nullable: true,
+                    argumentsPropagateNullability: [false, true],
+                    typeof(double),
+                    null));
+    }
+
+    private void ConfigureDateFunctions(ModelBuilder modelBuilder)
+    {
+        // SQLite stores dates as text, so compare their Julian day numbers instead
+        var isSqlite = Database.IsSqlite();
+
+        modelBuilder.HasDbFunction(typeof(AppDbContext).GetMethod(nameof(ElapsedTime))!)
+            .HasTranslation(args => isSqlite
+                ? new SqlBinaryExpression(
+                    ExpressionType.Subtract,
+                    new SqlFunctionExpression("julianday", [args[1]], true, [true], typeof(double), null),
+                    new SqlFunctionExpression("julianday", [args[0]], true, [true], typeof(double), null),
+                    typeof(double),
+                    null)
+                : new SqlFunctionExpression(
+                    "DATEDIFF_BIG",
+                    [new SqlFragmentExpression("millisecond"), args[0], args[1]],
+                    nullable: true,
+                    argumentsPropagateNullability: [false, true, true],
+                    typeof(double),
+                    null));
     }
 }
@@ -0,0 +1,131 @@
+namespace QuickIngestFile.Infrastructure.Persistence.SqlServer;
+
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Metadata;
+using Microsoft.EntityFrameworkCore.Migrations;
+using Microsoft.EntityFrameworkCore.Migrations.Operations;
+using Microsoft.EntityFrameworkCore.Storage;
+
+/// <summary>
+/// Brings an existing SQL Server or SQLite database up to the current model. EnsureCreated only creates
+/// the schema of an empty database, so tables and columns added since are created here.
+/// Nothing is ever dropped or altered.
+/// </summary>
+public static class SchemaUpgrader
+{
+    /// <summary>
+    /// Create the database if needed, then add the tables, columns and indexes it is missing.
+    /// Columns added to tables that already hold rows get the value a new entity starts with.
+    /// </summary>
+    public static async Task EnsureSchemaAsync(this AppDbContext context, CancellationToken cancellationToken = default)
+    {
+        if (await context.Database.EnsureCreatedAsync(cancellationToken))
+            return;
+
+        var existing = await GetColumnsAsync(context, cancellationToken);
+        var model = context.GetService<IDesignTimeModel>().Model;
+        var relationalModel = model.GetRelationalModel();
+
+        var operations = new List<MigrationOperation>();
+        var addedColumns = new Dictionary<string, HashSet<string>>(StringComparer.OrdinalIgnoreCase);
+
+        // Diffing from nothing yields the operations that create the whole schema; keep the missing parts
+        foreach (var operation in context.GetService<IMigrationsModelDiffer>().GetDifferences(null, relationalModel))
+        {
+            switch (operation)
+            {
+                case CreateTableOperation table when !existing.ContainsKey(table.Name):
+                    operations.Add(table);
+                    addedColumns[table.Name] = table.Columns.Select(c => c.Name).ToHashSet(StringComparer.OrdinalIgnoreCase);
+                    break;
+
+                case CreateTableOperation table:
+                    foreach (var column in table.Columns.Where(c => !existing[table.Name].Contains(c.Name)))
+                    {
+                        column.Table = table.Name;
+                        column.Schema = table.Schema;
+                        if (!column.IsNullable && column.DefaultValue is null && column.DefaultValueSql is null)
+                            column.DefaultValue = GetInitialValue(relationalModel, table, column);
+
+                        operations.Add(column);
+                        addedColumns.TryAdd(table.Name, new HashSet<string>(StringComparer.OrdinalIgnoreCase));
+                        addedColumns[table.Name].Add(column.Name);
+                    }
+                    break;
+
+                case CreateIndexOperation index
+                    when addedColumns.TryGetValue(index.Table, out var columns) && index.Columns.Any(columns.Contains):
+                    operations.Add(index);
+                    break;
+            }
+        }
+
+        if (operations.Count == 0)
+            return;
+
+        var commands = context.GetService<IMigrationsSqlGenerator>().Generate(operations, model);
+        await context.GetService<IMigrationCommandExecutor>().ExecuteNonQueryAsync(
+            commands, context.GetService<IRelationalConnection>(), cancellationToken);
+    }
+
+    /// <summary>
+    /// Columns of each table in the database, by table name.
+    /// </summary>
+    private static async Task<Dictionary<string, HashSet<string>>> GetColumnsAsync(
+        AppDbContext context,
+        CancellationToken cancellationToken)
+    {
+        var sql = context.Database.IsSqlite()
+            ? """
+              SELECT m.name AS TableName, p.name AS ColumnName
+              FROM sqlite_master AS m JOIN pragma_table_info(m.name) AS p
+              WHERE m.type = 'table'
+              """
+            : """
+              SELECT TABLE_NAME AS TableName, COLUMN_NAME AS ColumnName
+              FROM INFORMATION_SCHEMA.COLUMNS
+              WHERE TABLE_SCHEMA = SCHEMA_NAME()
+              """;
+
+        var columns = await context.Database.SqlQueryRaw<TableColumn>(sql).ToListAsync(cancellationToken);
+
+        return columns
+            .GroupBy(c => c.TableName, StringComparer.OrdinalIgnoreCase)
+            .ToDictionary(
+                g => g.Key,
+                g => g.Select(c => c.ColumnName).ToHashSet(StringComparer.OrdinalIgnoreCase),
+                StringComparer.OrdinalIgnoreCase);
+    }
+
+    /// <summary>
+    /// Value for existing rows of a new required column: what the property holds on a newly constructed entity,
+    /// as stored, or the column type's default when the entity leaves it empty.
+    /// </summary>
+    private static object GetInitialValue(IRelationalModel relationalModel, CreateTableOperation table, AddColumnOperation column)
+    {
+        var property = relationalModel.FindTable(table.Name, table.Schema)?
+            .FindColumn(column.Name)?
+            .PropertyMappings.First().Property;
+
+        object? value = null;
+        if (property?.PropertyInfo is { } propertyInfo && !property.DeclaringType.ClrType.IsAbstract)
+        {
+            var entity = Activator.CreateInstance(property.DeclaringType.ClrType, nonPublic: true);
+            value = propertyInfo.GetValue(entity);
+
+            var converter = property.GetTypeMapping().Converter;
+            if (value is not null && converter is not null)
+                value = converter.ConvertToProvider(value);
+        }
+
+        return value
+            ?? (column.ClrType == typeof(string) ? string.Empty : Activator.CreateInstance(column.ClrType)!);
+    }
+
+    private sealed class TableColumn
+    {
+        public string TableName { get; set; } = string.Empty;
+        public string ColumnName { get; set; } = string.Empty;
+    }
+}
@@ -0,0 +1,132 @@
+namespace QuickIngestFile.Infrastructure.Persistence.SqlServer;
+
+using EFCore.BulkExtensions;
+using Microsoft.EntityFrameworkCore;
+using QuickIngestFile.Domain.Common;
+using QuickIngestFile.Domain.Entities;
+using QuickIngestFile.Domain.Repositories;
+
+/// <summary>
+/// SQL Server implementation of ImportFailure repository.
+/// </summary>
+public sealed class SqlImportFailureRepository(AppDbContext context) : IImportFailureRepository
+{
+    public async Task<ImportFailure?> GetByIdAsync(Guid id, CancellationToken cancellationToken = default)
+    {
+        return await context.ImportFailures.FindAsync([id], cancellationToken);
+    }
+
+    public async Task<IReadOnlyList<ImportFailure>> GetAllAsync(CancellationToken cancellationToken = default)
+    {
+        return await context.ImportFailures
+            .OrderBy(f => f.RowNumber)
+            .ToListAsync(cancellationToken);
+    }
+
+    public async Task<PagedResult<ImportFailure>> GetPagedAsync(int page, int pageSize, CancellationToken cancellationToken = default)
+    {
+        var totalCount = await context.ImportFailures.CountAsync(cancellationToken);
+
+        var items = await context.ImportFailures
+            .OrderBy(f => f.RowNumber)
+            .Skip((page - 1) * pageSize)
+            .Take(pageSize)
+            .ToListAsync(cancellationToken);
+
+        return new PagedResult<ImportFailure>(items, totalCount, page, pageSize);
+    }
+
+    public async Task<ImportFailure> AddAsync(ImportFailure entity, CancellationToken cancellationToken = default)
+    {
+        await context.ImportFailures.AddAsync(entity, cancellationToken);
+        return entity;
+    }
+
+    public async Task AddRangeAsync(IEnumerable<ImportFailure> entities, CancellationToken cancellationToken = default)
+    {
+        await context.ImportFailures.AddRangeAsync(entities, cancellationToken);
+    }
+
+    public Task UpdateAsync(ImportFailure entity, CancellationToken cancellationToken = default)
+    {
+        context.ImportFailures.Update(entity);
+        return Task.CompletedTask;
+    }
+
+    public async Task DeleteAsync(Guid id, CancellationToken cancellationToken = default)
+    {
+        var entity = await context.ImportFailures.FindAsync([id], cancellationToken);
+        if (entity is not null)
+        {
+            context.ImportFailures.Remove(entity);
+        }
+    }
+
+    public async Task<int> CountAsync(CancellationToken cancellationToken = default)
+    {
+        return await context.ImportFailures.CountAsync(cancellationToken);
+    }
+
+    public async Task<IReadOnlyList<ImportFailure>> GetByImportJobIdAsync(Guid importJobId, CancellationToken cancellationToken = default)
+    {
+        return await context.ImportFailures
+            .Where(f => f.ImportJobId == importJobId)
+            .OrderBy(f => f.RowNumber)
+            .ToListAsync(cancellationToken);
+    }
+
+    public async Task<PagedResult<ImportFailure>> GetPagedByImportJobIdAsync(Guid importJobId, int page, int pageSize, CancellationToken cancellationToken = default)
+    {
+        var query = context.ImportFailures.Where(f => f.ImportJobId == importJobId);
+
+        var totalCount = await query.CountAsync(cancellationToken);
+
+        var items = await query
+            .OrderBy(f => f.RowNumber)
+            .Skip((page - 1) * pageSize)
+            .Take(pageSize)
+            .ToListAsync(cancellationToken);
+
+        return new PagedResult<ImportFailure>(items, totalCount, page, pageSize);
+    }
+
+    public async Task BulkInsertAsync(IEnumerable<ImportFailure> failures, CancellationToken cancellationToken = default)
+    {
+        var failureList = failures.ToList();
+        if (failureList.Count == 0)
+            return;
+
+        await context.BulkInsertAsync(failureList, cancellationToken: cancellationToken);
+    }
+
+    public async Task CommitStagedAsync(Guid stagingId, Guid importJobId, CancellationToken cancellationToken = default)
+    {
+        // One transaction, so readers never see half a load; the retrying strategy replays it as a whole
+        var strategy = context.Database.CreateExecutionStrategy();
+        await strategy.ExecuteAsync(async () =>
+        {
+            await using var transaction = await context.Database.BeginTransactionAsync(cancellationToken);
+
+            await DeleteByImportJobIdAsync(importJobId, cancellationToken);
+            await context.ImportFailures
+                .Where(f => f.ImportJobId == stagingId)
+                .ExecuteUpdateAsync(set => set.SetProperty(f => f.ImportJobId, importJobId), cancellationToken);
+
+            await transaction.CommitAsync(cancellationToken);
+        });
+    }
+
+    public async Task<int> CountByImportJobIdAsync(Guid importJobId, CancellationToken cancellationToken = default)
+    {
+        return await context.ImportFailures
+            .Where(f => f.ImportJobId == importJobId)
+            .CountAsync(cancellationToken);
+    }
+
+    public async Task DeleteByImportJobIdAsync(Guid importJobId, CancellationToken cancellationToken = default)
+    {
+        await context.ImportFailures
+            .Where(f => f.ImportJobId == importJobId)
+            .ExecuteDeleteAsync(cancellationToken);
+    }
+}
@@ -82,4 +82,61 @@ public sealed class SqlImportJobRepository(AppDbContext context) : IImportJobRep
             .OrderByDescending(j => j.CreatedAt)
             .FirstOrDefaultAsync(cancellationToken);
     }
+
+    public async Task<PagedResult<ImportJob>> QueryAsync(ImportJobQuery jobQuery, int page, int pageSize, CancellationToken cancellationToken = default)
+    {
+        var query = context.ImportJobs.AsNoTracking();
+
+        if (jobQuery.Statuses.Count > 0)
+            query = query.Where(j => jobQuery.Statuses.Contains(j.Status));
+
+        if (!string.IsNullOrWhiteSpace(jobQuery.FileType))
+        {
+            var fileType = jobQuery.FileType.ToLower();
+            query = query.Where(j => j.FileType.ToLower() == fileType);
+        }
+
+        if (jobQuery.CreatedFrom is not null)
+            query = query.Where(j => j.CreatedAt >= jobQuery.CreatedFrom);
+
+        if (jobQuery.CreatedBefore is not null)
+            query = query.Where(j => j.CreatedAt < jobQuery.CreatedBefore);
+
+        if (!string.IsNullOrWhiteSpace(jobQuery.FileName))
+        {
+            var fileName = jobQuery.FileName.ToLower();
+            query = query.Where(j => j.FileName.ToLower().Contains(fileName));
+        }
+
+        var totalCount = await query.CountAsync(cancellationToken);
+
+        var items = await ApplySort(query, jobQuery)
+            .Skip((page - 1) * pageSize)
+            .Take(pageSize)
+            .ToListAsync(cancellationToken);
+
+        return new PagedResult<ImportJob>(items, totalCount, page, pageSize);
+    }
+
+    private static IQueryable<ImportJob> ApplySort(IQueryable<ImportJob> query, ImportJobQuery jobQuery)
+    {
+        // Creation time breaks ties so pagination stays stable
+        var ordered = (jobQuery.SortBy, jobQuery.Descending) switch
+        {
+            (ImportJobSortField.FileName, false) => query.OrderBy(j => j.FileName),
+            (ImportJobSortField.FileName, true) => query.OrderByDescending(j => j.FileName),
+            (ImportJobSortField.FileSize, false) => query.OrderBy(j => j.FileSize),
+            (ImportJobSortField.FileSize, true) => query.OrderByDescending(j => j.FileSize),
+            (ImportJobSortField.TotalRecords, false) => query.OrderBy(j => j.TotalRecords),
+            (ImportJobSortField.TotalRecords, true) => query.OrderByDescending(j => j.TotalRecords),
+            (ImportJobSortField.Duration, false) => query.OrderBy(j => AppDbContext.ElapsedTime(j.StartedAt, j.CompletedAt)),
+            (ImportJobSortField.Duration, true) => query.OrderByDescending(j => AppDbContext.ElapsedTime(j.StartedAt, j.CompletedAt)),
+            (_, false) => query.OrderBy(j => j.CreatedAt),
+            (_, true) => query.OrderByDescending(j => j.CreatedAt)
+        };
+
+        return jobQuery.SortBy == ImportJobSortField.CreatedAt
+            ? ordered
+            : ordered.ThenByDescending(j => j.CreatedAt);
+    }
 }
@@ -0,0 +1,72 @@
+namespace QuickIngestFile.Infrastructure.Persistence.SqlServer;
+
+using Microsoft.EntityFrameworkCore;
+using QuickIngestFile.Domain.Common;
+using QuickIngestFile.Domain.Entities;
+using QuickIngestFile.Domain.Repositories;
+
+/// <summary>
+/// SQL Server implementation of ImportProfile repository.
+/// </summary>
+public sealed class SqlImportProfileRepository(AppDbContext context) : IImportProfileRepository
+{
+    public async Task<ImportProfile?> GetByIdAsync(Guid id, CancellationToken cancellationToken = default)
+    {
+        return await context.ImportProfiles.FindAsync([id], cancellationToken);
+    }
+
+    public async Task<IReadOnlyList<ImportProfile>> GetAllAsync(CancellationToken cancellationToken = default)
+    {
+        return await context.ImportProfiles.ToListAsync(cancellationToken);
+    }
+
+    public async Task<PagedResult<ImportProfile>> GetPagedAsync(int page, int pageSize, CancellationToken cancellationToken = default)
+    {
+        var totalCount = await context.ImportProfiles.CountAsync(cancellationToken);
+
+        var items = await context.ImportProfiles
+            .Skip((page - 1) * pageSize)
+            .Take(pageSize)
+            .ToListAsync(cancellationToken);
+
+        return new PagedResult<ImportProfile>(items, totalCount, page, pageSize);
+    }
+
+    public async Task<ImportProfile> AddAsync(ImportProfile entity, CancellationToken cancellationToken = default)
+    {
+        await context.ImportProfiles.AddAsync(entity, cancellationToken);
+        return entity;
+    }
+
+    public async Task AddRangeAsync(IEnumerable<ImportProfile> entities, CancellationToken cancellationToken = default)
+    {
+        await context.ImportProfiles.AddRangeAsync(entities, cancellationToken);
+    }
+
+    public Task UpdateAsync(ImportProfile entity, CancellationToken cancellationToken = default)
+    {
+        context.ImportProfiles.Update(entity);
+        return Task.CompletedTask;
+    }
+
+    public async Task DeleteAsync(Guid id, CancellationToken cancellationToken = default)
+    {
+        var entity = await context.ImportProfiles.FindAsync([id], cancellationToken);
+        if (entity is not null)
+        {
+            context.ImportProfiles.Remove(entity);
+        }
+    }
+
+    public async Task<int> CountAsync(CancellationToken cancellationToken = default)
+    {
+        return await context.ImportProfiles.CountAsync(cancellationToken);
+    }
+
+    public async Task<ImportProfile?> GetByNameAsync(string name, CancellationToken cancellationToken = default)
+    {
+        var normalized = name.ToLower();
+        return await context.ImportProfiles
+            .FirstOrDefaultAsync(p => p.Name.ToLower() == normalized, cancellationToken);
+    }
+}
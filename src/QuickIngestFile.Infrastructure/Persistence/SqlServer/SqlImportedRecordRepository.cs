@@ -1,7 +1,11 @@
 namespace QuickIngestFile.Infrastructure.Persistence.SqlServer;
 
+using System.Linq.Expressions;
+using System.Runtime.CompilerServices;
+using System.Text.Json;
 using EFCore.BulkExtensions;
 using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Query;
 using QuickIngestFile.Domain.Common;
 using QuickIngestFile.Domain.Entities;
 using QuickIngestFile.Domain.Repositories;
@@ -90,6 +94,60 @@ public sealed class SqlImportedRecordRepository(AppDbContext context) : IImporte
         return new PagedResult<ImportedRecord>(items, totalCount, page, pageSize);
     }
 
+    public async Task<PagedResult<ImportedRecord>> QueryByImportJobIdAsync(Guid importJobId, RecordQuery recordQuery, int page, int pageSize, CancellationToken cancellationToken = default)
+    {
+        var query = context.ImportedRecords
+            .AsNoTracking()
+            .Where(r => r.ImportJobId == importJobId);
+
+        if (recordQuery.Search is not null)
+            query = ApplySearch(query, recordQuery.Search);
+
+        foreach (var filter in recordQuery.Filters)
+        {
+            query = ApplyFilter(query, filter);
+        }
+
+        var totalCount = await query.CountAsync(cancellationToken);
+
+        var items = await ApplySort(query, recordQuery.Sort)
+            .Skip((page - 1) * pageSize)
+            .Take(pageSize)
+            .ToListAsync(cancellationToken);
+
+        return new PagedResult<ImportedRecord>(items, totalCount, page, pageSize);
+    }
+
+    public async IAsyncEnumerable<ImportedRecord> StreamByImportJobIdAsync(Guid importJobId, RecordQuery? recordQuery = null, [EnumeratorCancellation] CancellationToken cancellationToken = default)
+    {
+        var query = context.ImportedRecords
+            .AsNoTracking()
+            .Where(r => r.ImportJobId == importJobId);
+
+        if (recordQuery?.Search is not null)
+            query = ApplySearch(query, recordQuery.Search);
+
+        foreach (var filter in recordQuery?.Filters ?? [])
+        {
+            query = ApplyFilter(query, filter);
+        }
+
+        await foreach (var record in ApplySort(query, recordQuery?.Sort).AsAsyncEnumerable().WithCancellation(cancellationToken))
+        {
+            yield return record;
+        }
+    }
+
+    public async Task<IReadOnlyList<ImportedRecord>> GetByRowNumbersAsync(Guid importJobId, IReadOnlyCollection<int> rowNumbers, CancellationToken cancellationToken = default)
+    {
+        var numbers = rowNumbers.ToList();
+
+        return await context.ImportedRecords
+            .AsNoTracking()
+            .Where(r => r.ImportJobId == importJobId && numbers.Contains(r.RowNumber))
+            .ToListAsync(cancellationToken);
+    }
+
     public async Task BulkInsertAsync(IEnumerable<ImportedRecord> records, CancellationToken cancellationToken = default)
     {
         var recordList = records.ToList();
@@ -99,6 +157,49 @@ public sealed class SqlImportedRecordRepository(AppDbContext context) : IImporte
         await context.BulkInsertAsync(recordList, cancellationToken: cancellationToken);
     }
 
+    public async Task CommitStagedAsync(Guid stagingId, Guid importJobId, bool replace, CancellationToken cancellationToken = default)
+    {
+        // One transaction, so readers never see half a load; the retrying strategy replays it as a whole
+        var strategy = context.Database.CreateExecutionStrategy();
+        await strategy.ExecuteAsync(async () =>
+        {
+            await using var transaction = await context.Database.BeginTransactionAsync(cancellationToken);
+
+            if (replace)
+                await DeleteByImportJobIdAsync(importJobId, cancellationToken);
+
+            var staged = context.ImportedRecords.Where(s => s.ImportJobId == stagingId);
+            var now = DateTime.UtcNow;
+
+            // Staged updates carry the row number of the record they overwrite, which keeps its ID and edits
+            await context.ImportedRecords
+                .Where(r => r.ImportJobId == importJobId && staged.Any(s => s.RowNumber == r.RowNumber))
+                .ExecuteUpdateAsync(set => set
+                    .SetProperty(
+                        r => r.DataJson,
+                        r => staged.Where(s => s.RowNumber == r.RowNumber).Select(s => s.DataJson).First())
+                    .SetProperty(r => r.UpdatedAt, now),
+                    cancellationToken);
+
+            await staged
+                .Where(s => context.ImportedRecords.Any(r => r.ImportJobId == importJobId && r.RowNumber == s.RowNumber))
+                .ExecuteDeleteAsync(cancellationToken);
+
+            await staged.ExecuteUpdateAsync(
+                set => set.SetProperty(s => s.ImportJobId, importJobId),
+                cancellationToken);
+
+            await transaction.CommitAsync(cancellationToken);
+        });
+    }
+
+    public async Task<int> GetMaxRowNumberAsync(Guid importJobId, CancellationToken cancellationToken = default)
+    {
+        return await context.ImportedRecords
+            .Where(r => r.ImportJobId == importJobId)
+            .MaxAsync(r => (int?)r.RowNumber, cancellationToken) ?? 0;
+    }
+
     public async Task DeleteByImportJobIdAsync(Guid importJobId, CancellationToken cancellationToken = default)
     {
         await context.ImportedRecords
@@ -113,13 +214,97 @@ public sealed class SqlImportedRecordRepository(AppDbContext context) : IImporte
             .CountAsync(cancellationToken);
     }
 
-    public async Task<IReadOnlyList<ImportedRecord>> SearchAsync(Guid importJobId, string searchTerm, CancellationToken cancellationToken = default)
+    /// <summary>
+    /// Match records where any searched column contains the term, ignoring case.
+    /// Values are read from the JSON so keys and escaping in the stored text never match.
+    /// </summary>
+    private static IQueryable<ImportedRecord> ApplySearch(IQueryable<ImportedRecord> query, RecordSearch search)
     {
-        // Search in JSON column - works with SQL Server and PostgreSQL
-        return await context.ImportedRecords
-            .Where(r => r.ImportJobId == importJobId && r.DataJson.Contains(searchTerm))
-            .OrderBy(r => r.RowNumber)
-            .Take(100)
-            .ToListAsync(cancellationToken);
+        var term = search.Term.ToLower();
+        var record = Expression.Parameter(typeof(ImportedRecord), "r");
+        Expression? body = null;
+
+        foreach (var column in search.Columns)
+        {
+            var path = GetJsonPath(column);
+            Expression<Func<ImportedRecord, bool>> match =
+                r => AppDbContext.JsonValue(r.DataJson, path)!.ToLower().Contains(term);
+
+            var columnMatch = ReplacingExpressionVisitor.Replace(match.Parameters[0], record, match.Body);
+            body = body is null ? columnMatch : Expression.OrElse(body, columnMatch);
+        }
+
+        return body is null
+            ? query.Where(r => false)
+            : query.Where(Expression.Lambda<Func<ImportedRecord, bool>>(body, record));
     }
+
+    private static IQueryable<ImportedRecord> ApplyFilter(IQueryable<ImportedRecord> query, ColumnFilter filter)
+    {
+        var path = GetJsonPath(filter.Column);
+
+        switch (filter.Operator)
+        {
+            case FilterOperator.IsEmpty:
+                return query.Where(r => AppDbContext.JsonValue(r.DataJson, path) == null
+                    || AppDbContext.JsonValue(r.DataJson, path) == "");
+
+            case FilterOperator.Equal when filter.DataType == DataTypes.Boolean:
+                // Booleans come back as 'true'/'false' or 1/0 depending on provider; match the stored JSON instead
+                var token = $"{JsonSerializer.Serialize(filter.Column)}:{(bool.TryParse(filter.Value, out var flag) && flag ? "true" : "false")}";
+                return query.Where(r => r.DataJson.Contains(token));
+
+            case FilterOperator.Equal:
+                var value = filter.Value ?? string.Empty;
+                return query.Where(r => AppDbContext.JsonValue(r.DataJson, path) == value);
+
+            case FilterOperator.Contains:
+                var term = (filter.Value ?? string.Empty).ToLower();
+                return query.Where(r => AppDbContext.JsonValue(r.DataJson, path)!.ToLower().Contains(term));
+
+            case FilterOperator.Between when filter.IsNumeric:
+                var (min, max) = filter.GetNumberRange();
+                if (min is not null)
+                    query = query.Where(r => AppDbContext.JsonNumber(r.DataJson, path) >= min);
+                if (max is not null)
+                    query = query.Where(r => AppDbContext.JsonNumber(r.DataJson, path) <= max);
+                return query;
+
+            case FilterOperator.Between when filter.IsDate:
+                var (from, toExclusive) = filter.GetDateRange();
+                if (from is not null)
+                    query = query.Where(r => string.Compare(AppDbContext.JsonValue(r.DataJson, path), from) >= 0);
+                if (toExclusive is not null)
+                    query = query.Where(r => string.Compare(AppDbContext.JsonValue(r.DataJson, path), toExclusive) < 0);
+                return query;
+
+            default:
+                return query;
+        }
+    }
+
+    private static IQueryable<ImportedRecord> ApplySort(IQueryable<ImportedRecord> query, ColumnSort? sort)
+    {
+        if (sort is null)
+            return query.OrderBy(r => r.RowNumber);
+
+        var path = GetJsonPath(sort.Column);
+
+        // Row number breaks ties so pagination stays stable
+        if (ColumnFilter.IsNumericType(sort.DataType))
+        {
+            return sort.Descending
+                ? query.OrderByDescending(r => AppDbContext.JsonNumber(r.DataJson, path)).ThenBy(r => r.RowNumber)
+                : query.OrderBy(r => AppDbContext.JsonNumber(r.DataJson, path)).ThenBy(r => r.RowNumber);
+        }
+
+        return sort.Descending
+            ? query.OrderByDescending(r => AppDbContext.JsonValue(r.DataJson, path)).ThenBy(r => r.RowNumber)
+            : query.OrderBy(r => AppDbContext.JsonValue(r.DataJson, path)).ThenBy(r => r.RowNumber);
+    }
+
+    /// <summary>
+    /// JSON path to a top-level key; the quoted form handles spaces and punctuation in column names.
+    /// </summary>
+    private static string GetJsonPath(string column) => $"$.{JsonSerializer.Serialize(column)}";
 }
@@ -0,0 +1,93 @@
+namespace QuickIngestFile.Infrastructure.Persistence.SqlServer;
+
+using Microsoft.EntityFrameworkCore;
+using QuickIngestFile.Domain.Common;
+using QuickIngestFile.Domain.Entities;
+using QuickIngestFile.Domain.Repositories;
+
+/// <summary>
+/// SQL Server implementation of RecordEdit repository.
+/// </summary>
+public sealed class SqlRecordEditRepository(AppDbContext context) : IRecordEditRepository
+{
+    public async Task<RecordEdit?> GetByIdAsync(Guid id, CancellationToken cancellationToken = default)
+    {
+        return await context.RecordEdits.FindAsync([id], cancellationToken);
+    }
+
+    public async Task<IReadOnlyList<RecordEdit>> GetAllAsync(CancellationToken cancellationToken = default)
+    {
+        return await context.RecordEdits
+            .OrderByDescending(e => e.CreatedAt)
+            .ToListAsync(cancellationToken);
+    }
+
+    public async Task<PagedResult<RecordEdit>> GetPagedAsync(int page, int pageSize, CancellationToken cancellationToken = default)
+    {
+        var totalCount = await context.RecordEdits.CountAsync(cancellationToken);
+
+        var items = await context.RecordEdits
+            .OrderByDescending(e => e.CreatedAt)
+            .Skip((page - 1) * pageSize)
+            .Take(pageSize)
+            .ToListAsync(cancellationToken);
+
+        return new PagedResult<RecordEdit>(items, totalCount, page, pageSize);
+    }
+
+    public async Task<RecordEdit> AddAsync(RecordEdit entity, CancellationToken cancellationToken = default)
+    {
+        await context.RecordEdits.AddAsync(entity, cancellationToken);
+        return entity;
+    }
+
+    public async Task AddRangeAsync(IEnumerable<RecordEdit> entities, CancellationToken cancellationToken = default)
+    {
+        await context.RecordEdits.AddRangeAsync(entities, cancellationToken);
+    }
+
+    public Task UpdateAsync(RecordEdit entity, CancellationToken cancellationToken = default)
+    {
+        context.RecordEdits.Update(entity);
+        return Task.CompletedTask;
+    }
+
+    public async Task DeleteAsync(Guid id, CancellationToken cancellationToken = default)
+    {
+        var entity = await context.RecordEdits.FindAsync([id], cancellationToken);
+        if (entity is not null)
+        {
+            context.RecordEdits.Remove(entity);
+        }
+    }
+
+    public async Task<int> CountAsync(CancellationToken cancellationToken = default)
+    {
+        return await context.RecordEdits.CountAsync(cancellationToken);
+    }
+
+    public async Task<PagedResult<RecordEdit>> GetPagedByImportJobIdAsync(Guid importJobId, Guid? recordId, int page, int pageSize, CancellationToken cancellationToken = default)
+    {
+        var query = context.RecordEdits.Where(e => e.ImportJobId == importJobId);
+
+        if (recordId is not null)
+            query = query.Where(e => e.RecordId == recordId);
+
+        var totalCount = await query.CountAsync(cancellationToken);
+
+        var items = await query
+            .OrderByDescending(e => e.CreatedAt)
+            .Skip((page - 1) * pageSize)
+            .Take(pageSize)
+            .ToListAsync(cancellationToken);
+
+        return new PagedResult<RecordEdit>(items, totalCount, page, pageSize);
+    }
+
+    public async Task DeleteByImportJobIdAsync(Guid importJobId, CancellationToken cancellationToken = default)
+    {
+        await context.RecordEdits
+            .Where(e => e.ImportJobId == importJobId)
+            .ExecuteDeleteAsync(cancellationToken);
+    }
+}
@@ -17,11 +17,17 @@ public sealed class SqlUnitOfWork : IUnitOfWork
         ImportJobs = new SqlImportJobRepository(context);
         ImportedRecords = new SqlImportedRecordRepository(context);
         FileSchemas = new SqlFileSchemaRepository(context);
+        ImportFailures = new SqlImportFailureRepository(context);
+        ImportProfiles = new SqlImportProfileRepository(context);
+        RecordEdits = new SqlRecordEditRepository(context);
     }
 
     public IImportJobRepository ImportJobs { get; }
     public IImportedRecordRepository ImportedRecords { get; }
     public IFileSchemaRepository FileSchemas { get; }
+    public IImportFailureRepository ImportFailures { get; }
+    public IImportProfileRepository ImportProfiles { get; }
+    public IRecordEditRepository RecordEdits { get; }
 
     public async Task<int> SaveChangesAsync(CancellationToken cancellationToken = default)
     {